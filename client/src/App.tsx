@@ -9,6 +9,10 @@ import Photography from "./pages/Photography";
 import Magazine from "./pages/Magazine";
 import Academic from "./pages/Academic";
 import Search from "./pages/Search";
+import Preview from "./pages/Preview";
+import Tag from "./pages/Tag";
+import Series from "./pages/Series";
+import Albums from "./pages/Albums";
 import Admin from "./pages/Admin";
 import AdminLogin from "./pages/admin/AdminLogin";
 import Layout from "./components/Layout";
@@ -21,8 +25,13 @@ function Router() {
       
       {/* Admin routes - without Layout */}
       <Route path="/admin/photos" component={Admin} />
+      <Route path="/admin/albums" component={Admin} />
       <Route path="/admin/essays" component={Admin} />
+      <Route path="/admin/series" component={Admin} />
       <Route path="/admin/papers" component={Admin} />
+      <Route path="/admin/categories" component={Admin} />
+      <Route path="/admin/media" component={Admin} />
+      <Route path="/admin/storage" component={Admin} />
       <Route path="/admin/settings" component={Admin} />
       <Route path="/admin" component={Admin} />
       
@@ -32,9 +41,22 @@ function Router() {
           <Switch>
             <Route path="/" component={Home} />
             <Route path="/photography" component={Photography} />
+            <Route path="/photography/category/:categorySlug" component={Photography} />
+            <Route path="/photography/albums" component={Albums} />
+            <Route path="/photography/albums/:slug" component={Albums} />
+            <Route path="/photography/albums/:slug/:photoSlug" component={Albums} />
+            <Route path="/photography/:slug" component={Photography} />
             <Route path="/magazine" component={Magazine} />
+            <Route path="/magazine/category/:categorySlug" component={Magazine} />
+            <Route path="/magazine/series" component={Series} />
+            <Route path="/magazine/series/:slug" component={Series} />
+            <Route path="/magazine/:slug" component={Magazine} />
             <Route path="/academic" component={Academic} />
+            <Route path="/academic/category/:categorySlug" component={Academic} />
+            <Route path="/academic/:slug" component={Academic} />
             <Route path="/search" component={Search} />
+            <Route path="/tags/:slug" component={Tag} />
+            <Route path="/preview/:token" component={Preview} />
             <Route path="/404" component={NotFound} />
             <Route component={NotFound} />
           </Switch>
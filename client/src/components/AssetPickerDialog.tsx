@@ -0,0 +1,149 @@
+import { useState } from "react";
+import type { inferRouterOutputs } from "@trpc/server";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { formatBytes } from "@/lib/utils";
+import { FileText, Search } from "lucide-react";
+import type { AppRouter } from "../../../server/routers";
+import type { UploadKind } from "@shared/uploads";
+
+export type LibraryAsset = inferRouterOutputs<AppRouter>["assets"]["list"]["items"][number];
+
+const PAGE_SIZE = 24;
+
+type AssetPickerDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kind: UploadKind;
+  onSelect: (asset: LibraryAsset) => void;
+};
+
+/** A small preview of an asset: the image itself, or an icon for PDFs. */
+export function AssetThumbnail({ asset, className = "" }: { asset: LibraryAsset; className?: string }) {
+  return (
+    <div className={`bg-neutral-800 overflow-hidden flex items-center justify-center ${className}`}>
+      {asset.kind === "image" ? (
+        <img
+          src={asset.url}
+          alt={asset.filename}
+          loading="lazy"
+          className="w-full h-full object-cover"
+          style={asset.placeholder ? { backgroundImage: `url(${asset.placeholder})`, backgroundSize: "cover" } : undefined}
+        />
+      ) : (
+        <FileText className="h-8 w-8 text-neutral-500" />
+      )}
+    </div>
+  );
+}
+
+/** Choose a previously uploaded file instead of uploading it again. */
+export function AssetPickerDialog({ open, onOpenChange, kind, onSelect }: AssetPickerDialogProps) {
+  const [query, setQuery] = useState("");
+  const [page, setPage] = useState(0);
+
+  const { data, isLoading } = trpc.assets.list.useQuery(
+    { kind, query: query || undefined, limit: PAGE_SIZE, offset: page * PAGE_SIZE },
+    { enabled: open, placeholderData: (previous) => previous }
+  );
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  const choose = (asset: LibraryAsset) => {
+    onSelect(asset);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl bg-neutral-900 border-neutral-800">
+        <DialogHeader>
+          <DialogTitle className="text-white">
+            {kind === "image" ? "Choose Image" : "Choose PDF"}
+          </DialogTitle>
+          <DialogDescription className="text-neutral-400">
+            Reuse a file from the media library
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-neutral-500" />
+          <Input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setPage(0);
+            }}
+            placeholder="Search by file name..."
+            className="pl-9 bg-neutral-800 border-neutral-700 text-white"
+          />
+        </div>
+
+        <div className="max-h-[55vh] overflow-y-auto">
+          {isLoading ? (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+              {Array.from({ length: 8 }, (_, i) => (
+                <div key={i} className="aspect-square rounded-lg bg-neutral-800 animate-pulse" />
+              ))}
+            </div>
+          ) : data && data.items.length > 0 ? (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+              {data.items.map((asset) => (
+                <button
+                  key={asset.id}
+                  type="button"
+                  onClick={() => choose(asset)}
+                  className="group text-left rounded-lg overflow-hidden border border-neutral-800 hover:border-white transition-colors"
+                >
+                  <AssetThumbnail asset={asset} className="aspect-square" />
+                  <div className="p-2">
+                    <p className="text-xs text-white truncate">{asset.filename}</p>
+                    <p className="text-xs text-neutral-500">
+                      {asset.width && asset.height ? `${asset.width}×${asset.height} · ` : ""}
+                      {formatBytes(asset.size)}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="py-12 text-center text-neutral-500">
+              {query ? "No files match your search" : "The media library is empty"}
+            </p>
+          )}
+        </div>
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-between text-sm text-neutral-400">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => p - 1)}
+              disabled={page === 0}
+              className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+            >
+              Previous
+            </Button>
+            <span>Page {page + 1} of {pageCount}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page + 1 >= pageCount}
+              className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+import { motion } from "framer-motion";
+import { Link } from "wouter";
+import { trpc } from "@/lib/trpc";
+import type { CategorySection } from "@shared/categories";
+
+type CategoryNavProps = {
+  section: CategorySection;
+  basePath: string;
+  activeSlug?: string;
+};
+
+const chipClass = (isActive: boolean) =>
+  `font-nav text-xs md:text-sm tracking-wider px-3 md:px-4 py-2 rounded-full transition-all duration-300 whitespace-nowrap flex-shrink-0 ${
+    isActive ? "bg-white text-black" : "bg-white/10 text-white/70 hover:bg-white/20 hover:text-white"
+  }`;
+
+/**
+ * Category chips for a public section, in the order set on the admin
+ * Categories page. Each chip links to that category's landing page.
+ */
+export function CategoryNav({ section, basePath, activeSlug }: CategoryNavProps) {
+  const { data: categories } = trpc.categories.list.useQuery({ section }, { staleTime: 60_000 });
+  const visible = categories?.filter(category => category.itemCount > 0) ?? [];
+
+  if (visible.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.8, delay: 0.1 }}
+      className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
+    >
+      <div className="flex gap-2 md:gap-3 overflow-x-auto pb-2 -mx-4 px-4 md:mx-0 md:px-0 scrollbar-hide">
+        <Link href={basePath} className={chipClass(!activeSlug)}>
+          All
+        </Link>
+        {visible.map(category => (
+          <Link
+            key={category.id}
+            href={`${basePath}/category/${category.slug}`}
+            className={chipClass(category.slug === activeSlug)}
+          >
+            {category.name}
+          </Link>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
+
+type CategoryHeaderProps = {
+  eyebrow: string;
+  category: { name: string; description: string | null; coverImageUrl: string | null };
+};
+
+/** Title block for a category landing page, over the category cover when there is one. */
+export function CategoryHeader({ eyebrow, category }: CategoryHeaderProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.8 }}
+      className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
+    >
+      <div className="relative overflow-hidden rounded-xl">
+        {category.coverImageUrl && (
+          <>
+            <img
+              src={category.coverImageUrl}
+              alt={category.name}
+              className="absolute inset-0 w-full h-full object-cover"
+            />
+            <div className="absolute inset-0 bg-gradient-to-t from-background via-background/70 to-background/20" />
+          </>
+        )}
+        <div className={`relative ${category.coverImageUrl ? "px-6 md:px-10 pt-24 md:pt-32 pb-6 md:pb-10" : ""}`}>
+          <span className="font-nav text-xs tracking-widest uppercase text-white/50 mb-3 block">{eyebrow}</span>
+          <h1 className="font-display text-3xl md:text-5xl lg:text-6xl font-semibold text-white mb-3 md:mb-4">
+            {category.name}
+          </h1>
+          {category.description && (
+            <p className="font-body text-white/60 max-w-2xl">{category.description}</p>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
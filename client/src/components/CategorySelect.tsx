@@ -0,0 +1,46 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import type { CategorySection } from "@shared/categories";
+
+type CategorySelectProps = {
+  id?: string;
+  section: CategorySection;
+  value: number | null;
+  onChange: (categoryId: number | null) => void;
+};
+
+// Radix Select does not allow an empty string as an item value
+const NONE = "none";
+
+/**
+ * Category picker for the admin forms. Only the categories managed on the
+ * Categories page for this section can be chosen.
+ */
+export function CategorySelect({ id, section, value, onChange }: CategorySelectProps) {
+  const { data: categories } = trpc.categories.list.useQuery({ section }, { staleTime: 60_000 });
+
+  return (
+    <Select
+      value={value === null ? NONE : String(value)}
+      onValueChange={(next) => onChange(next === NONE ? null : Number(next))}
+    >
+      <SelectTrigger id={id} className="w-full bg-neutral-800 border-neutral-700 text-white">
+        <SelectValue placeholder="Uncategorized" />
+      </SelectTrigger>
+      <SelectContent className="bg-neutral-900 border-neutral-700 text-neutral-200">
+        <SelectItem value={NONE}>Uncategorized</SelectItem>
+        {categories?.map(category => (
+          <SelectItem key={category.id} value={String(category.id)}>
+            {category.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useRef } from "react";
+
+interface InfiniteScrollTriggerProps {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => unknown;
+  /** Items loaded so far and across all pages, for the progress line. */
+  loaded: number;
+  total: number;
+}
+
+/**
+ * Placed after an infinite list: loads the next page as it nears the
+ * viewport. The button covers browsers without IntersectionObserver and
+ * readers who reach the end faster than the page loads.
+ */
+export function InfiniteScrollTrigger({
+  hasNextPage,
+  isFetchingNextPage,
+  fetchNextPage,
+  loaded,
+  total,
+}: InfiniteScrollTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || isFetchingNextPage || typeof IntersectionObserver === "undefined") return;
+
+    // Start loading well before the end is visible
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) fetchNextPage();
+      },
+      { rootMargin: "800px 0px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  if (!hasNextPage) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex flex-col items-center gap-3 py-12">
+      {isFetchingNextPage ? (
+        <div className="w-5 h-5 border-2 border-white/30 border-t-white/80 rounded-full animate-spin" />
+      ) : (
+        <button
+          onClick={() => fetchNextPage()}
+          className="font-nav text-sm tracking-wider px-4 py-2 rounded-full bg-white/10 text-white/70 hover:bg-white/20 hover:text-white transition-colors"
+        >
+          Load more
+        </button>
+      )}
+      <p className="font-nav text-xs text-white/30">
+        {loaded} of {total}
+      </p>
+    </div>
+  );
+}
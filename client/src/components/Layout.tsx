@@ -9,6 +9,7 @@ import { useState, useEffect } from "react";
 import { Link, useLocation } from "wouter";
 import { Search, Menu, X } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import QuickSearch from "@/components/QuickSearch";
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -76,11 +77,7 @@ export default function Layout({ children }: LayoutProps) {
                   </span>
                 </Link>
               ))}
-              <Link href="/search">
-                <span className="text-white/70 hover:text-white transition-colors p-2">
-                  <Search size={18} />
-                </span>
-              </Link>
+              <QuickSearch />
             </div>
 
             {/* Mobile Menu Button */}
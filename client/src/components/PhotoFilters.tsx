@@ -0,0 +1,115 @@
+import { motion } from "framer-motion";
+import { X } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import type { FocalRangeId } from "@shared/photoMetadata";
+
+export type PhotoFilterState = {
+  camera?: string;
+  lens?: string;
+  focalRange?: FocalRangeId;
+};
+
+type PhotoFiltersProps = {
+  value: PhotoFilterState;
+  onChange: (value: PhotoFilterState) => void;
+};
+
+// Radix Select does not allow an empty string as an item value
+const ANY = "any";
+
+const triggerClass =
+  "w-full sm:w-56 bg-white/5 border-white/10 text-white/80 font-nav text-xs md:text-sm tracking-wider rounded-full";
+
+/**
+ * Camera body, lens and focal range filters for the photo wall. Only values
+ * used by published photos are offered; a filter with nothing to choose
+ * from is hidden.
+ */
+export function PhotoFilters({ value, onChange }: PhotoFiltersProps) {
+  const { data: options } = trpc.photos.filterOptions.useQuery(undefined, { staleTime: 60_000 });
+  if (!options) return null;
+
+  const hasFilters = Object.values(value).some(Boolean);
+  const showCameras = options.cameras.length > 1 || !!value.camera;
+  const showLenses = options.lenses.length > 1 || !!value.lens;
+  const showFocalRanges = options.focalRanges.length > 1 || !!value.focalRange;
+  if (!showCameras && !showLenses && !showFocalRanges) return null;
+
+  const update = (patch: PhotoFilterState) => onChange({ ...value, ...patch });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.8, delay: 0.15 }}
+      className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
+    >
+      <div className="flex flex-col sm:flex-row sm:flex-wrap sm:items-center gap-2 md:gap-3">
+        {showCameras && (
+          <Select
+            value={value.camera ?? ANY}
+            onValueChange={(next) => update({ camera: next === ANY ? undefined : next })}
+          >
+            <SelectTrigger aria-label="Camera" className={triggerClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All cameras</SelectItem>
+              {options.cameras.map(camera => (
+                <SelectItem key={camera} value={camera}>{camera}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {showLenses && (
+          <Select
+            value={value.lens ?? ANY}
+            onValueChange={(next) => update({ lens: next === ANY ? undefined : next })}
+          >
+            <SelectTrigger aria-label="Lens" className={triggerClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All lenses</SelectItem>
+              {options.lenses.map(lens => (
+                <SelectItem key={lens} value={lens}>{lens}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {showFocalRanges && (
+          <Select
+            value={value.focalRange ?? ANY}
+            onValueChange={(next) => update({ focalRange: next === ANY ? undefined : (next as FocalRangeId) })}
+          >
+            <SelectTrigger aria-label="Focal range" className={triggerClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any focal length</SelectItem>
+              {options.focalRanges.map(range => (
+                <SelectItem key={range.id} value={range.id}>{range.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {hasFilters && (
+          <button
+            onClick={() => onChange({})}
+            className="inline-flex items-center gap-1 font-nav text-xs md:text-sm tracking-wider text-white/50 hover:text-white transition-colors px-2"
+          >
+            <X size={14} />
+            Clear filters
+          </button>
+        )}
+      </div>
+    </motion.div>
+  );
+}
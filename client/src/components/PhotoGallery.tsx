@@ -0,0 +1,230 @@
+/**
+ * Photo gallery building blocks shared by the photography wall and album
+ * pages: the masonry grid and the full-screen lightbox.
+ */
+
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, ChevronLeft, ChevronRight, ZoomIn } from "lucide-react";
+import type { Photo as DbPhoto } from "@shared/types";
+import { aspectRatio, type ImageVariant } from "@shared/imageVariants";
+import { ImageSources, ResponsiveImage } from "@/components/ResponsiveImage";
+
+// Three columns from lg, two from sm, matching the masonry wall below
+const GRID_SIZES = "(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw";
+// The lightbox is capped at max-w-5xl
+const LIGHTBOX_SIZES = "min(100vw, 64rem)";
+
+export interface DisplayPhoto {
+  id: number;
+  slug: string;
+  src: string;
+  variants: ImageVariant[];
+  width: number | null;
+  height: number | null;
+  placeholder: string | null;
+  title: string;
+  location: string;
+  year: string;
+  description: string;
+  camera?: string;
+  lens?: string;
+  settings?: string;
+}
+
+// Transform a database photo to display format; public reads come without coordinates
+export function toDisplayPhoto(p: Omit<DbPhoto, "latitude" | "longitude"> & { imageVariants?: ImageVariant[] }): DisplayPhoto {
+  return {
+    id: p.id,
+    slug: p.slug,
+    src: p.imageUrl,
+    variants: p.imageVariants ?? [],
+    width: p.imageWidth,
+    height: p.imageHeight,
+    placeholder: p.imagePlaceholder,
+    title: p.title,
+    location: p.location || "",
+    year: p.publishedAt ? new Date(p.publishedAt).getFullYear().toString() : new Date().getFullYear().toString(),
+    description: p.description || "",
+    camera: p.camera || undefined,
+    lens: p.lens || undefined,
+    settings: p.settings || undefined,
+  };
+}
+
+// Photos after this many fade in together rather than one after another
+const MAX_STAGGERED = 8;
+
+type PhotoGridProps = {
+  photos: DisplayPhoto[];
+  onOpen: (photo: DisplayPhoto) => void;
+};
+
+/** Masonry wall that shows every image uncropped. */
+export function PhotoGrid({ photos, onOpen }: PhotoGridProps) {
+  const [hoveredId, setHoveredId] = useState<number | null>(null);
+
+  return (
+    <div className="columns-1 sm:columns-2 lg:columns-3 gap-4 space-y-4">
+      {photos.map((photo, index) => (
+        <motion.div
+          key={photo.id}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          // Capped so photos appended by infinite scroll don't wait behind the whole wall
+          transition={{ duration: 0.5, delay: Math.min(index, MAX_STAGGERED) * 0.1 }}
+          className="break-inside-avoid"
+        >
+          <div
+            className="relative group cursor-pointer overflow-hidden rounded-lg bg-white/5"
+            // Reserve the photo's space so the masonry columns do not reflow as images arrive
+            style={{ aspectRatio: aspectRatio(photo.width, photo.height) }}
+            onMouseEnter={() => setHoveredId(photo.id)}
+            onMouseLeave={() => setHoveredId(null)}
+            onClick={() => onOpen(photo)}
+          >
+            <ResponsiveImage
+              src={photo.src}
+              variants={photo.variants}
+              sizes={GRID_SIZES}
+              placeholder={photo.placeholder}
+              width={photo.width ?? undefined}
+              height={photo.height ?? undefined}
+              alt={photo.title}
+              className="w-full h-auto object-contain transition-transform duration-500 group-hover:scale-105"
+              loading="lazy"
+            />
+
+            {/* Hover Overlay */}
+            <AnimatePresence>
+              {hoveredId === photo.id && (
+                <motion.div
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                  className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent flex flex-col justify-end p-4"
+                >
+                  <h3 className="text-white font-medium text-lg">{photo.title}</h3>
+                  <p className="text-white/60 text-sm">
+                    {photo.location} · {photo.year}
+                  </p>
+                  <div className="absolute top-4 right-4">
+                    <ZoomIn className="w-5 h-5 text-white/80" />
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        </motion.div>
+      ))}
+    </div>
+  );
+}
+
+type PhotoLightboxProps = {
+  photo: DisplayPhoto | null;
+  onClose: () => void;
+  onNavigate: (direction: "prev" | "next") => void;
+};
+
+/** Full-screen viewer with keyboard navigation; open while `photo` is set. */
+export function PhotoLightbox({ photo, onClose, onNavigate }: PhotoLightboxProps) {
+  const isOpen = photo !== null;
+
+  useEffect(() => {
+    document.body.style.overflow = isOpen ? "hidden" : "unset";
+    return () => {
+      document.body.style.overflow = "unset";
+    };
+  }, [isOpen]);
+
+  // Keyboard navigation
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isOpen) return;
+      if (e.key === "Escape") onClose();
+      if (e.key === "ArrowLeft") onNavigate("prev");
+      if (e.key === "ArrowRight") onNavigate("next");
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose, onNavigate]);
+
+  return (
+    <AnimatePresence>
+      {photo && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 bg-black/95 flex items-center justify-center"
+          onClick={onClose}
+        >
+          {/* Close button */}
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 z-10 p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+          >
+            <X className="w-6 h-6 text-white" />
+          </button>
+
+          {/* Navigation buttons */}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onNavigate("prev");
+            }}
+            className="absolute left-4 top-1/2 -translate-y-1/2 p-3 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+          >
+            <ChevronLeft className="w-6 h-6 text-white" />
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onNavigate("next");
+            }}
+            className="absolute right-4 top-1/2 -translate-y-1/2 p-3 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+          >
+            <ChevronRight className="w-6 h-6 text-white" />
+          </button>
+
+          {/* Image and info */}
+          <div
+            className="max-w-5xl max-h-[90vh] mx-auto px-16 flex flex-col items-center"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <picture key={photo.id} className="contents">
+              <ImageSources variants={photo.variants} sizes={LIGHTBOX_SIZES} />
+              <motion.img
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.95 }}
+                src={photo.src}
+                alt={photo.title}
+                className="max-h-[70vh] w-auto object-contain rounded-lg mx-auto block"
+              />
+            </picture>
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="mt-6 text-center"
+            >
+              <h2 className="text-2xl font-light text-white mb-2">{photo.title}</h2>
+              <p className="text-white/60 mb-2">
+                {photo.location} · {photo.year}
+              </p>
+              <p className="text-white/40 max-w-xl mx-auto leading-relaxed">{photo.description}</p>
+              {(photo.camera || photo.lens || photo.settings) && (
+                <div className="mt-4 flex items-center justify-center gap-4 text-sm text-white/30">
+                  {photo.camera && <span>{photo.camera}</span>}
+                  {photo.lens && <span>{photo.lens}</span>}
+                  {photo.settings && <span>{photo.settings}</span>}
+                </div>
+              )}
+            </motion.div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
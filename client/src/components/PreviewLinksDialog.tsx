@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { Ban, Copy, Link2, Plus } from "lucide-react";
+import { toast } from "sonner";
+
+type PreviewLinksDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contentType: "essay" | "paper";
+  contentId: number | null;
+};
+
+const EXPIRY_OPTIONS = [
+  { label: "1 day", hours: 24 },
+  { label: "3 days", hours: 72 },
+  { label: "7 days", hours: 24 * 7 },
+  { label: "30 days", hours: 24 * 30 },
+];
+
+function previewUrl(token: string) {
+  return `${window.location.origin}/preview/${token}`;
+}
+
+export function PreviewLinksDialog({
+  open,
+  onOpenChange,
+  contentType,
+  contentId,
+}: PreviewLinksDialogProps) {
+  const [expiresInHours, setExpiresInHours] = useState(72);
+
+  const utils = trpc.useUtils();
+  const { data: links, isLoading } = trpc.previews.list.useQuery(
+    { contentType, contentId: contentId ?? 0 },
+    { enabled: open && contentId !== null }
+  );
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(previewUrl(token));
+      toast.success("预览链接已复制");
+    } catch {
+      toast.error("复制失败，请手动复制链接");
+    }
+  };
+
+  const createMutation = trpc.previews.create.useMutation({
+    onSuccess: (data) => {
+      utils.previews.list.invalidate();
+      copyLink(data.token);
+    },
+    onError: (error) => {
+      toast.error("创建失败: " + error.message);
+    },
+  });
+
+  const revokeMutation = trpc.previews.revoke.useMutation({
+    onSuccess: () => {
+      utils.previews.list.invalidate();
+      toast.success("预览链接已撤销");
+    },
+    onError: (error) => {
+      toast.error("撤销失败: " + error.message);
+    },
+  });
+
+  const now = Date.now();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl bg-neutral-900 border-neutral-800">
+        <DialogHeader>
+          <DialogTitle className="text-white">Preview Links</DialogTitle>
+          <DialogDescription className="text-neutral-400">
+            Anyone with a preview link can read this draft until the link expires or is revoked
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-neutral-400">Expires after</span>
+          <select
+            value={expiresInHours}
+            onChange={(e) => setExpiresInHours(Number(e.target.value))}
+            className="bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-sm text-neutral-200"
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.hours} value={option.hours}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Button
+            size="sm"
+            onClick={() => contentId !== null && createMutation.mutate({ contentType, contentId, expiresInHours })}
+            disabled={contentId === null || createMutation.isPending}
+            className="ml-auto bg-white text-black hover:bg-neutral-200"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {createMutation.isPending ? "Creating..." : "New Link"}
+          </Button>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto space-y-2">
+          {isLoading ? (
+            <div className="py-8 text-center text-neutral-500">Loading...</div>
+          ) : links && links.length > 0 ? (
+            links.map(link => {
+              const isRevoked = !!link.revokedAt;
+              const isExpired = new Date(link.expiresAt).getTime() <= now;
+              const isActive = !isRevoked && !isExpired;
+              return (
+                <div
+                  key={link.id}
+                  className="flex items-center gap-3 rounded-md border border-neutral-800 bg-neutral-950 px-3 py-2"
+                >
+                  <Link2 className="h-4 w-4 text-neutral-500 shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded-full ${
+                          isActive
+                            ? "bg-green-900/30 text-green-400 border border-green-800/50"
+                            : "bg-neutral-800 text-neutral-400 border border-neutral-700"
+                        }`}
+                      >
+                        {isRevoked ? "Revoked" : isExpired ? "Expired" : "Active"}
+                      </span>
+                      <span className="text-neutral-400 truncate">
+                        Created {new Date(link.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="text-xs text-neutral-500 mt-1">
+                      {isRevoked
+                        ? `Revoked ${new Date(link.revokedAt!).toLocaleString()}`
+                        : `Expires ${new Date(link.expiresAt).toLocaleString()}`}
+                    </div>
+                  </div>
+                  {isActive && (
+                    <>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => copyLink(link.token)}
+                        title="Copy link"
+                        className="h-8 w-8 text-neutral-400 hover:text-white hover:bg-neutral-800"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => revokeMutation.mutate({ id: link.id })}
+                        disabled={revokeMutation.isPending}
+                        title="Revoke link"
+                        className="h-8 w-8 text-red-400 hover:text-red-300 hover:bg-neutral-800"
+                      >
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              );
+            })
+          ) : (
+            <div className="py-8 text-center text-neutral-500 text-sm">
+              No preview links issued yet
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+          >
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
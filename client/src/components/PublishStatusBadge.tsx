@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+
+type PublishStatusBadgeProps = {
+  published: boolean | null;
+  publishedAt: Date | null;
+  /** Called shortly after a scheduled time passes, so the list can refetch */
+  onScheduleElapsed?: () => void;
+};
+
+/** "2d 4h", "3h 12m", "5m 30s" — two most significant units */
+function formatCountdown(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds}s`;
+}
+
+/**
+ * Published / Draft / Scheduled pill for admin lists. A draft with a
+ * publishedAt is scheduled, and counts down to its publish time.
+ */
+export function PublishStatusBadge({ published, publishedAt, onScheduleElapsed }: PublishStatusBadgeProps) {
+  const scheduledAt = !published && publishedAt ? new Date(publishedAt) : null;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!scheduledAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [scheduledAt?.getTime()]);
+
+  const isElapsed = scheduledAt !== null && scheduledAt.getTime() <= now;
+  useEffect(() => {
+    if (!isElapsed || !onScheduleElapsed) return;
+    // Give the server-side publisher a moment to pick the item up
+    const timeout = setTimeout(onScheduleElapsed, 3000);
+    return () => clearTimeout(timeout);
+  }, [isElapsed]);
+
+  if (published) {
+    return (
+      <span className="px-2 py-0.5 text-xs rounded-full bg-green-900/30 text-green-400 border border-green-800/50">
+        Published
+      </span>
+    );
+  }
+
+  if (scheduledAt) {
+    const remaining = scheduledAt.getTime() - now;
+    return (
+      <span
+        title={scheduledAt.toLocaleString()}
+        className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-purple-900/30 text-purple-400 border border-purple-800/50"
+      >
+        <Clock className="h-3 w-3" />
+        {isElapsed ? "Publishing..." : `Scheduled · ${formatCountdown(remaining)}`}
+      </span>
+    );
+  }
+
+  return (
+    <span className="px-2 py-0.5 text-xs rounded-full bg-yellow-900/30 text-yellow-400 border border-yellow-800/50">
+      Draft
+    </span>
+  );
+}
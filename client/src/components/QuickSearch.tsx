@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { ArrowRight, Search } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  SearchSuggestionList,
+  useSuggestionNavigation,
+  type Suggestion,
+} from "@/components/SearchSuggestions";
+import { useSearchSuggestions } from "@/hooks/useSearchSuggestions";
+
+/**
+ * Header search: suggestions to jump straight to an item from any page,
+ * or Enter for the full results on the search page.
+ */
+export default function QuickSearch() {
+  const [location, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const suggestions = useSearchSuggestions(query, { enabled: open });
+
+  useEffect(() => {
+    setOpen(false);
+    setQuery("");
+  }, [location]);
+
+  const selectSuggestion = (suggestion: Suggestion) => navigate(suggestion.path);
+  const { activeIndex, setActiveIndex, handleKeyDown } = useSuggestionNavigation(suggestions, selectSuggestion);
+
+  const searchAll = () => {
+    const q = query.trim();
+    navigate(q ? `/search?${new URLSearchParams({ q })}` : "/search");
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className="text-white/70 hover:text-white transition-colors p-2"
+          aria-label="Search"
+        >
+          <Search size={18} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        sideOffset={12}
+        className="w-96 p-0 bg-neutral-950/90 backdrop-blur-md border-white/10 overflow-hidden"
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-white/10">
+          <Search size={16} className="shrink-0 text-white/40" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (handleKeyDown(e)) return;
+              if (e.key === "Enter") searchAll();
+            }}
+            autoFocus
+            placeholder="Search..."
+            role="combobox"
+            aria-expanded={suggestions.length > 0}
+            className="flex-1 bg-transparent py-3 font-body text-sm text-white placeholder:text-white/40 focus:outline-none"
+          />
+        </div>
+        {suggestions.length > 0 && (
+          <SearchSuggestionList
+            suggestions={suggestions}
+            activeIndex={activeIndex}
+            onSelect={selectSuggestion}
+            onHover={setActiveIndex}
+          />
+        )}
+        {query.trim() && (
+          <button
+            onClick={searchAll}
+            className="w-full flex items-center justify-between px-4 py-2.5 border-t border-white/10 font-nav text-xs text-white/50 hover:text-white hover:bg-white/5 transition-colors"
+          >
+            <span className="truncate">Search everything for "{query.trim()}"</span>
+            <ArrowRight size={14} className="shrink-0" />
+          </button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
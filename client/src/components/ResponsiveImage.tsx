@@ -0,0 +1,104 @@
+import { useState, type ImgHTMLAttributes } from "react";
+import { cn } from "@/lib/utils";
+import {
+  IMAGE_VARIANT_FORMATS,
+  IMAGE_VARIANT_MIME_TYPES,
+  buildSrcSet,
+  type ImageVariant,
+} from "@shared/imageVariants";
+
+type ImageSourcesProps = {
+  variants: ImageVariant[];
+  /** Rendered width of the image at each breakpoint, as in the `sizes` attribute */
+  sizes: string;
+};
+
+/**
+ * `<source>` elements for a `<picture>`, one per format in order of
+ * preference. Use directly when the `<img>` itself needs to be custom
+ * (e.g. animated); otherwise reach for ResponsiveImage.
+ */
+export function ImageSources({ variants, sizes }: ImageSourcesProps) {
+  return (
+    <>
+      {IMAGE_VARIANT_FORMATS.map(format => {
+        const srcSet = buildSrcSet(variants, format);
+        return srcSet ? (
+          <source key={format} type={IMAGE_VARIANT_MIME_TYPES[format]} srcSet={srcSet} sizes={sizes} />
+        ) : null;
+      })}
+    </>
+  );
+}
+
+type ResponsiveImageProps = ImgHTMLAttributes<HTMLImageElement> & {
+  src: string;
+  variants?: ImageVariant[];
+  sizes: string;
+  /** Blurred preview data URI, shown until the image has loaded */
+  placeholder?: string | null;
+};
+
+/** Blurred preview filling the nearest positioned ancestor, which should clip overflow. */
+export function BlurPlaceholder({ src }: { src: string }) {
+  return (
+    <div
+      aria-hidden
+      className="absolute inset-0 bg-cover bg-center blur-xl scale-110"
+      style={{ backgroundImage: `url(${src})` }}
+    />
+  );
+}
+
+/**
+ * An image that lets the browser pick a resized AVIF/WebP rendition, with
+ * the original as the fallback. Without variants it is a plain `<img>`.
+ * The `<picture>` wrapper uses `display: contents` so classes on the image
+ * lay out exactly as before. With a placeholder, the image fades in over a
+ * blurred preview once it has loaded.
+ */
+export function ResponsiveImage({
+  src,
+  variants = [],
+  sizes,
+  placeholder,
+  alt,
+  className,
+  onLoad,
+  ...imgProps
+}: ResponsiveImageProps) {
+  // Tracked per src so a reused element shows the placeholder again for a new image
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+  const isLoaded = loadedSrc === src;
+
+  const img = (
+    <img
+      ref={(element) => {
+        // Cached images can finish before React attaches onLoad
+        if (element?.complete && element.naturalWidth > 0) setLoadedSrc(src);
+      }}
+      src={src}
+      alt={alt}
+      className={cn(className, placeholder && "transition-opacity duration-500", placeholder && !isLoaded && "opacity-0")}
+      onLoad={(e) => {
+        setLoadedSrc(src);
+        onLoad?.(e);
+      }}
+      {...imgProps}
+    />
+  );
+
+  return (
+    <>
+      {placeholder && !isLoaded && <BlurPlaceholder src={placeholder} />}
+      {variants.length === 0 ? (
+        img
+      ) : (
+        <picture className="contents">
+          <ImageSources variants={variants} sizes={sizes} />
+          {img}
+        </picture>
+      )}
+    </>
+  );
+}
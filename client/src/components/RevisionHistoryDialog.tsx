@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { History, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+type RevisionHistoryDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contentType: "essay" | "paper";
+  contentId: number | null;
+  /** Called after a revision has been restored, so the caller can refresh its list */
+  onRestored?: () => void;
+};
+
+function formatFieldValue(value: string | number | null) {
+  if (value === null || value === "") return "(empty)";
+  return String(value);
+}
+
+export function RevisionHistoryDialog({
+  open,
+  onOpenChange,
+  contentType,
+  contentId,
+  onRestored,
+}: RevisionHistoryDialogProps) {
+  // "to" is the revision being inspected, "from" the one it is compared against
+  const [toId, setToId] = useState<number | null>(null);
+  const [fromId, setFromId] = useState<number | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: revisions, isLoading } = trpc.revisions.list.useQuery(
+    { contentType, contentId: contentId ?? 0 },
+    { enabled: open && contentId !== null }
+  );
+  // Snapshots store the category id; show its name in the diff instead
+  const { data: categories } = trpc.categories.list.useQuery({ section: contentType }, { enabled: open });
+  const formatValue = (field: string, value: string | number | null) => {
+    if (field === "categoryId" && value !== null) {
+      const category = categories?.find(c => c.id === Number(value));
+      if (category) return category.name;
+    }
+    return formatFieldValue(value);
+  };
+
+  // Default to the newest revision compared with the one before it
+  useEffect(() => {
+    if (!open) {
+      setToId(null);
+      setFromId(null);
+    } else if (revisions && revisions.length > 0 && toId === null) {
+      setToId(revisions[0].id);
+      setFromId(revisions[1]?.id ?? null);
+    }
+  }, [open, revisions, toId]);
+
+  const { data: diff, isLoading: isDiffLoading } = trpc.revisions.diff.useQuery(
+    { fromId: fromId ?? 0, toId: toId ?? 0 },
+    { enabled: open && fromId !== null && toId !== null }
+  );
+
+  const restoreMutation = trpc.revisions.restore.useMutation({
+    onSuccess: () => {
+      utils.revisions.list.invalidate();
+      toast.success("版本恢复成功");
+      onRestored?.();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error("恢复失败: " + error.message);
+    },
+  });
+
+  const selectRevision = (id: number) => {
+    if (!revisions) return;
+    const index = revisions.findIndex(r => r.id === id);
+    setToId(id);
+    setFromId(revisions[index + 1]?.id ?? null);
+  };
+
+  const changedFields = diff?.filter(d => d.changed) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden bg-neutral-900 border-neutral-800">
+        <DialogHeader>
+          <DialogTitle className="text-white">Revision History</DialogTitle>
+          <DialogDescription className="text-neutral-400">
+            Select a revision to see what changed, or compare any two revisions
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-12 text-center text-neutral-500">Loading...</div>
+        ) : revisions && revisions.length > 0 ? (
+          <div className="grid grid-cols-[240px_1fr] gap-4 min-h-0 h-[60vh]">
+            {/* Revision List */}
+            <div className="overflow-y-auto space-y-1 pr-2">
+              {revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  onClick={() => selectRevision(revision.id)}
+                  className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
+                    revision.id === toId
+                      ? "bg-neutral-800 text-white"
+                      : "text-neutral-400 hover:bg-neutral-800/50 hover:text-white"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span>{new Date(revision.createdAt).toLocaleString()}</span>
+                    {index === 0 && (
+                      <span className="text-xs text-emerald-400">Current</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-neutral-500 truncate">
+                    {revision.authorName || revision.authorEmail || "Unknown author"}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Diff View */}
+            <div className="overflow-y-auto space-y-4 border-l border-neutral-800 pl-4">
+              <div className="flex items-center gap-2 text-sm text-neutral-400">
+                <span>Compare with</span>
+                <select
+                  value={fromId ?? ""}
+                  onChange={(e) => setFromId(e.target.value ? Number(e.target.value) : null)}
+                  className="bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-neutral-200"
+                >
+                  <option value="">Nothing (initial revision)</option>
+                  {revisions
+                    .filter(r => r.id !== toId)
+                    .map(r => (
+                      <option key={r.id} value={r.id}>
+                        {new Date(r.createdAt).toLocaleString()}
+                      </option>
+                    ))}
+                </select>
+              </div>
+
+              {fromId === null ? (
+                <p className="text-neutral-500 text-sm">
+                  This is the earliest revision; select another revision to compare against.
+                </p>
+              ) : isDiffLoading ? (
+                <p className="text-neutral-500 text-sm">Loading diff...</p>
+              ) : changedFields.length === 0 ? (
+                <p className="text-neutral-500 text-sm">No content changes between these revisions.</p>
+              ) : (
+                changedFields.map(field => (
+                  <div key={field.field} className="space-y-1">
+                    <div className="text-xs uppercase tracking-wide text-neutral-500">
+                      {field.field}
+                    </div>
+                    <div className="rounded-md bg-neutral-950 border border-neutral-800 p-3 text-sm text-neutral-300 whitespace-pre-wrap break-words">
+                      {field.words ? (
+                        field.words.map((part, i) => (
+                          <span
+                            key={i}
+                            className={
+                              part.added
+                                ? "bg-emerald-500/20 text-emerald-300"
+                                : part.removed
+                                  ? "bg-red-500/20 text-red-300 line-through"
+                                  : undefined
+                            }
+                          >
+                            {part.value}
+                          </span>
+                        ))
+                      ) : (
+                        <>
+                          <span className="bg-red-500/20 text-red-300 line-through">
+                            {formatValue(field.field, field.from)}
+                          </span>
+                          {" → "}
+                          <span className="bg-emerald-500/20 text-emerald-300">
+                            {formatValue(field.field, field.to)}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-12 text-neutral-500">
+            <History className="h-8 w-8 mb-2" />
+            No revisions recorded yet
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+          >
+            Close
+          </Button>
+          <Button
+            onClick={() => toId !== null && restoreMutation.mutate({ revisionId: toId })}
+            disabled={toId === null || toId === revisions?.[0]?.id || restoreMutation.isPending}
+            className="bg-white text-black hover:bg-neutral-200"
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            {restoreMutation.isPending ? "Restoring..." : "Restore This Revision"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
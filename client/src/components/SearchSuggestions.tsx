@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { BookOpen, Camera, FileText, Hash, MapPin, User } from "lucide-react";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
+
+export type Suggestion = inferRouterOutputs<AppRouter>["search"]["suggest"][number];
+
+const titleIcons = {
+  photo: Camera,
+  essay: BookOpen,
+  paper: FileText,
+};
+
+const kindIcons = {
+  tag: Hash,
+  location: MapPin,
+  author: User,
+};
+
+const kindLabels = {
+  title: undefined,
+  tag: "Tag",
+  location: "Place",
+  author: "Author",
+};
+
+function suggestionIcon(suggestion: Suggestion) {
+  return suggestion.kind === "title" ? titleIcons[suggestion.type ?? "photo"] : kindIcons[suggestion.kind];
+}
+
+/**
+ * Arrow keys move through the suggestions and Enter picks the highlighted
+ * one. `handleKeyDown` returns false for keys it leaves to the input, so
+ * Enter with nothing highlighted can still submit a full search.
+ */
+export function useSuggestionNavigation(suggestions: Suggestion[], onSelect: (suggestion: Suggestion) => void) {
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [suggestions]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (suggestions.length === 0) return false;
+    if (e.key === "ArrowDown") {
+      setActiveIndex((index) => (index + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      setActiveIndex((index) => (index <= 0 ? suggestions.length : index) - 1);
+    } else if (e.key === "Enter" && activeIndex >= 0) {
+      onSelect(suggestions[activeIndex]);
+    } else {
+      return false;
+    }
+    e.preventDefault();
+    return true;
+  };
+
+  return { activeIndex, setActiveIndex, handleKeyDown };
+}
+
+export function SearchSuggestionList({
+  suggestions,
+  activeIndex,
+  onSelect,
+  onHover,
+}: {
+  suggestions: Suggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: Suggestion) => void;
+  onHover: (index: number) => void;
+}) {
+  return (
+    <ul role="listbox" className="py-1">
+      {suggestions.map((suggestion, index) => {
+        const Icon = suggestionIcon(suggestion);
+        const label = kindLabels[suggestion.kind];
+        return (
+          <li key={suggestion.path} role="option" aria-selected={index === activeIndex}>
+            <button
+              type="button"
+              // Keep focus in the input so the list isn't closed before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onSelect(suggestion)}
+              onMouseEnter={() => onHover(index)}
+              className={`w-full flex items-center gap-3 px-4 py-2 text-left font-body text-sm transition-colors ${
+                index === activeIndex ? "bg-white/10 text-white" : "text-white/70"
+              }`}
+            >
+              <Icon size={14} className="shrink-0 text-white/40" />
+              <span className="flex-1 truncate">{suggestion.label}</span>
+              {label && (
+                <span className="font-nav text-xs text-white/30">{label}</span>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,41 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+
+type SeriesSelectProps = {
+  id?: string;
+  value: number | null;
+  onChange: (seriesId: number | null) => void;
+};
+
+// Radix Select does not allow an empty string as an item value
+const NONE = "none";
+
+/** Series picker for the essay form; series themselves are managed on the Series page. */
+export function SeriesSelect({ id, value, onChange }: SeriesSelectProps) {
+  const { data: seriesList } = trpc.series.listAll.useQuery(undefined, { staleTime: 60_000 });
+
+  return (
+    <Select
+      value={value === null ? NONE : String(value)}
+      onValueChange={(next) => onChange(next === NONE ? null : Number(next))}
+    >
+      <SelectTrigger id={id} className="w-full bg-neutral-800 border-neutral-700 text-white">
+        <SelectValue placeholder="Not part of a series" />
+      </SelectTrigger>
+      <SelectContent className="bg-neutral-900 border-neutral-700 text-neutral-200">
+        <SelectItem value={NONE}>Not part of a series</SelectItem>
+        {seriesList?.map(series => (
+          <SelectItem key={series.id} value={String(series.id)}>
+            {series.title}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,154 @@
+import { useMemo, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { normalizeTagNames, parseTagInput } from "@shared/tags";
+import { X } from "lucide-react";
+
+type TagInputProps = {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+  className?: string;
+};
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Tag editor for the admin forms: existing tags are suggested as you type,
+ * Enter or a comma adds the current text, Backspace on an empty field
+ * removes the last tag.
+ */
+export function TagInput({ id, value, onChange, placeholder, className }: TagInputProps) {
+  const [draft, setDraft] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const { data: allTags } = trpc.tags.list.useQuery(undefined, { staleTime: 60_000 });
+
+  const suggestions = useMemo(() => {
+    const query = draft.trim().toLowerCase();
+    if (!query || !allTags) return [];
+    const selected = new Set(value.map(tag => tag.toLowerCase()));
+    const matches = allTags.filter(
+      tag => !selected.has(tag.name.toLowerCase()) && tag.name.toLowerCase().includes(query)
+    );
+    // Prefix matches first, then the most used tags
+    matches.sort((a, b) => {
+      const aPrefix = a.name.toLowerCase().startsWith(query) ? 0 : 1;
+      const bPrefix = b.name.toLowerCase().startsWith(query) ? 0 : 1;
+      return aPrefix - bPrefix || b.usageCount - a.usageCount;
+    });
+    return matches.slice(0, MAX_SUGGESTIONS);
+  }, [draft, allTags, value]);
+
+  const addTags = (names: string[]) => {
+    onChange(normalizeTagNames([...value, ...names]));
+    setDraft("");
+    setHighlighted(0);
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(tag => tag !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp" && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === ",") {
+      if (!draft.trim()) return;
+      e.preventDefault();
+      const suggestion = suggestions[highlighted];
+      addTags([suggestion && e.key === "Enter" ? suggestion.name : draft]);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === "Escape" && draft) {
+      // Keep the surrounding dialog open
+      e.stopPropagation();
+      setDraft("");
+    }
+  };
+
+  const handleChange = (text: string) => {
+    // Pasted or typed separators commit everything before them
+    if (/[,，]/.test(text)) {
+      const parts = text.split(/[,，]/);
+      const rest = parts.pop() ?? "";
+      addTags(parseTagInput(parts.join(",")));
+      setDraft(rest);
+      return;
+    }
+    setDraft(text);
+    setHighlighted(0);
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className={cn(
+          "flex flex-wrap items-center gap-1.5 min-h-9 rounded-md border border-neutral-700 bg-neutral-800 px-2 py-1.5",
+          isFocused && "ring-1 ring-neutral-500",
+          className
+        )}
+      >
+        {value.map(tag => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 rounded-full bg-neutral-700 px-2 py-0.5 text-xs text-neutral-200"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-neutral-400 hover:text-white"
+              aria-label={`Remove ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          value={draft}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (draft.trim()) addTags([draft]);
+          }}
+          placeholder={value.length === 0 ? placeholder : undefined}
+          className="flex-1 min-w-[6rem] bg-transparent text-sm text-white outline-none placeholder:text-neutral-500"
+        />
+      </div>
+
+      {isFocused && suggestions.length > 0 && (
+        <ul className="absolute z-50 mt-1 w-full overflow-hidden rounded-md border border-neutral-700 bg-neutral-900 py-1 shadow-lg">
+          {suggestions.map((tag, index) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                // Fire before the input's blur commits the raw draft
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTags([tag.name]);
+                }}
+                className={cn(
+                  "flex w-full items-center justify-between px-3 py-1.5 text-left text-sm",
+                  index === highlighted ? "bg-neutral-800 text-white" : "text-neutral-300"
+                )}
+              >
+                <span>{tag.name}</span>
+                <span className="text-xs text-neutral-500">{tag.usageCount}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import type { inferRouterOutputs } from "@trpc/server";
+import { trpc } from "@/lib/trpc";
+import type { AppRouter } from "../../../server/routers";
+import type { UploadKind } from "@shared/uploads";
+
+type DirectUploadOptions<T> = {
+  onSuccess?: (data: T) => void;
+  onError?: (error: Error) => void;
+};
+
+type ConfirmOptions = {
+  /** Pin the file in the media library, so it stays when no content uses it. */
+  library?: boolean;
+};
+
+/** PUT a file to a presigned URL, reporting progress as a 0–100 percentage. */
+function putFile(url: string, file: File, onProgress: (percent: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    // Must match the content type the URL was signed for
+    xhr.setRequestHeader("Content-Type", file.type);
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) resolve();
+      else reject(new Error(`Storage rejected the upload (HTTP ${xhr.status})`));
+    };
+    xhr.onerror = () => reject(new Error("Network error while uploading"));
+    xhr.onabort = () => reject(new Error("Upload was cancelled"));
+    xhr.send(file);
+  });
+}
+
+/**
+ * Presign, upload straight to the bucket, then confirm on the server.
+ * `progress` is null when idle.
+ */
+function useDirectUpload<T>(
+  kind: UploadKind,
+  confirm: (key: string) => Promise<T>,
+  { onSuccess, onError }: DirectUploadOptions<T>
+) {
+  const presignMutation = trpc.upload.presign.useMutation();
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const upload = async (file: File): Promise<T | undefined> => {
+    setProgress(0);
+    try {
+      const { key, uploadUrl } = await presignMutation.mutateAsync({
+        kind,
+        filename: file.name,
+        contentType: file.type,
+        size: file.size,
+      });
+      await putFile(uploadUrl, file, setProgress);
+      const data = await confirm(key);
+      onSuccess?.(data);
+      return data;
+    } catch (error) {
+      onError?.(error instanceof Error ? error : new Error(String(error)));
+      return undefined;
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return { upload, progress, isUploading: progress !== null };
+}
+
+type UploadOutputs = inferRouterOutputs<AppRouter>["upload"];
+
+/** Upload an image; the result carries its URL, variants, dimensions and EXIF metadata. */
+export function useImageUpload(
+  { library, ...options }: DirectUploadOptions<UploadOutputs["confirmImage"]> & ConfirmOptions = {}
+) {
+  const confirmMutation = trpc.upload.confirmImage.useMutation();
+  return useDirectUpload("image", key => confirmMutation.mutateAsync({ key, library }), options);
+}
+
+export function usePdfUpload(
+  { library, ...options }: DirectUploadOptions<UploadOutputs["confirmPdf"]> & ConfirmOptions = {}
+) {
+  const confirmMutation = trpc.upload.confirmPdf.useMutation();
+  return useDirectUpload("pdf", key => confirmMutation.mutateAsync({ key, library }), options);
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+
+// Wait for a pause in typing before asking for suggestions
+const SUGGEST_DELAY_MS = 150;
+
+// Suggestions for the same input rarely change within a visit
+const SUGGEST_STALE_MS = 5 * 60 * 1000;
+
+/**
+ * Debounced suggestions for what has been typed so far. Each input is cached,
+ * so deleting back to an earlier prefix shows its suggestions immediately.
+ */
+export function useSearchSuggestions(input: string, options?: { enabled?: boolean }) {
+  const [debounced, setDebounced] = useState(input.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(input.trim()), SUGGEST_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const enabled = (options?.enabled ?? true) && debounced.length > 0;
+  const { data } = trpc.search.suggest.useQuery(
+    { q: debounced },
+    { enabled, staleTime: SUGGEST_STALE_MS, placeholderData: (previous) => previous }
+  );
+
+  return enabled && input.trim().length > 0 ? data ?? [] : [];
+}
@@ -8,12 +8,18 @@
 
 import { useState, useMemo } from "react";
 import { motion } from "framer-motion";
-import { FileText, Calendar, BookOpen, ExternalLink, Download, GraduationCap } from "lucide-react";
+import { FileText, Calendar, BookOpen, ExternalLink, Download, GraduationCap, ArrowLeft } from "lucide-react";
+import { Link, useParams } from "wouter";
 import { toast } from "sonner";
 import { trpc } from "@/lib/trpc";
+import type { Paper as DbPaper } from "@shared/types";
+import type { TagRef } from "@shared/tags";
+import { CategoryHeader, CategoryNav } from "@/components/CategoryNav";
+import { InfiniteScrollTrigger } from "@/components/InfiniteScrollTrigger";
 
 interface Paper {
   id: number;
+  slug: string;
   title: string;
   authors: string[];
   abstract: string;
@@ -23,38 +29,82 @@ interface Paper {
   issue?: string;
   pages?: string;
   doi?: string;
-  keywords: string[];
+  keywords: TagRef[];
   pdfUrl?: string;
   citations?: number;
 }
 
+// Transform a database paper to display format
+function toDisplayPaper(p: DbPaper & { tags: TagRef[] }): Paper {
+  return {
+    id: p.id,
+    slug: p.slug,
+    title: p.title,
+    authors: p.authors.split(',').map(a => a.trim()),
+    abstract: p.abstract || "",
+    journal: p.journal || "",
+    year: p.year?.toString() || new Date().getFullYear().toString(),
+    volume: p.volume || undefined,
+    issue: p.issue || undefined,
+    pages: p.pages || undefined,
+    doi: p.doi || undefined,
+    keywords: p.tags,
+    pdfUrl: p.pdfUrl || undefined,
+    citations: p.citations || undefined,
+  };
+}
+
+const PAGE_SIZE = 12;
+
 export default function Academic() {
   const [expandedAbstract, setExpandedAbstract] = useState<number | null>(null);
+  const { slug, categorySlug } = useParams<{ slug?: string; categorySlug?: string }>();
+
+  // Category landing pages list only that category's papers
+  const { data: activeCategory, isLoading: isCategoryLoading } = trpc.categories.getBySlug.useQuery(
+    { section: "paper", slug: categorySlug ?? "" },
+    { enabled: !!categorySlug }
+  );
+
+  // Fetch papers from database, a page at a time as the list is scrolled
+  const {
+    data: paperPages,
+    isLoading: isListLoading,
+    error: listError,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = trpc.papers.list.useInfiniteQuery(
+    { categoryId: activeCategory?.id, limit: PAGE_SIZE },
+    {
+      enabled: !slug && (!categorySlug || !!activeCategory),
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    }
+  );
+
+  // A permalinked paper is loaded on its own so it works on a cold page load
+  const {
+    data: dbSelectedPaper,
+    isLoading: isPaperLoading,
+    error: paperError,
+  } = trpc.papers.getBySlug.useQuery({ slug: slug ?? "" }, { enabled: !!slug });
 
-  // Fetch papers from database
-  const { data: dbPapers, isLoading, error } = trpc.papers.list.useQuery({});
+  const isLoading = slug ? isPaperLoading : isCategoryLoading || isListLoading;
+  const error = slug ? paperError : listError;
 
   // Transform database papers to display format
   const papers = useMemo(() => {
-    if (!dbPapers || dbPapers.length === 0) {
+    if (slug) {
+      return dbSelectedPaper ? [toDisplayPaper(dbSelectedPaper)] : [];
+    }
+    if (!paperPages) {
       return [];
     }
-    return dbPapers.map(p => ({
-      id: p.id,
-      title: p.title,
-      authors: p.authors.split(',').map(a => a.trim()),
-      abstract: p.abstract || "",
-      journal: p.journal || "",
-      year: p.year?.toString() || new Date().getFullYear().toString(),
-      volume: p.volume || undefined,
-      issue: p.issue || undefined,
-      pages: p.pages || undefined,
-      doi: p.doi || undefined,
-      keywords: p.tags ? p.tags.split(',').map(t => t.trim()) : [],
-      pdfUrl: p.pdfUrl || undefined,
-      citations: p.citations || undefined,
-    }));
-  }, [dbPapers]);
+    return paperPages.pages.flatMap((page) => page.items).map(toDisplayPaper);
+  }, [slug, paperPages, dbSelectedPaper]);
+
+  // The detail view always shows the abstract
+  const isAbstractExpanded = (paperId: number) => !!slug || expandedAbstract === paperId;
 
   const handleDownload = async (pdfUrl?: string, title?: string) => {
     if (pdfUrl) {
@@ -157,24 +207,48 @@ export default function Academic() {
   return (
     <div className="min-h-screen bg-background pt-24 pb-16">
       {/* Header */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.8 }}
-        className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
-      >
-        <h1 className="font-display text-3xl md:text-5xl lg:text-6xl font-semibold text-white mb-3 md:mb-4">
-          Academic
-        </h1>
-      </motion.div>
+      {activeCategory ? (
+        <CategoryHeader eyebrow="Academic" category={activeCategory} />
+      ) : (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
+        >
+          {slug && (
+            <Link href="/academic">
+              <span className="inline-flex items-center gap-2 text-white/60 hover:text-white transition-colors mb-4 cursor-pointer">
+                <ArrowLeft size={16} />
+                <span className="font-nav text-sm tracking-wider">Back to Academic</span>
+              </span>
+            </Link>
+          )}
+          <h1 className="font-display text-3xl md:text-5xl lg:text-6xl font-semibold text-white mb-3 md:mb-4">
+            Academic
+          </h1>
+        </motion.div>
+      )}
+
+      {!slug && <CategoryNav section="paper" basePath="/academic" activeSlug={categorySlug} />}
 
       {/* Papers List */}
       <div className="container mx-auto px-6">
         {papers.length === 0 ? (
           <div className="text-center py-20">
             <GraduationCap className="w-16 h-16 text-white/20 mx-auto mb-4" />
-            <h2 className="text-xl font-medium text-white/80 mb-2">No papers yet</h2>
-            <p className="text-white/40 font-body">Academic papers will appear here once they are published.</p>
+            {slug ? (
+              <h2 className="text-xl font-medium text-white/80 mb-2">Paper not found</h2>
+            ) : categorySlug && !activeCategory ? (
+              <h2 className="text-xl font-medium text-white/80 mb-2">Category not found</h2>
+            ) : activeCategory ? (
+              <p className="text-white/40 font-body">No papers in this category</p>
+            ) : (
+              <>
+                <h2 className="text-xl font-medium text-white/80 mb-2">No papers yet</h2>
+                <p className="text-white/40 font-body">Academic papers will appear here once they are published.</p>
+              </>
+            )}
           </div>
         ) : (
           <div className="space-y-8">
@@ -183,13 +257,17 @@ export default function Academic() {
                 key={paper.id}
                 initial={{ opacity: 0, y: 30 }}
                 animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.6, delay: index * 0.1 }}
+                transition={{ duration: 0.6, delay: (index % PAGE_SIZE) * 0.1 }}
                 className="bg-card border border-border rounded-lg p-6 md:p-8"
               >
                 {/* Title and Authors */}
                 <div className="mb-4">
                   <h2 className="font-display text-2xl md:text-3xl text-white mb-3 leading-tight">
-                    {paper.title}
+                    <Link href={`/academic/${paper.slug}`}>
+                      <span className="hover:text-white/80 transition-colors cursor-pointer">
+                        {paper.title}
+                      </span>
+                    </Link>
                   </h2>
                   <p className="font-body text-white/70">
                     {paper.authors.join(", ")}
@@ -236,14 +314,14 @@ export default function Academic() {
                       <FileText size={14} />
                       Abstract
                       <span className="text-xs">
-                        {expandedAbstract === paper.id ? "▲" : "▼"}
+                        {isAbstractExpanded(paper.id) ? "▲" : "▼"}
                       </span>
                     </button>
                     <motion.div
                       initial={false}
                       animate={{
-                        height: expandedAbstract === paper.id ? "auto" : 0,
-                        opacity: expandedAbstract === paper.id ? 1 : 0,
+                        height: isAbstractExpanded(paper.id) ? "auto" : 0,
+                        opacity: isAbstractExpanded(paper.id) ? 1 : 0,
                       }}
                       transition={{ duration: 0.3 }}
                       className="overflow-hidden"
@@ -259,12 +337,11 @@ export default function Academic() {
                 {paper.keywords.length > 0 && (
                   <div className="flex flex-wrap gap-2 mb-6">
                     {paper.keywords.map((keyword) => (
-                      <span
-                        key={keyword}
-                        className="font-nav text-xs tracking-wider px-3 py-1 bg-white/5 rounded-full text-white/50"
-                      >
-                        {keyword}
-                      </span>
+                      <Link key={keyword.slug} href={`/tags/${keyword.slug}`}>
+                        <span className="font-nav text-xs tracking-wider px-3 py-1 bg-white/5 hover:bg-white/10 rounded-full text-white/50 hover:text-white/80 transition-colors cursor-pointer">
+                          {keyword.name}
+                        </span>
+                      </Link>
                     ))}
                   </div>
                 )}
@@ -292,6 +369,15 @@ export default function Academic() {
             ))}
           </div>
         )}
+        {!slug && (
+          <InfiniteScrollTrigger
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            fetchNextPage={fetchNextPage}
+            loaded={papers.length}
+            total={paperPages?.pages[0]?.total ?? 0}
+          />
+        )}
       </div>
 
       {/* Citation Note */}
@@ -30,7 +30,12 @@ import {
   PanelLeft, 
   Settings,
   LayoutDashboard,
-  Image
+  Image,
+  FolderOpen,
+  Layers,
+  Images,
+  HardDrive,
+  Library
 } from "lucide-react";
 import { CSSProperties, useEffect, useRef, useState } from "react";
 import { useLocation, Route, Switch } from "wouter";
@@ -39,17 +44,27 @@ import { DashboardLayoutSkeleton } from '@/components/DashboardLayoutSkeleton';
 // Admin sub-pages
 import AdminDashboard from "./admin/AdminDashboard";
 import AdminPhotos from "./admin/AdminPhotos";
+import AdminAlbums from "./admin/AdminAlbums";
 import AdminEssays from "./admin/AdminEssays";
 import AdminPapers from "./admin/AdminPapers";
+import AdminCategories from "./admin/AdminCategories";
+import AdminSeries from "./admin/AdminSeries";
 import AdminBackgrounds from "./admin/AdminBackgrounds";
+import AdminMedia from "./admin/AdminMedia";
+import AdminStorage from "./admin/AdminStorage";
 import AdminSettings from "./admin/AdminSettings";
 
 const menuItems = [
   { icon: LayoutDashboard, label: "Dashboard", path: "/admin" },
   { icon: Camera, label: "Photography", path: "/admin/photos" },
+  { icon: Images, label: "Albums", path: "/admin/albums" },
   { icon: FileText, label: "Magazine", path: "/admin/essays" },
+  { icon: Layers, label: "Series", path: "/admin/series" },
   { icon: GraduationCap, label: "Academic", path: "/admin/papers" },
+  { icon: FolderOpen, label: "Categories", path: "/admin/categories" },
   { icon: Image, label: "Backgrounds", path: "/admin/backgrounds" },
+  { icon: Library, label: "Media Library", path: "/admin/media" },
+  { icon: HardDrive, label: "Storage", path: "/admin/storage" },
   { icon: Settings, label: "Settings", path: "/admin/settings" },
 ];
 
@@ -322,9 +337,14 @@ function AdminLayoutContent({ setSidebarWidth }: AdminLayoutContentProps) {
           <Switch>
             <Route path="/admin" component={AdminDashboard} />
             <Route path="/admin/photos" component={AdminPhotos} />
+            <Route path="/admin/albums" component={AdminAlbums} />
             <Route path="/admin/essays" component={AdminEssays} />
+            <Route path="/admin/series" component={AdminSeries} />
             <Route path="/admin/papers" component={AdminPapers} />
+            <Route path="/admin/categories" component={AdminCategories} />
             <Route path="/admin/backgrounds" component={AdminBackgrounds} />
+            <Route path="/admin/media" component={AdminMedia} />
+            <Route path="/admin/storage" component={AdminStorage} />
             <Route path="/admin/settings" component={AdminSettings} />
           </Switch>
         </main>
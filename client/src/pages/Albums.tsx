@@ -0,0 +1,181 @@
+/**
+ * Photo Albums
+ * - Index of curated albums with their cover and photo count
+ * - An album shows its photos in album order on the masonry wall
+ * - The lightbox follows the URL and pages within the album only
+ */
+
+import { useCallback, useMemo } from "react";
+import { motion } from "framer-motion";
+import { ArrowLeft, Images } from "lucide-react";
+import { Link, useLocation, useParams } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { PhotoGrid, PhotoLightbox, toDisplayPhoto, type DisplayPhoto } from "@/components/PhotoGallery";
+
+function LoadingState() {
+  return (
+    <div className="min-h-screen bg-background pt-24 pb-16">
+      <div className="container mx-auto px-4 md:px-6">
+        <div className="flex items-center justify-center py-20">
+          <div className="w-8 h-8 border-2 border-white/20 border-t-white rounded-full animate-spin" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function EmptyState({ title, message }: { title: string; message?: string }) {
+  return (
+    <div className="min-h-screen bg-background pt-24 pb-16">
+      <div className="container mx-auto px-4 md:px-6">
+        <div className="text-center py-16 md:py-20">
+          <Images className="w-12 h-12 md:w-16 md:h-16 text-white/20 mx-auto mb-4" />
+          <h2 className="text-xl font-medium text-white/80 mb-2">{title}</h2>
+          {message && <p className="text-white/40 font-body">{message}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function AlbumIndex() {
+  const { data: albums, isLoading } = trpc.albums.list.useQuery();
+
+  if (isLoading) return <LoadingState />;
+  if (!albums || albums.length === 0) {
+    return <EmptyState title="No albums yet" message="Curated albums will appear here." />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background pt-24 pb-16">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8 }}
+        className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
+      >
+        <span className="font-nav text-xs tracking-widest uppercase text-white/50 mb-3 block">Photography</span>
+        <h1 className="font-display text-3xl md:text-5xl lg:text-6xl font-semibold text-white mb-3 md:mb-4">
+          Albums
+        </h1>
+      </motion.div>
+
+      <div className="container mx-auto px-4 md:px-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 md:gap-8">
+          {albums.map((album, index) => (
+            <motion.div
+              key={album.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5, delay: index * 0.1 }}
+            >
+              <Link href={`/photography/albums/${album.slug}`}>
+                <div className="group cursor-pointer">
+                  <div className="aspect-[4/3] rounded-lg overflow-hidden bg-white/5 mb-4">
+                    {album.coverImageUrl ? (
+                      <img
+                        src={album.coverImageUrl}
+                        alt={album.title}
+                        loading="lazy"
+                        className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <Images className="w-10 h-10 text-white/20" />
+                      </div>
+                    )}
+                  </div>
+                  <span className="font-nav text-xs tracking-wider text-white/40">
+                    {album.photoCount} {album.photoCount === 1 ? "photo" : "photos"}
+                  </span>
+                  <h2 className="font-display text-xl md:text-2xl text-white group-hover:text-white/80 transition-colors mt-1">
+                    {album.title}
+                  </h2>
+                  {album.description && (
+                    <p className="font-body text-sm text-white/50 line-clamp-2 mt-2">{album.description}</p>
+                  )}
+                </div>
+              </Link>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function AlbumDetail({ slug, photoSlug }: { slug: string; photoSlug?: string }) {
+  const [, setLocation] = useLocation();
+  const { data: album, isLoading } = trpc.albums.getBySlug.useQuery({ slug });
+
+  const basePath = `/photography/albums/${slug}`;
+  const photos = useMemo(() => album?.photos.map(toDisplayPhoto) ?? [], [album]);
+  const selectedPhoto = photoSlug ? photos.find((p) => p.slug === photoSlug) ?? null : null;
+
+  const openLightbox = useCallback((photo: DisplayPhoto) => {
+    setLocation(`${basePath}/${photo.slug}`);
+  }, [basePath, setLocation]);
+
+  const closeLightbox = useCallback(() => {
+    setLocation(basePath);
+  }, [basePath, setLocation]);
+
+  const navigatePhoto = useCallback(
+    (direction: "prev" | "next") => {
+      if (!selectedPhoto || photos.length === 0) return;
+      const currentIndex = photos.findIndex((p) => p.id === selectedPhoto.id);
+      const newIndex =
+        direction === "prev"
+          ? (currentIndex - 1 + photos.length) % photos.length
+          : (currentIndex + 1) % photos.length;
+      // Replace instead of push so the back button leaves the lightbox
+      setLocation(`${basePath}/${photos[newIndex].slug}`, { replace: true });
+    },
+    [selectedPhoto, photos, basePath, setLocation]
+  );
+
+  if (isLoading) return <LoadingState />;
+  if (!album) return <EmptyState title="Album not found" />;
+
+  return (
+    <div className="min-h-screen bg-background pt-24 pb-16">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8 }}
+        className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
+      >
+        <Link href="/photography/albums">
+          <span className="inline-flex items-center gap-2 text-white/60 hover:text-white transition-colors mb-4 cursor-pointer">
+            <ArrowLeft size={16} />
+            <span className="font-nav text-sm tracking-wider">All Albums</span>
+          </span>
+        </Link>
+        <h1 className="font-display text-3xl md:text-5xl lg:text-6xl font-semibold text-white mb-3 md:mb-4">
+          {album.title}
+        </h1>
+        {album.description && (
+          <p className="font-body text-white/60 max-w-2xl">{album.description}</p>
+        )}
+      </motion.div>
+
+      <main className="container mx-auto px-4 md:px-6">
+        {photos.length === 0 ? (
+          <p className="text-center py-16 text-white/40 font-body">This album is empty</p>
+        ) : (
+          <PhotoGrid photos={photos} onOpen={openLightbox} />
+        )}
+      </main>
+
+      {/* Lightbox */}
+      <PhotoLightbox photo={selectedPhoto} onClose={closeLightbox} onNavigate={navigatePhoto} />
+    </div>
+  );
+}
+
+export default function Albums() {
+  const { slug, photoSlug } = useParams<{ slug?: string; photoSlug?: string }>();
+  return slug ? <AlbumDetail slug={slug} photoSlug={photoSlug} /> : <AlbumIndex />;
+}
@@ -10,49 +10,66 @@ import { useState, useEffect, useCallback, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { ChevronDown } from "lucide-react";
 import { trpc } from "@/lib/trpc";
+import { pickVariant } from "@shared/imageVariants";
+
+type BackgroundImage = {
+  url: string;
+  /** Blurred preview shown until the full image has loaded */
+  placeholder: string | null;
+};
 
 // Default fallback images when no backgrounds are configured
-const defaultBackgroundImages = [
+const defaultBackgroundImages: BackgroundImage[] = [
   "/images/DSCF3114.JPG",
   "/images/image7.jpg",
   "/images/image1.jpg",
   "/images/image5.jpg",
   "/images/image2.jpg",
   "/images/image3.jpg",
-];
+].map(url => ({ url, placeholder: null }));
+
+// The slideshow takes one page of backgrounds
+const MAX_BACKGROUNDS = 50;
 
 export default function Home() {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [isLoaded, setIsLoaded] = useState(false);
 
   // Fetch backgrounds from database
-  const { data: dbBackgrounds } = trpc.backgrounds.list.useQuery({});
+  const { data: backgroundPage } = trpc.backgrounds.list.useQuery({ limit: MAX_BACKGROUNDS });
+  const dbBackgrounds = backgroundPage?.items;
 
-  // Use database backgrounds if available, otherwise use defaults
+  // Use database backgrounds if available, otherwise use defaults. CSS
+  // backgrounds cannot use srcset, so pick the rendition that covers the
+  // screen here; the original is the fallback when there are no variants.
   const backgroundImages = useMemo(() => {
     if (dbBackgrounds && dbBackgrounds.length > 0) {
-      return dbBackgrounds.map(bg => bg.imageUrl);
+      const screenWidth = Math.max(window.innerWidth, window.innerHeight) * (window.devicePixelRatio || 1);
+      return dbBackgrounds.map((bg): BackgroundImage => ({
+        url: pickVariant(bg.imageVariants, screenWidth)?.url ?? bg.imageUrl,
+        placeholder: bg.imagePlaceholder,
+      }));
     }
     return defaultBackgroundImages;
   }, [dbBackgrounds]);
 
-  // Preload images
+  // Preload images. The page is shown once the first one is ready; the rest
+  // keep loading, and one that is not ready yet sits on its blurred placeholder
   useEffect(() => {
-    const preloadImages = backgroundImages.map((src) => {
+    const preloadImages = backgroundImages.map(({ url }) => {
       const img = new Image();
-      img.src = src;
+      img.src = url;
       return img;
     });
-    
-    Promise.all(
-      preloadImages.map(
-        (img) =>
-          new Promise((resolve) => {
-            img.onload = resolve;
-            img.onerror = resolve;
-          })
-      )
-    ).then(() => setIsLoaded(true));
+
+    const first = preloadImages[0];
+    if (!first) return;
+    if (first.complete) {
+      setIsLoaded(true);
+      return;
+    }
+    first.onload = () => setIsLoaded(true);
+    first.onerror = () => setIsLoaded(true);
   }, [backgroundImages]);
 
   // Auto-rotate images every 8 seconds
@@ -84,10 +101,18 @@ export default function Home() {
             transition={{ duration: 3, ease: "easeInOut" }}
             className="absolute inset-0"
           >
+            {backgroundImages[currentImageIndex]?.placeholder && (
+              <div
+                className="absolute inset-0 bg-cover bg-center blur-2xl scale-110"
+                style={{
+                  backgroundImage: `url(${backgroundImages[currentImageIndex].placeholder})`,
+                }}
+              />
+            )}
             <div
               className="absolute inset-0 ken-burns bg-cover bg-center"
               style={{
-                backgroundImage: `url(${backgroundImages[currentImageIndex]})`,
+                backgroundImage: `url(${backgroundImages[currentImageIndex]?.url})`,
               }}
             />
           </motion.div>
@@ -6,13 +6,22 @@
  * - Image displayed in rounded container with category badge
  */
 
-import { useState, useMemo, useEffect, useCallback } from "react";
+import { useMemo, useEffect, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Calendar, Clock, ArrowRight, BookOpen, ArrowLeft } from "lucide-react";
+import { Calendar, Clock, ArrowRight, BookOpen, ArrowLeft, Layers } from "lucide-react";
+import { Link, useLocation, useParams } from "wouter";
 import { trpc } from "@/lib/trpc";
+import type { Essay as DbEssay } from "@shared/types";
+import type { CategoryRef } from "@shared/categories";
+import type { ImageVariant } from "@shared/imageVariants";
+import { CategoryHeader, CategoryNav } from "@/components/CategoryNav";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { InfiniteScrollTrigger } from "@/components/InfiniteScrollTrigger";
+import "highlight.js/styles/github-dark.css";
 
 interface Essay {
   id: number;
+  slug: string;
   title: string;
   subtitle: string;
   excerpt: string;
@@ -21,6 +30,8 @@ interface Essay {
   readTime: string;
   category: string;
   coverImage: string;
+  coverVariants: ImageVariant[];
+  coverPlaceholder: string | null;
 }
 
 // Estimate read time from content
@@ -31,55 +42,96 @@ function estimateReadTime(content: string): string {
   return `${minutes} min read`;
 }
 
+// Transform a database essay to display format
+function toDisplayEssay(e: DbEssay & { category: CategoryRef | null; imageVariants?: ImageVariant[] }): Essay {
+  return {
+    id: e.id,
+    slug: e.slug,
+    title: e.title,
+    subtitle: e.subtitle || "",
+    excerpt: e.excerpt || "",
+    content: e.content || "",
+    date: e.publishedAt 
+      ? new Date(e.publishedAt).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+      : new Date().toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+    readTime: e.content ? estimateReadTime(e.content) : "5 min read",
+    category: e.category?.name ?? "Uncategorized",
+    coverImage: e.coverImageUrl || "",
+    coverVariants: e.imageVariants ?? [],
+    coverPlaceholder: e.coverImagePlaceholder,
+  };
+}
+
+const PAGE_SIZE = 12;
+
 export default function Magazine() {
-  const [selectedCategory, setSelectedCategory] = useState("All");
-  const [selectedEssay, setSelectedEssay] = useState<Essay | null>(null);
+  const [, setLocation] = useLocation();
+  const { slug, categorySlug } = useParams<{ slug?: string; categorySlug?: string }>();
+
+  // Category landing pages list only that category's essays
+  const { data: activeCategory, isLoading: isCategoryLoading } = trpc.categories.getBySlug.useQuery(
+    { section: "essay", slug: categorySlug ?? "" },
+    { enabled: !!categorySlug }
+  );
+
+  // Fetch essays from database, a page at a time as the list is scrolled
+  const {
+    data: essayPages,
+    isLoading: isListLoading,
+    error: listError,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = trpc.essays.list.useInfiniteQuery(
+    { categoryId: activeCategory?.id, limit: PAGE_SIZE },
+    {
+      enabled: !categorySlug || !!activeCategory,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    }
+  );
 
-  // Fetch essays from database
-  const { data: dbEssays, isLoading, error } = trpc.essays.list.useQuery({});
+  // The open essay comes from the URL so it can be shared and loaded directly
+  const {
+    data: dbSelectedEssay,
+    isLoading: isEssayLoading,
+    error: essayError,
+  } = trpc.essays.getBySlug.useQuery({ slug: slug ?? "" }, { enabled: !!slug });
+
+  const isLoading = slug ? isEssayLoading : isCategoryLoading || isListLoading;
+  const error = slug ? essayError : listError;
 
   // Transform database essays to display format
   const essays = useMemo(() => {
-    if (!dbEssays || dbEssays.length === 0) {
+    if (!essayPages) {
       return [];
     }
-    return dbEssays.map(e => ({
-      id: e.id,
-      title: e.title,
-      subtitle: e.subtitle || "",
-      excerpt: e.excerpt || "",
-      content: e.content || "",
-      date: e.publishedAt 
-        ? new Date(e.publishedAt).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
-        : new Date().toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
-      readTime: e.content ? estimateReadTime(e.content) : "5 min read",
-      category: e.category || "Uncategorized",
-      coverImage: e.coverImageUrl || "",
-    }));
-  }, [dbEssays]);
-
-  // Extract unique categories from essays
-  const categories = useMemo(() => {
-    if (essays.length === 0) return ["All"];
-    const uniqueCategories = new Set(essays.map(e => e.category));
-    return ["All", ...Array.from(uniqueCategories)];
-  }, [essays]);
-
-  const filteredEssays =
-    selectedCategory === "All"
-      ? essays
-      : essays.filter((essay) => essay.category === selectedCategory);
+    return essayPages.pages.flatMap((page) => page.items).map(toDisplayEssay);
+  }, [essayPages]);
+
+  const selectedEssay = useMemo(
+    () => (slug && dbSelectedEssay ? toDisplayEssay(dbSelectedEssay) : null),
+    [slug, dbSelectedEssay]
+  );
+  const contentHtml = dbSelectedEssay?.contentHtml ?? "";
+  const toc = dbSelectedEssay?.toc ?? [];
+  const essayTags = dbSelectedEssay?.tags ?? [];
+  const essaySeries = dbSelectedEssay?.series ?? null;
 
   // Handle opening an essay
   const handleOpenEssay = useCallback((essay: Essay) => {
-    setSelectedEssay(essay);
+    setLocation(`/magazine/${essay.slug}`);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, [setLocation]);
+
+  // Moving between parts of a series keeps the reader mounted
+  const scrollToTop = useCallback(() => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }, []);
 
   // Handle closing the essay
   const handleCloseEssay = useCallback(() => {
-    setSelectedEssay(null);
-  }, []);
+    setLocation("/magazine");
+  }, [setLocation]);
 
   // Keyboard navigation for essay view
   useEffect(() => {
@@ -137,6 +189,44 @@ export default function Magazine() {
     );
   }
 
+  // Unknown category
+  if (categorySlug && !activeCategory) {
+    return (
+      <div className="min-h-screen bg-background pt-24 pb-16">
+        <div className="container mx-auto px-4 md:px-6">
+          <div className="text-center py-16 md:py-20">
+            <BookOpen className="w-12 h-12 md:w-16 md:h-16 text-white/20 mx-auto mb-4" />
+            <h2 className="text-xl font-medium text-white/80 mb-2">Category not found</h2>
+            <Link href="/magazine" className="font-nav text-sm tracking-wider text-white/60 hover:text-white transition-colors">
+              Back to Magazine
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Unknown or unpublished permalink
+  if (slug && !selectedEssay) {
+    return (
+      <div className="min-h-screen bg-background pt-24 pb-16">
+        <div className="container mx-auto px-4 md:px-6">
+          <div className="text-center py-16 md:py-20">
+            <BookOpen className="w-12 h-12 md:w-16 md:h-16 text-white/20 mx-auto mb-4" />
+            <h2 className="text-xl font-medium text-white/80 mb-2">Essay not found</h2>
+            <button
+              onClick={handleCloseEssay}
+              className="inline-flex items-center gap-2 text-white/60 hover:text-white transition-colors mt-4"
+            >
+              <ArrowLeft size={16} />
+              <span className="font-nav text-sm tracking-wider">Back to Magazine</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Essay Detail View
   if (selectedEssay) {
     return (
@@ -150,10 +240,13 @@ export default function Magazine() {
           className="min-h-screen bg-background"
         >
           {/* Hero Image */}
-          <div className="relative h-[50vh] md:h-[60vh] lg:h-[70vh]">
+          <div className="relative h-[50vh] md:h-[60vh] lg:h-[70vh] overflow-hidden">
             {selectedEssay.coverImage ? (
-              <img
+              <ResponsiveImage
                 src={selectedEssay.coverImage}
+                variants={selectedEssay.coverVariants}
+                sizes="100vw"
+                placeholder={selectedEssay.coverPlaceholder}
                 alt={selectedEssay.title}
                 className="w-full h-full object-cover"
               />
@@ -175,9 +268,18 @@ export default function Magazine() {
             {/* Title Overlay */}
             <div className="absolute bottom-0 left-0 right-0 p-4 md:p-12 lg:p-16">
               <div className="max-w-4xl mx-auto">
-                <span className="font-nav text-xs tracking-widest uppercase text-white/60 mb-3 md:mb-4 block">
-                  {selectedEssay.category}
-                </span>
+                {dbSelectedEssay?.category ? (
+                  <Link
+                    href={`/magazine/category/${dbSelectedEssay.category.slug}`}
+                    className="font-nav text-xs tracking-widest uppercase text-white/60 hover:text-white transition-colors mb-3 md:mb-4 block"
+                  >
+                    {selectedEssay.category}
+                  </Link>
+                ) : (
+                  <span className="font-nav text-xs tracking-widest uppercase text-white/60 mb-3 md:mb-4 block">
+                    {selectedEssay.category}
+                  </span>
+                )}
                 <h1 className="font-display text-2xl md:text-4xl lg:text-5xl text-white mb-2 md:mb-3">
                   {selectedEssay.title}
                 </h1>
@@ -203,13 +305,89 @@ export default function Magazine() {
           {/* Article Content */}
           <div className="container mx-auto px-4 md:px-6 py-8 md:py-12 lg:py-16">
             <article className="max-w-3xl mx-auto">
-              <div className="prose prose-lg prose-invert prose-mixed prose-p:text-white/80 prose-p:leading-relaxed prose-p:font-body prose-headings:font-display prose-headings:text-white max-w-none">
-                {selectedEssay.content.split('\n\n').map((paragraph, index) => (
-                  <p key={index} className="mb-6 md:mb-8 text-base md:text-lg leading-[1.9] md:leading-[2] text-white/80 font-body text-justify tracking-wide">
-                    {paragraph}
-                  </p>
-                ))}
-              </div>
+              {/* Series */}
+              {essaySeries && (
+                <div className="mb-8 md:mb-10 flex items-center gap-2 font-nav text-xs md:text-sm tracking-wider text-white/50">
+                  <Layers size={14} />
+                  <span>Part {essaySeries.part} of {essaySeries.total}</span>
+                  <span className="text-white/30">·</span>
+                  <Link href={`/magazine/series/${essaySeries.slug}`} className="text-white/70 hover:text-white transition-colors">
+                    {essaySeries.title}
+                  </Link>
+                </div>
+              )}
+
+              {/* Table of Contents */}
+              {toc.length > 1 && (
+                <nav className="mb-10 md:mb-12 p-4 md:p-6 rounded-xl bg-white/5 border border-white/10" aria-label="Table of contents">
+                  <p className="font-nav text-xs tracking-widest uppercase text-white/50 mb-3">Contents</p>
+                  <ul className="space-y-2">
+                    {toc.map(entry => (
+                      <li key={entry.id} className={entry.depth > 2 ? "pl-4" : ""}>
+                        <a
+                          href={`#${entry.id}`}
+                          className="font-body text-sm md:text-base text-white/70 hover:text-white transition-colors"
+                        >
+                          {entry.text}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                </nav>
+              )}
+
+              {/* Content is rendered and sanitized on the server */}
+              <div
+                className="prose prose-lg prose-invert prose-mixed prose-p:text-white/80 prose-p:leading-relaxed prose-p:font-body prose-headings:font-display prose-headings:text-white prose-headings:scroll-mt-24 prose-a:text-white prose-pre:bg-white/5 prose-img:rounded-xl max-w-none [&_.heading-anchor]:ml-2 [&_.heading-anchor]:no-underline [&_.heading-anchor]:opacity-0 [&_:hover>.heading-anchor]:opacity-50"
+                dangerouslySetInnerHTML={{ __html: contentHtml }}
+              />
+
+              {/* Tags */}
+              {essayTags.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-10 md:mt-12">
+                  {essayTags.map(tag => (
+                    <Link key={tag.slug} href={`/tags/${tag.slug}`}>
+                      <span className="font-nav text-xs tracking-wider px-3 py-1 bg-white/5 hover:bg-white/10 rounded-full text-white/50 hover:text-white/80 transition-colors cursor-pointer">
+                        #{tag.name}
+                      </span>
+                    </Link>
+                  ))}
+                </div>
+              )}
+
+              {/* Series Navigation */}
+              {essaySeries && (essaySeries.previous || essaySeries.next) && (
+                <nav className="grid grid-cols-2 gap-4 mt-12 md:mt-16" aria-label="Series navigation">
+                  {essaySeries.previous ? (
+                    <Link href={`/magazine/${essaySeries.previous.slug}`} onClick={scrollToTop}>
+                      <div className="group h-full p-4 md:p-5 rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 transition-colors cursor-pointer">
+                        <span className="flex items-center gap-1 font-nav text-xs tracking-wider text-white/40 mb-2">
+                          <ArrowLeft size={12} className="group-hover:-translate-x-1 transition-transform" />
+                          Part {essaySeries.part - 1}
+                        </span>
+                        <span className="font-display text-base md:text-lg text-white/80 group-hover:text-white transition-colors">
+                          {essaySeries.previous.title}
+                        </span>
+                      </div>
+                    </Link>
+                  ) : (
+                    <div />
+                  )}
+                  {essaySeries.next && (
+                    <Link href={`/magazine/${essaySeries.next.slug}`} onClick={scrollToTop}>
+                      <div className="group h-full p-4 md:p-5 rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 transition-colors cursor-pointer text-right">
+                        <span className="flex items-center justify-end gap-1 font-nav text-xs tracking-wider text-white/40 mb-2">
+                          Part {essaySeries.part + 1}
+                          <ArrowRight size={12} className="group-hover:translate-x-1 transition-transform" />
+                        </span>
+                        <span className="font-display text-base md:text-lg text-white/80 group-hover:text-white transition-colors">
+                          {essaySeries.next.title}
+                        </span>
+                      </div>
+                    </Link>
+                  )}
+                </nav>
+              )}
 
               {/* Back to Magazine */}
               <div className="mt-12 md:mt-16 pt-6 md:pt-8 border-t border-white/10">
@@ -231,46 +409,33 @@ export default function Magazine() {
   return (
     <div className="min-h-screen bg-background pt-24 pb-16">
       {/* Header */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.8 }}
-        className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
-      >
-        <h1 className="font-display text-3xl md:text-5xl lg:text-6xl font-semibold text-white mb-3 md:mb-4">
-          Magazine
-        </h1>
-        
-      </motion.div>
-
-      {/* Category Filter - Scrollable on mobile */}
-      {essays.length > 0 && (
+      {activeCategory ? (
+        <CategoryHeader eyebrow="Magazine" category={activeCategory} />
+      ) : (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.8, delay: 0.1 }}
+          transition={{ duration: 0.8 }}
           className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
         >
-          <div className="flex gap-2 md:gap-3 overflow-x-auto pb-2 -mx-4 px-4 md:mx-0 md:px-0 scrollbar-hide">
-            {categories.map((category) => (
-              <button
-                key={category}
-                onClick={() => setSelectedCategory(category)}
-                className={`font-nav text-xs md:text-sm tracking-wider px-3 md:px-4 py-2 rounded-full transition-all duration-300 whitespace-nowrap flex-shrink-0 ${
-                  selectedCategory === category
-                    ? "bg-white text-black"
-                    : "bg-white/10 text-white/70 hover:bg-white/20 hover:text-white"
-                }`}
-              >
-                {category}
-              </button>
-            ))}
-          </div>
+          <h1 className="font-display text-3xl md:text-5xl lg:text-6xl font-semibold text-white mb-3 md:mb-4">
+            Magazine
+          </h1>
+          <Link
+            href="/magazine/series"
+            className="inline-flex items-center gap-2 font-nav text-xs md:text-sm tracking-wider text-white/50 hover:text-white transition-colors"
+          >
+            <Layers size={14} />
+            Browse series
+          </Link>
         </motion.div>
       )}
 
+      {/* Category Filter - Scrollable on mobile */}
+      <CategoryNav section="essay" basePath="/magazine" activeSlug={categorySlug} />
+
       {/* Empty State */}
-      {essays.length === 0 ? (
+      {essays.length === 0 && !categorySlug ? (
         <div className="container mx-auto px-4 md:px-6">
           <div className="text-center py-16 md:py-20">
             <BookOpen className="w-12 h-12 md:w-16 md:h-16 text-white/20 mx-auto mb-4" />
@@ -278,7 +443,7 @@ export default function Magazine() {
             <p className="text-white/40 font-body">Essays will appear here once they are published.</p>
           </div>
         </div>
-      ) : filteredEssays.length === 0 ? (
+      ) : essays.length === 0 ? (
         <div className="container mx-auto px-4 md:px-6">
           <div className="text-center py-16 md:py-20">
             <BookOpen className="w-12 h-12 md:w-16 md:h-16 text-white/20 mx-auto mb-4" />
@@ -289,12 +454,12 @@ export default function Magazine() {
         /* Unified Card Grid - All cards use the same style */
         <div className="container mx-auto px-4 md:px-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
-            {filteredEssays.map((essay, index) => (
+            {essays.map((essay, index) => (
               <motion.article
                 key={essay.id}
                 initial={{ opacity: 0, y: 30 }}
                 animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.6, delay: index * 0.1 }}
+                transition={{ duration: 0.6, delay: (index % PAGE_SIZE) * 0.1 }}
                 className="group cursor-pointer"
                 onClick={() => handleOpenEssay(essay)}
                 role="button"
@@ -312,8 +477,11 @@ export default function Magazine() {
                   <div className="relative aspect-[4/3]">
                     {/* Image with consistent aspect ratio using object-cover */}
                     {essay.coverImage ? (
-                      <img
+                      <ResponsiveImage
                         src={essay.coverImage}
+                        variants={essay.coverVariants}
+                        sizes="(min-width: 768px) 50vw, 100vw"
+                        placeholder={essay.coverPlaceholder}
                         alt={essay.title}
                         className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-[1.02]"
                         loading="lazy"
@@ -360,6 +528,13 @@ export default function Magazine() {
               </motion.article>
             ))}
           </div>
+          <InfiniteScrollTrigger
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            fetchNextPage={fetchNextPage}
+            loaded={essays.length}
+            total={essayPages?.pages[0]?.total ?? 0}
+          />
         </div>
       )}
     </div>
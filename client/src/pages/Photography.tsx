@@ -6,87 +6,100 @@
  * - Mobile-first responsive design
  */
 
-import { useState, useMemo, useCallback, useEffect } from "react";
-import { motion, AnimatePresence } from "framer-motion";
-import { X, ChevronLeft, ChevronRight, Camera, Download, ZoomIn } from "lucide-react";
+import { useMemo, useCallback, useState } from "react";
+import { motion } from "framer-motion";
+import { Camera, Images } from "lucide-react";
+import { Link, useLocation, useParams } from "wouter";
 import { trpc } from "@/lib/trpc";
-import { toast } from "sonner";
+import { CategoryHeader, CategoryNav } from "@/components/CategoryNav";
+import { InfiniteScrollTrigger } from "@/components/InfiniteScrollTrigger";
+import { PhotoFilters, type PhotoFilterState } from "@/components/PhotoFilters";
+import { PhotoGrid, PhotoLightbox, toDisplayPhoto, type DisplayPhoto } from "@/components/PhotoGallery";
 
-interface Photo {
-  id: number;
-  src: string;
-  title: string;
-  location: string;
-  year: string;
-  description: string;
-  camera?: string;
-  lens?: string;
-  settings?: string;
-}
+const PAGE_SIZE = 30;
 
 export default function Photography() {
-  const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
-  const [hoveredId, setHoveredId] = useState<number | null>(null);
-  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const [, setLocation] = useLocation();
+  const { slug, categorySlug } = useParams<{ slug?: string; categorySlug?: string }>();
 
-  // Fetch photos from database
-  const { data: dbPhotos, isLoading, error } = trpc.photos.list.useQuery({});
+  // Category landing pages list only that category's photos
+  const { data: activeCategory, isLoading: isCategoryLoading } = trpc.categories.getBySlug.useQuery(
+    { section: "photo", slug: categorySlug ?? "" },
+    { enabled: !!categorySlug }
+  );
+
+  // Camera / lens / focal range filters; kept in state so they survive opening the lightbox
+  const [filters, setFilters] = useState<PhotoFilterState>({});
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  // Fetch photos from database, a page at a time as the wall is scrolled
+  const {
+    data: photoPages,
+    isLoading: isListLoading,
+    error,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = trpc.photos.list.useInfiniteQuery(
+    { categoryId: activeCategory?.id, ...filters, limit: PAGE_SIZE },
+    {
+      enabled: !categorySlug || !!activeCategory,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      // Keep the current wall on screen while a new filter loads
+      placeholderData: (previous) => previous,
+    }
+  );
+  const isLoading = isCategoryLoading || isListLoading;
+  const total = photoPages?.pages[0]?.total ?? 0;
 
   // Transform database photos to display format
   const photos = useMemo(() => {
-    if (!dbPhotos || dbPhotos.length === 0) {
+    if (!photoPages) {
       return [];
     }
-    return dbPhotos.map(p => ({
-      id: p.id,
-      src: p.imageUrl,
-      title: p.title,
-      location: p.location || "",
-      year: p.publishedAt ? new Date(p.publishedAt).getFullYear().toString() : new Date().getFullYear().toString(),
-      description: p.description || "",
-      camera: p.camera || undefined,
-      lens: p.lens || undefined,
-      settings: p.settings || undefined,
-    }));
-  }, [dbPhotos]);
+    return photoPages.pages.flatMap((page) => page.items).map(toDisplayPhoto);
+  }, [photoPages]);
+
+  // The lightbox follows the URL; fall back to a direct lookup when the
+  // permalinked photo is not part of the loaded list
+  const listedPhoto = slug ? photos.find((p) => p.slug === slug) : undefined;
+  const { data: dbLinkedPhoto } = trpc.photos.getBySlug.useQuery(
+    { slug: slug ?? "" },
+    { enabled: !!slug && !isLoading && !listedPhoto }
+  );
+  const selectedPhoto: DisplayPhoto | null =
+    listedPhoto ?? (slug && dbLinkedPhoto ? toDisplayPhoto(dbLinkedPhoto) : null);
 
-  const openLightbox = useCallback((photo: Photo) => {
-    setSelectedPhoto(photo);
-    setIsLightboxOpen(true);
-    document.body.style.overflow = "hidden";
-  }, []);
+  const openLightbox = useCallback((photo: DisplayPhoto) => {
+    setLocation(`/photography/${photo.slug}`);
+  }, [setLocation]);
 
   const closeLightbox = useCallback(() => {
-    setIsLightboxOpen(false);
-    document.body.style.overflow = "unset";
-    setTimeout(() => setSelectedPhoto(null), 300);
-  }, []);
+    setLocation("/photography");
+  }, [setLocation]);
 
   const navigatePhoto = useCallback(
     (direction: "prev" | "next") => {
-      if (!selectedPhoto) return;
+      if (!selectedPhoto || photos.length === 0) return;
       const currentIndex = photos.findIndex((p) => p.id === selectedPhoto.id);
+      // Past the last loaded photo, load the next page instead of wrapping around
+      if (direction === "next" && currentIndex === photos.length - 1 && hasNextPage) {
+        fetchNextPage().then(({ data }) => {
+          const next = data?.pages.at(-1)?.items[0];
+          if (next) setLocation(`/photography/${next.slug}`, { replace: true });
+        });
+        return;
+      }
       const newIndex =
         direction === "prev"
           ? (currentIndex - 1 + photos.length) % photos.length
           : (currentIndex + 1) % photos.length;
-      setSelectedPhoto(photos[newIndex]);
+      // Replace instead of push so the back button leaves the lightbox
+      setLocation(`/photography/${photos[newIndex].slug}`, { replace: true });
     },
-    [selectedPhoto, photos]
+    [selectedPhoto, photos, setLocation, hasNextPage, fetchNextPage]
   );
 
-  // Keyboard navigation
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (!isLightboxOpen) return;
-      if (e.key === "Escape") closeLightbox();
-      if (e.key === "ArrowLeft") navigatePhoto("prev");
-      if (e.key === "ArrowRight") navigatePhoto("next");
-    };
-    window.addEventListener("keydown", handleKeyDown);
-    return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [isLightboxOpen, closeLightbox, navigatePhoto]);
-
   // Loading state
   if (isLoading) {
     return (
@@ -111,8 +124,25 @@ export default function Photography() {
     );
   }
 
+  // Unknown category
+  if (categorySlug && !activeCategory) {
+    return (
+      <div className="min-h-screen bg-background pt-24 pb-16">
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <div className="text-center">
+            <Camera className="w-16 h-16 text-white/20 mx-auto mb-4" />
+            <h2 className="text-xl font-medium text-white/80 mb-2">Category not found</h2>
+            <Link href="/photography" className="text-white/60 hover:text-white transition-colors">
+              Back to Photography
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Empty state
-  if (photos.length === 0) {
+  if (photos.length === 0 && !activeCategory && !hasFilters) {
     return (
       <div className="min-h-screen bg-black">
         {/* Header */}
@@ -142,140 +172,50 @@ export default function Photography() {
   return (
     <div className="min-h-screen bg-background pt-24 pb-16">
       {/* Header - Matching Magazine style */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.8 }}
-        className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
-      >
-        <h1 className="font-display text-3xl md:text-5xl lg:text-6xl font-semibold text-white mb-3 md:mb-4">
-          Photography
-        </h1>
-      </motion.div>
+      {activeCategory ? (
+        <CategoryHeader eyebrow="Photography" category={activeCategory} />
+      ) : (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
+        >
+          <h1 className="font-display text-3xl md:text-5xl lg:text-6xl font-semibold text-white mb-3 md:mb-4">
+            Photography
+          </h1>
+          <Link
+            href="/photography/albums"
+            className="inline-flex items-center gap-2 font-nav text-xs md:text-sm tracking-wider text-white/50 hover:text-white transition-colors"
+          >
+            <Images size={14} />
+            Browse albums
+          </Link>
+        </motion.div>
+      )}
+
+      <CategoryNav section="photo" basePath="/photography" activeSlug={categorySlug} />
+      <PhotoFilters value={filters} onChange={setFilters} />
 
       {/* Masonry Grid */}
       <main className="container mx-auto px-4 md:px-6">
-        <div className="columns-1 sm:columns-2 lg:columns-3 gap-4 space-y-4">
-          {photos.map((photo, index) => (
-            <motion.div
-              key={photo.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.5, delay: index * 0.1 }}
-              className="break-inside-avoid"
-            >
-              <div
-                className="relative group cursor-pointer overflow-hidden rounded-lg bg-white/5"
-                onMouseEnter={() => setHoveredId(photo.id)}
-                onMouseLeave={() => setHoveredId(null)}
-                onClick={() => openLightbox(photo)}
-              >
-                <img
-                  src={photo.src}
-                  alt={photo.title}
-                  className="w-full h-auto object-contain transition-transform duration-500 group-hover:scale-105"
-                  loading="lazy"
-                />
-
-                {/* Hover Overlay */}
-                <AnimatePresence>
-                  {hoveredId === photo.id && (
-                    <motion.div
-                      initial={{ opacity: 0 }}
-                      animate={{ opacity: 1 }}
-                      exit={{ opacity: 0 }}
-                      className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent flex flex-col justify-end p-4"
-                    >
-                      <h3 className="text-white font-medium text-lg">{photo.title}</h3>
-                      <p className="text-white/60 text-sm">
-                        {photo.location} · {photo.year}
-                      </p>
-                      <div className="absolute top-4 right-4">
-                        <ZoomIn className="w-5 h-5 text-white/80" />
-                      </div>
-                    </motion.div>
-                  )}
-                </AnimatePresence>
-              </div>
-            </motion.div>
-          ))}
-        </div>
+        {photos.length === 0 && (
+          <p className="text-center py-16 text-white/40 font-body">
+            {hasFilters ? "No photos match these filters" : "No photos in this category"}
+          </p>
+        )}
+        <PhotoGrid photos={photos} onOpen={openLightbox} />
+        <InfiniteScrollTrigger
+          hasNextPage={hasNextPage}
+          isFetchingNextPage={isFetchingNextPage}
+          fetchNextPage={fetchNextPage}
+          loaded={photos.length}
+          total={total}
+        />
       </main>
 
       {/* Lightbox */}
-      <AnimatePresence>
-        {isLightboxOpen && selectedPhoto && (
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="fixed inset-0 z-50 bg-black/95 flex items-center justify-center"
-            onClick={closeLightbox}
-          >
-            {/* Close button */}
-            <button
-              onClick={closeLightbox}
-              className="absolute top-4 right-4 z-10 p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
-            >
-              <X className="w-6 h-6 text-white" />
-            </button>
-
-            {/* Navigation buttons */}
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                navigatePhoto("prev");
-              }}
-              className="absolute left-4 top-1/2 -translate-y-1/2 p-3 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
-            >
-              <ChevronLeft className="w-6 h-6 text-white" />
-            </button>
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                navigatePhoto("next");
-              }}
-              className="absolute right-4 top-1/2 -translate-y-1/2 p-3 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
-            >
-              <ChevronRight className="w-6 h-6 text-white" />
-            </button>
-
-            {/* Image and info */}
-            <div
-              className="max-w-5xl max-h-[90vh] mx-auto px-16 flex flex-col items-center"
-              onClick={(e) => e.stopPropagation()}
-            >
-              <motion.img
-                key={selectedPhoto.id}
-                initial={{ opacity: 0, scale: 0.95 }}
-                animate={{ opacity: 1, scale: 1 }}
-                exit={{ opacity: 0, scale: 0.95 }}
-                src={selectedPhoto.src}
-                alt={selectedPhoto.title}
-                className="max-h-[70vh] w-auto object-contain rounded-lg mx-auto block"
-              />
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="mt-6 text-center"
-              >
-                <h2 className="text-2xl font-light text-white mb-2">{selectedPhoto.title}</h2>
-                <p className="text-white/60 mb-2">
-                  {selectedPhoto.location} · {selectedPhoto.year}
-                </p>
-                <p className="text-white/40 max-w-xl mx-auto leading-relaxed">{selectedPhoto.description}</p>
-                {(selectedPhoto.camera || selectedPhoto.lens || selectedPhoto.settings) && (
-                  <div className="mt-4 flex items-center justify-center gap-4 text-sm text-white/30">
-                    {selectedPhoto.camera && <span>{selectedPhoto.camera}</span>}
-                    {selectedPhoto.lens && <span>{selectedPhoto.lens}</span>}
-                    {selectedPhoto.settings && <span>{selectedPhoto.settings}</span>}
-                  </div>
-                )}
-              </motion.div>
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
+      <PhotoLightbox photo={selectedPhoto} onClose={closeLightbox} onNavigate={navigatePhoto} />
     </div>
   );
 }
@@ -0,0 +1,241 @@
+/**
+ * Draft Preview
+ * - Renders an unpublished essay or paper from a signed preview link
+ * - Persistent banner makes it clear the content is not public yet
+ * - Invalid, expired and revoked links share a single "unavailable" state
+ */
+
+import { useEffect } from "react";
+import { motion } from "framer-motion";
+import { BookOpen, Calendar, Clock, Download, Eye, FileText, LinkIcon } from "lucide-react";
+import { useParams } from "wouter";
+import { trpc } from "@/lib/trpc";
+import "highlight.js/styles/github-dark.css";
+
+function PreviewBanner({ expiresAt }: { expiresAt: Date }) {
+  return (
+    <div className="sticky top-16 z-40 bg-amber-500/90 text-black backdrop-blur-sm">
+      <div className="container mx-auto px-4 md:px-6 py-2 flex flex-wrap items-center justify-center gap-x-3 gap-y-1 text-center font-nav text-xs md:text-sm tracking-wider">
+        <span className="inline-flex items-center gap-2 font-semibold uppercase">
+          <Eye size={14} />
+          Preview
+        </span>
+        <span>This draft is not published yet. Please don't share this link.</span>
+        <span className="text-black/60">
+          Link expires {new Date(expiresAt).toLocaleString()}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default function Preview() {
+  const { token } = useParams<{ token: string }>();
+  const { data, isLoading } = trpc.previews.get.useQuery(
+    { token: token ?? "" },
+    { enabled: !!token, retry: false }
+  );
+
+  // Drafts should never end up in search results
+  useEffect(() => {
+    const meta = document.createElement("meta");
+    meta.name = "robots";
+    meta.content = "noindex, nofollow";
+    document.head.appendChild(meta);
+    return () => {
+      document.head.removeChild(meta);
+    };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background pt-24 pb-16">
+        <div className="container mx-auto px-4 md:px-6">
+          <div className="flex items-center justify-center py-20">
+            <div className="w-8 h-8 border-2 border-white/20 border-t-white rounded-full animate-spin" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-background pt-24 pb-16">
+        <div className="container mx-auto px-4 md:px-6">
+          <div className="text-center py-16 md:py-20">
+            <LinkIcon className="w-12 h-12 md:w-16 md:h-16 text-white/20 mx-auto mb-4" />
+            <h2 className="text-xl font-medium text-white/80 mb-2">Preview unavailable</h2>
+            <p className="text-white/40 font-body">
+              This preview link is invalid, has expired or has been revoked.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (data.contentType === "essay") {
+    const { essay } = data;
+    return (
+      <div className="min-h-screen bg-background pt-16">
+        <PreviewBanner expiresAt={data.expiresAt} />
+
+        {/* Hero */}
+        <div className="relative h-[40vh] md:h-[50vh]">
+          {essay.coverImageUrl ? (
+            <img
+              src={essay.coverImageUrl}
+              alt={essay.title}
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <div className="w-full h-full bg-white/5" />
+          )}
+          <div className="absolute inset-0 bg-gradient-to-t from-background via-background/50 to-transparent" />
+          <div className="absolute bottom-0 left-0 right-0 p-4 md:p-12 lg:p-16">
+            <div className="max-w-4xl mx-auto">
+              <span className="font-nav text-xs tracking-widest uppercase text-white/60 mb-3 md:mb-4 block">
+                {essay.category?.name || "Uncategorized"}
+              </span>
+              <h1 className="font-display text-2xl md:text-4xl lg:text-5xl text-white mb-2 md:mb-3">
+                {essay.title}
+              </h1>
+              {essay.subtitle && (
+                <p className="font-display text-lg md:text-xl lg:text-2xl italic text-white/80 mb-4 md:mb-6">
+                  {essay.subtitle}
+                </p>
+              )}
+              <div className="flex items-center gap-3 md:gap-4 text-white/50 font-nav text-xs md:text-sm">
+                <span className="flex items-center gap-1">
+                  <Calendar size={14} />
+                  {essay.publishedAt
+                    ? `Scheduled for ${new Date(essay.publishedAt).toLocaleString()}`
+                    : "Draft"}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Clock size={14} />
+                  {essay.readTime || 5} min read
+                </span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="container mx-auto px-4 md:px-6 py-8 md:py-12 lg:py-16">
+          <article className="max-w-3xl mx-auto">
+            {essay.toc.length > 1 && (
+              <nav className="mb-10 md:mb-12 p-4 md:p-6 rounded-xl bg-white/5 border border-white/10" aria-label="Table of contents">
+                <p className="font-nav text-xs tracking-widest uppercase text-white/50 mb-3">Contents</p>
+                <ul className="space-y-2">
+                  {essay.toc.map(entry => (
+                    <li key={entry.id} className={entry.depth > 2 ? "pl-4" : ""}>
+                      <a
+                        href={`#${entry.id}`}
+                        className="font-body text-sm md:text-base text-white/70 hover:text-white transition-colors"
+                      >
+                        {entry.text}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </nav>
+            )}
+
+            {/* Content is rendered and sanitized on the server */}
+            <div
+              className="prose prose-lg prose-invert prose-mixed prose-p:text-white/80 prose-p:leading-relaxed prose-p:font-body prose-headings:font-display prose-headings:text-white prose-headings:scroll-mt-32 prose-a:text-white prose-pre:bg-white/5 prose-img:rounded-xl max-w-none [&_.heading-anchor]:ml-2 [&_.heading-anchor]:no-underline [&_.heading-anchor]:opacity-0 [&_:hover>.heading-anchor]:opacity-50"
+              dangerouslySetInnerHTML={{ __html: essay.contentHtml }}
+            />
+          </article>
+        </div>
+      </div>
+    );
+  }
+
+  const { paper } = data;
+
+  return (
+    <div className="min-h-screen bg-background pt-16 pb-16">
+      <PreviewBanner expiresAt={data.expiresAt} />
+
+      <div className="container mx-auto px-4 md:px-6 pt-8 md:pt-12">
+        <motion.article
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6 }}
+          className="bg-card border border-border rounded-lg p-6 md:p-8"
+        >
+          <div className="mb-4">
+            <h1 className="font-display text-2xl md:text-3xl text-white mb-3 leading-tight">
+              {paper.title}
+            </h1>
+            <p className="font-body text-white/70">
+              {paper.authors.split(",").map(a => a.trim()).join(", ")}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 mb-4 text-white/50 font-nav text-sm">
+            {paper.journal && (
+              <span className="flex items-center gap-1">
+                <BookOpen size={14} />
+                {paper.journal}
+              </span>
+            )}
+            {paper.year && (
+              <span className="flex items-center gap-1">
+                <Calendar size={14} />
+                {paper.year}
+              </span>
+            )}
+            {paper.volume && (
+              <span>
+                Vol. {paper.volume}
+                {paper.issue && `, No. ${paper.issue}`}
+                {paper.pages && `, pp. ${paper.pages}`}
+              </span>
+            )}
+          </div>
+
+          {paper.abstract && (
+            <div className="mb-4">
+              <p className="font-nav text-sm tracking-wider text-white/60 mb-2 flex items-center gap-2">
+                <FileText size={14} />
+                Abstract
+              </p>
+              <p className="font-body text-white/70 leading-[1.85] pl-6 border-l-2 border-white/20 text-justify">
+                {paper.abstract}
+              </p>
+            </div>
+          )}
+
+          {paper.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-6">
+              {paper.tags.map(keyword => (
+                <span
+                  key={keyword.slug}
+                  className="font-nav text-xs tracking-wider px-3 py-1 bg-white/5 rounded-full text-white/50"
+                >
+                  {keyword.name}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {paper.pdfUrl && (
+            <a
+              href={paper.pdfUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-2 font-nav text-sm tracking-wider px-4 py-2 bg-white/10 hover:bg-white/20 rounded-full text-white/80 hover:text-white transition-all"
+            >
+              <Download size={14} />
+              Download PDF
+            </a>
+          )}
+        </motion.article>
+      </div>
+    </div>
+  );
+}
@@ -1,261 +1,179 @@
 /*
  * Design Philosophy: Atmospheric Immersion
- * - Clean, categorized search results
- * - User-friendly presentation
+ * - Ranked results with facets to narrow them down
+ * - Query, filters and page live in the URL so searches can be shared
  * - Search across photography, essays, and papers
  * - Minimal, focused interface
  */
 
-import { useState, useMemo } from "react";
+import { useEffect, useState, type ReactNode } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Search as SearchIcon, Camera, BookOpen, FileText, X } from "lucide-react";
-import { Link } from "wouter";
-import { toast } from "sonner";
+import { Link, useLocation, useSearchParams } from "wouter";
+import type { inferRouterOutputs } from "@trpc/server";
+import {
+  SearchSuggestionList,
+  useSuggestionNavigation,
+  type Suggestion,
+} from "@/components/SearchSuggestions";
+import { useSearchSuggestions } from "@/hooks/useSearchSuggestions";
 import { trpc } from "@/lib/trpc";
+import type { AppRouter } from "../../../server/routers";
 
-interface SearchResult {
-  id: number;
-  type: "photography" | "magazine" | "academic";
-  title: string;
-  subtitle?: string;
-  description: string;
-  image?: string;
-  tags: string[];
-}
-
-// Static fallback content
-const staticContent: SearchResult[] = [
-  // Photography
-  {
-    id: 1,
-    type: "photography",
-    title: "Winter Solitude",
-    subtitle: "Isle of Skye, Scotland",
-    description: "Snow-covered peaks under a pale winter sky",
-    image: "/images/DSCF3114.JPG",
-    tags: ["landscape", "winter", "scotland", "mountains", "snow"],
-  },
-  {
-    id: 2,
-    type: "photography",
-    title: "Edge of the World",
-    subtitle: "Seven Sisters, England",
-    description: "Where chalk cliffs meet the sea",
-    image: "/images/image7.jpg",
-    tags: ["landscape", "cliffs", "england", "coast", "fog"],
-  },
-  {
-    id: 3,
-    type: "photography",
-    title: "Turquoise Waters",
-    subtitle: "Étretat, France",
-    description: "A lone kayaker beneath limestone cliffs",
-    image: "/images/image1.jpg",
-    tags: ["seascape", "france", "kayak", "cliffs", "water"],
-  },
-  {
-    id: 4,
-    type: "photography",
-    title: "Threshold",
-    subtitle: "York, England",
-    description: "An elderly man at the doorway",
-    image: "/images/image5.jpg",
-    tags: ["street", "portrait", "england", "light", "shadow"],
-  },
-  {
-    id: 5,
-    type: "photography",
-    title: "Florentine Light",
-    subtitle: "Florence, Italy",
-    description: "The Duomo in golden hour",
-    image: "/images/image2.jpg",
-    tags: ["architecture", "italy", "florence", "cathedral", "crowd"],
-  },
-  {
-    id: 6,
-    type: "photography",
-    title: "Roman Passage",
-    subtitle: "Rome, Italy",
-    description: "The Pantheon's ancient columns",
-    image: "/images/image3.jpg",
-    tags: ["architecture", "italy", "rome", "pantheon", "history"],
-  },
-  // Magazine Essays
-  {
-    id: 7,
-    type: "magazine",
-    title: "The Art of Seeing",
-    subtitle: "On Photography and Presence",
-    description: "What does it mean to truly see in an age of infinite images?",
-    image: "/images/image7.jpg",
-    tags: ["photography", "presence", "mindfulness", "vision"],
-  },
-  {
-    id: 8,
-    type: "magazine",
-    title: "Wandering Through Time",
-    subtitle: "Reflections on European Architecture",
-    description: "Architecture as frozen music across centuries",
-    image: "/images/image3.jpg",
-    tags: ["architecture", "europe", "history", "travel"],
-  },
-  {
-    id: 9,
-    type: "magazine",
-    title: "The Silence of Snow",
-    subtitle: "A Winter Journey to the Scottish Highlands",
-    description: "The profound stillness of highland winter",
-    image: "/images/DSCF3114.JPG",
-    tags: ["travel", "scotland", "winter", "nature", "silence"],
-  },
-  // Academic Papers
-  {
-    id: 10,
-    type: "academic",
-    title: "Visual Rhetoric in Contemporary Documentary Photography",
-    description: "A semiotic analysis of meaning construction in documentary images",
-    tags: ["documentary", "semiotics", "visual culture", "rhetoric"],
-  },
-  {
-    id: 11,
-    type: "academic",
-    title: "The Phenomenology of Place",
-    description: "Architectural experience and embodied perception",
-    tags: ["phenomenology", "architecture", "embodiment", "perception"],
-  },
-  {
-    id: 12,
-    type: "academic",
-    title: "Between Stillness and Motion",
-    description: "Temporality in landscape photography",
-    tags: ["landscape", "temporality", "photography", "time"],
-  },
-];
+type SearchHit = inferRouterOutputs<AppRouter>["search"]["query"]["hits"][number];
+type ResultType = SearchHit["type"];
 
 const typeIcons = {
-  photography: Camera,
-  magazine: BookOpen,
-  academic: FileText,
+  photo: Camera,
+  essay: BookOpen,
+  paper: FileText,
 };
 
 const typeLabels = {
-  photography: "Photography",
-  magazine: "Magazine",
-  academic: "Academic",
-};
-
-const typeRoutes = {
-  photography: "/photography",
-  magazine: "/magazine",
-  academic: "/academic",
+  photo: "Photography",
+  essay: "Magazine",
+  paper: "Academic",
 };
 
-export default function Search() {
-  const [query, setQuery] = useState("");
-  const [activeFilter, setActiveFilter] = useState<string | null>(null);
-
-  // Fetch data from backend
-  const { data: dbPhotos } = trpc.photos.list.useQuery({});
-  const { data: dbEssays } = trpc.essays.list.useQuery({});
-  const { data: dbPapers } = trpc.papers.list.useQuery({});
+// Wait for a pause in typing before querying
+const SEARCH_DELAY_MS = 250;
 
-  // Combine database content with static fallback
-  const allContent = useMemo(() => {
-    const content: SearchResult[] = [];
+const PAGE_SIZE = 12;
 
-    // Add database photos
-    if (dbPhotos && dbPhotos.length > 0) {
-      dbPhotos.forEach(photo => {
-        content.push({
-          id: photo.id,
-          type: "photography",
-          title: photo.title,
-          subtitle: photo.location || undefined,
-          description: photo.description || "",
-          image: photo.imageUrl,
-          tags: photo.tags ? photo.tags.split(',').map(t => t.trim()) : [],
-        });
-      });
-    }
+/** URL parameters that narrow the results; changing one starts again at page 1. */
+type FilterParams = Partial<Record<"q" | "type" | "category" | "tag" | "year", string | undefined>>;
 
-    // Add database essays
-    if (dbEssays && dbEssays.length > 0) {
-      dbEssays.forEach(essay => {
-        content.push({
-          id: essay.id + 1000, // Offset to avoid ID collision
-          type: "magazine",
-          title: essay.title,
-          subtitle: essay.subtitle || undefined,
-          description: essay.excerpt || "",
-          image: essay.coverImageUrl || undefined,
-          tags: essay.tags ? essay.tags.split(',').map(t => t.trim()) : [],
-        });
-      });
-    }
-
-    // Add database papers
-    if (dbPapers && dbPapers.length > 0) {
-      dbPapers.forEach(paper => {
-        content.push({
-          id: paper.id + 2000, // Offset to avoid ID collision
-          type: "academic",
-          title: paper.title,
-          description: paper.abstract || "",
-          tags: paper.tags ? paper.tags.split(',').map(t => t.trim()) : [],
-        });
-      });
-    }
+function parsePositiveInt(value: string | null): number | undefined {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
 
-    // If no database content, use static fallback
-    if (content.length === 0) {
-      return staticContent;
-    }
+function parseType(value: string | null): ResultType | undefined {
+  return value && value in typeLabels ? (value as ResultType) : undefined;
+}
 
-    return content;
-  }, [dbPhotos, dbEssays, dbPapers]);
+/** Text with the parts that matched the query marked. */
+function Highlighted({ segments }: { segments: SearchHit["snippet"] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-white/20 text-white rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
 
-  const results = useMemo(() => {
-    if (!query.trim()) return [];
+/** One facet: a titled list of values with result counts, each toggled on click. */
+function FacetList({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div>
+      <h3 className="font-nav text-xs tracking-widest uppercase text-white/40 mb-3">
+        {title}
+      </h3>
+      <ul className="space-y-1">{children}</ul>
+    </div>
+  );
+}
 
-    const searchTerms = query.toLowerCase().split(" ").filter(Boolean);
+function FacetOption({
+  label,
+  count,
+  active,
+  onClick,
+}: {
+  label: string;
+  count: number;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <li>
+      <button
+        onClick={onClick}
+        className={`w-full flex items-center justify-between gap-3 px-3 py-1.5 rounded-md font-body text-sm text-left transition-colors ${
+          active ? "bg-white text-black" : "text-white/60 hover:bg-white/10 hover:text-white"
+        }`}
+      >
+        <span className="truncate">{label}</span>
+        <span className={`font-nav text-xs ${active ? "text-black/60" : "text-white/30"}`}>
+          {count}
+        </span>
+      </button>
+    </li>
+  );
+}
 
-    return allContent.filter((item) => {
-      // Filter by type if active
-      if (activeFilter && item.type !== activeFilter) return false;
+export default function Search() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const q = searchParams.get("q")?.trim() ?? "";
+  const type = parseType(searchParams.get("type"));
+  const categoryId = parsePositiveInt(searchParams.get("category"));
+  const tag = searchParams.get("tag") || undefined;
+  const year = parsePositiveInt(searchParams.get("year"));
+  const page = parsePositiveInt(searchParams.get("page")) ?? 1;
 
-      // Search in title, subtitle, description, and tags
-      const searchableText = [
-        item.title,
-        item.subtitle || "",
-        item.description,
-        ...item.tags,
-      ]
-        .join(" ")
-        .toLowerCase();
+  const [, navigate] = useLocation();
+  const [query, setQuery] = useState(q);
+  const [showSuggestions, setShowSuggestions] = useState(false);
 
-      return searchTerms.every((term) => searchableText.includes(term));
-    });
-  }, [query, activeFilter, allContent]);
+  // Follow the URL when it changes underneath us (back/forward, shared links)
+  useEffect(() => {
+    setQuery((current) => (current.trim() === q ? current : q));
+  }, [q]);
 
-  const groupedResults = useMemo(() => {
-    const groups: Record<string, SearchResult[]> = {
-      photography: [],
-      magazine: [],
-      academic: [],
-    };
+  const updateParams = (changes: FilterParams, options?: { replace?: boolean }) => {
+    setSearchParams((previous) => {
+      const next = new URLSearchParams(previous);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) next.set(key, value);
+        else next.delete(key);
+      }
+      next.delete("page");
+      return next;
+    }, options);
+  };
 
-    results.forEach((result) => {
-      groups[result.type].push(result);
+  const goToPage = (nextPage: number) => {
+    setSearchParams((previous) => {
+      const next = new URLSearchParams(previous);
+      if (nextPage > 1) next.set("page", String(nextPage));
+      else next.delete("page");
+      return next;
     });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
 
-    return groups;
-  }, [results]);
+  // Typing replaces the history entry rather than adding one per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (query.trim() !== q) updateParams({ q: query.trim() }, { replace: true });
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
 
-  const handleResultClick = () => {
-    toast("Coming Soon", {
-      description: "Detailed view will be available soon.",
-    });
+  const suggestions = useSearchSuggestions(query, { enabled: showSuggestions });
+  const selectSuggestion = (suggestion: Suggestion) => {
+    setShowSuggestions(false);
+    navigate(suggestion.path);
   };
+  const suggestionNavigation = useSuggestionNavigation(suggestions, selectSuggestion);
+
+  const { data, isFetching } = trpc.search.query.useQuery(
+    { q, type, categoryId, tag, year, page, pageSize: PAGE_SIZE },
+    { enabled: q.length > 0, placeholderData: (previous) => previous }
+  );
+  const results = q ? data?.hits ?? [] : [];
+  const total = q ? data?.total ?? 0 : 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const facets = data?.facets;
+  const typeCounts = new Map(facets?.types.map((facet) => [facet.value, facet.count]));
+  const hasFilters = !!(type || categoryId || tag || year);
 
   return (
     <div className="min-h-screen bg-background pt-24 pb-16">
@@ -289,18 +207,42 @@ export default function Search() {
           <input
             type="text"
             value={query}
-            onChange={(e) => setQuery(e.target.value)}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setShowSuggestions(true);
+            }}
+            onKeyDown={(e) => {
+              if (suggestionNavigation.handleKeyDown(e)) return;
+              if (e.key === "Enter" || e.key === "Escape") setShowSuggestions(false);
+              if (e.key === "Enter" && query.trim() !== q) updateParams({ q: query.trim() }, { replace: true });
+            }}
+            onBlur={() => setShowSuggestions(false)}
             placeholder="Search by title, description, or tags..."
+            role="combobox"
+            aria-expanded={showSuggestions && suggestions.length > 0}
             className="w-full bg-card border border-border rounded-lg pl-12 pr-12 py-4 font-body text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-white/20 transition-all"
           />
           {query && (
             <button
-              onClick={() => setQuery("")}
+              onClick={() => {
+                setQuery("");
+                updateParams({ q: undefined });
+              }}
               className="absolute right-4 top-1/2 -translate-y-1/2 text-white/40 hover:text-white transition-colors"
             >
               <X size={18} />
             </button>
           )}
+          {showSuggestions && suggestions.length > 0 && (
+            <div className="absolute left-0 right-0 top-full mt-2 z-20 bg-card border border-border rounded-lg shadow-xl overflow-hidden">
+              <SearchSuggestionList
+                suggestions={suggestions}
+                activeIndex={suggestionNavigation.activeIndex}
+                onSelect={selectSuggestion}
+                onHover={suggestionNavigation.setActiveIndex}
+              />
+            </div>
+          )}
         </div>
       </motion.div>
 
@@ -313,29 +255,36 @@ export default function Search() {
       >
         <div className="flex flex-wrap gap-3">
           <button
-            onClick={() => setActiveFilter(null)}
+            onClick={() => updateParams({ type: undefined })}
             className={`font-nav text-sm tracking-wider px-4 py-2 rounded-full transition-all duration-300 ${
-              activeFilter === null
+              type === undefined
                 ? "bg-white text-black"
                 : "bg-white/10 text-white/70 hover:bg-white/20 hover:text-white"
             }`}
           >
             All
           </button>
-          {Object.entries(typeLabels).map(([key, label]) => {
-            const Icon = typeIcons[key as keyof typeof typeIcons];
+          {(Object.keys(typeLabels) as ResultType[]).map((key) => {
+            const Icon = typeIcons[key];
+            const label = typeLabels[key];
+            const count = typeCounts.get(key);
             return (
               <button
                 key={key}
-                onClick={() => setActiveFilter(activeFilter === key ? null : key)}
+                onClick={() => updateParams({ type: type === key ? undefined : key })}
                 className={`font-nav text-sm tracking-wider px-4 py-2 rounded-full transition-all duration-300 flex items-center gap-2 ${
-                  activeFilter === key
+                  type === key
                     ? "bg-white text-black"
                     : "bg-white/10 text-white/70 hover:bg-white/20 hover:text-white"
                 }`}
               >
                 <Icon size={14} />
                 {label}
+                {q && count !== undefined && (
+                  <span className={type === key ? "text-black/50" : "text-white/40"}>
+                    {count}
+                  </span>
+                )}
               </button>
             );
           })}
@@ -344,119 +293,192 @@ export default function Search() {
 
       {/* Results */}
       <div className="container mx-auto px-6">
-        <AnimatePresence mode="wait">
-          {query.trim() === "" ? (
-            <motion.div
-              key="empty"
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              className="text-center py-16"
-            >
-              <SearchIcon size={48} className="mx-auto text-white/20 mb-4" />
-              <p className="font-body text-white/40">
-                Start typing to search across all content
-              </p>
-            </motion.div>
-          ) : results.length === 0 ? (
-            <motion.div
-              key="no-results"
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              className="text-center py-16"
-            >
-              <p className="font-body text-white/60 mb-2">
-                No results found for "{query}"
-              </p>
-              <p className="font-body text-white/40 text-sm">
-                Try different keywords or remove filters
-              </p>
-            </motion.div>
-          ) : (
-            <motion.div
-              key="results"
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              className="space-y-12"
-            >
-              {Object.entries(groupedResults).map(([type, items]) => {
-                if (items.length === 0) return null;
-                const Icon = typeIcons[type as keyof typeof typeIcons];
-                const label = typeLabels[type as keyof typeof typeLabels];
-                const route = typeRoutes[type as keyof typeof typeRoutes];
+        {q === "" ? (
+          <motion.div
+            key="empty"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="text-center py-16"
+          >
+            <SearchIcon size={48} className="mx-auto text-white/20 mb-4" />
+            <p className="font-body text-white/40">
+              Start typing to search across all content
+            </p>
+          </motion.div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[220px_1fr] gap-10">
+            {/* Facets */}
+            <aside className="space-y-8">
+              {facets && facets.categories.length > 0 && (
+                <FacetList title="Category">
+                  {facets.categories.map((category) => (
+                    <FacetOption
+                      key={category.id}
+                      label={category.name}
+                      count={category.count}
+                      active={categoryId === category.id}
+                      onClick={() =>
+                        updateParams({ category: categoryId === category.id ? undefined : String(category.id) })
+                      }
+                    />
+                  ))}
+                </FacetList>
+              )}
+              {facets && facets.tags.length > 0 && (
+                <FacetList title="Tag">
+                  {facets.tags.map((facet) => (
+                    <FacetOption
+                      key={facet.slug}
+                      label={facet.name}
+                      count={facet.count}
+                      active={tag === facet.slug}
+                      onClick={() => updateParams({ tag: tag === facet.slug ? undefined : facet.slug })}
+                    />
+                  ))}
+                </FacetList>
+              )}
+              {facets && facets.years.length > 0 && (
+                <FacetList title="Year">
+                  {facets.years.map((facet) => (
+                    <FacetOption
+                      key={facet.year}
+                      label={String(facet.year)}
+                      count={facet.count}
+                      active={year === facet.year}
+                      onClick={() => updateParams({ year: year === facet.year ? undefined : String(facet.year) })}
+                    />
+                  ))}
+                </FacetList>
+              )}
+              {hasFilters && (
+                <button
+                  onClick={() => updateParams({ type: undefined, category: undefined, tag: undefined, year: undefined })}
+                  className="font-nav text-sm text-white/50 hover:text-white transition-colors"
+                >
+                  Clear filters
+                </button>
+              )}
+            </aside>
 
-                return (
-                  <div key={type}>
-                    <div className="flex items-center justify-between mb-6">
-                      <h2 className="font-display text-2xl text-white flex items-center gap-3">
-                        <Icon size={24} className="text-white/60" />
-                        {label}
-                        <span className="font-nav text-sm text-white/40">
-                          ({items.length})
-                        </span>
-                      </h2>
-                      <Link href={route}>
-                        <span className="font-nav text-sm text-white/50 hover:text-white transition-colors">
-                          View all →
-                        </span>
-                      </Link>
-                    </div>
+            <AnimatePresence mode="wait">
+              {results.length === 0 && !isFetching ? (
+                <motion.div
+                  key="no-results"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                  className="text-center py-16"
+                >
+                  <p className="font-body text-white/60 mb-2">
+                    No results found for "{q}"
+                  </p>
+                  <p className="font-body text-white/40 text-sm">
+                    Try different keywords or remove filters. Use "quotes" for an exact phrase.
+                  </p>
+                </motion.div>
+              ) : (
+                <motion.div
+                  key={`results-${page}`}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                >
+                  <p className="font-nav text-sm text-white/40 mb-6">
+                    {total} {total === 1 ? "result" : "results"}
+                  </p>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                      {items.map((item, index) => (
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                    {results.map((item, index) => {
+                      const Icon = typeIcons[item.type];
+                      return (
                         <motion.div
-                          key={item.id}
+                          key={`${item.type}-${item.id}`}
                           initial={{ opacity: 0, y: 20 }}
                           animate={{ opacity: 1, y: 0 }}
                           transition={{ duration: 0.4, delay: index * 0.05 }}
-                          className="bg-card border border-border rounded-lg overflow-hidden cursor-pointer group hover:border-white/20 transition-colors"
-                          onClick={handleResultClick}
                         >
-                          {item.image && (
-                            <div className="aspect-[16/9] overflow-hidden">
-                              <img
-                                src={item.image}
-                                alt={item.title}
-                                className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
-                              />
-                            </div>
-                          )}
-                          <div className="p-4">
-                            <h3 className="font-display text-lg text-white mb-1 group-hover:text-white/80 transition-colors">
-                              {item.title}
-                            </h3>
-                            {item.subtitle && (
-                              <p className="font-body text-sm text-white/60 mb-2">
-                                {item.subtitle}
-                              </p>
-                            )}
-                            <p className="font-body text-sm text-white/40 line-clamp-2">
-                              {item.description}
-                            </p>
-                            {item.tags.length > 0 && (
-                              <div className="flex flex-wrap gap-1 mt-3">
-                                {item.tags.slice(0, 3).map((tag) => (
-                                  <span
-                                    key={tag}
-                                    className="font-nav text-xs px-2 py-0.5 bg-white/5 rounded text-white/40"
-                                  >
-                                    {tag}
-                                  </span>
-                                ))}
+                          <Link
+                            href={item.path}
+                            className="block h-full bg-card border border-border rounded-lg overflow-hidden group hover:border-white/20 transition-colors"
+                          >
+                            {item.imageUrl && (
+                              <div
+                                className="aspect-[16/9] overflow-hidden bg-cover bg-center"
+                                style={item.imagePlaceholder ? { backgroundImage: `url(${item.imagePlaceholder})` } : undefined}
+                              >
+                                <img
+                                  src={item.imageUrl}
+                                  alt=""
+                                  loading="lazy"
+                                  className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+                                />
                               </div>
                             )}
-                          </div>
+                            <div className="p-4">
+                              <p className="font-nav text-xs tracking-wider text-white/40 mb-2 flex items-center gap-1.5">
+                                <Icon size={12} />
+                                {typeLabels[item.type]}
+                                {item.category && <> · {item.category.name}</>}
+                              </p>
+                              <h3 className="font-display text-lg text-white mb-1 group-hover:text-white/80 transition-colors">
+                                <Highlighted segments={item.title} />
+                              </h3>
+                              {item.subtitle && (
+                                <p className="font-body text-sm text-white/60 mb-2">
+                                  {item.subtitle}
+                                </p>
+                              )}
+                              {item.snippet.length > 0 && (
+                                <p className="font-body text-sm text-white/40 line-clamp-3">
+                                  <Highlighted segments={item.snippet} />
+                                </p>
+                              )}
+                              {item.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-3">
+                                  {item.tags.slice(0, 3).map((itemTag) => (
+                                    <span
+                                      key={itemTag.slug}
+                                      className="font-nav text-xs px-2 py-0.5 bg-white/5 rounded text-white/40"
+                                    >
+                                      {itemTag.name}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          </Link>
                         </motion.div>
-                      ))}
-                    </div>
+                      );
+                    })}
                   </div>
-                );
-              })}
-            </motion.div>
-          )}
-        </AnimatePresence>
+
+                  {/* Pagination */}
+                  {pageCount > 1 && (
+                    <div className="flex items-center justify-between mt-12 font-nav text-sm">
+                      <button
+                        onClick={() => goToPage(page - 1)}
+                        disabled={page <= 1}
+                        className="px-4 py-2 rounded-full bg-white/10 text-white/70 hover:bg-white/20 hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                      >
+                        ← Previous
+                      </button>
+                      <span className="text-white/40">
+                        Page {Math.min(page, pageCount)} of {pageCount}
+                      </span>
+                      <button
+                        onClick={() => goToPage(page + 1)}
+                        disabled={page >= pageCount}
+                        className="px-4 py-2 rounded-full bg-white/10 text-white/70 hover:bg-white/20 hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                      >
+                        Next →
+                      </button>
+                    </div>
+                  )}
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,179 @@
+/**
+ * Essay Series
+ * - Index of all series with their cover and part count
+ * - A single series lists its parts in reading order
+ * - Each part links to the essay's permalink
+ */
+
+import { motion } from "framer-motion";
+import { ArrowLeft, ArrowRight, Layers } from "lucide-react";
+import { Link, useParams } from "wouter";
+import { trpc } from "@/lib/trpc";
+
+function LoadingState() {
+  return (
+    <div className="min-h-screen bg-background pt-24 pb-16">
+      <div className="container mx-auto px-4 md:px-6">
+        <div className="flex items-center justify-center py-20">
+          <div className="w-8 h-8 border-2 border-white/20 border-t-white rounded-full animate-spin" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function EmptyState({ title, message }: { title: string; message?: string }) {
+  return (
+    <div className="min-h-screen bg-background pt-24 pb-16">
+      <div className="container mx-auto px-4 md:px-6">
+        <div className="text-center py-16 md:py-20">
+          <Layers className="w-12 h-12 md:w-16 md:h-16 text-white/20 mx-auto mb-4" />
+          <h2 className="text-xl font-medium text-white/80 mb-2">{title}</h2>
+          {message && <p className="text-white/40 font-body">{message}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SeriesIndex() {
+  const { data: seriesList, isLoading } = trpc.series.list.useQuery();
+
+  if (isLoading) return <LoadingState />;
+  if (!seriesList || seriesList.length === 0) {
+    return <EmptyState title="No series yet" message="Multi-part essays will be collected here." />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background pt-24 pb-16">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8 }}
+        className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
+      >
+        <span className="font-nav text-xs tracking-widest uppercase text-white/50 mb-3 block">Magazine</span>
+        <h1 className="font-display text-3xl md:text-5xl lg:text-6xl font-semibold text-white mb-3 md:mb-4">
+          Series
+        </h1>
+      </motion.div>
+
+      <div className="container mx-auto px-4 md:px-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
+          {seriesList.map((series, index) => (
+            <motion.div
+              key={series.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5, delay: index * 0.1 }}
+            >
+              <Link href={`/magazine/series/${series.slug}`}>
+                <div className="group cursor-pointer">
+                  <div className="aspect-[16/9] rounded-xl overflow-hidden bg-white/5 mb-4">
+                    {series.coverImageUrl ? (
+                      <img
+                        src={series.coverImageUrl}
+                        alt={series.title}
+                        loading="lazy"
+                        className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <Layers className="w-10 h-10 text-white/20" />
+                      </div>
+                    )}
+                  </div>
+                  <span className="font-nav text-xs tracking-wider text-white/40">
+                    {series.partCount} {series.partCount === 1 ? "part" : "parts"}
+                  </span>
+                  <h2 className="font-display text-xl md:text-2xl text-white group-hover:text-white/80 transition-colors mt-1">
+                    {series.title}
+                  </h2>
+                  {series.description && (
+                    <p className="font-body text-sm md:text-base text-white/50 line-clamp-2 mt-2">
+                      {series.description}
+                    </p>
+                  )}
+                </div>
+              </Link>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SeriesDetail({ slug }: { slug: string }) {
+  const { data: series, isLoading } = trpc.series.getBySlug.useQuery({ slug });
+
+  if (isLoading) return <LoadingState />;
+  if (!series) return <EmptyState title="Series not found" />;
+
+  return (
+    <div className="min-h-screen bg-background pt-24 pb-16">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8 }}
+        className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
+      >
+        <Link href="/magazine/series">
+          <span className="inline-flex items-center gap-2 text-white/60 hover:text-white transition-colors mb-4 cursor-pointer">
+            <ArrowLeft size={16} />
+            <span className="font-nav text-sm tracking-wider">All Series</span>
+          </span>
+        </Link>
+        {series.coverImageUrl && (
+          <div className="aspect-[21/9] rounded-xl overflow-hidden bg-white/5 mb-6 md:mb-8">
+            <img src={series.coverImageUrl} alt={series.title} className="w-full h-full object-cover" />
+          </div>
+        )}
+        <span className="font-nav text-xs tracking-widest uppercase text-white/50 mb-3 block">
+          Series · {series.parts.length} {series.parts.length === 1 ? "part" : "parts"}
+        </span>
+        <h1 className="font-display text-3xl md:text-5xl lg:text-6xl font-semibold text-white mb-3 md:mb-4">
+          {series.title}
+        </h1>
+        {series.description && (
+          <p className="font-body text-white/60 max-w-2xl">{series.description}</p>
+        )}
+      </motion.div>
+
+      {/* Parts */}
+      <div className="container mx-auto px-4 md:px-6">
+        <ol className="divide-y divide-white/10 border-y border-white/10">
+          {series.parts.map((essay, index) => (
+            <li key={essay.id}>
+              <Link href={`/magazine/${essay.slug}`}>
+                <div className="group flex items-center gap-4 md:gap-6 py-5 cursor-pointer">
+                  <span className="font-nav text-xs tracking-widest uppercase text-white/40 w-14 shrink-0">
+                    Part {index + 1}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <h3 className="font-display text-lg md:text-xl text-white group-hover:text-white/80 transition-colors">
+                      {essay.title}
+                    </h3>
+                    {(essay.subtitle || essay.excerpt) && (
+                      <p className="font-body text-sm text-white/50 line-clamp-1 mt-1">
+                        {essay.subtitle || essay.excerpt}
+                      </p>
+                    )}
+                  </div>
+                  <ArrowRight size={16} className="shrink-0 text-white/30 group-hover:text-white group-hover:translate-x-1 transition-all" />
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
+
+export default function Series() {
+  const { slug } = useParams<{ slug?: string }>();
+  return slug ? <SeriesDetail slug={slug} /> : <SeriesIndex />;
+}
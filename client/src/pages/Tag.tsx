@@ -0,0 +1,152 @@
+/**
+ * Tag Archive
+ * - Everything public carrying one tag, grouped by section
+ * - Photos as a thumbnail grid, essays and papers as compact lists
+ * - Each item links to its own permalink
+ */
+
+import { motion } from "framer-motion";
+import { ArrowRight, BookOpen, Camera, GraduationCap, Hash } from "lucide-react";
+import { Link, useParams } from "wouter";
+import { trpc } from "@/lib/trpc";
+
+function SectionHeading({ icon: Icon, title, count }: { icon: typeof Camera; title: string; count: number }) {
+  return (
+    <div className="flex items-center gap-3 mb-6">
+      <Icon className="w-5 h-5 text-white/40" />
+      <h2 className="font-display text-xl md:text-2xl text-white">{title}</h2>
+      <span className="font-nav text-xs tracking-wider text-white/40">{count}</span>
+    </div>
+  );
+}
+
+export default function Tag() {
+  const { slug } = useParams<{ slug: string }>();
+  const { data, isLoading } = trpc.tags.getBySlug.useQuery({ slug: slug ?? "" }, { enabled: !!slug });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background pt-24 pb-16">
+        <div className="container mx-auto px-4 md:px-6">
+          <div className="flex items-center justify-center py-20">
+            <div className="w-8 h-8 border-2 border-white/20 border-t-white rounded-full animate-spin" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-background pt-24 pb-16">
+        <div className="container mx-auto px-4 md:px-6">
+          <div className="text-center py-16 md:py-20">
+            <Hash className="w-12 h-12 md:w-16 md:h-16 text-white/20 mx-auto mb-4" />
+            <h2 className="text-xl font-medium text-white/80 mb-2">Tag not found</h2>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { tag, photos, essays, papers } = data;
+  const total = photos.length + essays.length + papers.length;
+
+  return (
+    <div className="min-h-screen bg-background pt-24 pb-16">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8 }}
+        className="container mx-auto px-4 md:px-6 mb-8 md:mb-12"
+      >
+        <span className="font-nav text-xs tracking-widest uppercase text-white/50 mb-3 block">Tag</span>
+        <h1 className="font-display text-3xl md:text-5xl lg:text-6xl font-semibold text-white mb-3 md:mb-4">
+          #{tag.name}
+        </h1>
+        <p className="font-body text-white/50">
+          {total} {total === 1 ? "item" : "items"}
+        </p>
+      </motion.div>
+
+      <div className="container mx-auto px-4 md:px-6 space-y-12 md:space-y-16">
+        {total === 0 && (
+          <p className="text-white/40 font-body">Nothing has been published with this tag yet.</p>
+        )}
+
+        {/* Photos */}
+        {photos.length > 0 && (
+          <section>
+            <SectionHeading icon={Camera} title="Photography" count={photos.length} />
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 md:gap-4">
+              {photos.map(photo => (
+                <Link key={photo.id} href={`/photography/${photo.slug}`}>
+                  <div className="group relative aspect-square overflow-hidden rounded-lg bg-white/5 cursor-pointer">
+                    <img
+                      src={photo.imageUrl}
+                      alt={photo.title}
+                      loading="lazy"
+                      className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+                    />
+                    <div className="absolute inset-x-0 bottom-0 p-3 bg-gradient-to-t from-black/70 to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
+                      <p className="font-body text-sm text-white truncate">{photo.title}</p>
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Essays */}
+        {essays.length > 0 && (
+          <section>
+            <SectionHeading icon={BookOpen} title="Magazine" count={essays.length} />
+            <div className="divide-y divide-white/10 border-y border-white/10">
+              {essays.map(essay => (
+                <Link key={essay.id} href={`/magazine/${essay.slug}`}>
+                  <div className="group flex items-center justify-between gap-4 py-4 cursor-pointer">
+                    <div className="min-w-0">
+                      <h3 className="font-display text-lg md:text-xl text-white group-hover:text-white/80 transition-colors">
+                        {essay.title}
+                      </h3>
+                      {essay.excerpt && (
+                        <p className="font-body text-sm text-white/50 line-clamp-1 mt-1">{essay.excerpt}</p>
+                      )}
+                    </div>
+                    <ArrowRight size={16} className="shrink-0 text-white/30 group-hover:text-white group-hover:translate-x-1 transition-all" />
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Papers */}
+        {papers.length > 0 && (
+          <section>
+            <SectionHeading icon={GraduationCap} title="Academic" count={papers.length} />
+            <div className="divide-y divide-white/10 border-y border-white/10">
+              {papers.map(paper => (
+                <Link key={paper.id} href={`/academic/${paper.slug}`}>
+                  <div className="group flex items-center justify-between gap-4 py-4 cursor-pointer">
+                    <div className="min-w-0">
+                      <h3 className="font-display text-lg md:text-xl text-white group-hover:text-white/80 transition-colors">
+                        {paper.title}
+                      </h3>
+                      <p className="font-body text-sm text-white/50 mt-1">
+                        {[paper.journal, paper.year].filter(Boolean).join(" · ")}
+                      </p>
+                    </div>
+                    <ArrowRight size={16} className="shrink-0 text-white/30 group-hover:text-white group-hover:translate-x-1 transition-all" />
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
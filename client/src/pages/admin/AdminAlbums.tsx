@@ -0,0 +1,466 @@
+import { useMemo, useState } from "react";
+import { Reorder } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { Edit, GripVertical, Images, Plus, Star, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { slugify } from "@shared/slug";
+
+type AlbumFormData = {
+  title: string;
+  slug: string;
+  description: string;
+  coverPhotoId: number | null;
+  /** Member photos in album order */
+  photoIds: number[];
+};
+
+const defaultFormData: AlbumFormData = {
+  title: "",
+  slug: "",
+  description: "",
+  coverPhotoId: null,
+  photoIds: [],
+};
+
+export default function AdminAlbums() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<AlbumFormData>(defaultFormData);
+  // Slug follows the title until it is edited by hand
+  const [isSlugEdited, setIsSlugEdited] = useState(false);
+
+  const utils = trpc.useUtils();
+  const { data: albums, isLoading } = trpc.albums.listAll.useQuery();
+  const { data: photos } = trpc.photos.listAll.useQuery({});
+
+  const photosById = useMemo(() => new Map((photos ?? []).map(photo => [photo.id, photo])), [photos]);
+  const availablePhotos = (photos ?? []).filter(photo => !formData.photoIds.includes(photo.id));
+
+  const createMutation = trpc.albums.create.useMutation({
+    onSuccess: () => {
+      utils.albums.listAll.invalidate();
+      toast.success("相册创建成功");
+      closeDialog();
+    },
+    onError: (error) => {
+      toast.error("创建失败: " + error.message);
+    },
+  });
+
+  const updateMutation = trpc.albums.update.useMutation({
+    onSuccess: () => {
+      utils.albums.listAll.invalidate();
+      utils.albums.get.invalidate();
+      toast.success("相册更新成功");
+      closeDialog();
+    },
+    onError: (error) => {
+      toast.error("更新失败: " + error.message);
+    },
+  });
+
+  const deleteMutation = trpc.albums.delete.useMutation({
+    onSuccess: () => {
+      utils.albums.listAll.invalidate();
+      toast.success("相册删除成功");
+      setIsDeleteDialogOpen(false);
+      setDeletingId(null);
+    },
+    onError: (error) => {
+      toast.error("删除失败: " + error.message);
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingId(null);
+    setFormData(defaultFormData);
+    setIsSlugEdited(false);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = async (album: NonNullable<typeof albums>[0]) => {
+    try {
+      const detail = await utils.albums.get.fetch({ id: album.id });
+      setEditingId(album.id);
+      setFormData({
+        title: album.title,
+        slug: album.slug,
+        description: album.description || "",
+        coverPhotoId: album.coverPhotoId,
+        photoIds: detail?.photos.map(photo => photo.id) ?? [],
+      });
+      // Existing permalinks stay put unless the slug is changed explicitly
+      setIsSlugEdited(true);
+      setIsDialogOpen(true);
+    } catch (error) {
+      toast.error("加载失败: " + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingId(null);
+    setFormData(defaultFormData);
+  };
+
+  const addPhoto = (photoId: number) => {
+    setFormData(prev => ({ ...prev, photoIds: [...prev.photoIds, photoId] }));
+  };
+
+  const removePhoto = (photoId: number) => {
+    setFormData(prev => ({
+      ...prev,
+      photoIds: prev.photoIds.filter(id => id !== photoId),
+      coverPhotoId: prev.coverPhotoId === photoId ? null : prev.coverPhotoId,
+    }));
+  };
+
+  const handleSubmit = () => {
+    if (!formData.title.trim()) {
+      toast.error("请输入标题");
+      return;
+    }
+
+    if (editingId) {
+      updateMutation.mutate({
+        id: editingId,
+        ...formData,
+      });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  const handleDelete = () => {
+    if (deletingId) {
+      deleteMutation.mutate({ id: deletingId });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-white">
+            Albums
+          </h1>
+          <p className="text-neutral-400 mt-1">
+            Curate photos into ordered albums
+          </p>
+        </div>
+        <Button
+          onClick={openCreateDialog}
+          className="bg-white text-black hover:bg-neutral-200"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Album
+        </Button>
+      </div>
+
+      {/* Albums Grid */}
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="bg-neutral-900 border-neutral-800 animate-pulse">
+              <div className="aspect-[4/3] bg-neutral-800" />
+              <CardContent className="p-4">
+                <div className="h-4 bg-neutral-800 rounded w-3/4 mb-2" />
+                <div className="h-3 bg-neutral-800 rounded w-1/2" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : albums && albums.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {albums.map((album) => (
+            <Card key={album.id} className="bg-neutral-900 border-neutral-800 overflow-hidden group">
+              <div className="aspect-[4/3] relative bg-neutral-800">
+                {album.coverImageUrl ? (
+                  <img
+                    src={album.coverImageUrl}
+                    alt={album.title}
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <Images className="h-8 w-8 text-neutral-600" />
+                  </div>
+                )}
+                <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => openEditDialog(album)}
+                    className="bg-white text-black hover:bg-neutral-200"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => {
+                      setDeletingId(album.id);
+                      setIsDeleteDialogOpen(true);
+                    }}
+                    className="bg-red-600 hover:bg-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <CardContent className="p-4">
+                <h3 className="font-medium text-white truncate">
+                  {album.title}
+                </h3>
+                <p className="text-sm text-neutral-500 mt-1">
+                  {album.photoCount} {album.photoCount === 1 ? "photo" : "photos"}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card className="bg-neutral-900 border-neutral-800">
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <div className="p-4 rounded-full bg-neutral-800 mb-4">
+              <Images className="h-8 w-8 text-neutral-500" />
+            </div>
+            <h3 className="text-lg font-medium text-white mb-2">
+              No Albums Yet
+            </h3>
+            <p className="text-neutral-500 mb-4">
+              Group your photos into curated albums
+            </p>
+            <Button
+              onClick={openCreateDialog}
+              className="bg-white text-black hover:bg-neutral-200"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Album
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto bg-neutral-900 border-neutral-800">
+          <DialogHeader>
+            <DialogTitle className="text-white">
+              {editingId ? "Edit Album" : "Add Album"}
+            </DialogTitle>
+            <DialogDescription className="text-neutral-400">
+              {editingId ? "Update album details and photos" : "Create a new album"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {/* Title */}
+            <div className="space-y-2">
+              <Label htmlFor="title" className="text-neutral-300">Title *</Label>
+              <Input
+                id="title"
+                value={formData.title}
+                onChange={(e) => {
+                  const title = e.target.value;
+                  setFormData(prev => ({
+                    ...prev,
+                    title,
+                    slug: isSlugEdited ? prev.slug : slugify(title),
+                  }));
+                }}
+                placeholder="e.g., Winter in the Highlands"
+                className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+              />
+            </div>
+
+            {/* Slug */}
+            <div className="space-y-2">
+              <Label htmlFor="slug" className="text-neutral-300">Permalink</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-neutral-500 shrink-0">/photography/albums/</span>
+                <Input
+                  id="slug"
+                  value={formData.slug}
+                  onChange={(e) => {
+                    setIsSlugEdited(true);
+                    setFormData(prev => ({ ...prev, slug: e.target.value }));
+                  }}
+                  onBlur={() => setFormData(prev => ({ ...prev, slug: prev.slug ? slugify(prev.slug) : slugify(prev.title) }))}
+                  placeholder="generated-from-title"
+                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                />
+              </div>
+            </div>
+
+            {/* Description */}
+            <div className="space-y-2">
+              <Label htmlFor="description" className="text-neutral-300">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Describe this album..."
+                rows={3}
+                className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+              />
+            </div>
+
+            {/* Album Photos */}
+            <div className="space-y-2">
+              <Label className="text-neutral-300">
+                Photos ({formData.photoIds.length})
+              </Label>
+              <p className="text-xs text-neutral-500">
+                Drag to reorder. The starred photo is the cover; without one, the first photo is used.
+              </p>
+              {formData.photoIds.length > 0 ? (
+                <Reorder.Group
+                  axis="y"
+                  values={formData.photoIds}
+                  onReorder={(photoIds) => setFormData(prev => ({ ...prev, photoIds }))}
+                  className="space-y-2"
+                >
+                  {formData.photoIds.map((photoId, index) => {
+                    const photo = photosById.get(photoId);
+                    const isCover = formData.coverPhotoId === photoId;
+                    return (
+                      <Reorder.Item
+                        key={photoId}
+                        value={photoId}
+                        className="flex items-center gap-3 rounded-md border border-neutral-800 bg-neutral-950 px-3 py-2 cursor-grab active:cursor-grabbing"
+                      >
+                        <GripVertical className="h-4 w-4 text-neutral-600 shrink-0" />
+                        <span className="w-6 text-xs text-neutral-500 shrink-0">{index + 1}</span>
+                        {photo ? (
+                          <img
+                            src={photo.imageUrl}
+                            alt={photo.title}
+                            draggable={false}
+                            className="w-12 h-12 object-cover rounded shrink-0"
+                          />
+                        ) : (
+                          <div className="w-12 h-12 rounded bg-neutral-800 shrink-0" />
+                        )}
+                        <span className="flex-1 min-w-0 truncate text-sm text-neutral-200">
+                          {photo?.title ?? `Photo #${photoId}`}
+                        </span>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setFormData(prev => ({ ...prev, coverPhotoId: isCover ? null : photoId }))}
+                          title={isCover ? "Cover photo" : "Use as cover"}
+                          className={`h-8 w-8 hover:bg-neutral-800 ${isCover ? "text-yellow-400" : "text-neutral-500 hover:text-white"}`}
+                        >
+                          <Star className="h-4 w-4" fill={isCover ? "currentColor" : "none"} />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => removePhoto(photoId)}
+                          title="Remove from album"
+                          className="h-8 w-8 text-neutral-500 hover:text-red-400 hover:bg-neutral-800"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </Reorder.Item>
+                    );
+                  })}
+                </Reorder.Group>
+              ) : (
+                <div className="rounded-md border border-dashed border-neutral-700 py-6 text-center text-sm text-neutral-500">
+                  No photos in this album yet
+                </div>
+              )}
+            </div>
+
+            {/* Photo Picker */}
+            {availablePhotos.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-neutral-300">Add Photos</Label>
+                <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-60 overflow-y-auto">
+                  {availablePhotos.map(photo => (
+                    <button
+                      key={photo.id}
+                      type="button"
+                      onClick={() => addPhoto(photo.id)}
+                      title={photo.title}
+                      className="group relative aspect-square rounded overflow-hidden bg-neutral-800"
+                    >
+                      <img src={photo.imageUrl} alt={photo.title} className="w-full h-full object-cover" />
+                      <span className="absolute inset-0 flex items-center justify-center bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Plus className="h-5 w-5 text-white" />
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={closeDialog}
+              className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={createMutation.isPending || updateMutation.isPending}
+              className="bg-white text-black hover:bg-neutral-200"
+            >
+              {createMutation.isPending || updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent className="bg-neutral-900 border-neutral-800">
+          <DialogHeader>
+            <DialogTitle className="text-white">Confirm Delete</DialogTitle>
+            <DialogDescription className="text-neutral-400">
+              Are you sure you want to delete this album? Its photos will not be deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsDeleteDialogOpen(false)}
+              className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
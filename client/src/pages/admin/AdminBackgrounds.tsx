@@ -1,36 +1,64 @@
 import { useState, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Plus, Trash2, Edit2, Image, X, GripVertical, Eye, EyeOff } from "lucide-react";
+import { Plus, Trash2, Edit2, Image, X, GripVertical, Eye, EyeOff, Library } from "lucide-react";
 import { trpc } from "@/lib/trpc";
+import { useImageUpload } from "@/hooks/useDirectUpload";
+import { AssetPickerDialog } from "@/components/AssetPickerDialog";
 import { toast } from "sonner";
+import { UPLOAD_RULES, maxUploadMegabytes } from "@shared/uploads";
 
 interface Background {
   id: number;
   title: string | null;
   imageUrl: string;
   imageKey: string | null;
+  imageWidth: number | null;
+  imageHeight: number | null;
+  imagePlaceholder: string | null;
   active: boolean | null;
   sortOrder: number | null;
 }
 
+const emptyFormData = {
+  title: "",
+  imageUrl: "",
+  imageKey: "",
+  imageWidth: null as number | null,
+  imageHeight: null as number | null,
+  imagePlaceholder: null as string | null,
+  active: true,
+  sortOrder: 0,
+};
+
 export default function AdminBackgrounds() {
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [editingBackground, setEditingBackground] = useState<Background | null>(null);
-  const [isUploading, setIsUploading] = useState(false);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Form state
-  const [formData, setFormData] = useState({
-    title: "",
-    imageUrl: "",
-    active: true,
-    sortOrder: 0,
-  });
+  const [formData, setFormData] = useState(emptyFormData);
 
   const utils = trpc.useUtils();
   const { data: backgrounds, isLoading } = trpc.backgrounds.listAll.useQuery({});
-  const uploadMutation = trpc.upload.image.useMutation();
+  const imageUpload = useImageUpload({
+    onSuccess: (result) => {
+      setFormData((prev) => ({
+        ...prev,
+        imageUrl: result.url,
+        imageKey: result.key,
+        imageWidth: result.image?.width ?? null,
+        imageHeight: result.image?.height ?? null,
+        imagePlaceholder: result.image?.placeholder ?? null,
+      }));
+      setPreviewImage(result.url);
+      toast.success("图片上传成功");
+    },
+    onError: () => {
+      toast.error("图片上传失败");
+    },
+  });
   const createMutation = trpc.backgrounds.create.useMutation({
     onSuccess: () => {
       utils.backgrounds.listAll.invalidate();
@@ -62,7 +90,7 @@ export default function AdminBackgrounds() {
   });
 
   const openAddModal = () => {
-    setFormData({ title: "", imageUrl: "", active: true, sortOrder: 0 });
+    setFormData(emptyFormData);
     setPreviewImage(null);
     setIsAddModalOpen(true);
   };
@@ -72,6 +100,10 @@ export default function AdminBackgrounds() {
     setFormData({
       title: background.title || "",
       imageUrl: background.imageUrl,
+      imageKey: background.imageKey || "",
+      imageWidth: background.imageWidth,
+      imageHeight: background.imageHeight,
+      imagePlaceholder: background.imagePlaceholder,
       active: background.active ?? true,
       sortOrder: background.sortOrder ?? 0,
     });
@@ -82,7 +114,7 @@ export default function AdminBackgrounds() {
   const closeModal = () => {
     setIsAddModalOpen(false);
     setEditingBackground(null);
-    setFormData({ title: "", imageUrl: "", active: true, sortOrder: 0 });
+    setFormData(emptyFormData);
     setPreviewImage(null);
   };
 
@@ -91,41 +123,18 @@ export default function AdminBackgrounds() {
     if (!file) return;
 
     // Validate file type
-    if (!file.type.startsWith("image/")) {
+    if (!UPLOAD_RULES.image.contentTypes.includes(file.type)) {
       toast.error("请选择图片文件");
       return;
     }
 
-    // Validate file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      toast.error("图片大小不能超过 10MB");
+    // Validate file size
+    if (file.size > UPLOAD_RULES.image.maxBytes) {
+      toast.error(`图片大小不能超过 ${maxUploadMegabytes("image")}MB`);
       return;
     }
 
-    setIsUploading(true);
-    try {
-      // Convert to base64
-      const reader = new FileReader();
-      reader.onload = async () => {
-        const base64 = (reader.result as string).split(",")[1];
-        
-        // Upload to storage
-        const result = await uploadMutation.mutateAsync({
-          filename: file.name,
-          contentType: file.type,
-          base64Data: base64,
-        });
-
-        setFormData((prev) => ({ ...prev, imageUrl: result.url }));
-        setPreviewImage(result.url);
-        toast.success("图片上传成功");
-      };
-      reader.readAsDataURL(file);
-    } catch (error) {
-      toast.error("图片上传失败");
-    } finally {
-      setIsUploading(false);
-    }
+    imageUpload.upload(file);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -314,7 +323,7 @@ export default function AdminBackgrounds() {
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept="image/*"
+                    accept={UPLOAD_RULES.image.contentTypes.join(",")}
                     onChange={handleFileSelect}
                     className="hidden"
                   />
@@ -337,13 +346,13 @@ export default function AdminBackgrounds() {
                     <button
                       type="button"
                       onClick={() => fileInputRef.current?.click()}
-                      disabled={isUploading}
+                      disabled={imageUpload.isUploading}
                       className="w-full aspect-video border-2 border-dashed border-neutral-700 rounded-lg flex flex-col items-center justify-center hover:border-neutral-600 transition-colors"
                     >
-                      {isUploading ? (
+                      {imageUpload.isUploading ? (
                         <div className="flex items-center gap-2 text-neutral-400">
                           <div className="w-5 h-5 border-2 border-neutral-400 border-t-transparent rounded-full animate-spin" />
-                          上传中...
+                          上传中 {imageUpload.progress}%
                         </div>
                       ) : (
                         <>
@@ -354,6 +363,14 @@ export default function AdminBackgrounds() {
                       )}
                     </button>
                   )}
+                  <button
+                    type="button"
+                    onClick={() => setIsLibraryOpen(true)}
+                    className="mt-2 flex items-center gap-2 text-sm text-neutral-400 hover:text-white transition-colors"
+                  >
+                    <Library size={16} />
+                    从媒体库选择
+                  </button>
                 </div>
 
                 {/* Title */}
@@ -426,6 +443,23 @@ export default function AdminBackgrounds() {
           </motion.div>
         )}
       </AnimatePresence>
+
+      <AssetPickerDialog
+        open={isLibraryOpen}
+        onOpenChange={setIsLibraryOpen}
+        kind="image"
+        onSelect={(asset) => {
+          setFormData((prev) => ({
+            ...prev,
+            imageUrl: asset.url,
+            imageKey: asset.key,
+            imageWidth: asset.width,
+            imageHeight: asset.height,
+            imagePlaceholder: asset.placeholder,
+          }));
+          setPreviewImage(asset.url);
+        }}
+      />
     </div>
   );
 }
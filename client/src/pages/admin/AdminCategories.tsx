@@ -0,0 +1,502 @@
+import { useState, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { useImageUpload } from "@/hooks/useDirectUpload";
+import { ArrowDown, ArrowUp, Edit, FolderOpen, Plus, Trash2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { slugify } from "@shared/slug";
+import type { CategorySection } from "@shared/categories";
+import { UPLOAD_RULES, maxUploadMegabytes } from "@shared/uploads";
+
+type CategoryFormData = {
+  name: string;
+  slug: string;
+  description: string;
+  coverImageUrl: string;
+  coverImageKey: string;
+};
+
+const defaultFormData: CategoryFormData = {
+  name: "",
+  slug: "",
+  description: "",
+  coverImageUrl: "",
+  coverImageKey: "",
+};
+
+const SECTIONS: { value: CategorySection; label: string; basePath: string }[] = [
+  { value: "photo", label: "Photography", basePath: "/photography" },
+  { value: "essay", label: "Magazine", basePath: "/magazine" },
+  { value: "paper", label: "Academic", basePath: "/academic" },
+];
+
+export default function AdminCategories() {
+  const [section, setSection] = useState<CategorySection>("photo");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<CategoryFormData>(defaultFormData);
+  // Slug follows the name until it is edited by hand
+  const [isSlugEdited, setIsSlugEdited] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const basePath = SECTIONS.find(s => s.value === section)!.basePath;
+
+  const utils = trpc.useUtils();
+  const { data: categories, isLoading } = trpc.categories.listAll.useQuery({ section });
+
+  const createMutation = trpc.categories.create.useMutation({
+    onSuccess: () => {
+      utils.categories.invalidate();
+      toast.success("分类创建成功");
+      closeDialog();
+    },
+    onError: (error) => {
+      toast.error("创建失败: " + error.message);
+    },
+  });
+
+  const updateMutation = trpc.categories.update.useMutation({
+    onSuccess: () => {
+      utils.categories.invalidate();
+      toast.success("分类更新成功");
+      closeDialog();
+    },
+    onError: (error) => {
+      toast.error("更新失败: " + error.message);
+    },
+  });
+
+  const deleteMutation = trpc.categories.delete.useMutation({
+    onSuccess: () => {
+      utils.categories.invalidate();
+      toast.success("分类删除成功");
+      setIsDeleteDialogOpen(false);
+      setDeletingId(null);
+    },
+    onError: (error) => {
+      toast.error("删除失败: " + error.message);
+    },
+  });
+
+  const reorderMutation = trpc.categories.reorder.useMutation({
+    onSuccess: () => {
+      utils.categories.invalidate();
+    },
+    onError: (error) => {
+      toast.error("排序失败: " + error.message);
+    },
+  });
+
+  const imageUpload = useImageUpload({
+    onSuccess: (data) => {
+      setFormData(prev => ({
+        ...prev,
+        coverImageUrl: data.url,
+        coverImageKey: data.key,
+      }));
+      toast.success("图片上传成功");
+    },
+    onError: (error) => {
+      toast.error("上传失败: " + error.message);
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!UPLOAD_RULES.image.contentTypes.includes(file.type)) {
+      toast.error("请选择图片文件");
+      return;
+    }
+
+    if (file.size > UPLOAD_RULES.image.maxBytes) {
+      toast.error(`图片大小不能超过 ${maxUploadMegabytes("image")}MB`);
+      return;
+    }
+
+    imageUpload.upload(file);
+  };
+
+  const openCreateDialog = () => {
+    setEditingId(null);
+    setFormData(defaultFormData);
+    setIsSlugEdited(false);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (category: NonNullable<typeof categories>[0]) => {
+    setEditingId(category.id);
+    setFormData({
+      name: category.name,
+      slug: category.slug,
+      description: category.description || "",
+      coverImageUrl: category.coverImageUrl || "",
+      coverImageKey: category.coverImageKey || "",
+    });
+    // Existing landing page URLs stay put unless the slug is changed explicitly
+    setIsSlugEdited(true);
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingId(null);
+    setFormData(defaultFormData);
+  };
+
+  const handleSubmit = () => {
+    if (!formData.name.trim()) {
+      toast.error("请输入分类名称");
+      return;
+    }
+
+    if (editingId) {
+      updateMutation.mutate({
+        id: editingId,
+        ...formData,
+      });
+    } else {
+      createMutation.mutate({ section, ...formData });
+    }
+  };
+
+  const handleDelete = () => {
+    if (deletingId) {
+      deleteMutation.mutate({ id: deletingId });
+    }
+  };
+
+  const moveCategory = (index: number, offset: -1 | 1) => {
+    if (!categories) return;
+    const ids = categories.map(category => category.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate({ section, ids });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-white">
+            Categories
+          </h1>
+          <p className="text-neutral-400 mt-1">
+            Organize each section into categories
+          </p>
+        </div>
+        <Button
+          onClick={openCreateDialog}
+          className="bg-white text-black hover:bg-neutral-200"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Category
+        </Button>
+      </div>
+
+      {/* Section Tabs */}
+      <div className="flex gap-2">
+        {SECTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setSection(option.value)}
+            className={`px-4 py-2 text-sm rounded-md transition-colors ${
+              section === option.value
+                ? "bg-white text-black"
+                : "bg-neutral-900 text-neutral-400 border border-neutral-800 hover:text-white"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Categories List */}
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="bg-neutral-900 border-neutral-800 animate-pulse">
+              <CardContent className="p-6">
+                <div className="h-5 bg-neutral-800 rounded w-1/3 mb-2" />
+                <div className="h-4 bg-neutral-800 rounded w-2/3" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : categories && categories.length > 0 ? (
+        <div className="space-y-4">
+          {categories.map((category, index) => (
+            <Card key={category.id} className="bg-neutral-900 border-neutral-800">
+              <CardContent className="p-6">
+                <div className="flex gap-4">
+                  {category.coverImageUrl ? (
+                    <img
+                      src={category.coverImageUrl}
+                      alt={category.name}
+                      className="w-24 h-16 object-cover rounded-md flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="w-24 h-16 bg-neutral-800 rounded-md flex-shrink-0 flex items-center justify-center">
+                      <FolderOpen className="h-6 w-6 text-neutral-600" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <h3 className="text-lg font-medium text-white truncate">
+                      {category.name}
+                    </h3>
+                    <p className="text-xs text-neutral-500 mt-0.5">
+                      {basePath}/category/{category.slug} · {category.itemCount} {category.itemCount === 1 ? "item" : "items"}
+                    </p>
+                    {category.description && (
+                      <p className="text-sm text-neutral-400 mt-1 line-clamp-2">
+                        {category.description}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => moveCategory(index, -1)}
+                      disabled={index === 0 || reorderMutation.isPending}
+                      title="Move up"
+                      className="text-neutral-400 hover:text-white hover:bg-neutral-800"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => moveCategory(index, 1)}
+                      disabled={index === categories.length - 1 || reorderMutation.isPending}
+                      title="Move down"
+                      className="text-neutral-400 hover:text-white hover:bg-neutral-800"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => openEditDialog(category)}
+                      className="text-neutral-400 hover:text-white hover:bg-neutral-800"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setDeletingId(category.id);
+                        setIsDeleteDialogOpen(true);
+                      }}
+                      className="text-red-400 hover:text-red-300 hover:bg-neutral-800"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card className="bg-neutral-900 border-neutral-800">
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <div className="p-4 rounded-full bg-neutral-800 mb-4">
+              <FolderOpen className="h-8 w-8 text-neutral-500" />
+            </div>
+            <h3 className="text-lg font-medium text-white mb-2">
+              No Categories Yet
+            </h3>
+            <p className="text-neutral-500 mb-4">
+              Create a category to group content in this section
+            </p>
+            <Button
+              onClick={openCreateDialog}
+              className="bg-white text-black hover:bg-neutral-200"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Category
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-neutral-900 border-neutral-800">
+          <DialogHeader>
+            <DialogTitle className="text-white">
+              {editingId ? "Edit Category" : "Add Category"}
+            </DialogTitle>
+            <DialogDescription className="text-neutral-400">
+              {editingId ? "Update category information" : "Create a new category"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {/* Name */}
+            <div className="space-y-2">
+              <Label htmlFor="name" className="text-neutral-300">Name *</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => {
+                  const name = e.target.value;
+                  setFormData(prev => ({
+                    ...prev,
+                    name,
+                    slug: isSlugEdited ? prev.slug : slugify(name),
+                  }));
+                }}
+                placeholder="e.g., Landscape"
+                className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+              />
+            </div>
+
+            {/* Slug */}
+            <div className="space-y-2">
+              <Label htmlFor="slug" className="text-neutral-300">Permalink</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-neutral-500 shrink-0">{basePath}/category/</span>
+                <Input
+                  id="slug"
+                  value={formData.slug}
+                  onChange={(e) => {
+                    setIsSlugEdited(true);
+                    setFormData(prev => ({ ...prev, slug: e.target.value }));
+                  }}
+                  onBlur={() => setFormData(prev => ({ ...prev, slug: prev.slug ? slugify(prev.slug) : slugify(prev.name) }))}
+                  placeholder="generated-from-name"
+                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                />
+              </div>
+            </div>
+
+            {/* Description */}
+            <div className="space-y-2">
+              <Label htmlFor="description" className="text-neutral-300">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Shown at the top of the category page"
+                rows={3}
+                className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+              />
+            </div>
+
+            {/* Cover Image */}
+            <div className="space-y-2">
+              <Label className="text-neutral-300">Cover Image</Label>
+              {formData.coverImageUrl ? (
+                <div className="relative aspect-video rounded-lg overflow-hidden bg-neutral-800">
+                  <img
+                    src={formData.coverImageUrl}
+                    alt="Cover"
+                    className="w-full h-full object-cover"
+                  />
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="absolute top-2 right-2"
+                    onClick={() => setFormData(prev => ({ ...prev, coverImageUrl: "", coverImageKey: "" }))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div
+                  className="border-2 border-dashed border-neutral-700 rounded-lg p-8 text-center cursor-pointer hover:border-neutral-600 transition-colors bg-neutral-800/50"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  {imageUpload.isUploading ? (
+                    <div className="flex flex-col items-center">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mb-2" />
+                      <p className="text-neutral-400">Uploading... {imageUpload.progress}%</p>
+                    </div>
+                  ) : (
+                    <>
+                      <Upload className="h-8 w-8 text-neutral-500 mx-auto mb-2" />
+                      <p className="text-neutral-400">Click to upload cover image</p>
+                    </>
+                  )}
+                </div>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={UPLOAD_RULES.image.contentTypes.join(",")}
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={closeDialog}
+              className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={createMutation.isPending || updateMutation.isPending}
+              className="bg-white text-black hover:bg-neutral-200"
+            >
+              {createMutation.isPending || updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent className="bg-neutral-900 border-neutral-800">
+          <DialogHeader>
+            <DialogTitle className="text-white">Confirm Delete</DialogTitle>
+            <DialogDescription className="text-neutral-400">
+              Are you sure you want to delete this category? Its content will become uncategorized.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsDeleteDialogOpen(false)}
+              className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
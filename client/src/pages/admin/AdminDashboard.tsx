@@ -4,7 +4,7 @@ import { Camera, FileText, GraduationCap, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 export default function AdminDashboard() {
-  const { data: photos } = trpc.photos.list.useQuery({});
+  const { data: photos } = trpc.photos.listAll.useQuery({});
   const { data: essays } = trpc.essays.listAll.useQuery({});
   const { data: papers } = trpc.papers.listAll.useQuery({});
 
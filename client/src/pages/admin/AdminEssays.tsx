@@ -14,52 +14,85 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { trpc } from "@/lib/trpc";
-import { Edit, FileText, Plus, Trash2, Upload, X, Eye, EyeOff } from "lucide-react";
+import { useImageUpload } from "@/hooks/useDirectUpload";
+import { Edit, History, Link2, FileText, Library, Plus, Trash2, Upload, X, Eye, EyeOff } from "lucide-react";
 import { toast } from "sonner";
+import { TagInput } from "@/components/TagInput";
+import { CategorySelect } from "@/components/CategorySelect";
+import { SeriesSelect } from "@/components/SeriesSelect";
+import { RevisionHistoryDialog } from "@/components/RevisionHistoryDialog";
+import { PreviewLinksDialog } from "@/components/PreviewLinksDialog";
+import { PublishStatusBadge } from "@/components/PublishStatusBadge";
+import { AssetPickerDialog } from "@/components/AssetPickerDialog";
+import { format } from "date-fns";
+import { slugify } from "@shared/slug";
+import { UPLOAD_RULES, maxUploadMegabytes } from "@shared/uploads";
 
 type EssayFormData = {
   title: string;
+  slug: string;
   subtitle: string;
   excerpt: string;
   content: string;
   coverImageUrl: string;
   coverImageKey: string;
-  category: string;
-  tags: string;
+  coverImageWidth: number | null;
+  coverImageHeight: number | null;
+  coverImagePlaceholder: string | null;
+  categoryId: number | null;
+  seriesId: number | null;
+  /** Part number within the series; empty appends the essay as the last part */
+  seriesPosition: number | null;
+  tags: string[];
   readTime: number;
   featured: boolean;
   published: boolean;
+  /** datetime-local value; a draft with a time set is published automatically */
+  scheduledAt: string;
 };
 
 const defaultFormData: EssayFormData = {
   title: "",
+  slug: "",
   subtitle: "",
   excerpt: "",
   content: "",
   coverImageUrl: "",
   coverImageKey: "",
-  category: "",
-  tags: "",
+  coverImageWidth: null,
+  coverImageHeight: null,
+  coverImagePlaceholder: null,
+  categoryId: null,
+  seriesId: null,
+  seriesPosition: null,
+  tags: [],
   readTime: 5,
   featured: false,
   published: false,
+  scheduledAt: "",
 };
 
 export default function AdminEssays() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [previewId, setPreviewId] = useState<number | null>(null);
   const [formData, setFormData] = useState<EssayFormData>(defaultFormData);
-  const [isUploading, setIsUploading] = useState(false);
+  // Slug follows the title until it is edited by hand
+  const [isSlugEdited, setIsSlugEdited] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const utils = trpc.useUtils();
   const { data: essays, isLoading } = trpc.essays.listAll.useQuery({});
+  const { data: seriesList } = trpc.series.listAll.useQuery();
   
   const createMutation = trpc.essays.create.useMutation({
     onSuccess: () => {
       utils.essays.listAll.invalidate();
+      utils.series.listAll.invalidate();
       toast.success("文章创建成功");
       closeDialog();
     },
@@ -71,6 +104,7 @@ export default function AdminEssays() {
   const updateMutation = trpc.essays.update.useMutation({
     onSuccess: () => {
       utils.essays.listAll.invalidate();
+      utils.series.listAll.invalidate();
       toast.success("文章更新成功");
       closeDialog();
     },
@@ -82,6 +116,7 @@ export default function AdminEssays() {
   const deleteMutation = trpc.essays.delete.useMutation({
     onSuccess: () => {
       utils.essays.listAll.invalidate();
+      utils.series.listAll.invalidate();
       toast.success("文章删除成功");
       setIsDeleteDialogOpen(false);
       setDeletingId(null);
@@ -91,18 +126,19 @@ export default function AdminEssays() {
     },
   });
 
-  const uploadMutation = trpc.upload.image.useMutation({
+  const imageUpload = useImageUpload({
     onSuccess: (data) => {
       setFormData(prev => ({
         ...prev,
         coverImageUrl: data.url,
         coverImageKey: data.key,
+        coverImageWidth: data.image?.width ?? null,
+        coverImageHeight: data.image?.height ?? null,
+        coverImagePlaceholder: data.image?.placeholder ?? null,
       }));
-      setIsUploading(false);
       toast.success("封面上传成功");
     },
     onError: (error) => {
-      setIsUploading(false);
       toast.error("上传失败: " + error.message);
     },
   });
@@ -111,33 +147,23 @@ export default function AdminEssays() {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (!file.type.startsWith('image/')) {
+    if (!UPLOAD_RULES.image.contentTypes.includes(file.type)) {
       toast.error("请选择图片文件");
       return;
     }
 
-    if (file.size > 10 * 1024 * 1024) {
-      toast.error("图片大小不能超过 10MB");
+    if (file.size > UPLOAD_RULES.image.maxBytes) {
+      toast.error(`图片大小不能超过 ${maxUploadMegabytes("image")}MB`);
       return;
     }
 
-    setIsUploading(true);
-    
-    const reader = new FileReader();
-    reader.onload = () => {
-      const base64 = (reader.result as string).split(',')[1];
-      uploadMutation.mutate({
-        filename: file.name,
-        contentType: file.type,
-        base64Data: base64,
-      });
-    };
-    reader.readAsDataURL(file);
+    imageUpload.upload(file);
   };
 
   const openCreateDialog = () => {
     setEditingId(null);
     setFormData(defaultFormData);
+    setIsSlugEdited(false);
     setIsDialogOpen(true);
   };
 
@@ -145,17 +171,28 @@ export default function AdminEssays() {
     setEditingId(essay.id);
     setFormData({
       title: essay.title,
+      slug: essay.slug,
       subtitle: essay.subtitle || "",
       excerpt: essay.excerpt || "",
       content: essay.content,
       coverImageUrl: essay.coverImageUrl || "",
       coverImageKey: essay.coverImageKey || "",
-      category: essay.category || "",
-      tags: essay.tags || "",
+      coverImageWidth: essay.coverImageWidth,
+      coverImageHeight: essay.coverImageHeight,
+      coverImagePlaceholder: essay.coverImagePlaceholder,
+      categoryId: essay.categoryId,
+      seriesId: essay.seriesId,
+      seriesPosition: essay.seriesPosition,
+      tags: essay.tags.map(tag => tag.name),
       readTime: essay.readTime || 5,
       featured: essay.featured || false,
       published: essay.published || false,
+      scheduledAt: !essay.published && essay.publishedAt
+        ? format(essay.publishedAt, "yyyy-MM-dd'T'HH:mm")
+        : "",
     });
+    // Existing permalinks stay put unless the slug is changed explicitly
+    setIsSlugEdited(true);
     setIsDialogOpen(true);
   };
 
@@ -175,9 +212,20 @@ export default function AdminEssays() {
       return;
     }
 
+    const scheduledAt = formData.scheduledAt ? new Date(formData.scheduledAt) : null;
+    if (!formData.published && scheduledAt && scheduledAt.getTime() <= Date.now()) {
+      toast.error("定时发布时间必须晚于当前时间");
+      return;
+    }
+
+    // Keep the original date when re-saving a published item
+    const current = essays?.find(item => item.id === editingId);
+    const { scheduledAt: _scheduledAt, ...fields } = formData;
     const submitData = {
-      ...formData,
-      publishedAt: formData.published ? new Date() : undefined,
+      ...fields,
+      publishedAt: formData.published
+        ? (current?.published && current.publishedAt) || new Date()
+        : scheduledAt,
     };
 
     if (editingId) {
@@ -200,7 +248,8 @@ export default function AdminEssays() {
     updateMutation.mutate({
       id: essay.id,
       published: !essay.published,
-      publishedAt: !essay.published ? new Date() : undefined,
+      // Unpublishing also drops any pending schedule
+      publishedAt: !essay.published ? new Date() : null,
     });
   };
 
@@ -274,15 +323,11 @@ export default function AdminEssays() {
                           </p>
                         )}
                         <div className="flex items-center gap-3 mt-2">
-                          <span
-                            className={`px-2 py-0.5 text-xs rounded-full ${
-                              essay.published
-                                ? "bg-green-900/30 text-green-400 border border-green-800/50"
-                                : "bg-yellow-900/30 text-yellow-400 border border-yellow-800/50"
-                            }`}
-                          >
-                            {essay.published ? "Published" : "Draft"}
-                          </span>
+                          <PublishStatusBadge
+                            published={essay.published}
+                            publishedAt={essay.publishedAt}
+                            onScheduleElapsed={() => utils.essays.listAll.invalidate()}
+                          />
                           {essay.featured && (
                             <span className="px-2 py-0.5 text-xs rounded-full bg-blue-900/30 text-blue-400 border border-blue-800/50">
                               Featured
@@ -290,7 +335,13 @@ export default function AdminEssays() {
                           )}
                           {essay.category && (
                             <span className="text-xs text-neutral-500">
-                              {essay.category}
+                              {essay.category.name}
+                            </span>
+                          )}
+                          {essay.seriesId !== null && (
+                            <span className="text-xs text-neutral-500">
+                              {seriesList?.find(series => series.id === essay.seriesId)?.title ?? "Series"}
+                              {essay.seriesPosition !== null && ` · Part ${essay.seriesPosition}`}
                             </span>
                           )}
                           <span className="text-xs text-neutral-500">
@@ -312,6 +363,26 @@ export default function AdminEssays() {
                             <Eye className="h-4 w-4" />
                           )}
                         </Button>
+                        {!essay.published && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setPreviewId(essay.id)}
+                            title="Preview links"
+                            className="h-8 w-8 text-neutral-400 hover:text-white hover:bg-neutral-800"
+                          >
+                            <Link2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setHistoryId(essay.id)}
+                          title="Revision history"
+                          className="h-8 w-8 text-neutral-400 hover:text-white hover:bg-neutral-800"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
                         <Button
                           size="icon"
                           variant="ghost"
@@ -389,7 +460,14 @@ export default function AdminEssays() {
                     size="sm"
                     variant="destructive"
                     className="absolute top-2 right-2"
-                    onClick={() => setFormData(prev => ({ ...prev, coverImageUrl: "", coverImageKey: "" }))}
+                    onClick={() => setFormData(prev => ({
+                      ...prev,
+                      coverImageUrl: "",
+                      coverImageKey: "",
+                      coverImageWidth: null,
+                      coverImageHeight: null,
+                      coverImagePlaceholder: null,
+                    }))}
                   >
                     <X className="h-4 w-4" />
                   </Button>
@@ -399,10 +477,10 @@ export default function AdminEssays() {
                   className="border-2 border-dashed border-neutral-700 rounded-lg p-6 text-center cursor-pointer hover:border-neutral-600 transition-colors bg-neutral-800/50"
                   onClick={() => fileInputRef.current?.click()}
                 >
-                  {isUploading ? (
+                  {imageUpload.isUploading ? (
                     <div className="flex flex-col items-center">
                       <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mb-2" />
-                      <p className="text-sm text-neutral-400">Uploading...</p>
+                      <p className="text-sm text-neutral-400">Uploading... {imageUpload.progress}%</p>
                     </div>
                   ) : (
                     <>
@@ -415,10 +493,22 @@ export default function AdminEssays() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/*"
+                accept={UPLOAD_RULES.image.contentTypes.join(",")}
                 className="hidden"
                 onChange={handleFileChange}
               />
+              {!formData.coverImageUrl && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsLibraryOpen(true)}
+                  className="text-neutral-400 hover:text-white hover:bg-neutral-800"
+                >
+                  <Library className="h-4 w-4 mr-2" />
+                  Choose from library
+                </Button>
+              )}
             </div>
 
             {/* Title */}
@@ -427,12 +517,38 @@ export default function AdminEssays() {
               <Input
                 id="title"
                 value={formData.title}
-                onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                onChange={(e) => {
+                  const title = e.target.value;
+                  setFormData(prev => ({
+                    ...prev,
+                    title,
+                    slug: isSlugEdited ? prev.slug : slugify(title),
+                  }));
+                }}
                 placeholder="Enter essay title"
                 className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
               />
             </div>
 
+            {/* Slug */}
+            <div className="space-y-2">
+              <Label htmlFor="slug" className="text-neutral-300">Permalink</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-neutral-500 shrink-0">/magazine/</span>
+                <Input
+                  id="slug"
+                  value={formData.slug}
+                  onChange={(e) => {
+                    setIsSlugEdited(true);
+                    setFormData(prev => ({ ...prev, slug: e.target.value }));
+                  }}
+                  onBlur={() => setFormData(prev => ({ ...prev, slug: prev.slug ? slugify(prev.slug) : slugify(prev.title) }))}
+                  placeholder="generated-from-title"
+                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                />
+              </div>
+            </div>
+
             {/* Subtitle */}
             <div className="space-y-2">
               <Label htmlFor="subtitle" className="text-neutral-300">Subtitle</Label>
@@ -475,22 +591,49 @@ export default function AdminEssays() {
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="category" className="text-neutral-300">Category</Label>
-                <Input
+                <CategorySelect
                   id="category"
-                  value={formData.category}
-                  onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
-                  placeholder="e.g., Travel, Thoughts"
-                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                  section="essay"
+                  value={formData.categoryId}
+                  onChange={(categoryId) => setFormData(prev => ({ ...prev, categoryId }))}
                 />
               </div>
               <div className="space-y-2">
                 <Label htmlFor="tags" className="text-neutral-300">Tags</Label>
-                <Input
+                <TagInput
                   id="tags"
                   value={formData.tags}
-                  onChange={(e) => setFormData(prev => ({ ...prev, tags: e.target.value }))}
-                  placeholder="Comma separated"
-                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                  onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                  placeholder="Type to search or add"
+                />
+              </div>
+            </div>
+
+            {/* Series */}
+            <div className="grid grid-cols-[1fr_auto] gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="series" className="text-neutral-300">Series</Label>
+                <SeriesSelect
+                  id="series"
+                  value={formData.seriesId}
+                  onChange={(seriesId) => setFormData(prev => ({
+                    ...prev,
+                    seriesId,
+                    seriesPosition: seriesId === null ? null : prev.seriesPosition,
+                  }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="seriesPosition" className="text-neutral-300">Part</Label>
+                <Input
+                  id="seriesPosition"
+                  type="number"
+                  min={1}
+                  value={formData.seriesPosition ?? ""}
+                  onChange={(e) => setFormData(prev => ({ ...prev, seriesPosition: parseInt(e.target.value) || null }))}
+                  disabled={formData.seriesId === null}
+                  placeholder="Last"
+                  className="w-24 bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
                 />
               </div>
             </div>
@@ -514,6 +657,18 @@ export default function AdminEssays() {
                   />
                   <Label htmlFor="published" className="text-neutral-300">Publish Now</Label>
                 </div>
+                {!formData.published && (
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="scheduledAt" className="text-neutral-300">Schedule</Label>
+                    <Input
+                      id="scheduledAt"
+                      type="datetime-local"
+                      value={formData.scheduledAt}
+                      onChange={(e) => setFormData(prev => ({ ...prev, scheduledAt: e.target.value }))}
+                      className="w-auto bg-neutral-800 border-neutral-700 text-white"
+                    />
+                  </div>
+                )}
               </div>
               <div className="flex items-center gap-2">
                 <Label htmlFor="readTime" className="text-neutral-300">Read Time (min)</Label>
@@ -547,6 +702,23 @@ export default function AdminEssays() {
         </DialogContent>
       </Dialog>
 
+      {/* Revision History Dialog */}
+      <RevisionHistoryDialog
+        open={historyId !== null}
+        onOpenChange={(open) => !open && setHistoryId(null)}
+        contentType="essay"
+        contentId={historyId}
+        onRestored={() => utils.essays.listAll.invalidate()}
+      />
+
+      {/* Preview Links Dialog */}
+      <PreviewLinksDialog
+        open={previewId !== null}
+        onOpenChange={(open) => !open && setPreviewId(null)}
+        contentType="essay"
+        contentId={previewId}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent className="bg-neutral-900 border-neutral-800">
@@ -575,6 +747,20 @@ export default function AdminEssays() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <AssetPickerDialog
+        open={isLibraryOpen}
+        onOpenChange={setIsLibraryOpen}
+        kind="image"
+        onSelect={(asset) => setFormData(prev => ({
+          ...prev,
+          coverImageUrl: asset.url,
+          coverImageKey: asset.key,
+          coverImageWidth: asset.width,
+          coverImageHeight: asset.height,
+          coverImagePlaceholder: asset.placeholder,
+        }))}
+      />
     </div>
   );
 }
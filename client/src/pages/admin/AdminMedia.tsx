@@ -0,0 +1,310 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AssetThumbnail, type LibraryAsset } from "@/components/AssetPickerDialog";
+import { useImageUpload, usePdfUpload } from "@/hooks/useDirectUpload";
+import { trpc } from "@/lib/trpc";
+import { formatBytes } from "@/lib/utils";
+import { Copy, Library, Pin, PinOff, Search, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { UPLOAD_RULES, checkUpload, type UploadKind } from "@shared/uploads";
+
+const PAGE_SIZE = 48;
+
+const KIND_FILTERS: { label: string; value: UploadKind | undefined }[] = [
+  { label: "All", value: undefined },
+  { label: "Images", value: "image" },
+  { label: "PDFs", value: "pdf" },
+];
+
+const USAGE_LABELS: Record<LibraryAsset["usages"][number]["type"], string> = {
+  photo: "Photo",
+  essay: "Essay",
+  paper: "Paper",
+  background: "Background",
+  category: "Category",
+  series: "Series",
+};
+
+export default function AdminMedia() {
+  const [query, setQuery] = useState("");
+  const [kind, setKind] = useState<UploadKind | undefined>(undefined);
+  const [page, setPage] = useState(0);
+  const [deleting, setDeleting] = useState<LibraryAsset | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.assets.list.useQuery(
+    { kind, query: query || undefined, limit: PAGE_SIZE, offset: page * PAGE_SIZE },
+    { placeholderData: (previous) => previous }
+  );
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  const uploadOptions = {
+    // Uploaded here on purpose, so kept when no content uses it
+    library: true,
+    onSuccess: () => {
+      utils.assets.list.invalidate();
+      toast.success("上传成功");
+    },
+    onError: (error: Error) => {
+      toast.error("上传失败: " + error.message);
+    },
+  };
+  const imageUpload = useImageUpload(uploadOptions);
+  const pdfUpload = usePdfUpload(uploadOptions);
+  const activeUpload = imageUpload.isUploading ? imageUpload : pdfUpload.isUploading ? pdfUpload : null;
+
+  const pinMutation = trpc.assets.pin.useMutation({
+    onSuccess: (_, { pinned }) => {
+      utils.assets.list.invalidate();
+      toast.success(pinned ? "已保留在媒体库" : "已取消保留");
+    },
+    onError: (error) => {
+      toast.error("操作失败: " + error.message);
+    },
+  });
+
+  const deleteMutation = trpc.assets.delete.useMutation({
+    onSuccess: () => {
+      utils.assets.list.invalidate();
+      toast.success("文件已删除");
+      setDeleting(null);
+    },
+    onError: (error) => {
+      toast.error("删除失败: " + error.message);
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const fileKind: UploadKind = file.type === "application/pdf" ? "pdf" : "image";
+    const problem = checkUpload(fileKind, file.type, file.size);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    (fileKind === "pdf" ? pdfUpload : imageUpload).upload(file);
+  };
+
+  const copyUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("链接已复制");
+    } catch {
+      toast.error("复制失败，请手动复制链接");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-white">
+            Media Library
+          </h1>
+          <p className="text-neutral-400 mt-1">
+            Every uploaded image and PDF, ready to reuse. Pinned files stay when no content uses them
+          </p>
+        </div>
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={activeUpload !== null}
+          className="bg-white text-black hover:bg-neutral-200"
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {activeUpload ? `Uploading... ${activeUpload.progress}%` : "Upload"}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={[...UPLOAD_RULES.image.contentTypes, ...UPLOAD_RULES.pdf.contentTypes].join(",")}
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-neutral-500" />
+          <Input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setPage(0);
+            }}
+            placeholder="Search by file name..."
+            className="pl-9 bg-neutral-900 border-neutral-800 text-white"
+          />
+        </div>
+        <div className="flex gap-2">
+          {KIND_FILTERS.map((filter) => (
+            <Button
+              key={filter.label}
+              variant="outline"
+              onClick={() => {
+                setKind(filter.value);
+                setPage(0);
+              }}
+              className={kind === filter.value
+                ? "bg-white text-black hover:bg-neutral-200 border-white"
+                : "border-neutral-700 text-neutral-300 hover:bg-neutral-800"}
+            >
+              {filter.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
+          {Array.from({ length: 12 }, (_, i) => (
+            <div key={i} className="aspect-square rounded-lg bg-neutral-900 animate-pulse" />
+          ))}
+        </div>
+      ) : data && data.items.length > 0 ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
+          {data.items.map((asset) => (
+            <Card key={asset.id} className="bg-neutral-900 border-neutral-800 overflow-hidden group py-0 gap-0">
+              <div className="relative">
+                <AssetThumbnail asset={asset} className="aspect-square" />
+                {asset.pinned && (
+                  <div className="absolute top-2 left-2 p-1 rounded bg-black/60" title="Pinned">
+                    <Pin className="h-3.5 w-3.5 text-white" />
+                  </div>
+                )}
+                <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button
+                    size="icon"
+                    variant="secondary"
+                    className="h-7 w-7"
+                    onClick={() => pinMutation.mutate({ id: asset.id, pinned: !asset.pinned })}
+                    disabled={pinMutation.isPending}
+                    aria-label={asset.pinned ? "Unpin" : "Pin"}
+                    title={asset.pinned ? "Unpin: delete once no content uses it" : "Pin: keep when no content uses it"}
+                  >
+                    {asset.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="secondary"
+                    className="h-7 w-7"
+                    onClick={() => copyUrl(asset.url)}
+                    aria-label="Copy URL"
+                  >
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="destructive"
+                    className="h-7 w-7"
+                    onClick={() => setDeleting(asset)}
+                    disabled={asset.usages.length > 0}
+                    aria-label="Delete"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+              <CardContent className="p-3 space-y-1">
+                <p className="text-sm text-white truncate" title={asset.filename}>{asset.filename}</p>
+                <p className="text-xs text-neutral-500">
+                  {asset.width && asset.height ? `${asset.width}×${asset.height} · ` : ""}
+                  {formatBytes(asset.size)} · {format(new Date(asset.createdAt), "yyyy-MM-dd")}
+                </p>
+                <p
+                  className={`text-xs truncate ${asset.usages.length > 0 ? "text-neutral-400" : "text-neutral-600"}`}
+                  title={asset.usages.map(usage => `${USAGE_LABELS[usage.type]}: ${usage.title ?? "Untitled"}`).join("\n")}
+                >
+                  {asset.usages.length > 0
+                    ? asset.usages.map(usage => `${USAGE_LABELS[usage.type]}: ${usage.title ?? "Untitled"}`).join(", ")
+                    : asset.pinned ? "Unused" : "Unused · not pinned, left for cleanup"}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card className="bg-neutral-900 border-neutral-800">
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <div className="p-4 rounded-full bg-neutral-800 mb-4">
+              <Library className="h-8 w-8 text-neutral-500" />
+            </div>
+            <h3 className="text-lg font-medium text-white mb-2">
+              {query || kind ? "No Matching Files" : "No Files Yet"}
+            </h3>
+            <p className="text-neutral-500">
+              {query || kind ? "Try a different search" : "Files uploaded from any form appear here"}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between text-sm text-neutral-400">
+          <Button
+            variant="outline"
+            onClick={() => setPage(p => p - 1)}
+            disabled={page === 0}
+            className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+          >
+            Previous
+          </Button>
+          <span>Page {page + 1} of {pageCount} · {data?.total} files</span>
+          <Button
+            variant="outline"
+            onClick={() => setPage(p => p + 1)}
+            disabled={page + 1 >= pageCount}
+            className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+          >
+            Next
+          </Button>
+        </div>
+      )}
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent className="bg-neutral-900 border-neutral-800">
+          <DialogHeader>
+            <DialogTitle className="text-white">Delete File</DialogTitle>
+            <DialogDescription className="text-neutral-400">
+              Permanently delete {deleting?.filename} from storage? This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleting(null)}
+              className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleting && deleteMutation.mutate({ id: deleting.id })}
+              disabled={deleteMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -14,11 +14,22 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { trpc } from "@/lib/trpc";
-import { Edit, GraduationCap, Plus, Trash2, Eye, EyeOff, ExternalLink, Upload, FileText, X } from "lucide-react";
+import { usePdfUpload } from "@/hooks/useDirectUpload";
+import { Edit, History, Link2, GraduationCap, Plus, Trash2, Eye, EyeOff, ExternalLink, Upload, FileText, Library, X } from "lucide-react";
 import { toast } from "sonner";
+import { TagInput } from "@/components/TagInput";
+import { CategorySelect } from "@/components/CategorySelect";
+import { RevisionHistoryDialog } from "@/components/RevisionHistoryDialog";
+import { PreviewLinksDialog } from "@/components/PreviewLinksDialog";
+import { PublishStatusBadge } from "@/components/PublishStatusBadge";
+import { AssetPickerDialog } from "@/components/AssetPickerDialog";
+import { format } from "date-fns";
+import { slugify } from "@shared/slug";
+import { UPLOAD_RULES, maxUploadMegabytes } from "@shared/uploads";
 
 type PaperFormData = {
   title: string;
+  slug: string;
   authors: string;
   abstract: string;
   journal: string;
@@ -29,15 +40,18 @@ type PaperFormData = {
   doi: string;
   pdfUrl: string;
   pdfKey: string;
-  category: string;
-  tags: string;
+  categoryId: number | null;
+  tags: string[];
   citations: number;
   featured: boolean;
   published: boolean;
+  /** datetime-local value; a draft with a time set is published automatically */
+  scheduledAt: string;
 };
 
 const defaultFormData: PaperFormData = {
   title: "",
+  slug: "",
   authors: "",
   abstract: "",
   journal: "",
@@ -48,20 +62,25 @@ const defaultFormData: PaperFormData = {
   doi: "",
   pdfUrl: "",
   pdfKey: "",
-  category: "",
-  tags: "",
+  categoryId: null,
+  tags: [],
   citations: 0,
   featured: false,
   published: false,
+  scheduledAt: "",
 };
 
 export default function AdminPapers() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [previewId, setPreviewId] = useState<number | null>(null);
   const [formData, setFormData] = useState<PaperFormData>(defaultFormData);
-  const [isUploading, setIsUploading] = useState(false);
+  // Slug follows the title until it is edited by hand
+  const [isSlugEdited, setIsSlugEdited] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const utils = trpc.useUtils();
@@ -101,18 +120,16 @@ export default function AdminPapers() {
     },
   });
 
-  const uploadMutation = trpc.upload.pdf.useMutation({
+  const pdfUpload = usePdfUpload({
     onSuccess: (data) => {
       setFormData(prev => ({
         ...prev,
         pdfUrl: data.url,
         pdfKey: data.key,
       }));
-      setIsUploading(false);
       toast.success("PDF上传成功");
     },
     onError: (error) => {
-      setIsUploading(false);
       toast.error("上传失败: " + error.message);
     },
   });
@@ -121,32 +138,23 @@ export default function AdminPapers() {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (file.type !== 'application/pdf') {
+    if (!UPLOAD_RULES.pdf.contentTypes.includes(file.type)) {
       toast.error("请选择PDF文件");
       return;
     }
 
-    if (file.size > 50 * 1024 * 1024) {
-      toast.error("PDF大小不能超过 50MB");
+    if (file.size > UPLOAD_RULES.pdf.maxBytes) {
+      toast.error(`PDF大小不能超过 ${maxUploadMegabytes("pdf")}MB`);
       return;
     }
 
-    setIsUploading(true);
-    
-    const reader = new FileReader();
-    reader.onload = () => {
-      const base64 = (reader.result as string).split(',')[1];
-      uploadMutation.mutate({
-        filename: file.name,
-        base64Data: base64,
-      });
-    };
-    reader.readAsDataURL(file);
+    pdfUpload.upload(file);
   };
 
   const openCreateDialog = () => {
     setEditingId(null);
     setFormData(defaultFormData);
+    setIsSlugEdited(false);
     setIsDialogOpen(true);
   };
 
@@ -154,6 +162,7 @@ export default function AdminPapers() {
     setEditingId(paper.id);
     setFormData({
       title: paper.title,
+      slug: paper.slug,
       authors: paper.authors,
       abstract: paper.abstract || "",
       journal: paper.journal || "",
@@ -164,12 +173,17 @@ export default function AdminPapers() {
       doi: paper.doi || "",
       pdfUrl: paper.pdfUrl || "",
       pdfKey: paper.pdfKey || "",
-      category: paper.category || "",
-      tags: paper.tags || "",
+      categoryId: paper.categoryId,
+      tags: paper.tags.map(tag => tag.name),
       citations: paper.citations || 0,
       featured: paper.featured || false,
       published: paper.published || false,
+      scheduledAt: !paper.published && paper.publishedAt
+        ? format(paper.publishedAt, "yyyy-MM-dd'T'HH:mm")
+        : "",
     });
+    // Existing permalinks stay put unless the slug is changed explicitly
+    setIsSlugEdited(true);
     setIsDialogOpen(true);
   };
 
@@ -189,9 +203,20 @@ export default function AdminPapers() {
       return;
     }
 
+    const scheduledAt = formData.scheduledAt ? new Date(formData.scheduledAt) : null;
+    if (!formData.published && scheduledAt && scheduledAt.getTime() <= Date.now()) {
+      toast.error("定时发布时间必须晚于当前时间");
+      return;
+    }
+
+    // Keep the original date when re-saving a published item
+    const current = papers?.find(item => item.id === editingId);
+    const { scheduledAt: _scheduledAt, ...fields } = formData;
     const submitData = {
-      ...formData,
-      publishedAt: formData.published ? new Date() : undefined,
+      ...fields,
+      publishedAt: formData.published
+        ? (current?.published && current.publishedAt) || new Date()
+        : scheduledAt,
     };
 
     if (editingId) {
@@ -214,7 +239,8 @@ export default function AdminPapers() {
     updateMutation.mutate({
       id: paper.id,
       published: !paper.published,
-      publishedAt: !paper.published ? new Date() : undefined,
+      // Unpublishing also drops any pending schedule
+      publishedAt: !paper.published ? new Date() : null,
     });
   };
 
@@ -266,6 +292,11 @@ export default function AdminPapers() {
                       {paper.authors}
                     </p>
                     <div className="flex flex-wrap items-center gap-3 mt-2">
+                      <PublishStatusBadge
+                        published={paper.published}
+                        publishedAt={paper.publishedAt}
+                        onScheduleElapsed={() => utils.papers.listAll.invalidate()}
+                      />
                       {paper.journal && (
                         <span className="text-sm text-neutral-500">
                           {paper.journal}
@@ -294,6 +325,26 @@ export default function AdminPapers() {
                     )}
                   </div>
                   <div className="flex items-center gap-1 shrink-0">
+                    {!paper.published && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setPreviewId(paper.id)}
+                        title="Preview links"
+                        className="h-8 w-8 text-neutral-400 hover:text-white hover:bg-neutral-800"
+                      >
+                        <Link2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setHistoryId(paper.id)}
+                      title="Revision history"
+                      className="h-8 w-8 text-neutral-400 hover:text-white hover:bg-neutral-800"
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
                     <Button
                       size="icon"
                       variant="ghost"
@@ -361,12 +412,38 @@ export default function AdminPapers() {
               <Input
                 id="title"
                 value={formData.title}
-                onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                onChange={(e) => {
+                  const title = e.target.value;
+                  setFormData(prev => ({
+                    ...prev,
+                    title,
+                    slug: isSlugEdited ? prev.slug : slugify(title),
+                  }));
+                }}
                 placeholder="Enter paper title"
                 className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
               />
             </div>
 
+            {/* Slug */}
+            <div className="space-y-2">
+              <Label htmlFor="slug" className="text-neutral-300">Permalink</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-neutral-500 shrink-0">/academic/</span>
+                <Input
+                  id="slug"
+                  value={formData.slug}
+                  onChange={(e) => {
+                    setIsSlugEdited(true);
+                    setFormData(prev => ({ ...prev, slug: e.target.value }));
+                  }}
+                  onBlur={() => setFormData(prev => ({ ...prev, slug: prev.slug ? slugify(prev.slug) : slugify(prev.title) }))}
+                  placeholder="generated-from-title"
+                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                />
+              </div>
+            </div>
+
             {/* Authors */}
             <div className="space-y-2">
               <Label htmlFor="authors" className="text-neutral-300">Authors *</Label>
@@ -493,7 +570,7 @@ export default function AdminPapers() {
               ) : (
                 <div
                   className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
-                    isUploading
+                    pdfUpload.isUploading
                       ? "border-neutral-600 bg-neutral-800"
                       : "border-neutral-700 hover:border-neutral-600 hover:bg-neutral-800/50"
                   }`}
@@ -506,10 +583,10 @@ export default function AdminPapers() {
                     className="hidden"
                     onChange={handleFileChange}
                   />
-                  {isUploading ? (
+                  {pdfUpload.isUploading ? (
                     <>
                       <div className="animate-spin h-8 w-8 border-2 border-white border-t-transparent rounded-full mx-auto mb-2" />
-                      <p className="text-sm text-neutral-400">Uploading...</p>
+                      <p className="text-sm text-neutral-400">Uploading... {pdfUpload.progress}%</p>
                     </>
                   ) : (
                     <>
@@ -524,6 +601,18 @@ export default function AdminPapers() {
                   )}
                 </div>
               )}
+              {!formData.pdfUrl && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsLibraryOpen(true)}
+                  className="text-neutral-400 hover:text-white hover:bg-neutral-800"
+                >
+                  <Library className="h-4 w-4 mr-2" />
+                  Choose from library
+                </Button>
+              )}
               {/* Manual URL input as fallback */}
               <div className="mt-2">
                 <Label htmlFor="pdfUrl" className="text-xs text-neutral-500">
@@ -543,22 +632,20 @@ export default function AdminPapers() {
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="category" className="text-neutral-300">Research Field</Label>
-                <Input
+                <CategorySelect
                   id="category"
-                  value={formData.category}
-                  onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
-                  placeholder="e.g., Machine Learning"
-                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                  section="paper"
+                  value={formData.categoryId}
+                  onChange={(categoryId) => setFormData(prev => ({ ...prev, categoryId }))}
                 />
               </div>
               <div className="space-y-2">
                 <Label htmlFor="tags" className="text-neutral-300">Keywords</Label>
-                <Input
+                <TagInput
                   id="tags"
                   value={formData.tags}
-                  onChange={(e) => setFormData(prev => ({ ...prev, tags: e.target.value }))}
-                  placeholder="Comma separated"
-                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                  onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                  placeholder="Type to search or add"
                 />
               </div>
             </div>
@@ -582,6 +669,18 @@ export default function AdminPapers() {
                   />
                   <Label htmlFor="published" className="text-neutral-300">Published</Label>
                 </div>
+                {!formData.published && (
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="scheduledAt" className="text-neutral-300">Schedule</Label>
+                    <Input
+                      id="scheduledAt"
+                      type="datetime-local"
+                      value={formData.scheduledAt}
+                      onChange={(e) => setFormData(prev => ({ ...prev, scheduledAt: e.target.value }))}
+                      className="w-auto bg-neutral-800 border-neutral-700 text-white"
+                    />
+                  </div>
+                )}
               </div>
               <div className="flex items-center gap-2">
                 <Label htmlFor="citations" className="text-neutral-300">Citations</Label>
@@ -615,6 +714,23 @@ export default function AdminPapers() {
         </DialogContent>
       </Dialog>
 
+      {/* Revision History Dialog */}
+      <RevisionHistoryDialog
+        open={historyId !== null}
+        onOpenChange={(open) => !open && setHistoryId(null)}
+        contentType="paper"
+        contentId={historyId}
+        onRestored={() => utils.papers.listAll.invalidate()}
+      />
+
+      {/* Preview Links Dialog */}
+      <PreviewLinksDialog
+        open={previewId !== null}
+        onOpenChange={(open) => !open && setPreviewId(null)}
+        contentType="paper"
+        contentId={previewId}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent className="bg-neutral-900 border-neutral-800">
@@ -643,6 +759,13 @@ export default function AdminPapers() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <AssetPickerDialog
+        open={isLibraryOpen}
+        onOpenChange={setIsLibraryOpen}
+        kind="pdf"
+        onSelect={(asset) => setFormData(prev => ({ ...prev, pdfUrl: asset.url, pdfKey: asset.key }))}
+      />
     </div>
   );
 }
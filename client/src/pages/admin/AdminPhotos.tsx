@@ -13,55 +13,135 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
-import { Camera, Edit, Plus, Trash2, Upload, X } from "lucide-react";
+import { useImageUpload } from "@/hooks/useDirectUpload";
+import { Camera, Edit, Library, Plus, ScanLine, Trash2, Upload, X } from "lucide-react";
 import { toast } from "sonner";
+import { format } from "date-fns";
+import { TagInput } from "@/components/TagInput";
+import { CategorySelect } from "@/components/CategorySelect";
+import { AssetPickerDialog } from "@/components/AssetPickerDialog";
+import { slugify } from "@shared/slug";
+import { formatExposureSettings, type PhotoMetadata } from "@shared/photoMetadata";
+import { UPLOAD_RULES, maxUploadMegabytes } from "@shared/uploads";
+
+type PhotoVisibility = "draft" | "published" | "unlisted";
+
+const visibilityLabels: Record<PhotoVisibility, string> = {
+  draft: "Draft",
+  published: "Published",
+  unlisted: "Unlisted",
+};
+
+const visibilityBadgeClasses: Record<PhotoVisibility, string> = {
+  draft: "bg-neutral-700/90 text-neutral-200",
+  published: "bg-green-500/90 text-black",
+  unlisted: "bg-blue-500/90 text-white",
+};
+
+type MetadataFields = Pick<PhotoFormData, "camera" | "lens" | "settings" | "takenAt" | "latitude" | "longitude">;
+
+/** Form values for whatever the upload's EXIF/XMP provided. */
+function metadataToFields(metadata: PhotoMetadata): Partial<MetadataFields> {
+  const fields: Partial<MetadataFields> = {};
+  if (metadata.camera) fields.camera = metadata.camera;
+  if (metadata.lens) fields.lens = metadata.lens;
+  const settings = formatExposureSettings(metadata);
+  if (settings) fields.settings = settings;
+  if (metadata.takenAt) fields.takenAt = format(new Date(metadata.takenAt), "yyyy-MM-dd'T'HH:mm");
+  if (metadata.latitude !== undefined) fields.latitude = String(metadata.latitude);
+  if (metadata.longitude !== undefined) fields.longitude = String(metadata.longitude);
+  return fields;
+}
+
+const metadataLabels: Record<keyof MetadataFields, string> = {
+  camera: "Camera",
+  lens: "Lens",
+  settings: "Settings",
+  takenAt: "Taken",
+  latitude: "Latitude",
+  longitude: "Longitude",
+};
+
+function parseCoordinate(value: string, limit: number): number | null | undefined {
+  if (!value.trim()) return null;
+  const number = Number(value);
+  return Number.isFinite(number) && Math.abs(number) <= limit ? number : undefined;
+}
 
 type PhotoFormData = {
   title: string;
+  slug: string;
   description: string;
   location: string;
   camera: string;
   lens: string;
   settings: string;
+  /** datetime-local value */
+  takenAt: string;
+  latitude: string;
+  longitude: string;
   imageUrl: string;
   imageKey: string;
-  category: string;
-  tags: string;
+  imageWidth: number | null;
+  imageHeight: number | null;
+  imagePlaceholder: string | null;
+  categoryId: number | null;
+  tags: string[];
   featured: boolean;
+  visibility: PhotoVisibility;
   sortOrder: number;
 };
 
 const defaultFormData: PhotoFormData = {
   title: "",
+  slug: "",
   description: "",
   location: "",
   camera: "",
   lens: "",
   settings: "",
+  takenAt: "",
+  latitude: "",
+  longitude: "",
   imageUrl: "",
   imageKey: "",
-  category: "",
-  tags: "",
+  imageWidth: null,
+  imageHeight: null,
+  imagePlaceholder: null,
+  categoryId: null,
+  tags: [],
   featured: false,
+  visibility: "draft",
   sortOrder: 0,
 };
 
 export default function AdminPhotos() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [deletingId, setDeletingId] = useState<number | null>(null);
   const [formData, setFormData] = useState<PhotoFormData>(defaultFormData);
-  const [isUploading, setIsUploading] = useState(false);
+  // Slug follows the title until it is edited by hand
+  const [isSlugEdited, setIsSlugEdited] = useState(false);
+  // Values read from the last upload's EXIF/XMP, offered until the dialog closes
+  const [detectedFields, setDetectedFields] = useState<Partial<MetadataFields>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const utils = trpc.useUtils();
-  const { data: photos, isLoading } = trpc.photos.list.useQuery({});
+  const { data: photos, isLoading } = trpc.photos.listAll.useQuery({});
   
   const createMutation = trpc.photos.create.useMutation({
     onSuccess: () => {
-      utils.photos.list.invalidate();
+      utils.photos.listAll.invalidate();
       toast.success("照片创建成功");
       closeDialog();
     },
@@ -72,7 +152,7 @@ export default function AdminPhotos() {
 
   const updateMutation = trpc.photos.update.useMutation({
     onSuccess: () => {
-      utils.photos.list.invalidate();
+      utils.photos.listAll.invalidate();
       toast.success("照片更新成功");
       closeDialog();
     },
@@ -83,7 +163,7 @@ export default function AdminPhotos() {
 
   const deleteMutation = trpc.photos.delete.useMutation({
     onSuccess: () => {
-      utils.photos.list.invalidate();
+      utils.photos.listAll.invalidate();
       toast.success("照片删除成功");
       setIsDeleteDialogOpen(false);
       setDeletingId(null);
@@ -93,18 +173,28 @@ export default function AdminPhotos() {
     },
   });
 
-  const uploadMutation = trpc.upload.image.useMutation({
+  const imageUpload = useImageUpload({
     onSuccess: (data) => {
-      setFormData(prev => ({
-        ...prev,
-        imageUrl: data.url,
-        imageKey: data.key,
-      }));
-      setIsUploading(false);
-      toast.success("图片上传成功");
+      const detected = metadataToFields(data.metadata);
+      setDetectedFields(detected);
+      setFormData(prev => {
+        // Only fill blanks; anything already typed wins until "Use all" is clicked
+        const next = {
+          ...prev,
+          imageUrl: data.url,
+          imageKey: data.key,
+          imageWidth: data.image?.width ?? null,
+          imageHeight: data.image?.height ?? null,
+          imagePlaceholder: data.image?.placeholder ?? null,
+        };
+        for (const [field, value] of Object.entries(detected) as [keyof MetadataFields, string][]) {
+          if (!prev[field].trim()) next[field] = value;
+        }
+        return next;
+      });
+      toast.success(Object.keys(detected).length > 0 ? "图片上传成功，已读取 EXIF 信息" : "图片上传成功");
     },
     onError: (error) => {
-      setIsUploading(false);
       toast.error("上传失败: " + error.message);
     },
   });
@@ -113,33 +203,23 @@ export default function AdminPhotos() {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (!file.type.startsWith('image/')) {
+    if (!UPLOAD_RULES.image.contentTypes.includes(file.type)) {
       toast.error("请选择图片文件");
       return;
     }
 
-    if (file.size > 10 * 1024 * 1024) {
-      toast.error("图片大小不能超过 10MB");
+    if (file.size > UPLOAD_RULES.image.maxBytes) {
+      toast.error(`图片大小不能超过 ${maxUploadMegabytes("image")}MB`);
       return;
     }
 
-    setIsUploading(true);
-    
-    const reader = new FileReader();
-    reader.onload = () => {
-      const base64 = (reader.result as string).split(',')[1];
-      uploadMutation.mutate({
-        filename: file.name,
-        contentType: file.type,
-        base64Data: base64,
-      });
-    };
-    reader.readAsDataURL(file);
+    imageUpload.upload(file);
   };
 
   const openCreateDialog = () => {
     setEditingId(null);
     setFormData(defaultFormData);
+    setIsSlugEdited(false);
     setIsDialogOpen(true);
   };
 
@@ -147,18 +227,28 @@ export default function AdminPhotos() {
     setEditingId(photo.id);
     setFormData({
       title: photo.title,
+      slug: photo.slug,
       description: photo.description || "",
       location: photo.location || "",
       camera: photo.camera || "",
       lens: photo.lens || "",
       settings: photo.settings || "",
+      takenAt: photo.takenAt ? format(photo.takenAt, "yyyy-MM-dd'T'HH:mm") : "",
+      latitude: photo.latitude?.toString() ?? "",
+      longitude: photo.longitude?.toString() ?? "",
       imageUrl: photo.imageUrl,
       imageKey: photo.imageKey || "",
-      category: photo.category || "",
-      tags: photo.tags || "",
+      imageWidth: photo.imageWidth,
+      imageHeight: photo.imageHeight,
+      imagePlaceholder: photo.imagePlaceholder,
+      categoryId: photo.categoryId,
+      tags: photo.tags.map(tag => tag.name),
       featured: photo.featured || false,
+      visibility: photo.visibility,
       sortOrder: photo.sortOrder || 0,
     });
+    // Existing permalinks stay put unless the slug is changed explicitly
+    setIsSlugEdited(true);
     setIsDialogOpen(true);
   };
 
@@ -166,6 +256,7 @@ export default function AdminPhotos() {
     setIsDialogOpen(false);
     setEditingId(null);
     setFormData(defaultFormData);
+    setDetectedFields({});
   };
 
   const handleSubmit = () => {
@@ -178,13 +269,27 @@ export default function AdminPhotos() {
       return;
     }
 
+    const latitude = parseCoordinate(formData.latitude, 90);
+    const longitude = parseCoordinate(formData.longitude, 180);
+    if (latitude === undefined || longitude === undefined) {
+      toast.error("请输入有效的经纬度");
+      return;
+    }
+
+    const submitData = {
+      ...formData,
+      takenAt: formData.takenAt ? new Date(formData.takenAt) : null,
+      latitude,
+      longitude,
+    };
+
     if (editingId) {
       updateMutation.mutate({
         id: editingId,
-        ...formData,
+        ...submitData,
       });
     } else {
-      createMutation.mutate(formData);
+      createMutation.mutate(submitData);
     }
   };
 
@@ -238,11 +343,16 @@ export default function AdminPhotos() {
                   alt={photo.title}
                   className="w-full h-full object-cover"
                 />
-                {photo.featured && (
-                  <span className="absolute top-2 left-2 px-2 py-1 bg-yellow-500/90 text-black text-xs rounded-full font-medium">
-                    Featured
+                <div className="absolute top-2 left-2 flex gap-1">
+                  <span className={`px-2 py-1 text-xs rounded-full font-medium ${visibilityBadgeClasses[photo.visibility]}`}>
+                    {visibilityLabels[photo.visibility]}
                   </span>
-                )}
+                  {photo.featured && (
+                    <span className="px-2 py-1 bg-yellow-500/90 text-black text-xs rounded-full font-medium">
+                      Featured
+                    </span>
+                  )}
+                </div>
                 <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
                   <Button
                     size="sm"
@@ -328,7 +438,17 @@ export default function AdminPhotos() {
                     size="sm"
                     variant="destructive"
                     className="absolute top-2 right-2"
-                    onClick={() => setFormData(prev => ({ ...prev, imageUrl: "", imageKey: "" }))}
+                    onClick={() => {
+                      setFormData(prev => ({
+                        ...prev,
+                        imageUrl: "",
+                        imageKey: "",
+                        imageWidth: null,
+                        imageHeight: null,
+                        imagePlaceholder: null,
+                      }));
+                      setDetectedFields({});
+                    }}
                   >
                     <X className="h-4 w-4" />
                   </Button>
@@ -338,10 +458,10 @@ export default function AdminPhotos() {
                   className="border-2 border-dashed border-neutral-700 rounded-lg p-8 text-center cursor-pointer hover:border-neutral-600 transition-colors bg-neutral-800/50"
                   onClick={() => fileInputRef.current?.click()}
                 >
-                  {isUploading ? (
+                  {imageUpload.isUploading ? (
                     <div className="flex flex-col items-center">
                       <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mb-2" />
-                      <p className="text-neutral-400">Uploading...</p>
+                      <p className="text-neutral-400">Uploading... {imageUpload.progress}%</p>
                     </div>
                   ) : (
                     <>
@@ -355,10 +475,49 @@ export default function AdminPhotos() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/*"
+                accept={UPLOAD_RULES.image.contentTypes.join(",")}
                 className="hidden"
                 onChange={handleFileChange}
               />
+              {!formData.imageUrl && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsLibraryOpen(true)}
+                  className="text-neutral-400 hover:text-white hover:bg-neutral-800"
+                >
+                  <Library className="h-4 w-4 mr-2" />
+                  Choose from library
+                </Button>
+              )}
+              {Object.keys(detectedFields).length > 0 && (
+                <div className="rounded-lg border border-neutral-800 bg-neutral-800/50 p-3">
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <span className="flex items-center gap-2 text-sm text-neutral-300">
+                      <ScanLine className="h-4 w-4" />
+                      Detected from EXIF
+                    </span>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setFormData(prev => ({ ...prev, ...detectedFields }))}
+                      className="h-7 text-neutral-300 hover:text-white hover:bg-neutral-700"
+                    >
+                      Use all
+                    </Button>
+                  </div>
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                    {(Object.entries(detectedFields) as [keyof MetadataFields, string][]).map(([field, value]) => (
+                      <div key={field} className="contents">
+                        <dt className="text-neutral-500">{metadataLabels[field]}</dt>
+                        <dd className="text-neutral-300 truncate">{value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              )}
             </div>
 
             {/* Title */}
@@ -367,12 +526,38 @@ export default function AdminPhotos() {
               <Input
                 id="title"
                 value={formData.title}
-                onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                onChange={(e) => {
+                  const title = e.target.value;
+                  setFormData(prev => ({
+                    ...prev,
+                    title,
+                    slug: isSlugEdited ? prev.slug : slugify(title),
+                  }));
+                }}
                 placeholder="Enter photo title"
                 className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
               />
             </div>
 
+            {/* Slug */}
+            <div className="space-y-2">
+              <Label htmlFor="slug" className="text-neutral-300">Permalink</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-neutral-500 shrink-0">/photography/</span>
+                <Input
+                  id="slug"
+                  value={formData.slug}
+                  onChange={(e) => {
+                    setIsSlugEdited(true);
+                    setFormData(prev => ({ ...prev, slug: e.target.value }));
+                  }}
+                  onBlur={() => setFormData(prev => ({ ...prev, slug: prev.slug ? slugify(prev.slug) : slugify(prev.title) }))}
+                  placeholder="generated-from-title"
+                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                />
+              </div>
+            </div>
+
             {/* Description */}
             <div className="space-y-2">
               <Label htmlFor="description" className="text-neutral-300">Description</Label>
@@ -429,35 +614,87 @@ export default function AdminPhotos() {
                 id="settings"
                 value={formData.settings}
                 onChange={(e) => setFormData(prev => ({ ...prev, settings: e.target.value }))}
-                placeholder="e.g., f/2.8, 1/250s, ISO 400"
+                placeholder="e.g., 23mm, f/2.8, 1/250s, ISO 400"
                 className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
               />
             </div>
 
+            {/* Capture Time & Position */}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="takenAt" className="text-neutral-300">Taken</Label>
+                <Input
+                  id="takenAt"
+                  type="datetime-local"
+                  value={formData.takenAt}
+                  onChange={(e) => setFormData(prev => ({ ...prev, takenAt: e.target.value }))}
+                  className="bg-neutral-800 border-neutral-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="latitude" className="text-neutral-300">Latitude</Label>
+                <Input
+                  id="latitude"
+                  inputMode="decimal"
+                  value={formData.latitude}
+                  onChange={(e) => setFormData(prev => ({ ...prev, latitude: e.target.value }))}
+                  placeholder="e.g., 57.5"
+                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="longitude" className="text-neutral-300">Longitude</Label>
+                <Input
+                  id="longitude"
+                  inputMode="decimal"
+                  value={formData.longitude}
+                  onChange={(e) => setFormData(prev => ({ ...prev, longitude: e.target.value }))}
+                  placeholder="e.g., -4.26"
+                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                />
+              </div>
+            </div>
+
             {/* Category & Tags */}
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="category" className="text-neutral-300">Category</Label>
-                <Input
+                <CategorySelect
                   id="category"
-                  value={formData.category}
-                  onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
-                  placeholder="e.g., Landscape, Portrait"
-                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                  section="photo"
+                  value={formData.categoryId}
+                  onChange={(categoryId) => setFormData(prev => ({ ...prev, categoryId }))}
                 />
               </div>
               <div className="space-y-2">
                 <Label htmlFor="tags" className="text-neutral-300">Tags</Label>
-                <Input
+                <TagInput
                   id="tags"
                   value={formData.tags}
-                  onChange={(e) => setFormData(prev => ({ ...prev, tags: e.target.value }))}
-                  placeholder="Comma separated"
-                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                  onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                  placeholder="Type to search or add"
                 />
               </div>
             </div>
 
+            {/* Visibility */}
+            <div className="space-y-2">
+              <Label htmlFor="visibility" className="text-neutral-300">Visibility</Label>
+              <Select
+                value={formData.visibility}
+                onValueChange={(visibility) => setFormData(prev => ({ ...prev, visibility: visibility as PhotoVisibility }))}
+              >
+                <SelectTrigger id="visibility" className="w-full bg-neutral-800 border-neutral-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-neutral-900 border-neutral-700 text-neutral-200">
+                  <SelectItem value="draft">Draft — only visible here</SelectItem>
+                  <SelectItem value="published">Published — shown on the site</SelectItem>
+                  <SelectItem value="unlisted">Unlisted — reachable by link only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Featured & Sort Order */}
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
@@ -528,6 +765,23 @@ export default function AdminPhotos() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <AssetPickerDialog
+        open={isLibraryOpen}
+        onOpenChange={setIsLibraryOpen}
+        kind="image"
+        onSelect={(asset) => {
+          setFormData(prev => ({
+            ...prev,
+            imageUrl: asset.url,
+            imageKey: asset.key,
+            imageWidth: asset.width,
+            imageHeight: asset.height,
+            imagePlaceholder: asset.placeholder,
+          }));
+          setDetectedFields({});
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,462 @@
+import { useState, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { useImageUpload } from "@/hooks/useDirectUpload";
+import { Edit, Layers, Plus, Trash2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { slugify } from "@shared/slug";
+import { UPLOAD_RULES, maxUploadMegabytes } from "@shared/uploads";
+
+type SeriesFormData = {
+  title: string;
+  slug: string;
+  description: string;
+  coverImageUrl: string;
+  coverImageKey: string;
+};
+
+const defaultFormData: SeriesFormData = {
+  title: "",
+  slug: "",
+  description: "",
+  coverImageUrl: "",
+  coverImageKey: "",
+};
+
+export default function AdminSeries() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<SeriesFormData>(defaultFormData);
+  // Slug follows the title until it is edited by hand
+  const [isSlugEdited, setIsSlugEdited] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const utils = trpc.useUtils();
+  const { data: seriesList, isLoading } = trpc.series.listAll.useQuery();
+  const { data: essays } = trpc.essays.listAll.useQuery({});
+
+  // Parts in reading order, straight from the essay list
+  const partsOf = (seriesId: number) =>
+    (essays ?? [])
+      .filter(essay => essay.seriesId === seriesId)
+      .sort((a, b) => (a.seriesPosition ?? Infinity) - (b.seriesPosition ?? Infinity));
+
+  const createMutation = trpc.series.create.useMutation({
+    onSuccess: () => {
+      utils.series.listAll.invalidate();
+      toast.success("系列创建成功");
+      closeDialog();
+    },
+    onError: (error) => {
+      toast.error("创建失败: " + error.message);
+    },
+  });
+
+  const updateMutation = trpc.series.update.useMutation({
+    onSuccess: () => {
+      utils.series.listAll.invalidate();
+      toast.success("系列更新成功");
+      closeDialog();
+    },
+    onError: (error) => {
+      toast.error("更新失败: " + error.message);
+    },
+  });
+
+  const deleteMutation = trpc.series.delete.useMutation({
+    onSuccess: () => {
+      utils.series.listAll.invalidate();
+      toast.success("系列删除成功");
+      setIsDeleteDialogOpen(false);
+      setDeletingId(null);
+    },
+    onError: (error) => {
+      toast.error("删除失败: " + error.message);
+    },
+  });
+
+  const imageUpload = useImageUpload({
+    onSuccess: (data) => {
+      setFormData(prev => ({
+        ...prev,
+        coverImageUrl: data.url,
+        coverImageKey: data.key,
+      }));
+      toast.success("图片上传成功");
+    },
+    onError: (error) => {
+      toast.error("上传失败: " + error.message);
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!UPLOAD_RULES.image.contentTypes.includes(file.type)) {
+      toast.error("请选择图片文件");
+      return;
+    }
+
+    if (file.size > UPLOAD_RULES.image.maxBytes) {
+      toast.error(`图片大小不能超过 ${maxUploadMegabytes("image")}MB`);
+      return;
+    }
+
+    imageUpload.upload(file);
+  };
+
+  const openCreateDialog = () => {
+    setEditingId(null);
+    setFormData(defaultFormData);
+    setIsSlugEdited(false);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (series: NonNullable<typeof seriesList>[0]) => {
+    setEditingId(series.id);
+    setFormData({
+      title: series.title,
+      slug: series.slug,
+      description: series.description || "",
+      coverImageUrl: series.coverImageUrl || "",
+      coverImageKey: series.coverImageKey || "",
+    });
+    // Existing permalinks stay put unless the slug is changed explicitly
+    setIsSlugEdited(true);
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingId(null);
+    setFormData(defaultFormData);
+  };
+
+  const handleSubmit = () => {
+    if (!formData.title.trim()) {
+      toast.error("请输入标题");
+      return;
+    }
+
+    if (editingId) {
+      updateMutation.mutate({
+        id: editingId,
+        ...formData,
+      });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  const handleDelete = () => {
+    if (deletingId) {
+      deleteMutation.mutate({ id: deletingId });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-white">
+            Series
+          </h1>
+          <p className="text-neutral-400 mt-1">
+            Group multi-part essays into series
+          </p>
+        </div>
+        <Button
+          onClick={openCreateDialog}
+          className="bg-white text-black hover:bg-neutral-200"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Series
+        </Button>
+      </div>
+
+      {/* Series List */}
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="bg-neutral-900 border-neutral-800 animate-pulse">
+              <CardContent className="p-6">
+                <div className="h-5 bg-neutral-800 rounded w-1/3 mb-2" />
+                <div className="h-4 bg-neutral-800 rounded w-2/3" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : seriesList && seriesList.length > 0 ? (
+        <div className="space-y-4">
+          {seriesList.map((series) => {
+            const parts = partsOf(series.id);
+            return (
+              <Card key={series.id} className="bg-neutral-900 border-neutral-800">
+                <CardContent className="p-6">
+                  <div className="flex gap-4">
+                    {series.coverImageUrl ? (
+                      <img
+                        src={series.coverImageUrl}
+                        alt={series.title}
+                        className="w-24 h-16 object-cover rounded-md flex-shrink-0"
+                      />
+                    ) : (
+                      <div className="w-24 h-16 bg-neutral-800 rounded-md flex-shrink-0 flex items-center justify-center">
+                        <Layers className="h-6 w-6 text-neutral-600" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-lg font-medium text-white truncate">
+                        {series.title}
+                      </h3>
+                      <p className="text-xs text-neutral-500 mt-0.5">
+                        /magazine/series/{series.slug} · {series.partCount} {series.partCount === 1 ? "part" : "parts"}
+                      </p>
+                      {series.description && (
+                        <p className="text-sm text-neutral-400 mt-1 line-clamp-2">
+                          {series.description}
+                        </p>
+                      )}
+                      {parts.length > 0 && (
+                        <ol className="mt-3 space-y-1">
+                          {parts.map(essay => (
+                            <li key={essay.id} className="flex items-center gap-2 text-sm">
+                              <span className="w-14 text-neutral-500 shrink-0">
+                                {essay.seriesPosition !== null ? `Part ${essay.seriesPosition}` : "—"}
+                              </span>
+                              <span className="text-neutral-300 truncate">{essay.title}</span>
+                              {!essay.published && (
+                                <span className="text-xs text-neutral-500">(draft)</span>
+                              )}
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
+                    <div className="flex items-start gap-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => openEditDialog(series)}
+                        className="text-neutral-400 hover:text-white hover:bg-neutral-800"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setDeletingId(series.id);
+                          setIsDeleteDialogOpen(true);
+                        }}
+                        className="text-red-400 hover:text-red-300 hover:bg-neutral-800"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card className="bg-neutral-900 border-neutral-800">
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <div className="p-4 rounded-full bg-neutral-800 mb-4">
+              <Layers className="h-8 w-8 text-neutral-500" />
+            </div>
+            <h3 className="text-lg font-medium text-white mb-2">
+              No Series Yet
+            </h3>
+            <p className="text-neutral-500 mb-4">
+              Create a series, then assign essays to it from the Magazine page
+            </p>
+            <Button
+              onClick={openCreateDialog}
+              className="bg-white text-black hover:bg-neutral-200"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Series
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-neutral-900 border-neutral-800">
+          <DialogHeader>
+            <DialogTitle className="text-white">
+              {editingId ? "Edit Series" : "Add Series"}
+            </DialogTitle>
+            <DialogDescription className="text-neutral-400">
+              {editingId ? "Update series information" : "Create a new series"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {/* Title */}
+            <div className="space-y-2">
+              <Label htmlFor="title" className="text-neutral-300">Title *</Label>
+              <Input
+                id="title"
+                value={formData.title}
+                onChange={(e) => {
+                  const title = e.target.value;
+                  setFormData(prev => ({
+                    ...prev,
+                    title,
+                    slug: isSlugEdited ? prev.slug : slugify(title),
+                  }));
+                }}
+                placeholder="e.g., Letters from Kyoto"
+                className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+              />
+            </div>
+
+            {/* Slug */}
+            <div className="space-y-2">
+              <Label htmlFor="slug" className="text-neutral-300">Permalink</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-neutral-500 shrink-0">/magazine/series/</span>
+                <Input
+                  id="slug"
+                  value={formData.slug}
+                  onChange={(e) => {
+                    setIsSlugEdited(true);
+                    setFormData(prev => ({ ...prev, slug: e.target.value }));
+                  }}
+                  onBlur={() => setFormData(prev => ({ ...prev, slug: prev.slug ? slugify(prev.slug) : slugify(prev.title) }))}
+                  placeholder="generated-from-title"
+                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                />
+              </div>
+            </div>
+
+            {/* Description */}
+            <div className="space-y-2">
+              <Label htmlFor="description" className="text-neutral-300">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Shown at the top of the series page"
+                rows={3}
+                className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+              />
+            </div>
+
+            {/* Cover Image */}
+            <div className="space-y-2">
+              <Label className="text-neutral-300">Cover Image</Label>
+              {formData.coverImageUrl ? (
+                <div className="relative aspect-video rounded-lg overflow-hidden bg-neutral-800">
+                  <img
+                    src={formData.coverImageUrl}
+                    alt="Cover"
+                    className="w-full h-full object-cover"
+                  />
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="absolute top-2 right-2"
+                    onClick={() => setFormData(prev => ({ ...prev, coverImageUrl: "", coverImageKey: "" }))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div
+                  className="border-2 border-dashed border-neutral-700 rounded-lg p-8 text-center cursor-pointer hover:border-neutral-600 transition-colors bg-neutral-800/50"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  {imageUpload.isUploading ? (
+                    <div className="flex flex-col items-center">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mb-2" />
+                      <p className="text-neutral-400">Uploading... {imageUpload.progress}%</p>
+                    </div>
+                  ) : (
+                    <>
+                      <Upload className="h-8 w-8 text-neutral-500 mx-auto mb-2" />
+                      <p className="text-neutral-400">Click to upload cover image</p>
+                    </>
+                  )}
+                </div>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={UPLOAD_RULES.image.contentTypes.join(",")}
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={closeDialog}
+              className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={createMutation.isPending || updateMutation.isPending}
+              className="bg-white text-black hover:bg-neutral-200"
+            >
+              {createMutation.isPending || updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent className="bg-neutral-900 border-neutral-800">
+          <DialogHeader>
+            <DialogTitle className="text-white">Confirm Delete</DialogTitle>
+            <DialogDescription className="text-neutral-400">
+              Are you sure you want to delete this series? Its essays will be kept as standalone essays.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsDeleteDialogOpen(false)}
+              className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,72 @@
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import { useAuth } from "@/_core/hooks/useAuth";
-import { Settings, User, Database, Shield } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Settings, User, Database, Shield, Globe } from "lucide-react";
+
+function RobotsSettings() {
+  const utils = trpc.useUtils();
+  const { data } = trpc.settings.get.useQuery({ key: "robots_txt" });
+  const [rules, setRules] = useState("");
+
+  useEffect(() => {
+    if (data) setRules(data.value);
+  }, [data]);
+
+  const saveMutation = trpc.settings.set.useMutation({
+    onSuccess: () => {
+      utils.settings.get.invalidate({ key: "robots_txt" });
+      toast.success("robots.txt 已保存");
+    },
+    onError: (error) => {
+      toast.error(`保存失败: ${error.message}`);
+    },
+  });
+
+  return (
+    <Card className="bg-neutral-900 border-neutral-800">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-neutral-800">
+            <Globe className="h-5 w-5 text-neutral-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg text-white">Search Engines</CardTitle>
+            <CardDescription className="text-neutral-500">
+              Rules served at <a href="/robots.txt" target="_blank" rel="noreferrer" className="underline">/robots.txt</a>;
+              a link to <a href="/sitemap.xml" target="_blank" rel="noreferrer" className="underline">/sitemap.xml</a> is added automatically
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={rules}
+          onChange={(e) => setRules(e.target.value)}
+          rows={8}
+          spellCheck={false}
+          disabled={!data}
+          className="font-mono text-sm bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+        />
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-neutral-500">
+            {data?.isDefault ? "Using the default rules" : "Leave empty to allow every crawler everywhere"}
+          </p>
+          <Button
+            onClick={() => saveMutation.mutate({ key: "robots_txt", value: rules })}
+            disabled={!data || saveMutation.isPending || rules === data.value}
+            className="bg-white text-black hover:bg-neutral-200"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function AdminSettings() {
   const { user } = useAuth();
@@ -143,6 +209,9 @@ export default function AdminSettings() {
         </Card>
       </div>
 
+      {/* Search Engines */}
+      <RobotsSettings />
+
       {/* Tips */}
       <Card className="bg-neutral-800/50 border-neutral-700">
         <CardContent className="p-6">
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { formatBytes } from "@/lib/utils";
+import { ExternalLink, FileText, HardDrive, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+const IMAGE_EXTENSION = /\.(jpe?g|png|webp|avif|gif|svg)$/i;
+
+export default function AdminStorage() {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isPurgeDialogOpen, setIsPurgeDialogOpen] = useState(false);
+
+  const utils = trpc.useUtils();
+  // Listing the bucket is not free; only rescan when asked
+  const { data: orphans, isLoading, isFetching, error, refetch } = trpc.storage.orphans.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+
+  const purgeMutation = trpc.storage.purgeOrphans.useMutation({
+    onSuccess: (result) => {
+      utils.storage.orphans.invalidate();
+      setSelected(new Set());
+      setIsPurgeDialogOpen(false);
+      if (result.failed > 0) {
+        toast.error(`已删除 ${result.purged} 个文件，${result.failed} 个删除失败`);
+      } else {
+        toast.success(`已删除 ${result.purged} 个文件`);
+      }
+    },
+    onError: (error) => {
+      toast.error("删除失败: " + error.message);
+    },
+  });
+
+  const totalSize = (orphans ?? []).reduce((sum, orphan) => sum + orphan.size, 0);
+  const selectedSize = (orphans ?? [])
+    .filter(orphan => selected.has(orphan.key))
+    .reduce((sum, orphan) => sum + orphan.size, 0);
+  const allSelected = !!orphans && orphans.length > 0 && selected.size === orphans.length;
+
+  const toggle = (key: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-white">
+            Storage
+          </h1>
+          <p className="text-neutral-400 mt-1">
+            Files in storage that no content or revision uses
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+            Rescan
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => setIsPurgeDialogOpen(true)}
+            disabled={selected.size === 0}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Purge {selected.size > 0 ? `(${selected.size})` : ""}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Card className="bg-neutral-900 border-neutral-800 animate-pulse">
+          <CardContent className="p-6 space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-10 bg-neutral-800 rounded" />
+            ))}
+          </CardContent>
+        </Card>
+      ) : error ? (
+        <Card className="bg-neutral-900 border-neutral-800">
+          <CardContent className="py-10 text-center text-neutral-400">
+            扫描失败: {error.message}
+          </CardContent>
+        </Card>
+      ) : orphans && orphans.length > 0 ? (
+        <Card className="bg-neutral-900 border-neutral-800 overflow-hidden py-0 gap-0">
+          <div className="flex items-center gap-3 px-4 py-3 border-b border-neutral-800 text-sm text-neutral-400">
+            <Checkbox
+              checked={allSelected}
+              onCheckedChange={(checked) =>
+                setSelected(checked === true ? new Set(orphans.map(orphan => orphan.key)) : new Set())
+              }
+              aria-label="Select all"
+            />
+            <span>
+              {orphans.length} orphaned {orphans.length === 1 ? "file" : "files"}, {formatBytes(totalSize)}
+              {selected.size > 0 && ` · ${selected.size} selected, ${formatBytes(selectedSize)}`}
+            </span>
+          </div>
+          <ul className="divide-y divide-neutral-800">
+            {orphans.map((orphan) => (
+              <li key={orphan.key} className="flex items-center gap-3 px-4 py-2">
+                <Checkbox
+                  checked={selected.has(orphan.key)}
+                  onCheckedChange={(checked) => toggle(orphan.key, checked === true)}
+                  aria-label={`Select ${orphan.key}`}
+                />
+                <div className="w-12 h-12 shrink-0 rounded bg-neutral-800 overflow-hidden flex items-center justify-center">
+                  {IMAGE_EXTENSION.test(orphan.key) ? (
+                    <img src={orphan.url} alt="" loading="lazy" className="w-full h-full object-cover" />
+                  ) : (
+                    <FileText className="h-5 w-5 text-neutral-500" />
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-white truncate font-mono">{orphan.key}</p>
+                  <p className="text-xs text-neutral-500">
+                    {formatBytes(orphan.size)} · {format(new Date(orphan.lastModified), "yyyy-MM-dd HH:mm")}
+                  </p>
+                </div>
+                <a
+                  href={orphan.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-neutral-500 hover:text-white transition-colors"
+                  aria-label="Open file"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      ) : (
+        <Card className="bg-neutral-900 border-neutral-800">
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <div className="p-4 rounded-full bg-neutral-800 mb-4">
+              <HardDrive className="h-8 w-8 text-neutral-500" />
+            </div>
+            <h3 className="text-lg font-medium text-white mb-2">
+              No Orphaned Files
+            </h3>
+            <p className="text-neutral-500">
+              Every stored file is in use. Uploads from the last 24 hours are not checked.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Purge Confirmation Dialog */}
+      <Dialog open={isPurgeDialogOpen} onOpenChange={setIsPurgeDialogOpen}>
+        <DialogContent className="bg-neutral-900 border-neutral-800">
+          <DialogHeader>
+            <DialogTitle className="text-white">Purge Files</DialogTitle>
+            <DialogDescription className="text-neutral-400">
+              Permanently delete {selected.size} {selected.size === 1 ? "file" : "files"} ({formatBytes(selectedSize)}) from storage?
+              Files that have been put back into use since the scan are skipped.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsPurgeDialogOpen(false)}
+              className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => purgeMutation.mutate({ keys: Array.from(selected) })}
+              disabled={purgeMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {purgeMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+-- Add unique slug permalinks to photos, essays and papers.
+-- Existing rows are backfilled from their title with the id appended,
+-- which keeps the backfill collision-free; slugs can be edited afterwards.
+ALTER TABLE `photos` ADD `slug` varchar(255);
+--> statement-breakpoint
+ALTER TABLE `essays` ADD `slug` varchar(255);
+--> statement-breakpoint
+ALTER TABLE `papers` ADD `slug` varchar(255);
+--> statement-breakpoint
+UPDATE `photos` SET `slug` = CONCAT(TRIM(BOTH '-' FROM LEFT(LOWER(REGEXP_REPLACE(`title`, '[^[:alnum:]]+', '-')), 200)), '-', `id`) WHERE `slug` IS NULL;
+--> statement-breakpoint
+UPDATE `essays` SET `slug` = CONCAT(TRIM(BOTH '-' FROM LEFT(LOWER(REGEXP_REPLACE(`title`, '[^[:alnum:]]+', '-')), 200)), '-', `id`) WHERE `slug` IS NULL;
+--> statement-breakpoint
+UPDATE `papers` SET `slug` = CONCAT(TRIM(BOTH '-' FROM LEFT(LOWER(REGEXP_REPLACE(`title`, '[^[:alnum:]]+', '-')), 200)), '-', `id`) WHERE `slug` IS NULL;
+--> statement-breakpoint
+ALTER TABLE `photos` MODIFY `slug` varchar(255) NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `essays` MODIFY `slug` varchar(255) NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `papers` MODIFY `slug` varchar(255) NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `photos` ADD CONSTRAINT `photos_slug_unique` UNIQUE(`slug`);
+--> statement-breakpoint
+ALTER TABLE `essays` ADD CONSTRAINT `essays_slug_unique` UNIQUE(`slug`);
+--> statement-breakpoint
+ALTER TABLE `papers` ADD CONSTRAINT `papers_slug_unique` UNIQUE(`slug`);
@@ -0,0 +1,12 @@
+-- Add revisions table for essay and paper version history
+CREATE TABLE IF NOT EXISTS `revisions` (
+  `id` int AUTO_INCREMENT NOT NULL,
+  `contentType` enum('essay','paper') NOT NULL,
+  `contentId` int NOT NULL,
+  `snapshot` mediumtext NOT NULL,
+  `authorId` int,
+  `createdAt` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `revisions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `revisions_content_idx` ON `revisions` (`contentType`,`contentId`);
@@ -0,0 +1,6 @@
+-- A publishedAt on a draft now means "publish at this time".
+-- Clear the stale dates left behind on unpublished items so they are not
+-- published by the scheduler on its first run.
+UPDATE `essays` SET `publishedAt` = NULL WHERE `published` = false;
+--> statement-breakpoint
+UPDATE `papers` SET `publishedAt` = NULL WHERE `published` = false;
@@ -0,0 +1,15 @@
+-- Add preview_links table for signed draft preview tokens
+CREATE TABLE IF NOT EXISTS `preview_links` (
+  `id` int AUTO_INCREMENT NOT NULL,
+  `tokenId` varchar(64) NOT NULL,
+  `contentType` enum('essay','paper') NOT NULL,
+  `contentId` int NOT NULL,
+  `createdBy` int NOT NULL,
+  `expiresAt` timestamp NOT NULL,
+  `revokedAt` timestamp,
+  `createdAt` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `preview_links_id` PRIMARY KEY(`id`),
+  CONSTRAINT `preview_links_tokenId_unique` UNIQUE(`tokenId`)
+);
+--> statement-breakpoint
+CREATE INDEX `preview_links_content_idx` ON `preview_links` (`contentType`,`contentId`);
@@ -0,0 +1,114 @@
+-- Normalize the free-text tags columns into a shared tags table with one
+-- join table per content type. Existing values are parsed from either a
+-- JSON array or a list separated by commas, ASCII or full-width as in the
+-- admin's tag input, then the old columns are dropped.
+CREATE TABLE IF NOT EXISTS `tags` (
+  `id` int AUTO_INCREMENT NOT NULL,
+  `name` varchar(100) NOT NULL,
+  `slug` varchar(120),
+  `createdAt` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `tags_id` PRIMARY KEY(`id`),
+  CONSTRAINT `tags_name_unique` UNIQUE(`name`)
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS `photo_tags` (
+  `photoId` int NOT NULL,
+  `tagId` int NOT NULL,
+  CONSTRAINT `photo_tags_photoId_tagId_pk` PRIMARY KEY(`photoId`,`tagId`)
+);
+--> statement-breakpoint
+CREATE INDEX `photo_tags_tag_idx` ON `photo_tags` (`tagId`);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS `essay_tags` (
+  `essayId` int NOT NULL,
+  `tagId` int NOT NULL,
+  CONSTRAINT `essay_tags_essayId_tagId_pk` PRIMARY KEY(`essayId`,`tagId`)
+);
+--> statement-breakpoint
+CREATE INDEX `essay_tags_tag_idx` ON `essay_tags` (`tagId`);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS `paper_tags` (
+  `paperId` int NOT NULL,
+  `tagId` int NOT NULL,
+  CONSTRAINT `paper_tags_paperId_tagId_pk` PRIMARY KEY(`paperId`,`tagId`)
+);
+--> statement-breakpoint
+CREATE INDEX `paper_tags_tag_idx` ON `paper_tags` (`tagId`);
+--> statement-breakpoint
+CREATE TEMPORARY TABLE `tag_staging` (
+  `contentType` varchar(10) NOT NULL,
+  `contentId` int NOT NULL,
+  `name` varchar(100) NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `tag_staging` (`contentType`, `contentId`, `name`)
+SELECT 'photo', src.`id`, LEFT(TRIM(jt.`name`), 100)
+FROM (
+  SELECT `id`,
+    CASE WHEN TRIM(`tags`) LIKE '[%' THEN `tags`
+    ELSE CONCAT('["', REPLACE(REPLACE(REPLACE(REPLACE(`tags`, '，', ','), '\\', '\\\\'), '"', '\\"'), ',', '","'), '"]') END AS `doc`
+  FROM `photos`
+  WHERE `tags` IS NOT NULL AND TRIM(`tags`) <> ''
+) src
+JOIN JSON_TABLE(src.`doc`, '$[*]' COLUMNS (`name` varchar(255) PATH '$')) jt
+WHERE JSON_VALID(src.`doc`) AND TRIM(jt.`name`) <> '';
+--> statement-breakpoint
+INSERT INTO `tag_staging` (`contentType`, `contentId`, `name`)
+SELECT 'essay', src.`id`, LEFT(TRIM(jt.`name`), 100)
+FROM (
+  SELECT `id`,
+    CASE WHEN TRIM(`tags`) LIKE '[%' THEN `tags`
+    ELSE CONCAT('["', REPLACE(REPLACE(REPLACE(REPLACE(`tags`, '，', ','), '\\', '\\\\'), '"', '\\"'), ',', '","'), '"]') END AS `doc`
+  FROM `essays`
+  WHERE `tags` IS NOT NULL AND TRIM(`tags`) <> ''
+) src
+JOIN JSON_TABLE(src.`doc`, '$[*]' COLUMNS (`name` varchar(255) PATH '$')) jt
+WHERE JSON_VALID(src.`doc`) AND TRIM(jt.`name`) <> '';
+--> statement-breakpoint
+INSERT INTO `tag_staging` (`contentType`, `contentId`, `name`)
+SELECT 'paper', src.`id`, LEFT(TRIM(jt.`name`), 100)
+FROM (
+  SELECT `id`,
+    CASE WHEN TRIM(`tags`) LIKE '[%' THEN `tags`
+    ELSE CONCAT('["', REPLACE(REPLACE(REPLACE(REPLACE(`tags`, '，', ','), '\\', '\\\\'), '"', '\\"'), ',', '","'), '"]') END AS `doc`
+  FROM `papers`
+  WHERE `tags` IS NOT NULL AND TRIM(`tags`) <> ''
+) src
+JOIN JSON_TABLE(src.`doc`, '$[*]' COLUMNS (`name` varchar(255) PATH '$')) jt
+WHERE JSON_VALID(src.`doc`) AND TRIM(jt.`name`) <> '';
+--> statement-breakpoint
+-- Names compare case-insensitively, so "Travel" and "travel" become one tag
+INSERT IGNORE INTO `tags` (`name`) SELECT DISTINCT `name` FROM `tag_staging`;
+--> statement-breakpoint
+UPDATE `tags` SET `slug` = TRIM(BOTH '-' FROM LOWER(REGEXP_REPLACE(`name`, '[^[:alnum:]]+', '-')));
+--> statement-breakpoint
+-- Disambiguate names that normalize to the same (or an empty) slug
+UPDATE `tags` t
+JOIN (SELECT `slug` FROM `tags` GROUP BY `slug` HAVING COUNT(*) > 1) dup ON dup.`slug` = t.`slug`
+SET t.`slug` = CONCAT(t.`slug`, '-', t.`id`);
+--> statement-breakpoint
+UPDATE `tags` SET `slug` = CONCAT('tag-', `id`) WHERE `slug` = '';
+--> statement-breakpoint
+ALTER TABLE `tags` MODIFY `slug` varchar(120) NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `tags` ADD CONSTRAINT `tags_slug_unique` UNIQUE(`slug`);
+--> statement-breakpoint
+INSERT IGNORE INTO `photo_tags` (`photoId`, `tagId`)
+SELECT s.`contentId`, t.`id` FROM `tag_staging` s JOIN `tags` t ON t.`name` = s.`name`
+WHERE s.`contentType` = 'photo';
+--> statement-breakpoint
+INSERT IGNORE INTO `essay_tags` (`essayId`, `tagId`)
+SELECT s.`contentId`, t.`id` FROM `tag_staging` s JOIN `tags` t ON t.`name` = s.`name`
+WHERE s.`contentType` = 'essay';
+--> statement-breakpoint
+INSERT IGNORE INTO `paper_tags` (`paperId`, `tagId`)
+SELECT s.`contentId`, t.`id` FROM `tag_staging` s JOIN `tags` t ON t.`name` = s.`name`
+WHERE s.`contentType` = 'paper';
+--> statement-breakpoint
+DROP TEMPORARY TABLE `tag_staging`;
+--> statement-breakpoint
+ALTER TABLE `photos` DROP COLUMN `tags`;
+--> statement-breakpoint
+ALTER TABLE `essays` DROP COLUMN `tags`;
+--> statement-breakpoint
+ALTER TABLE `papers` DROP COLUMN `tags`;
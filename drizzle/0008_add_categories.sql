@@ -0,0 +1,70 @@
+-- Replace the free-text category columns with managed, per-section
+-- categories. Existing values become categories of their section, in
+-- alphabetical order; the old columns are dropped afterwards.
+CREATE TABLE IF NOT EXISTS `categories` (
+  `id` int AUTO_INCREMENT NOT NULL,
+  `section` enum('photo','essay','paper') NOT NULL,
+  `name` varchar(100) NOT NULL,
+  `slug` varchar(120),
+  `description` text,
+  `coverImageUrl` text,
+  `coverImageKey` varchar(500),
+  `sortOrder` int NOT NULL DEFAULT 0,
+  `createdAt` timestamp NOT NULL DEFAULT (now()),
+  `updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT `categories_id` PRIMARY KEY(`id`),
+  CONSTRAINT `categories_section_name_unique` UNIQUE(`section`,`name`)
+);
+--> statement-breakpoint
+INSERT IGNORE INTO `categories` (`section`, `name`)
+SELECT DISTINCT 'photo', TRIM(`category`) FROM `photos`
+WHERE `category` IS NOT NULL AND TRIM(`category`) <> ''
+ORDER BY TRIM(`category`);
+--> statement-breakpoint
+INSERT IGNORE INTO `categories` (`section`, `name`)
+SELECT DISTINCT 'essay', TRIM(`category`) FROM `essays`
+WHERE `category` IS NOT NULL AND TRIM(`category`) <> ''
+ORDER BY TRIM(`category`);
+--> statement-breakpoint
+INSERT IGNORE INTO `categories` (`section`, `name`)
+SELECT DISTINCT 'paper', TRIM(`category`) FROM `papers`
+WHERE `category` IS NOT NULL AND TRIM(`category`) <> ''
+ORDER BY TRIM(`category`);
+--> statement-breakpoint
+UPDATE `categories` SET `slug` = TRIM(BOTH '-' FROM LOWER(REGEXP_REPLACE(`name`, '[^[:alnum:]]+', '-')));
+--> statement-breakpoint
+-- Disambiguate names that normalize to the same (or an empty) slug within a section
+UPDATE `categories` c
+JOIN (SELECT `section`, `slug` FROM `categories` GROUP BY `section`, `slug` HAVING COUNT(*) > 1) dup
+  ON dup.`section` = c.`section` AND dup.`slug` = c.`slug`
+SET c.`slug` = CONCAT(c.`slug`, '-', c.`id`);
+--> statement-breakpoint
+UPDATE `categories` SET `slug` = CONCAT('category-', `id`) WHERE `slug` = '';
+--> statement-breakpoint
+-- Insertion followed alphabetical order, so the id order is the initial sort order
+UPDATE `categories` SET `sortOrder` = `id`;
+--> statement-breakpoint
+ALTER TABLE `categories` MODIFY `slug` varchar(120) NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `categories` ADD CONSTRAINT `categories_section_slug_unique` UNIQUE(`section`,`slug`);
+--> statement-breakpoint
+ALTER TABLE `photos` ADD `categoryId` int;
+--> statement-breakpoint
+UPDATE `photos` t JOIN `categories` c ON c.`section` = 'photo' AND c.`name` = TRIM(t.`category`)
+SET t.`categoryId` = c.`id`;
+--> statement-breakpoint
+ALTER TABLE `photos` DROP COLUMN `category`;
+--> statement-breakpoint
+ALTER TABLE `essays` ADD `categoryId` int;
+--> statement-breakpoint
+UPDATE `essays` t JOIN `categories` c ON c.`section` = 'essay' AND c.`name` = TRIM(t.`category`)
+SET t.`categoryId` = c.`id`;
+--> statement-breakpoint
+ALTER TABLE `essays` DROP COLUMN `category`;
+--> statement-breakpoint
+ALTER TABLE `papers` ADD `categoryId` int;
+--> statement-breakpoint
+UPDATE `papers` t JOIN `categories` c ON c.`section` = 'paper' AND c.`name` = TRIM(t.`category`)
+SET t.`categoryId` = c.`id`;
+--> statement-breakpoint
+ALTER TABLE `papers` DROP COLUMN `category`;
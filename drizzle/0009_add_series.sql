@@ -0,0 +1,21 @@
+-- Group multi-part essays into series. Membership lives on the essay
+-- (seriesId plus a 1-based seriesPosition), so an essay belongs to at
+-- most one series.
+CREATE TABLE IF NOT EXISTS `series` (
+  `id` int AUTO_INCREMENT NOT NULL,
+  `title` varchar(255) NOT NULL,
+  `slug` varchar(255) NOT NULL,
+  `description` text,
+  `coverImageUrl` text,
+  `coverImageKey` varchar(500),
+  `createdAt` timestamp NOT NULL DEFAULT (now()),
+  `updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT `series_id` PRIMARY KEY(`id`),
+  CONSTRAINT `series_slug_unique` UNIQUE(`slug`)
+);
+--> statement-breakpoint
+ALTER TABLE `essays` ADD `seriesId` int;
+--> statement-breakpoint
+ALTER TABLE `essays` ADD `seriesPosition` int;
+--> statement-breakpoint
+CREATE INDEX `essays_series_idx` ON `essays` (`seriesId`);
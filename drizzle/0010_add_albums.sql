@@ -0,0 +1,22 @@
+-- Curated photo albums. Membership is many-to-many with an explicit
+-- position so each album keeps its own order.
+CREATE TABLE IF NOT EXISTS `albums` (
+  `id` int AUTO_INCREMENT NOT NULL,
+  `title` varchar(255) NOT NULL,
+  `slug` varchar(255) NOT NULL,
+  `description` text,
+  `coverPhotoId` int,
+  `createdAt` timestamp NOT NULL DEFAULT (now()),
+  `updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT `albums_id` PRIMARY KEY(`id`),
+  CONSTRAINT `albums_slug_unique` UNIQUE(`slug`)
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS `album_photos` (
+  `albumId` int NOT NULL,
+  `photoId` int NOT NULL,
+  `position` int NOT NULL,
+  CONSTRAINT `album_photos_albumId_photoId_pk` PRIMARY KEY(`albumId`,`photoId`)
+);
+--> statement-breakpoint
+CREATE INDEX `album_photos_photo_idx` ON `album_photos` (`photoId`);
@@ -0,0 +1,6 @@
+-- Photos gain draft / published / unlisted visibility. New photos start as
+-- drafts; everything uploaded before this change was already public, so it
+-- is marked published.
+ALTER TABLE `photos` ADD `visibility` enum('draft','published','unlisted') NOT NULL DEFAULT 'draft';
+--> statement-breakpoint
+UPDATE `photos` SET `visibility` = 'published';
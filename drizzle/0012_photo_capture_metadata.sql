@@ -0,0 +1,6 @@
+-- Capture time and GPS position, pre-filled from EXIF/XMP on upload.
+ALTER TABLE `photos` ADD `takenAt` timestamp;
+--> statement-breakpoint
+ALTER TABLE `photos` ADD `latitude` double;
+--> statement-breakpoint
+ALTER TABLE `photos` ADD `longitude` double;
@@ -0,0 +1,36 @@
+-- Structured exposure values next to the free-text `settings` line, which
+-- stays as the admin-facing field. The backfill mirrors
+-- parseExposureSettings() in shared/photoMetadata.ts (MySQL 8 regex).
+ALTER TABLE `photos` ADD `aperture` double;
+--> statement-breakpoint
+ALTER TABLE `photos` ADD `exposureTime` double;
+--> statement-breakpoint
+ALTER TABLE `photos` ADD `iso` int;
+--> statement-breakpoint
+ALTER TABLE `photos` ADD `focalLength` double;
+--> statement-breakpoint
+CREATE INDEX `photos_camera_idx` ON `photos` (`camera`);
+--> statement-breakpoint
+CREATE INDEX `photos_lens_idx` ON `photos` (`lens`);
+--> statement-breakpoint
+CREATE INDEX `photos_focal_length_idx` ON `photos` (`focalLength`);
+--> statement-breakpoint
+UPDATE `photos`
+SET `aperture` = CAST(REGEXP_SUBSTR(REGEXP_SUBSTR(`settings`, '(?i)\\bf/?[0-9]+(\\.[0-9]+)?'), '[0-9]+(\\.[0-9]+)?') AS DECIMAL(6,2))
+WHERE REGEXP_LIKE(`settings`, '(?i)\\bf/?[0-9]');
+--> statement-breakpoint
+UPDATE `photos`
+SET `exposureTime` = 1 / CAST(REGEXP_SUBSTR(REGEXP_SUBSTR(`settings`, '\\b1/[0-9]+(\\.[0-9]+)?'), '[0-9]+(\\.[0-9]+)?$') AS DECIMAL(10,4))
+WHERE REGEXP_LIKE(`settings`, '\\b1/[1-9]');
+--> statement-breakpoint
+UPDATE `photos`
+SET `exposureTime` = CAST(REGEXP_SUBSTR(REGEXP_SUBSTR(`settings`, '(?i)(?<![/0-9.])[0-9]+(\\.[0-9]+)?\\s*(s|sec|")(?![a-z])'), '[0-9]+(\\.[0-9]+)?') AS DECIMAL(10,4))
+WHERE `exposureTime` IS NULL AND REGEXP_LIKE(`settings`, '(?i)(?<![/0-9.])[0-9]+(\\.[0-9]+)?\\s*(s|sec|")(?![a-z])');
+--> statement-breakpoint
+UPDATE `photos`
+SET `iso` = CAST(REGEXP_SUBSTR(REGEXP_SUBSTR(`settings`, '(?i)\\bISO\\s*[0-9]+'), '[0-9]+') AS UNSIGNED)
+WHERE REGEXP_LIKE(`settings`, '(?i)\\bISO\\s*[0-9]');
+--> statement-breakpoint
+UPDATE `photos`
+SET `focalLength` = CAST(REGEXP_SUBSTR(REGEXP_SUBSTR(`settings`, '(?i)[0-9]+(\\.[0-9]+)?\\s*mm\\b'), '[0-9]+(\\.[0-9]+)?') AS DECIMAL(6,1))
+WHERE REGEXP_LIKE(`settings`, '(?i)[0-9]+(\\.[0-9]+)?\\s*mm\\b');
@@ -0,0 +1,15 @@
+-- Resized AVIF/WebP renditions generated on upload, stored next to the
+-- original object and looked up by its key.
+CREATE TABLE IF NOT EXISTS `image_variants` (
+  `id` int AUTO_INCREMENT NOT NULL,
+  `sourceKey` varchar(500) NOT NULL,
+  `key` varchar(500) NOT NULL,
+  `url` text NOT NULL,
+  `format` enum('avif','webp') NOT NULL,
+  `width` int NOT NULL,
+  `height` int NOT NULL,
+  `createdAt` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `image_variants_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `image_variants_source_idx` ON `image_variants` (`sourceKey`);
@@ -0,0 +1,21 @@
+-- Intrinsic dimensions and a tiny blurred preview for the main image of
+-- photos, essays (cover) and backgrounds, filled in on upload. Existing
+-- rows stay NULL until their image is re-uploaded; pages then fall back
+-- to the previous unreserved layout.
+ALTER TABLE `photos` ADD `imageWidth` int;
+--> statement-breakpoint
+ALTER TABLE `photos` ADD `imageHeight` int;
+--> statement-breakpoint
+ALTER TABLE `photos` ADD `imagePlaceholder` text;
+--> statement-breakpoint
+ALTER TABLE `essays` ADD `coverImageWidth` int;
+--> statement-breakpoint
+ALTER TABLE `essays` ADD `coverImageHeight` int;
+--> statement-breakpoint
+ALTER TABLE `essays` ADD `coverImagePlaceholder` text;
+--> statement-breakpoint
+ALTER TABLE `backgrounds` ADD `imageWidth` int;
+--> statement-breakpoint
+ALTER TABLE `backgrounds` ADD `imageHeight` int;
+--> statement-breakpoint
+ALTER TABLE `backgrounds` ADD `imagePlaceholder` text;
@@ -0,0 +1,16 @@
+-- Queue of storage objects to delete after the row that referenced them
+-- was deleted or pointed at a new upload. Rows are written in the same
+-- transaction as that change and retried with back-off until the delete
+-- succeeds.
+CREATE TABLE IF NOT EXISTS `storage_deletions` (
+  `id` int AUTO_INCREMENT NOT NULL,
+  `key` varchar(500) NOT NULL,
+  `attempts` int NOT NULL DEFAULT 0,
+  `nextAttemptAt` timestamp NOT NULL DEFAULT (now()),
+  `lastError` text,
+  `createdAt` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `storage_deletions_id` PRIMARY KEY(`id`),
+  CONSTRAINT `storage_deletions_key_unique` UNIQUE(`key`)
+);
+--> statement-breakpoint
+CREATE INDEX `storage_deletions_next_attempt_idx` ON `storage_deletions` (`nextAttemptAt`);
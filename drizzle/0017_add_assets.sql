@@ -0,0 +1,21 @@
+-- Media library. Every confirmed upload is recorded so it can be searched
+-- and reused from any admin form; usage is looked up from the content
+-- tables. Files uploaded before this table existed are not listed.
+CREATE TABLE IF NOT EXISTS `assets` (
+  `id` int AUTO_INCREMENT NOT NULL,
+  `key` varchar(500) NOT NULL,
+  `url` text NOT NULL,
+  `kind` enum('image','pdf') NOT NULL,
+  `filename` varchar(255) NOT NULL,
+  `contentType` varchar(100) NOT NULL,
+  `size` int NOT NULL,
+  `width` int,
+  `height` int,
+  `placeholder` text,
+  `uploadedBy` int,
+  `createdAt` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `assets_id` PRIMARY KEY(`id`),
+  CONSTRAINT `assets_key_unique` UNIQUE(`key`)
+);
+--> statement-breakpoint
+CREATE INDEX `assets_kind_created_idx` ON `assets` (`kind`,`createdAt`);
@@ -0,0 +1,24 @@
+-- Full-text indexes for site search. The ngram parser tokenizes Chinese
+-- as well as English text (ngram_token_size, default 2). Each table gets
+-- an index over every searchable column plus one over the title alone,
+-- which search uses to rank title matches higher. Requires MySQL 5.7.6+.
+--
+-- The ngram parser drops every token that contains a stopword, and the
+-- default InnoDB list has "a" and "i" in it, so most English bigrams would
+-- never be indexed. Stopwords are turned off for this session; each index
+-- keeps the setting it was created with.
+SET SESSION innodb_ft_enable_stopword = 0;
+--> statement-breakpoint
+CREATE FULLTEXT INDEX `photos_fulltext` ON `photos` (`title`,`description`,`location`) WITH PARSER ngram;
+--> statement-breakpoint
+CREATE FULLTEXT INDEX `photos_title_fulltext` ON `photos` (`title`) WITH PARSER ngram;
+--> statement-breakpoint
+CREATE FULLTEXT INDEX `essays_fulltext` ON `essays` (`title`,`subtitle`,`excerpt`,`content`) WITH PARSER ngram;
+--> statement-breakpoint
+CREATE FULLTEXT INDEX `essays_title_fulltext` ON `essays` (`title`) WITH PARSER ngram;
+--> statement-breakpoint
+CREATE FULLTEXT INDEX `papers_fulltext` ON `papers` (`title`,`abstract`,`authors`,`journal`) WITH PARSER ngram;
+--> statement-breakpoint
+CREATE FULLTEXT INDEX `papers_title_fulltext` ON `papers` (`title`) WITH PARSER ngram;
+--> statement-breakpoint
+CREATE FULLTEXT INDEX `tags_name_fulltext` ON `tags` (`name`) WITH PARSER ngram;
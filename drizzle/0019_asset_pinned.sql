@@ -0,0 +1,4 @@
+-- Library files kept on purpose. Uploads made from a content form are
+-- recorded too, but their files are deleted once no content uses them;
+-- pinned files stay until they are deleted from the library.
+ALTER TABLE `assets` ADD `pinned` boolean DEFAULT false NOT NULL;
@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean } from "drizzle-orm/mysql-core";
+import { int, double, mysqlEnum, mysqlTable, text, mediumtext, timestamp, varchar, boolean, index, uniqueIndex, primaryKey } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -27,59 +27,89 @@ export type InsertUser = typeof users.$inferInsert;
 
 /**
  * Photography - 摄影作品表
+ * FULLTEXT (ngram) indexes for search live in 0018_fulltext_search.sql.
  */
 export const photos = mysqlTable("photos", {
   id: int("id").autoincrement().primaryKey(),
   title: varchar("title", { length: 255 }).notNull(),
+  slug: varchar("slug", { length: 255 }).notNull().unique(),
   description: text("description"),
   location: varchar("location", { length: 255 }),
   camera: varchar("camera", { length: 100 }),
   lens: varchar("lens", { length: 100 }),
   settings: varchar("settings", { length: 100 }),
+  // Parsed from `settings` on save so photos can be filtered and sorted
+  aperture: double("aperture"),
+  exposureTime: double("exposureTime"), // seconds
+  iso: int("iso"),
+  focalLength: double("focalLength"), // millimetres
+  // Pre-filled from EXIF/XMP on upload; capture time is the camera's local time
+  takenAt: timestamp("takenAt"),
+  latitude: double("latitude"),
+  longitude: double("longitude"),
   imageUrl: text("imageUrl").notNull(),
   imageKey: varchar("imageKey", { length: 500 }),
-  category: varchar("category", { length: 100 }),
-  tags: text("tags"), // JSON array stored as text
+  // Intrinsic size and a tiny blurred preview (data URI), computed on upload
+  imageWidth: int("imageWidth"),
+  imageHeight: int("imageHeight"),
+  imagePlaceholder: text("imagePlaceholder"),
+  categoryId: int("categoryId"), // categories.id, scoped to this section
   featured: boolean("featured").default(false),
   sortOrder: int("sortOrder").default(0),
+  // draft: admin only; unlisted: reachable by permalink but left out of lists and search
+  visibility: mysqlEnum("visibility", ["draft", "published", "unlisted"]).default("draft").notNull(),
   publishedAt: timestamp("publishedAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
-});
+}, (table) => [
+  index("photos_camera_idx").on(table.camera),
+  index("photos_lens_idx").on(table.lens),
+  index("photos_focal_length_idx").on(table.focalLength),
+]);
 
 export type Photo = typeof photos.$inferSelect;
 export type InsertPhoto = typeof photos.$inferInsert;
 
 /**
  * Magazine Essays - 杂志随笔表
+ * FULLTEXT (ngram) indexes for search live in 0018_fulltext_search.sql.
  */
 export const essays = mysqlTable("essays", {
   id: int("id").autoincrement().primaryKey(),
   title: varchar("title", { length: 255 }).notNull(),
+  slug: varchar("slug", { length: 255 }).notNull().unique(),
   subtitle: varchar("subtitle", { length: 500 }),
   excerpt: text("excerpt"),
   content: text("content").notNull(),
   coverImageUrl: text("coverImageUrl"),
   coverImageKey: varchar("coverImageKey", { length: 500 }),
-  category: varchar("category", { length: 100 }),
-  tags: text("tags"), // JSON array stored as text
+  coverImageWidth: int("coverImageWidth"),
+  coverImageHeight: int("coverImageHeight"),
+  coverImagePlaceholder: text("coverImagePlaceholder"), // blurred preview data URI
+  categoryId: int("categoryId"), // categories.id, scoped to this section
+  seriesId: int("seriesId"), // series.id when this essay is one part of a series
+  seriesPosition: int("seriesPosition"), // 1-based part number within the series
   readTime: int("readTime"), // in minutes
   featured: boolean("featured").default(false),
   published: boolean("published").default(false),
-  publishedAt: timestamp("publishedAt"),
+  publishedAt: timestamp("publishedAt"), // on a draft, schedules automatic publishing
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
-});
+}, (table) => [
+  index("essays_series_idx").on(table.seriesId),
+]);
 
 export type Essay = typeof essays.$inferSelect;
 export type InsertEssay = typeof essays.$inferInsert;
 
 /**
  * Academic Papers - 学术论文表
+ * FULLTEXT (ngram) indexes for search live in 0018_fulltext_search.sql.
  */
 export const papers = mysqlTable("papers", {
   id: int("id").autoincrement().primaryKey(),
   title: varchar("title", { length: 500 }).notNull(),
+  slug: varchar("slug", { length: 255 }).notNull().unique(),
   authors: text("authors").notNull(), // JSON array stored as text
   abstract: text("abstract"),
   journal: varchar("journal", { length: 255 }),
@@ -90,12 +120,11 @@ export const papers = mysqlTable("papers", {
   doi: varchar("doi", { length: 255 }),
   pdfUrl: text("pdfUrl"),
   pdfKey: varchar("pdfKey", { length: 500 }),
-  category: varchar("category", { length: 100 }),
-  tags: text("tags"), // JSON array stored as text
+  categoryId: int("categoryId"), // categories.id, scoped to this section
   citations: int("citations").default(0),
   featured: boolean("featured").default(false),
   published: boolean("published").default(false),
-  publishedAt: timestamp("publishedAt"),
+  publishedAt: timestamp("publishedAt"), // on a draft, schedules automatic publishing
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -124,6 +153,9 @@ export const backgrounds = mysqlTable("backgrounds", {
   title: varchar("title", { length: 255 }),
   imageUrl: text("imageUrl").notNull(),
   imageKey: varchar("imageKey", { length: 500 }),
+  imageWidth: int("imageWidth"),
+  imageHeight: int("imageHeight"),
+  imagePlaceholder: text("imagePlaceholder"), // blurred preview data URI
   active: boolean("active").default(true),
   sortOrder: int("sortOrder").default(0),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -132,3 +164,212 @@ export const backgrounds = mysqlTable("backgrounds", {
 
 export type Background = typeof backgrounds.$inferSelect;
 export type InsertBackground = typeof backgrounds.$inferInsert;
+
+/**
+ * Revisions - 文章与论文修订历史表
+ */
+export const revisions = mysqlTable("revisions", {
+  id: int("id").autoincrement().primaryKey(),
+  contentType: mysqlEnum("contentType", ["essay", "paper"]).notNull(),
+  contentId: int("contentId").notNull(),
+  snapshot: mediumtext("snapshot").notNull(), // JSON object of the revisioned fields
+  authorId: int("authorId"), // users.id of the admin who saved this version
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("revisions_content_idx").on(table.contentType, table.contentId),
+]);
+
+export type Revision = typeof revisions.$inferSelect;
+export type InsertRevision = typeof revisions.$inferInsert;
+
+/**
+ * Preview Links - 草稿预览链接表
+ * Tracks signed preview tokens so they can be listed and revoked.
+ */
+export const previewLinks = mysqlTable("preview_links", {
+  id: int("id").autoincrement().primaryKey(),
+  tokenId: varchar("tokenId", { length: 64 }).notNull().unique(), // jti claim of the signed token
+  contentType: mysqlEnum("contentType", ["essay", "paper"]).notNull(),
+  contentId: int("contentId").notNull(),
+  createdBy: int("createdBy").notNull(), // users.id of the admin who issued the link
+  expiresAt: timestamp("expiresAt").notNull(),
+  revokedAt: timestamp("revokedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("preview_links_content_idx").on(table.contentType, table.contentId),
+]);
+
+export type PreviewLink = typeof previewLinks.$inferSelect;
+export type InsertPreviewLink = typeof previewLinks.$inferInsert;
+
+/**
+ * Tags - 标签表
+ * Shared by photos, essays and papers through one join table per content type.
+ * FULLTEXT (ngram) indexes for search live in 0018_fulltext_search.sql.
+ */
+export const tags = mysqlTable("tags", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  slug: varchar("slug", { length: 120 }).notNull().unique(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type Tag = typeof tags.$inferSelect;
+export type InsertTag = typeof tags.$inferInsert;
+
+export const photoTags = mysqlTable("photo_tags", {
+  photoId: int("photoId").notNull(),
+  tagId: int("tagId").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.photoId, table.tagId] }),
+  index("photo_tags_tag_idx").on(table.tagId),
+]);
+
+export const essayTags = mysqlTable("essay_tags", {
+  essayId: int("essayId").notNull(),
+  tagId: int("tagId").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.essayId, table.tagId] }),
+  index("essay_tags_tag_idx").on(table.tagId),
+]);
+
+export const paperTags = mysqlTable("paper_tags", {
+  paperId: int("paperId").notNull(),
+  tagId: int("tagId").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.paperId, table.tagId] }),
+  index("paper_tags_tag_idx").on(table.tagId),
+]);
+
+/**
+ * Categories - 分类表
+ * Each category belongs to one section (photos, essays or papers).
+ */
+export const categories = mysqlTable("categories", {
+  id: int("id").autoincrement().primaryKey(),
+  section: mysqlEnum("section", ["photo", "essay", "paper"]).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  slug: varchar("slug", { length: 120 }).notNull(),
+  description: text("description"),
+  coverImageUrl: text("coverImageUrl"),
+  coverImageKey: varchar("coverImageKey", { length: 500 }),
+  sortOrder: int("sortOrder").default(0).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("categories_section_slug_unique").on(table.section, table.slug),
+  uniqueIndex("categories_section_name_unique").on(table.section, table.name),
+]);
+
+export type Category = typeof categories.$inferSelect;
+export type InsertCategory = typeof categories.$inferInsert;
+
+/**
+ * Essay Series - 系列文章
+ * Parts are the essays whose seriesId points here, ordered by seriesPosition.
+ */
+export const series = mysqlTable("series", {
+  id: int("id").autoincrement().primaryKey(),
+  title: varchar("title", { length: 255 }).notNull(),
+  slug: varchar("slug", { length: 255 }).notNull().unique(),
+  description: text("description"),
+  coverImageUrl: text("coverImageUrl"),
+  coverImageKey: varchar("coverImageKey", { length: 500 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Series = typeof series.$inferSelect;
+export type InsertSeries = typeof series.$inferInsert;
+
+/**
+ * Photo Albums - 相册
+ * Curated, ordered selections of photos; a photo can appear in several albums.
+ */
+export const albums = mysqlTable("albums", {
+  id: int("id").autoincrement().primaryKey(),
+  title: varchar("title", { length: 255 }).notNull(),
+  slug: varchar("slug", { length: 255 }).notNull().unique(),
+  description: text("description"),
+  coverPhotoId: int("coverPhotoId"), // photos.id; falls back to the first photo
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Album = typeof albums.$inferSelect;
+export type InsertAlbum = typeof albums.$inferInsert;
+
+export const albumPhotos = mysqlTable("album_photos", {
+  albumId: int("albumId").notNull(),
+  photoId: int("photoId").notNull(),
+  position: int("position").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.albumId, table.photoId] }),
+  index("album_photos_photo_idx").on(table.photoId),
+]);
+
+/**
+ * Responsive renditions of an uploaded image, keyed by the original's
+ * storage key so every row that points at that image can use them.
+ */
+export const imageVariants = mysqlTable("image_variants", {
+  id: int("id").autoincrement().primaryKey(),
+  sourceKey: varchar("sourceKey", { length: 500 }).notNull(),
+  key: varchar("key", { length: 500 }).notNull(),
+  url: text("url").notNull(),
+  format: mysqlEnum("format", ["avif", "webp"]).notNull(),
+  width: int("width").notNull(),
+  height: int("height").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("image_variants_source_idx").on(table.sourceKey),
+]);
+
+export type ImageVariantRow = typeof imageVariants.$inferSelect;
+export type InsertImageVariant = typeof imageVariants.$inferInsert;
+
+/**
+ * Storage objects waiting to be deleted because the row pointing at them
+ * was deleted or now points elsewhere. Queued in the same transaction as
+ * that change and removed once the object (and its variants) are gone.
+ */
+export const storageDeletions = mysqlTable("storage_deletions", {
+  id: int("id").autoincrement().primaryKey(),
+  key: varchar("key", { length: 500 }).notNull().unique(),
+  attempts: int("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("nextAttemptAt").defaultNow().notNull(),
+  lastError: text("lastError"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("storage_deletions_next_attempt_idx").on(table.nextAttemptAt),
+]);
+
+export type StorageDeletion = typeof storageDeletions.$inferSelect;
+
+/**
+ * Media library: one row per confirmed upload, so a file can be found and
+ * reused instead of uploaded again. Where an asset is used is derived from
+ * the content tables rather than stored here.
+ */
+export const assets = mysqlTable("assets", {
+  id: int("id").autoincrement().primaryKey(),
+  key: varchar("key", { length: 500 }).notNull().unique(),
+  url: text("url").notNull(),
+  kind: mysqlEnum("kind", ["image", "pdf"]).notNull(),
+  filename: varchar("filename", { length: 255 }).notNull(),
+  contentType: varchar("contentType", { length: 100 }).notNull(),
+  size: int("size").notNull(), // bytes
+  // Images only, as for the content image columns
+  width: int("width"),
+  height: int("height"),
+  placeholder: text("placeholder"),
+  uploadedBy: int("uploadedBy"), // users.id
+  // Uploaded to or kept in the library on purpose; other files are deleted once no content uses them
+  pinned: boolean("pinned").default(false).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("assets_kind_created_idx").on(table.kind, table.createdAt),
+]);
+
+export type Asset = typeof assets.$inferSelect;
+export type InsertAsset = typeof assets.$inferInsert;
@@ -24,6 +24,13 @@ export type SessionPayload = {
   role: string;
 };
 
+export type PreviewPayload = {
+  /** Matches preview_links.tokenId, so the link can be revoked */
+  tokenId: string;
+  contentType: "essay" | "paper";
+  contentId: number;
+};
+
 export type AuthResult = {
   user: User;
   sessionToken: string;
@@ -91,6 +98,64 @@ export async function verifySessionToken(
   }
 }
 
+/** Audience claim that keeps preview tokens and session tokens apart */
+const PREVIEW_AUDIENCE = "preview";
+
+/**
+ * Create a signed JWT granting read access to a single draft.
+ * No iat claim is set, so the same link record always signs to the same
+ * token and issued links can be listed again without storing the token.
+ */
+export async function createPreviewToken(
+  payload: PreviewPayload,
+  expiresAt: Date
+): Promise<string> {
+  return new SignJWT({
+    contentType: payload.contentType,
+    contentId: payload.contentId,
+  })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setJti(payload.tokenId)
+    .setAudience(PREVIEW_AUDIENCE)
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(getJwtSecret());
+}
+
+/**
+ * Verify and decode a draft preview token.
+ * Revocation is checked separately against preview_links.
+ */
+export async function verifyPreviewToken(
+  token: string | undefined | null
+): Promise<PreviewPayload | null> {
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const { payload } = await jwtVerify(token, getJwtSecret(), {
+      algorithms: ["HS256"],
+      audience: PREVIEW_AUDIENCE,
+    });
+
+    const { jti, contentType, contentId } = payload as Record<string, unknown>;
+
+    if (
+      typeof jti !== "string" ||
+      (contentType !== "essay" && contentType !== "paper") ||
+      typeof contentId !== "number"
+    ) {
+      console.warn("[Auth] Invalid preview payload structure");
+      return null;
+    }
+
+    return { tokenId: jti, contentType, contentId };
+  } catch (error) {
+    console.warn("[Auth] Preview verification failed:", String(error));
+    return null;
+  }
+}
+
 // ============================================================================
 // Cookie Utilities
 // ============================================================================
@@ -35,6 +35,11 @@ interface StorageConfig {
     endpoint?: string; // For S3-compatible services like R2
     publicUrl?: string; // Public URL for accessing files (e.g., R2 public dev URL)
   };
+  local: {
+    directory: string; // Where files are written, relative to the working directory
+    publicPath: string; // URL path the server serves them under
+    baseUrl?: string; // Origin to prefix file URLs with when the frontend is hosted elsewhere
+  };
 }
 
 interface OpenAIConfig {
@@ -47,6 +52,7 @@ interface ServerConfig {
   port: number;
   nodeEnv: "development" | "production" | "test";
   corsOrigins: string[];
+  siteUrl: string; // Public origin for absolute links in feeds, the sitemap and page meta tags; required in production, else the request's host
 }
 
 interface AppConfig {
@@ -134,6 +140,11 @@ function buildConfig(): AppConfig {
         endpoint: getEnvOptional("S3_ENDPOINT", ""), // For Cloudflare R2 or MinIO
         publicUrl: getEnvOptional("S3_PUBLIC_URL", ""), // Public URL for R2 (e.g., https://pub-xxx.r2.dev)
       },
+      local: {
+        directory: getEnvOptional("LOCAL_STORAGE_DIR", "uploads"),
+        publicPath: getEnvOptional("LOCAL_STORAGE_PUBLIC_PATH", "/uploads"),
+        baseUrl: getEnvOptional("LOCAL_STORAGE_BASE_URL", ""),
+      },
     },
 
     openai: {
@@ -146,6 +157,7 @@ function buildConfig(): AppConfig {
       port: getEnvNumber("PORT", 3000),
       nodeEnv,
       corsOrigins: getEnvArray("CORS_ORIGINS", isProduction ? [] : ["http://localhost:5173", "http://localhost:3000"]),
+      siteUrl: getEnvOptional("SITE_URL", "").replace(/\/+$/, ""),
     },
   };
 }
@@ -203,17 +215,30 @@ export function validateConfig(): { valid: boolean; errors: string[] } {
   if (!cfg.auth.jwtSecret) {
     errors.push("JWT_SECRET is required");
   }
+  if (cfg.storage.provider !== "s3" && cfg.storage.provider !== "local") {
+    errors.push(`STORAGE_PROVIDER must be "s3" or "local", got: ${cfg.storage.provider}`);
+  }
 
   // Required for production
   if (cfg.server.nodeEnv === "production") {
     if (cfg.server.corsOrigins.length === 0) {
       errors.push("CORS_ORIGINS must be set in production");
     }
-    if (!cfg.storage.s3.accessKeyId || !cfg.storage.s3.secretAccessKey) {
-      console.warn("[Config] S3 credentials not set - file upload will be disabled");
+    // Without it, absolute links in publicly cached responses would follow the request's Host header
+    if (!cfg.server.siteUrl) {
+      errors.push("SITE_URL must be set in production");
+    } else if (!/^https?:\/\/[^/]+$/.test(cfg.server.siteUrl)) {
+      errors.push(`SITE_URL must be an origin such as https://example.com, got: ${cfg.server.siteUrl}`);
     }
-    if (cfg.storage.s3.endpoint && !cfg.storage.s3.publicUrl) {
-      console.warn("[Config] S3_PUBLIC_URL not set - uploaded files may not be publicly accessible");
+    if (cfg.storage.provider === "local") {
+      console.warn(`[Config] Using local storage in ${cfg.storage.local.directory} - make sure it is on a persistent volume`);
+    } else {
+      if (!cfg.storage.s3.accessKeyId || !cfg.storage.s3.secretAccessKey) {
+        console.warn("[Config] S3 credentials not set - file upload will be disabled");
+      }
+      if (cfg.storage.s3.endpoint && !cfg.storage.s3.publicUrl) {
+        console.warn("[Config] S3_PUBLIC_URL not set - uploaded files may not be publicly accessible");
+      }
     }
   }
 
@@ -16,6 +16,12 @@ import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { config, validateConfig } from "./config";
+import { startPublisher } from "../publisher";
+import { startStorageCleanup } from "../storageCleanup";
+import { registerDiskStorageRoutes } from "../diskStorage";
+import { registerFeedRoutes } from "../feeds";
+import { registerSitemapRoutes } from "../sitemap";
+import { renderShell } from "../meta";
 
 /**
  * Serve static files in production mode.
@@ -32,11 +38,21 @@ function serveStatic(app: express.Express) {
     console.log(`[Static] Serving static files from: ${distPath}`);
   }
 
-  app.use(express.static(distPath));
+  // index.html is left to the fallback below, which adds the page's meta tags
+  app.use(express.static(distPath, { index: false }));
 
   // fall through to index.html if the file doesn't exist (SPA routing)
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  let template: Promise<string> | undefined;
+  app.use("*", async (req, res, next) => {
+    try {
+      template ??= fs.promises.readFile(path.resolve(distPath, "index.html"), "utf-8");
+      const page = await renderShell(req, await template);
+      res.status(200).set({ "Content-Type": "text/html" }).end(page);
+    } catch (e) {
+      // Let a failed read be retried on the next request
+      template = undefined;
+      next(e);
+    }
   });
 }
 
@@ -59,9 +75,10 @@ async function startServer() {
   // Trust proxy for Render deployment (needed for secure cookies)
   app.set("trust proxy", 1);
 
-  // Configure body parser with larger size limit for file uploads
-  app.use(express.json({ limit: "50mb" }));
-  app.use(express.urlencoded({ limit: "50mb", extended: true }));
+  // Files go straight to the bucket via presigned URLs; the limit only
+  // needs to fit long essay bodies
+  app.use(express.json({ limit: "5mb" }));
+  app.use(express.urlencoded({ limit: "5mb", extended: true }));
 
   // CORS configuration for cross-origin requests
   const corsOptions: cors.CorsOptions = {
@@ -105,9 +122,18 @@ async function startServer() {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
   });
 
+  // RSS, Atom and JSON feeds of published content
+  registerFeedRoutes(app);
+
+  // Sitemap and robots.txt for crawlers, ahead of the SPA fallback
+  registerSitemapRoutes(app);
+
   // Auth routes (login/logout)
   registerOAuthRoutes(app);
 
+  // Uploaded files, when stored on local disk instead of a bucket
+  registerDiskStorageRoutes(app);
+
   // tRPC API
   app.use(
     "/api/trpc",
@@ -142,6 +168,14 @@ async function startServer() {
       console.log(`[Server] CORS origins: ${config.server.corsOrigins.join(", ")}`);
     }
   });
+
+  // Publish scheduled essays and papers; pending items are read from the DB,
+  // so schedules survive restarts
+  startPublisher();
+
+  // Delete files that deleted or replaced content left behind; the queue
+  // is in the DB, so deletions survive restarts and are retried
+  startStorageCleanup();
 }
 
 startServer().catch(error => {
@@ -1,4 +1,4 @@
-import { eq, desc, like, or, and, sql } from "drizzle-orm";
+import { eq, desc, asc, like, or, and, sql, lte, gte, lt, isNotNull, min, max, inArray, count, type SQL } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import { 
   InsertUser, users, 
@@ -6,9 +6,44 @@ import {
   essays, InsertEssay, Essay,
   papers, InsertPaper, Paper,
   siteSettings, InsertSiteSetting,
-  backgrounds, InsertBackground, Background
+  backgrounds, InsertBackground, Background,
+  revisions,
+  previewLinks, InsertPreviewLink,
+  tags, photoTags, essayTags, paperTags,
+  categories, InsertCategory,
+  series, InsertSeries,
+  albums, albumPhotos, InsertAlbum,
+  imageVariants, InsertImageVariant,
+  storageDeletions,
+  assets, InsertAsset, Asset
 } from "../drizzle/schema";
 import { config } from './_core/config';
+import { MAX_SLUG_LENGTH, slugify } from "@shared/slug";
+import { normalizeTagNames, type TagRef } from "@shared/tags";
+import type { CategoryRef, CategorySection } from "@shared/categories";
+import type { ImageVariant } from "@shared/imageVariants";
+import { FOCAL_RANGES, getFocalRange, isInFocalRange, parseExposureSettings, type FocalRangeId } from "@shared/photoMetadata";
+import { buildSeriesNavigation, sortSeriesParts } from "./series";
+import { DEFAULT_PAGE_SIZE, cursorCondition, toPage, type PageOptions } from "./pagination";
+import { REVISIONED_FIELDS, buildSnapshot, parseSnapshot, snapshotTagNames, snapshotsEqual, type RevisionContentType } from "./revisions";
+import {
+  applySearchFilters,
+  computeFacets,
+  escapeLikePattern,
+  hasSearchTerms,
+  highlight,
+  markdownToPlainText,
+  parseSearchQuery,
+  rankSuggestions,
+  snippetFrom,
+  toBooleanQuery,
+  type HighlightSegment,
+  type ParsedSearchQuery,
+  type SearchCandidate,
+  type SearchContentType,
+  type SearchFilters,
+  type SearchSuggestion,
+} from "./search";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -25,6 +60,42 @@ export async function getDb() {
   return _db;
 }
 
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+type Tx = Parameters<Parameters<Db["transaction"]>[0]>[0];
+
+// ==================== Slugs ====================
+
+/** Insert payload where the slug may be omitted and derived from the title. */
+type WithOptionalSlug<T extends { slug: string }> = Omit<T, "slug"> & { slug?: string };
+
+/**
+ * Normalize a slug (or the title it falls back to) and append a numeric
+ * suffix until it no longer collides with another row of the same table.
+ */
+async function resolveUniqueSlug(
+  source: string,
+  findBySlug: (slug: string) => Promise<{ id: number } | undefined>,
+  excludeId?: number,
+  maxLength = MAX_SLUG_LENGTH
+) {
+  const base = slugify(source, maxLength);
+  let candidate = base;
+  let suffix = 2;
+
+  while (true) {
+    const existing = await findBySlug(candidate);
+    if (!existing || existing.id === excludeId) {
+      return candidate;
+    }
+    // Shorten the base so the suffix still fits the column
+    const ending = `-${suffix++}`;
+    candidate = `${base.slice(0, maxLength - ending.length).replace(/-+$/, "")}${ending}`;
+  }
+}
+
+// Width of the slug column of tags and categories, narrower than content slugs
+const SHORT_SLUG_LENGTH = 120;
+
 // ==================== User Operations ====================
 
 export async function getUserById(id: number) {
@@ -163,20 +234,50 @@ export async function upsertUser(user: InsertUser): Promise<void> {
 
 // ==================== Photos ====================
 
-export async function getAllPhotos(options?: { featured?: boolean; category?: string; limit?: number }) {
-  const db = await getDb();
-  if (!db) return [];
+export type PhotoListOptions = {
+  visibility?: Photo["visibility"];
+  featured?: boolean;
+  categoryId?: number;
+  camera?: string;
+  lens?: string;
+  focalRange?: FocalRangeId;
+  limit?: number;
+};
 
-  let query = db.select().from(photos);
-  
-  const conditions = [];
+function photoListConditions(options?: PhotoListOptions) {
+  const conditions: SQL[] = [];
+  if (options?.visibility !== undefined) {
+    conditions.push(eq(photos.visibility, options.visibility));
+  }
   if (options?.featured !== undefined) {
     conditions.push(eq(photos.featured, options.featured));
   }
-  if (options?.category) {
-    conditions.push(eq(photos.category, options.category));
+  if (options?.categoryId !== undefined) {
+    conditions.push(eq(photos.categoryId, options.categoryId));
+  }
+  if (options?.camera !== undefined) {
+    conditions.push(eq(photos.camera, options.camera));
   }
+  if (options?.lens !== undefined) {
+    conditions.push(eq(photos.lens, options.lens));
+  }
+  if (options?.focalRange !== undefined) {
+    const range = getFocalRange(options.focalRange);
+    conditions.push(gte(photos.focalLength, range.min));
+    if (range.max !== undefined) {
+      conditions.push(lt(photos.focalLength, range.max));
+    }
+  }
+  return conditions;
+}
+
+export async function getAllPhotos(options?: PhotoListOptions) {
+  const db = await getDb();
+  if (!db) return [];
+
+  let query = db.select().from(photos);
   
+  const conditions = photoListConditions(options);
   if (conditions.length > 0) {
     query = query.where(and(...conditions)) as typeof query;
   }
@@ -187,7 +288,57 @@ export async function getAllPhotos(options?: { featured?: boolean; category?: st
     query = query.limit(options.limit) as typeof query;
   }
   
-  return await query;
+  return await withRelations(db, "photo", await query);
+}
+
+// getAllPhotos' order, with the id to break ties
+const PHOTOS_ORDER = [photos.sortOrder, photos.createdAt, photos.id];
+
+/** One page of photos in getAllPhotos order, starting after `cursor`. */
+export async function getPhotoPage(options: PhotoListOptions & PageOptions = {}) {
+  const db = await getDb();
+  if (!db) return { items: [], nextCursor: null, total: 0 };
+
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const conditions = photoListConditions(options);
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db.select().from(photos)
+      .where(and(where, cursorCondition(PHOTOS_ORDER, options.cursor)))
+      .orderBy(...PHOTOS_ORDER.map(column => desc(column)))
+      .limit(limit + 1),
+    db.select({ total: count() }).from(photos).where(where),
+  ]);
+
+  const page = toPage(rows, limit, total, row => [row.sortOrder, row.createdAt, row.id]);
+  return { ...page, items: await withRelations(db, "photo", page.items) };
+}
+
+/**
+ * Cameras, lenses and focal ranges that published photos actually use, for
+ * the public filter bar. Values are exact column values so they can be fed
+ * straight back into getAllPhotos.
+ */
+export async function getPhotoFilterOptions() {
+  const db = await getDb();
+  if (!db) return { cameras: [], lenses: [], focalRanges: [] };
+
+  const rows = await db
+    .select({ camera: photos.camera, lens: photos.lens, focalLength: photos.focalLength })
+    .from(photos)
+    .where(eq(photos.visibility, "published"));
+
+  const distinct = (values: (string | null)[]) =>
+    Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b));
+
+  return {
+    cameras: distinct(rows.map(row => row.camera)),
+    lenses: distinct(rows.map(row => row.lens)),
+    focalRanges: FOCAL_RANGES.filter(range =>
+      rows.some(row => row.focalLength !== null && isInFocalRange(row.focalLength, range))
+    ),
+  };
 }
 
 export async function getPhotoById(id: number) {
@@ -195,22 +346,55 @@ export async function getPhotoById(id: number) {
   if (!db) return undefined;
   
   const result = await db.select().from(photos).where(eq(photos.id, id)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
+  return result.length > 0 ? (await withRelations(db, "photo", result))[0] : undefined;
 }
 
-export async function createPhoto(photo: InsertPhoto) {
+export async function getPhotoBySlug(slug: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(photos).where(eq(photos.slug, slug)).limit(1);
+  return result.length > 0 ? (await withRelations(db, "photo", result))[0] : undefined;
+}
+
+export async function createPhoto({ tags: tagNames, ...photo }: WithTagNames<WithOptionalSlug<InsertPhoto>>) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  const result = await db.insert(photos).values(photo);
-  return { id: result[0].insertId };
+  const slug = await resolveUniqueSlug(photo.slug || photo.title, getPhotoBySlug);
+  const id = await db.transaction(async tx => {
+    const result = await tx.insert(photos).values({ ...photo, ...parseExposureSettings(photo.settings), slug });
+    await setContentTags(tx, "photo", result[0].insertId, tagNames ?? []);
+    return result[0].insertId;
+  });
+  return { id, slug };
 }
 
-export async function updatePhoto(id: number, photo: Partial<InsertPhoto>) {
+export async function updatePhoto(id: number, { tags: tagNames, ...photo }: WithTagNames<Partial<InsertPhoto>>) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.update(photos).set(photo).where(eq(photos.id, id));
+  // Titles can change freely; the permalink only moves when the slug itself is edited
+  if (photo.slug !== undefined) {
+    photo = { ...photo, slug: await resolveUniqueSlug(photo.slug || photo.title || "", getPhotoBySlug, id) };
+  }
+  // The structured exposure columns always follow the settings line
+  if (photo.settings !== undefined) {
+    photo = { ...photo, ...parseExposureSettings(photo.settings) };
+  }
+  
+  await db.transaction(async tx => {
+    if (photo.imageKey !== undefined) {
+      const [previous] = await tx.select({ key: photos.imageKey }).from(photos).where(eq(photos.id, id));
+      await queueStorageDeletions(tx, [replacedKey(previous?.key, photo.imageKey)]);
+    }
+    if (Object.keys(photo).length > 0) {
+      await tx.update(photos).set(photo).where(eq(photos.id, id));
+    }
+    if (tagNames !== undefined) {
+      await setContentTags(tx, "photo", id, tagNames);
+    }
+  });
   return { success: true };
 }
 
@@ -218,29 +402,47 @@ export async function deletePhoto(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.delete(photos).where(eq(photos.id, id));
+  await db.transaction(async tx => {
+    const [previous] = await tx.select({ key: photos.imageKey }).from(photos).where(eq(photos.id, id));
+    await queueStorageDeletions(tx, [previous?.key]);
+    await tx.delete(photos).where(eq(photos.id, id));
+    await tx.delete(photoTags).where(eq(photoTags.photoId, id));
+    await tx.delete(albumPhotos).where(eq(albumPhotos.photoId, id));
+    await tx.update(albums).set({ coverPhotoId: null }).where(eq(albums.coverPhotoId, id));
+  });
   return { success: true };
 }
 
 // ==================== Essays ====================
 
-export async function getAllEssays(options?: { published?: boolean; featured?: boolean; category?: string; limit?: number }) {
-  const db = await getDb();
-  if (!db) return [];
+export type EssayListOptions = {
+  published?: boolean;
+  featured?: boolean;
+  categoryId?: number;
+  limit?: number;
+};
 
-  let query = db.select().from(essays);
-  
-  const conditions = [];
+function essayListConditions(options?: EssayListOptions) {
+  const conditions: SQL[] = [];
   if (options?.published !== undefined) {
     conditions.push(eq(essays.published, options.published));
   }
   if (options?.featured !== undefined) {
     conditions.push(eq(essays.featured, options.featured));
   }
-  if (options?.category) {
-    conditions.push(eq(essays.category, options.category));
+  if (options?.categoryId !== undefined) {
+    conditions.push(eq(essays.categoryId, options.categoryId));
   }
+  return conditions;
+}
+
+export async function getAllEssays(options?: EssayListOptions) {
+  const db = await getDb();
+  if (!db) return [];
+
+  let query = db.select().from(essays);
   
+  const conditions = essayListConditions(options);
   if (conditions.length > 0) {
     query = query.where(and(...conditions)) as typeof query;
   }
@@ -251,7 +453,31 @@ export async function getAllEssays(options?: { published?: boolean; featured?: b
     query = query.limit(options.limit) as typeof query;
   }
   
-  return await query;
+  return await withRelations(db, "essay", await query);
+}
+
+// getAllEssays' order, with the id to break ties
+const ESSAYS_ORDER = [essays.publishedAt, essays.createdAt, essays.id];
+
+/** One page of essays in getAllEssays order, starting after `cursor`. */
+export async function getEssayPage(options: EssayListOptions & PageOptions = {}) {
+  const db = await getDb();
+  if (!db) return { items: [], nextCursor: null, total: 0 };
+
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const conditions = essayListConditions(options);
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db.select().from(essays)
+      .where(and(where, cursorCondition(ESSAYS_ORDER, options.cursor)))
+      .orderBy(...ESSAYS_ORDER.map(column => desc(column)))
+      .limit(limit + 1),
+    db.select({ total: count() }).from(essays).where(where),
+  ]);
+
+  const page = toPage(rows, limit, total, row => [row.publishedAt, row.createdAt, row.id]);
+  return { ...page, items: await withRelations(db, "essay", page.items) };
 }
 
 export async function getEssayById(id: number) {
@@ -259,22 +485,58 @@ export async function getEssayById(id: number) {
   if (!db) return undefined;
   
   const result = await db.select().from(essays).where(eq(essays.id, id)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
+  return result.length > 0 ? (await withRelations(db, "essay", result))[0] : undefined;
+}
+
+export async function getEssayBySlug(slug: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(essays).where(eq(essays.slug, slug)).limit(1);
+  return result.length > 0 ? (await withRelations(db, "essay", result))[0] : undefined;
 }
 
-export async function createEssay(essay: InsertEssay) {
+export async function createEssay({ tags: tagNames, ...essay }: WithTagNames<WithOptionalSlug<InsertEssay>>, authorId: number | null = null) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  const result = await db.insert(essays).values(essay);
-  return { id: result[0].insertId };
+  const slug = await resolveUniqueSlug(essay.slug || essay.title, getEssayBySlug);
+  const id = await db.transaction(async tx => {
+    const result = await tx.insert(essays).values({ ...essay, ...await resolveSeriesPosition(tx, essay), slug });
+    await setContentTags(tx, "essay", result[0].insertId, tagNames ?? []);
+    await recordRevision(tx, "essay", result[0].insertId, authorId);
+    return result[0].insertId;
+  });
+  return { id, slug };
 }
 
-export async function updateEssay(id: number, essay: Partial<InsertEssay>) {
+export async function updateEssay(id: number, { tags: tagNames, ...essay }: WithTagNames<Partial<InsertEssay>>, authorId: number | null = null) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.update(essays).set(essay).where(eq(essays.id, id));
+  // Titles can change freely; the permalink only moves when the slug itself is edited
+  if (essay.slug !== undefined) {
+    essay = { ...essay, slug: await resolveUniqueSlug(essay.slug || essay.title || "", getEssayBySlug, id) };
+  }
+  
+  await db.transaction(async tx => {
+    // Capture content that predates revision tracking before it is overwritten
+    await recordRevision(tx, "essay", id, null);
+    if (essay.seriesId !== undefined) {
+      essay = { ...essay, ...await resolveSeriesPosition(tx, essay, id) };
+    }
+    if (essay.coverImageKey !== undefined) {
+      const [previous] = await tx.select({ key: essays.coverImageKey }).from(essays).where(eq(essays.id, id));
+      await queueStorageDeletions(tx, [replacedKey(previous?.key, essay.coverImageKey)]);
+    }
+    if (Object.keys(essay).length > 0) {
+      await tx.update(essays).set(essay).where(eq(essays.id, id));
+    }
+    if (tagNames !== undefined) {
+      await setContentTags(tx, "essay", id, tagNames);
+    }
+    await recordRevision(tx, "essay", id, authorId);
+  });
   return { success: true };
 }
 
@@ -282,29 +544,47 @@ export async function deleteEssay(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.delete(essays).where(eq(essays.id, id));
+  await db.transaction(async tx => {
+    const [previous] = await tx.select({ key: essays.coverImageKey }).from(essays).where(eq(essays.id, id));
+    await queueStorageDeletions(tx, [previous?.key]);
+    await tx.delete(essays).where(eq(essays.id, id));
+    await tx.delete(revisions).where(and(eq(revisions.contentType, "essay"), eq(revisions.contentId, id)));
+    await tx.delete(previewLinks).where(and(eq(previewLinks.contentType, "essay"), eq(previewLinks.contentId, id)));
+    await tx.delete(essayTags).where(eq(essayTags.essayId, id));
+  });
   return { success: true };
 }
 
 // ==================== Papers ====================
 
-export async function getAllPapers(options?: { published?: boolean; featured?: boolean; category?: string; limit?: number }) {
-  const db = await getDb();
-  if (!db) return [];
+export type PaperListOptions = {
+  published?: boolean;
+  featured?: boolean;
+  categoryId?: number;
+  limit?: number;
+};
 
-  let query = db.select().from(papers);
-  
-  const conditions = [];
+function paperListConditions(options?: PaperListOptions) {
+  const conditions: SQL[] = [];
   if (options?.published !== undefined) {
     conditions.push(eq(papers.published, options.published));
   }
   if (options?.featured !== undefined) {
     conditions.push(eq(papers.featured, options.featured));
   }
-  if (options?.category) {
-    conditions.push(eq(papers.category, options.category));
+  if (options?.categoryId !== undefined) {
+    conditions.push(eq(papers.categoryId, options.categoryId));
   }
+  return conditions;
+}
+
+export async function getAllPapers(options?: PaperListOptions) {
+  const db = await getDb();
+  if (!db) return [];
+
+  let query = db.select().from(papers);
   
+  const conditions = paperListConditions(options);
   if (conditions.length > 0) {
     query = query.where(and(...conditions)) as typeof query;
   }
@@ -315,7 +595,31 @@ export async function getAllPapers(options?: { published?: boolean; featured?: b
     query = query.limit(options.limit) as typeof query;
   }
   
-  return await query;
+  return await withRelations(db, "paper", await query);
+}
+
+// getAllPapers' order, with the id to break ties
+const PAPERS_ORDER = [papers.year, papers.createdAt, papers.id];
+
+/** One page of papers in getAllPapers order, starting after `cursor`. */
+export async function getPaperPage(options: PaperListOptions & PageOptions = {}) {
+  const db = await getDb();
+  if (!db) return { items: [], nextCursor: null, total: 0 };
+
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const conditions = paperListConditions(options);
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db.select().from(papers)
+      .where(and(where, cursorCondition(PAPERS_ORDER, options.cursor)))
+      .orderBy(...PAPERS_ORDER.map(column => desc(column)))
+      .limit(limit + 1),
+    db.select({ total: count() }).from(papers).where(where),
+  ]);
+
+  const page = toPage(rows, limit, total, row => [row.year, row.createdAt, row.id]);
+  return { ...page, items: await withRelations(db, "paper", page.items) };
 }
 
 export async function getPaperById(id: number) {
@@ -323,22 +627,55 @@ export async function getPaperById(id: number) {
   if (!db) return undefined;
   
   const result = await db.select().from(papers).where(eq(papers.id, id)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
+  return result.length > 0 ? (await withRelations(db, "paper", result))[0] : undefined;
+}
+
+export async function getPaperBySlug(slug: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(papers).where(eq(papers.slug, slug)).limit(1);
+  return result.length > 0 ? (await withRelations(db, "paper", result))[0] : undefined;
 }
 
-export async function createPaper(paper: InsertPaper) {
+export async function createPaper({ tags: tagNames, ...paper }: WithTagNames<WithOptionalSlug<InsertPaper>>, authorId: number | null = null) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  const result = await db.insert(papers).values(paper);
-  return { id: result[0].insertId };
+  const slug = await resolveUniqueSlug(paper.slug || paper.title, getPaperBySlug);
+  const id = await db.transaction(async tx => {
+    const result = await tx.insert(papers).values({ ...paper, slug });
+    await setContentTags(tx, "paper", result[0].insertId, tagNames ?? []);
+    await recordRevision(tx, "paper", result[0].insertId, authorId);
+    return result[0].insertId;
+  });
+  return { id, slug };
 }
 
-export async function updatePaper(id: number, paper: Partial<InsertPaper>) {
+export async function updatePaper(id: number, { tags: tagNames, ...paper }: WithTagNames<Partial<InsertPaper>>, authorId: number | null = null) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.update(papers).set(paper).where(eq(papers.id, id));
+  // Titles can change freely; the permalink only moves when the slug itself is edited
+  if (paper.slug !== undefined) {
+    paper = { ...paper, slug: await resolveUniqueSlug(paper.slug || paper.title || "", getPaperBySlug, id) };
+  }
+  
+  await db.transaction(async tx => {
+    // Capture content that predates revision tracking before it is overwritten
+    await recordRevision(tx, "paper", id, null);
+    if (paper.pdfKey !== undefined) {
+      const [previous] = await tx.select({ key: papers.pdfKey }).from(papers).where(eq(papers.id, id));
+      await queueStorageDeletions(tx, [replacedKey(previous?.key, paper.pdfKey)]);
+    }
+    if (Object.keys(paper).length > 0) {
+      await tx.update(papers).set(paper).where(eq(papers.id, id));
+    }
+    if (tagNames !== undefined) {
+      await setContentTags(tx, "paper", id, tagNames);
+    }
+    await recordRevision(tx, "paper", id, authorId);
+  });
   return { success: true };
 }
 
@@ -346,140 +683,1554 @@ export async function deletePaper(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.delete(papers).where(eq(papers.id, id));
+  await db.transaction(async tx => {
+    const [previous] = await tx.select({ key: papers.pdfKey }).from(papers).where(eq(papers.id, id));
+    await queueStorageDeletions(tx, [previous?.key]);
+    await tx.delete(papers).where(eq(papers.id, id));
+    await tx.delete(revisions).where(and(eq(revisions.contentType, "paper"), eq(revisions.contentId, id)));
+    await tx.delete(previewLinks).where(and(eq(previewLinks.contentType, "paper"), eq(previewLinks.contentId, id)));
+    await tx.delete(paperTags).where(eq(paperTags.paperId, id));
+  });
   return { success: true };
 }
 
-// ==================== Search ====================
+// ==================== Categories ====================
+
+async function attachCategories<T extends { categoryId: number | null }>(
+  executor: Db | Tx,
+  rows: T[]
+): Promise<(T & { category: CategoryRef | null })[]> {
+  const ids = Array.from(new Set(rows.map(row => row.categoryId).filter((id): id is number => id !== null)));
+  const found = ids.length > 0
+    ? await executor.select({ id: categories.id, name: categories.name, slug: categories.slug })
+        .from(categories).where(inArray(categories.id, ids))
+    : [];
+  const byId = new Map(found.map(category => [category.id, category]));
+  return rows.map(row => ({ ...row, category: row.categoryId !== null ? byId.get(row.categoryId) ?? null : null }));
+}
+
+/** Attach tags, the category ref and main-image variants to content rows before they leave this module. */
+async function withRelations<T extends {
+  id: number;
+  categoryId: number | null;
+  imageKey?: string | null;
+  coverImageKey?: string | null;
+}>(
+  executor: Db | Tx,
+  contentType: TaggedContentType,
+  rows: T[]
+) {
+  const related = await attachCategories(executor, await attachTags(executor, contentType, rows));
+  return await attachImageVariants(executor, related, row => row.imageKey ?? row.coverImageKey);
+}
 
-export async function searchContent(query: string, type?: 'photos' | 'essays' | 'papers') {
+/** Categories ordered for display, with how many items each holds (with `published`, public items only). */
+export async function getCategories(section?: CategorySection, options?: { published?: boolean }) {
   const db = await getDb();
-  if (!db) return { photos: [], essays: [], papers: [] };
-  
-  const searchTerm = `%${query}%`;
+  if (!db) return [];
+
+  let query = db.select().from(categories);
+  if (section) {
+    query = query.where(eq(categories.section, section)) as typeof query;
+  }
+  const rows = await query.orderBy(asc(categories.sortOrder), asc(categories.name));
+
+  const published = options?.published;
+  const [photoCounts, essayCounts, paperCounts] = await Promise.all([
+    db.select({ categoryId: photos.categoryId, total: count() }).from(photos)
+      .where(published ? eq(photos.visibility, "published") : undefined)
+      .groupBy(photos.categoryId),
+    db.select({ categoryId: essays.categoryId, total: count() }).from(essays)
+      .where(published ? eq(essays.published, true) : undefined)
+      .groupBy(essays.categoryId),
+    db.select({ categoryId: papers.categoryId, total: count() }).from(papers)
+      .where(published ? eq(papers.published, true) : undefined)
+      .groupBy(papers.categoryId),
+  ]);
+  const usage = new Map<number, number>();
+  for (const { categoryId, total } of [...photoCounts, ...essayCounts, ...paperCounts]) {
+    if (categoryId !== null) usage.set(categoryId, total);
+  }
+
+  return rows.map(category => ({ ...category, itemCount: usage.get(category.id) ?? 0 }));
+}
+
+export async function getCategoryById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
   
-  const results: { photos: Photo[]; essays: Essay[]; papers: Paper[] } = {
-    photos: [],
-    essays: [],
-    papers: [],
-  };
+  const result = await db.select().from(categories).where(eq(categories.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getCategoryBySlug(section: CategorySection, slug: string) {
+  const db = await getDb();
+  if (!db) return undefined;
   
-  if (!type || type === 'photos') {
-    results.photos = await db.select().from(photos).where(
-      or(
-        like(photos.title, searchTerm),
-        like(photos.description, searchTerm),
-        like(photos.location, searchTerm),
-        like(photos.tags, searchTerm)
-      )
-    ).orderBy(desc(photos.createdAt)).limit(20);
-  }
+  const result = await db.select().from(categories)
+    .where(and(eq(categories.section, section), eq(categories.slug, slug)))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function createCategory(category: WithOptionalSlug<InsertCategory>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
   
-  if (!type || type === 'essays') {
-    results.essays = await db.select().from(essays).where(
-      and(
-        eq(essays.published, true),
-        or(
-          like(essays.title, searchTerm),
-          like(essays.subtitle, searchTerm),
-          like(essays.excerpt, searchTerm),
-          like(essays.tags, searchTerm)
-        )
-      )
-    ).orderBy(desc(essays.publishedAt)).limit(20);
-  }
+  const slug = await resolveUniqueSlug(
+    category.slug || category.name,
+    candidate => getCategoryBySlug(category.section, candidate),
+    undefined,
+    SHORT_SLUG_LENGTH
+  );
+  // New categories go to the end of their section
+  const [last] = await db.select({ sortOrder: sql<number>`max(${categories.sortOrder})` })
+    .from(categories).where(eq(categories.section, category.section));
+  const result = await db.insert(categories).values({
+    ...category,
+    slug,
+    sortOrder: category.sortOrder ?? (last?.sortOrder ?? 0) + 1,
+  });
+  return { id: result[0].insertId, slug };
+}
+
+export async function updateCategory(id: number, category: Partial<Omit<InsertCategory, "section">>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
   
-  if (!type || type === 'papers') {
-    results.papers = await db.select().from(papers).where(
-      and(
-        eq(papers.published, true),
-        or(
-          like(papers.title, searchTerm),
-          like(papers.abstract, searchTerm),
-          like(papers.authors, searchTerm),
-          like(papers.tags, searchTerm)
-        )
-      )
-    ).orderBy(desc(papers.year)).limit(20);
+  if (category.slug !== undefined) {
+    const existing = await getCategoryById(id);
+    if (!existing) throw new Error("Category not found");
+    category = {
+      ...category,
+      slug: await resolveUniqueSlug(
+        category.slug || category.name || existing.name,
+        candidate => getCategoryBySlug(existing.section, candidate),
+        id,
+        SHORT_SLUG_LENGTH
+      ),
+    };
   }
   
-  return results;
+  await db.transaction(async tx => {
+    if (category.coverImageKey !== undefined) {
+      const [previous] = await tx.select({ key: categories.coverImageKey }).from(categories).where(eq(categories.id, id));
+      await queueStorageDeletions(tx, [replacedKey(previous?.key, category.coverImageKey)]);
+    }
+    await tx.update(categories).set(category).where(eq(categories.id, id));
+  });
+  return { success: true };
 }
 
-// ==================== Site Settings ====================
-
-export async function getSetting(key: string) {
+/** Delete a category; its items stay but become uncategorized. */
+export async function deleteCategory(id: number) {
   const db = await getDb();
-  if (!db) return undefined;
+  if (!db) throw new Error("Database not available");
   
-  const result = await db.select().from(siteSettings).where(eq(siteSettings.key, key)).limit(1);
-  return result.length > 0 ? result[0].value : undefined;
+  const category = await getCategoryById(id);
+  if (!category) return { success: true };
+  
+  await db.transaction(async tx => {
+    if (category.section === "photo") {
+      await tx.update(photos).set({ categoryId: null }).where(eq(photos.categoryId, id));
+    } else if (category.section === "essay") {
+      await tx.update(essays).set({ categoryId: null }).where(eq(essays.categoryId, id));
+    } else {
+      await tx.update(papers).set({ categoryId: null }).where(eq(papers.categoryId, id));
+    }
+    await queueStorageDeletions(tx, [category.coverImageKey]);
+    await tx.delete(categories).where(eq(categories.id, id));
+  });
+  return { success: true };
 }
 
-export async function setSetting(key: string, value: string) {
+/** Persist a new display order for one section's categories. */
+export async function reorderCategories(section: CategorySection, orderedIds: number[]) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.insert(siteSettings).values({ key, value }).onDuplicateKeyUpdate({
-    set: { value },
+  await db.transaction(async tx => {
+    for (const [index, id] of orderedIds.entries()) {
+      await tx.update(categories)
+        .set({ sortOrder: index + 1 })
+        .where(and(eq(categories.id, id), eq(categories.section, section)));
+    }
   });
   return { success: true };
 }
 
-// ==================== Backgrounds ====================
+// ==================== Series ====================
+
+/**
+ * Series membership for an essay write: leaving a series clears the
+ * position, and joining one without a position appends the essay as the
+ * last part.
+ */
+async function resolveSeriesPosition(
+  executor: Db | Tx,
+  essay: { seriesId?: number | null; seriesPosition?: number | null },
+  essayId?: number
+) {
+  if (!essay.seriesId) {
+    return { seriesId: null, seriesPosition: null };
+  }
+  if (essay.seriesPosition) {
+    return { seriesId: essay.seriesId, seriesPosition: essay.seriesPosition };
+  }
+
+  const conditions = [eq(essays.seriesId, essay.seriesId)];
+  if (essayId !== undefined) {
+    conditions.push(sql`${essays.id} <> ${essayId}`);
+  }
+  const [last] = await executor.select({ position: sql<number | null>`max(${essays.seriesPosition})` })
+    .from(essays).where(and(...conditions));
+  return { seriesId: essay.seriesId, seriesPosition: (last?.position ?? 0) + 1 };
+}
 
-export async function getAllBackgrounds(options?: { active?: boolean; limit?: number }) {
+/** Series with how many parts each has; `published` counts only readable parts. */
+export async function getAllSeries(options?: { published?: boolean }) {
   const db = await getDb();
   if (!db) return [];
 
-  let query = db.select().from(backgrounds);
-  
-  const conditions = [];
-  if (options?.active !== undefined) {
-    conditions.push(eq(backgrounds.active, options.active));
-  }
-  
-  if (conditions.length > 0) {
-    query = query.where(and(...conditions)) as typeof query;
+  const rows = await db.select().from(series).orderBy(desc(series.createdAt));
+
+  let countQuery = db.select({ seriesId: essays.seriesId, total: count() }).from(essays);
+  if (options?.published !== undefined) {
+    countQuery = countQuery.where(eq(essays.published, options.published)) as typeof countQuery;
   }
-  
-  query = query.orderBy(desc(backgrounds.sortOrder), desc(backgrounds.createdAt)) as typeof query;
-  
-  if (options?.limit) {
-    query = query.limit(options.limit) as typeof query;
+  const counts = await countQuery.groupBy(essays.seriesId);
+  const usage = new Map<number, number>();
+  for (const { seriesId, total } of counts) {
+    if (seriesId !== null) usage.set(seriesId, total);
   }
+
+  const result = rows.map(item => ({ ...item, partCount: usage.get(item.id) ?? 0 }));
+  // A public series with nothing readable in it yet stays hidden
+  return options?.published ? result.filter(item => item.partCount > 0) : result;
+}
+
+export async function getSeriesById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
   
-  return await query;
+  const result = await db.select().from(series).where(eq(series.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
 }
 
-export async function getBackgroundById(id: number) {
+export async function getSeriesBySlug(slug: string) {
   const db = await getDb();
   if (!db) return undefined;
   
-  const result = await db.select().from(backgrounds).where(eq(backgrounds.id, id)).limit(1);
+  const result = await db.select().from(series).where(eq(series.slug, slug)).limit(1);
   return result.length > 0 ? result[0] : undefined;
 }
 
-export async function createBackground(background: InsertBackground) {
+/** The essays of a series in reading order. */
+export async function getSeriesParts(seriesId: number, options?: { published?: boolean }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [eq(essays.seriesId, seriesId)];
+  if (options?.published !== undefined) {
+    conditions.push(eq(essays.published, options.published));
+  }
+  const rows = await db.select().from(essays).where(and(...conditions));
+  return sortSeriesParts(await withRelations(db, "essay", rows));
+}
+
+/** Series title and previous/next parts for an essay, counted over published parts. */
+export async function getSeriesNavigation(essay: { id: number; seriesId: number | null }) {
+  if (essay.seriesId === null) return null;
+
+  const item = await getSeriesById(essay.seriesId);
+  if (!item) return null;
+
+  const parts = await getSeriesParts(item.id, { published: true });
+  const navigation = buildSeriesNavigation(parts, essay.id);
+  if (!navigation) return null;
+
+  return { id: item.id, title: item.title, slug: item.slug, ...navigation };
+}
+
+export async function createSeries(item: WithOptionalSlug<InsertSeries>) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  const result = await db.insert(backgrounds).values(background);
-  return { id: result[0].insertId };
+  const slug = await resolveUniqueSlug(item.slug || item.title, getSeriesBySlug);
+  const result = await db.insert(series).values({ ...item, slug });
+  return { id: result[0].insertId, slug };
 }
 
-export async function updateBackground(id: number, background: Partial<InsertBackground>) {
+export async function updateSeries(id: number, item: Partial<InsertSeries>) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.update(backgrounds).set(background).where(eq(backgrounds.id, id));
+  if (item.slug !== undefined) {
+    item = { ...item, slug: await resolveUniqueSlug(item.slug || item.title || "", getSeriesBySlug, id) };
+  }
+  
+  await db.transaction(async tx => {
+    if (item.coverImageKey !== undefined) {
+      const [previous] = await tx.select({ key: series.coverImageKey }).from(series).where(eq(series.id, id));
+      await queueStorageDeletions(tx, [replacedKey(previous?.key, item.coverImageKey)]);
+    }
+    await tx.update(series).set(item).where(eq(series.id, id));
+  });
   return { success: true };
 }
 
-export async function deleteBackground(id: number) {
+/** Delete a series; its essays stay as standalone essays. */
+export async function deleteSeries(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.delete(backgrounds).where(eq(backgrounds.id, id));
+  await db.transaction(async tx => {
+    await tx.update(essays).set({ seriesId: null, seriesPosition: null }).where(eq(essays.seriesId, id));
+    const [previous] = await tx.select({ key: series.coverImageKey }).from(series).where(eq(series.id, id));
+    await queueStorageDeletions(tx, [previous?.key]);
+    await tx.delete(series).where(eq(series.id, id));
+  });
   return { success: true };
 }
+
+// ==================== Albums ====================
+
+/** Write payload where album membership is given as photo ids in display order. */
+type WithPhotoIds<T> = T & { photoIds?: number[] };
+
+/** Replace an album's photos, keeping the order they are given in. */
+async function setAlbumPhotos(tx: Tx, albumId: number, photoIds: number[]) {
+  const uniqueIds = Array.from(new Set(photoIds));
+  await tx.delete(albumPhotos).where(eq(albumPhotos.albumId, albumId));
+  if (uniqueIds.length > 0) {
+    await tx.insert(albumPhotos).values(
+      uniqueIds.map((photoId, index) => ({ albumId, photoId, position: index + 1 }))
+    );
+  }
+}
+
+/**
+ * Albums with their photo count and cover image, newest first. With
+ * `published`, only published photos count and empty albums are left out.
+ */
+export async function getAllAlbums(options?: { published?: boolean }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db.select().from(albums).orderBy(desc(albums.createdAt));
+  if (rows.length === 0) return [];
+
+  const members = await db
+    .select({ albumId: albumPhotos.albumId, photoId: photos.id, imageUrl: photos.imageUrl, title: photos.title })
+    .from(albumPhotos)
+    .innerJoin(photos, eq(albumPhotos.photoId, photos.id))
+    .where(and(
+      inArray(albumPhotos.albumId, rows.map(album => album.id)),
+      options?.published ? eq(photos.visibility, "published") : undefined
+    ))
+    .orderBy(asc(albumPhotos.position));
+
+  const result = rows.map(album => {
+    const albumMembers = members.filter(member => member.albumId === album.id);
+    const cover = albumMembers.find(member => member.photoId === album.coverPhotoId) ?? albumMembers[0];
+    return {
+      ...album,
+      photoCount: albumMembers.length,
+      coverImageUrl: cover?.imageUrl ?? null,
+    };
+  });
+  return options?.published ? result.filter(album => album.photoCount > 0) : result;
+}
+
+export async function getAlbumById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(albums).where(eq(albums.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getAlbumBySlug(slug: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(albums).where(eq(albums.slug, slug)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/** An album's photos in album order. */
+export async function getAlbumPhotos(albumId: number, options?: { published?: boolean }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ photo: photos })
+    .from(albumPhotos)
+    .innerJoin(photos, eq(albumPhotos.photoId, photos.id))
+    .where(and(
+      eq(albumPhotos.albumId, albumId),
+      options?.published ? eq(photos.visibility, "published") : undefined
+    ))
+    .orderBy(asc(albumPhotos.position));
+  return await withRelations(db, "photo", rows.map(row => row.photo));
+}
+
+export async function createAlbum({ photoIds, ...album }: WithPhotoIds<WithOptionalSlug<InsertAlbum>>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const slug = await resolveUniqueSlug(album.slug || album.title, getAlbumBySlug);
+  const id = await db.transaction(async tx => {
+    const result = await tx.insert(albums).values({ ...album, slug });
+    await setAlbumPhotos(tx, result[0].insertId, photoIds ?? []);
+    return result[0].insertId;
+  });
+  return { id, slug };
+}
+
+export async function updateAlbum(id: number, { photoIds, ...album }: WithPhotoIds<Partial<InsertAlbum>>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  if (album.slug !== undefined) {
+    album = { ...album, slug: await resolveUniqueSlug(album.slug || album.title || "", getAlbumBySlug, id) };
+  }
+  
+  await db.transaction(async tx => {
+    if (Object.keys(album).length > 0) {
+      await tx.update(albums).set(album).where(eq(albums.id, id));
+    }
+    if (photoIds !== undefined) {
+      await setAlbumPhotos(tx, id, photoIds);
+    }
+  });
+  return { success: true };
+}
+
+/** Delete an album; its photos are untouched. */
+export async function deleteAlbum(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.transaction(async tx => {
+    await tx.delete(albumPhotos).where(eq(albumPhotos.albumId, id));
+    await tx.delete(albums).where(eq(albums.id, id));
+  });
+  return { success: true };
+}
+
+// ==================== Tags ====================
+
+type TaggedContentType = "photo" | "essay" | "paper";
+
+/** Write payload where tags are given by name instead of through the join table. */
+type WithTagNames<T> = T & { tags?: string[] };
+
+/**
+ * Tag refs for a batch of items, keyed by item id, sorted by tag name.
+ * Takes the executor so it can run inside a transaction.
+ */
+async function getTagRefs(executor: Db | Tx, contentType: TaggedContentType, ids: number[]) {
+  const refs = new Map<number, TagRef[]>();
+  if (ids.length === 0) return refs;
+
+  let rows: { contentId: number; name: string; slug: string }[];
+  if (contentType === "photo") {
+    rows = await executor.select({ contentId: photoTags.photoId, name: tags.name, slug: tags.slug })
+      .from(photoTags).innerJoin(tags, eq(photoTags.tagId, tags.id))
+      .where(inArray(photoTags.photoId, ids)).orderBy(asc(tags.name));
+  } else if (contentType === "essay") {
+    rows = await executor.select({ contentId: essayTags.essayId, name: tags.name, slug: tags.slug })
+      .from(essayTags).innerJoin(tags, eq(essayTags.tagId, tags.id))
+      .where(inArray(essayTags.essayId, ids)).orderBy(asc(tags.name));
+  } else {
+    rows = await executor.select({ contentId: paperTags.paperId, name: tags.name, slug: tags.slug })
+      .from(paperTags).innerJoin(tags, eq(paperTags.tagId, tags.id))
+      .where(inArray(paperTags.paperId, ids)).orderBy(asc(tags.name));
+  }
+
+  for (const { contentId, name, slug } of rows) {
+    const list = refs.get(contentId) ?? [];
+    list.push({ name, slug });
+    refs.set(contentId, list);
+  }
+  return refs;
+}
+
+async function attachTags<T extends { id: number }>(
+  executor: Db | Tx,
+  contentType: TaggedContentType,
+  rows: T[]
+): Promise<(T & { tags: TagRef[] })[]> {
+  const refs = await getTagRefs(executor, contentType, rows.map(row => row.id));
+  return rows.map(row => ({ ...row, tags: refs.get(row.id) ?? [] }));
+}
+
+export async function getTagBySlug(slug: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(tags).where(eq(tags.slug, slug)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/** Find tags by name, creating the missing ones. Returns their ids. */
+async function resolveTagIds(tx: Tx, names: string[]) {
+  const normalized = normalizeTagNames(names);
+  if (normalized.length === 0) return [];
+
+  const existing = await tx.select().from(tags).where(inArray(tags.name, normalized));
+  const ids: number[] = [];
+  for (const name of normalized) {
+    // The name column compares case-insensitively, so match the same way here
+    const found = existing.find(tag => tag.name.toLowerCase() === name.toLowerCase());
+    if (found) {
+      ids.push(found.id);
+      continue;
+    }
+    const slug = await resolveUniqueSlug(name, async candidate => {
+      const [match] = await tx.select({ id: tags.id }).from(tags).where(eq(tags.slug, candidate)).limit(1);
+      return match;
+    }, undefined, SHORT_SLUG_LENGTH);
+    const result = await tx.insert(tags).values({ name, slug });
+    ids.push(result[0].insertId);
+  }
+  return ids;
+}
+
+/** Replace the tags of one item with the given names. */
+async function setContentTags(tx: Tx, contentType: TaggedContentType, contentId: number, names: string[]) {
+  const tagIds = await resolveTagIds(tx, names);
+
+  if (contentType === "photo") {
+    await tx.delete(photoTags).where(eq(photoTags.photoId, contentId));
+    if (tagIds.length > 0) {
+      await tx.insert(photoTags).values(tagIds.map(tagId => ({ photoId: contentId, tagId })));
+    }
+  } else if (contentType === "essay") {
+    await tx.delete(essayTags).where(eq(essayTags.essayId, contentId));
+    if (tagIds.length > 0) {
+      await tx.insert(essayTags).values(tagIds.map(tagId => ({ essayId: contentId, tagId })));
+    }
+  } else {
+    await tx.delete(paperTags).where(eq(paperTags.paperId, contentId));
+    if (tagIds.length > 0) {
+      await tx.insert(paperTags).values(tagIds.map(tagId => ({ paperId: contentId, tagId })));
+    }
+  }
+}
+
+/**
+ * All tags with how often each is used, for autocomplete and tag listings.
+ * Counts include drafts, since the admin forms are the main consumer.
+ */
+export async function getAllTags() {
+  const db = await getDb();
+  if (!db) return [];
+
+  const [all, photoCounts, essayCounts, paperCounts] = await Promise.all([
+    db.select().from(tags).orderBy(asc(tags.name)),
+    db.select({ tagId: photoTags.tagId, total: count() }).from(photoTags).groupBy(photoTags.tagId),
+    db.select({ tagId: essayTags.tagId, total: count() }).from(essayTags).groupBy(essayTags.tagId),
+    db.select({ tagId: paperTags.tagId, total: count() }).from(paperTags).groupBy(paperTags.tagId),
+  ]);
+
+  const usage = new Map<number, number>();
+  for (const { tagId, total } of [...photoCounts, ...essayCounts, ...paperCounts]) {
+    usage.set(tagId, (usage.get(tagId) ?? 0) + total);
+  }
+  return all.map(tag => ({ ...tag, usageCount: usage.get(tag.id) ?? 0 }));
+}
+
+/** Everything public carrying a tag: published photos, essays and papers. */
+export async function getContentByTag(tagId: number) {
+  const db = await getDb();
+  if (!db) return { photos: [], essays: [], papers: [] };
+
+  const [taggedPhotos, taggedEssays, taggedPapers] = await Promise.all([
+    db.select().from(photos)
+      .where(and(
+        eq(photos.visibility, "published"),
+        inArray(photos.id, db.select({ id: photoTags.photoId }).from(photoTags).where(eq(photoTags.tagId, tagId)))
+      ))
+      .orderBy(desc(photos.sortOrder), desc(photos.createdAt)),
+    db.select().from(essays)
+      .where(and(
+        eq(essays.published, true),
+        inArray(essays.id, db.select({ id: essayTags.essayId }).from(essayTags).where(eq(essayTags.tagId, tagId)))
+      ))
+      .orderBy(desc(essays.publishedAt), desc(essays.createdAt)),
+    db.select().from(papers)
+      .where(and(
+        eq(papers.published, true),
+        inArray(papers.id, db.select({ id: paperTags.paperId }).from(paperTags).where(eq(paperTags.tagId, tagId)))
+      ))
+      .orderBy(desc(papers.year), desc(papers.createdAt)),
+  ]);
+
+  return {
+    photos: await withRelations(db, "photo", taggedPhotos),
+    essays: await withRelations(db, "essay", taggedEssays),
+    papers: await withRelations(db, "paper", taggedPapers),
+  };
+}
+
+// ==================== Scheduled Publishing ====================
+
+/**
+ * Publish every draft whose scheduled publishedAt has passed.
+ * Returns how many items of each type went live.
+ */
+export async function publishDueContent(now: Date = new Date()) {
+  const db = await getDb();
+  if (!db) return { essays: 0, papers: 0 };
+
+  const [essayResult] = await db.update(essays)
+    .set({ published: true })
+    .where(and(eq(essays.published, false), lte(essays.publishedAt, now)));
+  const [paperResult] = await db.update(papers)
+    .set({ published: true })
+    .where(and(eq(papers.published, false), lte(papers.publishedAt, now)));
+
+  return { essays: essayResult.affectedRows, papers: paperResult.affectedRows };
+}
+
+/** Earliest pending publish time across essays and papers, if any. */
+export async function getNextScheduledPublishTime(): Promise<Date | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [essayNext] = await db.select({ at: min(essays.publishedAt) }).from(essays)
+    .where(and(eq(essays.published, false), isNotNull(essays.publishedAt)));
+  const [paperNext] = await db.select({ at: min(papers.publishedAt) }).from(papers)
+    .where(and(eq(papers.published, false), isNotNull(papers.publishedAt)));
+
+  const times = [essayNext?.at, paperNext?.at].filter((t): t is Date => t instanceof Date);
+  if (times.length === 0) return undefined;
+  return new Date(Math.min(...times.map(t => t.getTime())));
+}
+
+// ==================== Revisions ====================
+
+/**
+ * Snapshot the current state of an essay or paper, unless it matches the
+ * latest revision already (e.g. a publish toggle that changed no content).
+ */
+async function recordRevision(
+  tx: Tx,
+  contentType: RevisionContentType,
+  contentId: number,
+  authorId: number | null
+) {
+  let snapshot;
+  if (contentType === "essay") {
+    const [row] = await attachTags(tx, "essay", await tx.select().from(essays).where(eq(essays.id, contentId)).limit(1));
+    if (!row) return;
+    snapshot = buildSnapshot("essay", row);
+  } else {
+    const [row] = await attachTags(tx, "paper", await tx.select().from(papers).where(eq(papers.id, contentId)).limit(1));
+    if (!row) return;
+    snapshot = buildSnapshot("paper", row);
+  }
+
+  const [latest] = await tx.select().from(revisions)
+    .where(and(eq(revisions.contentType, contentType), eq(revisions.contentId, contentId)))
+    .orderBy(desc(revisions.id))
+    .limit(1);
+  if (latest && snapshotsEqual(contentType, parseSnapshot(latest.snapshot), snapshot)) {
+    return;
+  }
+
+  await tx.insert(revisions).values({
+    contentType,
+    contentId,
+    snapshot: JSON.stringify(snapshot),
+    authorId,
+  });
+}
+
+export async function getRevisions(contentType: RevisionContentType, contentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select({
+    id: revisions.id,
+    contentType: revisions.contentType,
+    contentId: revisions.contentId,
+    authorId: revisions.authorId,
+    authorName: users.name,
+    authorEmail: users.email,
+    createdAt: revisions.createdAt,
+  })
+    .from(revisions)
+    .leftJoin(users, eq(revisions.authorId, users.id))
+    .where(and(eq(revisions.contentType, contentType), eq(revisions.contentId, contentId)))
+    .orderBy(desc(revisions.id));
+}
+
+export async function getRevisionById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(revisions).where(eq(revisions.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Make an older revision the current content. The restore is itself saved
+ * as a new revision, so it can be undone the same way.
+ */
+export async function restoreRevision(id: number, authorId: number | null) {
+  const revision = await getRevisionById(id);
+  if (!revision) throw new Error("Revision not found");
+
+  const snapshot = parseSnapshot(revision.snapshot);
+  // Only restore fields that are still versioned; older snapshots may carry retired ones
+  const fields = Object.fromEntries(
+    REVISIONED_FIELDS[revision.contentType]
+      .filter(field => field !== "tags" && field in snapshot)
+      .map(field => [field, snapshot[field]])
+  );
+  const tagNames = snapshotTagNames(snapshot.tags);
+  if (revision.contentType === "essay") {
+    return await updateEssay(revision.contentId, { ...fields as Partial<InsertEssay>, tags: tagNames }, authorId);
+  }
+  return await updatePaper(revision.contentId, { ...fields as Partial<InsertPaper>, tags: tagNames }, authorId);
+}
+
+// ==================== Preview Links ====================
+
+export async function createPreviewLink(link: InsertPreviewLink) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(previewLinks).values(link);
+  return { id: result[0].insertId };
+}
+
+export async function getPreviewLinkByTokenId(tokenId: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(previewLinks).where(eq(previewLinks.tokenId, tokenId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getPreviewLinks(createdBy: number, options?: { contentType?: "essay" | "paper"; contentId?: number }) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  const conditions = [eq(previewLinks.createdBy, createdBy)];
+  if (options?.contentType) {
+    conditions.push(eq(previewLinks.contentType, options.contentType));
+  }
+  if (options?.contentId !== undefined) {
+    conditions.push(eq(previewLinks.contentId, options.contentId));
+  }
+  
+  return await db.select().from(previewLinks).where(and(...conditions)).orderBy(desc(previewLinks.createdAt));
+}
+
+export async function revokePreviewLink(id: number, createdBy: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(previewLinks)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(previewLinks.id, id), eq(previewLinks.createdBy, createdBy)));
+  return { success: true };
+}
+
+// ==================== Search ====================
+
+// Matches considered per content type before facets, filters and paging
+const MAX_SEARCH_CANDIDATES = 500;
+
+export type SearchOptions = SearchFilters & {
+  limit?: number;
+  offset?: number;
+};
+
+export type SearchHit = {
+  type: SearchContentType;
+  id: number;
+  path: string;
+  title: HighlightSegment[];
+  subtitle: string | null;
+  snippet: HighlightSegment[];
+  imageUrl: string | null;
+  imagePlaceholder: string | null;
+  category: CategoryRef | null;
+  tags: TagRef[];
+  date: Date;
+  score: number;
+};
+
+export type SearchCategoryFacet = CategoryRef & { id: number; section: CategorySection; count: number };
+
+/** Where the tagged rows of a content type are, for matching tag names. */
+function taggedWith(
+  id: typeof photos.id | typeof essays.id | typeof papers.id,
+  joinId: typeof photoTags.photoId | typeof essayTags.essayId | typeof paperTags.paperId,
+  joinTagId: typeof photoTags.tagId | typeof essayTags.tagId | typeof paperTags.tagId,
+  against: SQL
+) {
+  return sql`${id} IN (SELECT ${joinId} FROM ${joinId.table} INNER JOIN ${tags} ON ${tags.id} = ${joinTagId} WHERE MATCH(${tags.name}) ${against})`;
+}
+
+/**
+ * Every published row matching the query, with its relevance and what the
+ * facets group by. Title matches weigh most, then the body fields; a tag
+ * matching the whole query adds a fixed boost.
+ */
+async function findSearchCandidates(db: Db, booleanQuery: string): Promise<SearchCandidate[]> {
+  const against = sql`AGAINST (${booleanQuery} IN BOOLEAN MODE)`;
+
+  const photoTagged = taggedWith(photos.id, photoTags.photoId, photoTags.tagId, against);
+  const photoScore = sql<number>`(MATCH(${photos.title}) ${against} * 3 + MATCH(${photos.title}, ${photos.description}, ${photos.location}) ${against} + (${photoTagged}) * 2)`;
+
+  const essayTagged = taggedWith(essays.id, essayTags.essayId, essayTags.tagId, against);
+  const essayScore = sql<number>`(MATCH(${essays.title}) ${against} * 3 + MATCH(${essays.title}, ${essays.subtitle}, ${essays.excerpt}, ${essays.content}) ${against} + (${essayTagged}) * 2)`;
+
+  const paperTagged = taggedWith(papers.id, paperTags.paperId, paperTags.tagId, against);
+  const paperScore = sql<number>`(MATCH(${papers.title}) ${against} * 3 + MATCH(${papers.title}, ${papers.abstract}, ${papers.authors}, ${papers.journal}) ${against} + (${paperTagged}) * 2)`;
+
+  const [photoRows, essayRows, paperRows] = await Promise.all([
+    db.select({
+      id: photos.id,
+      score: photoScore,
+      categoryId: photos.categoryId,
+      year: sql<number | null>`YEAR(COALESCE(${photos.publishedAt}, ${photos.createdAt}))`,
+    }).from(photos)
+      .where(and(
+        eq(photos.visibility, "published"),
+        or(sql`MATCH(${photos.title}, ${photos.description}, ${photos.location}) ${against}`, photoTagged)
+      ))
+      .orderBy(desc(photoScore)).limit(MAX_SEARCH_CANDIDATES),
+    db.select({
+      id: essays.id,
+      score: essayScore,
+      categoryId: essays.categoryId,
+      year: sql<number | null>`YEAR(COALESCE(${essays.publishedAt}, ${essays.createdAt}))`,
+    }).from(essays)
+      .where(and(
+        eq(essays.published, true),
+        or(sql`MATCH(${essays.title}, ${essays.subtitle}, ${essays.excerpt}, ${essays.content}) ${against}`, essayTagged)
+      ))
+      .orderBy(desc(essayScore)).limit(MAX_SEARCH_CANDIDATES),
+    db.select({
+      id: papers.id,
+      score: paperScore,
+      categoryId: papers.categoryId,
+      // The year the paper came out rather than when it was posted
+      year: sql<number | null>`COALESCE(${papers.year}, YEAR(COALESCE(${papers.publishedAt}, ${papers.createdAt})))`,
+    }).from(papers)
+      .where(and(
+        eq(papers.published, true),
+        or(sql`MATCH(${papers.title}, ${papers.abstract}, ${papers.authors}, ${papers.journal}) ${against}`, paperTagged)
+      ))
+      .orderBy(desc(paperScore)).limit(MAX_SEARCH_CANDIDATES),
+  ]);
+
+  const [photoCandidates, essayCandidates, paperCandidates] = await Promise.all([
+    attachTags(db, "photo", photoRows),
+    attachTags(db, "essay", essayRows),
+    attachTags(db, "paper", paperRows),
+  ]);
+  const toCandidate = (type: SearchContentType) =>
+    (row: { id: number; score: number; categoryId: number | null; year: number | null; tags: TagRef[] }): SearchCandidate => ({
+      type,
+      id: row.id,
+      score: Number(row.score),
+      categoryId: row.categoryId,
+      year: row.year === null ? null : Number(row.year),
+      tags: row.tags,
+    });
+  return [
+    ...photoCandidates.map(toCandidate("photo")),
+    ...essayCandidates.map(toCandidate("essay")),
+    ...paperCandidates.map(toCandidate("paper")),
+  ];
+}
+
+/** Load and present one page of ranked matches, in the order given. */
+async function loadSearchHits(db: Db, page: SearchCandidate[], parsed: ParsedSearchQuery): Promise<SearchHit[]> {
+  const idsOf = (type: SearchContentType) => page.filter(hit => hit.type === type).map(hit => hit.id);
+  const photoIds = idsOf("photo");
+  const essayIds = idsOf("essay");
+  const paperIds = idsOf("paper");
+
+  const [photoRows, essayRows, paperRows] = await Promise.all([
+    photoIds.length > 0 ? db.select().from(photos).where(inArray(photos.id, photoIds)) : [],
+    essayIds.length > 0 ? db.select().from(essays).where(inArray(essays.id, essayIds)) : [],
+    paperIds.length > 0 ? db.select().from(papers).where(inArray(papers.id, paperIds)) : [],
+  ]);
+  const [photoResults, essayResults, paperResults] = await Promise.all([
+    withRelations(db, "photo", photoRows),
+    withRelations(db, "essay", essayRows),
+    withRelations(db, "paper", paperRows),
+  ]);
+
+  const byKey = new Map<string, Omit<SearchHit, "score">>();
+  for (const photo of photoResults) {
+    byKey.set(`photo:${photo.id}`, {
+      type: "photo",
+      id: photo.id,
+      path: `/photography/${photo.slug}`,
+      title: highlight(photo.title, parsed),
+      subtitle: photo.location,
+      snippet: snippetFrom([photo.description], parsed),
+      imageUrl: photo.imageUrl,
+      imagePlaceholder: photo.imagePlaceholder,
+      category: photo.category,
+      tags: photo.tags,
+      date: photo.publishedAt ?? photo.createdAt,
+    });
+  }
+  for (const essay of essayResults) {
+    byKey.set(`essay:${essay.id}`, {
+      type: "essay",
+      id: essay.id,
+      path: `/magazine/${essay.slug}`,
+      title: highlight(essay.title, parsed),
+      subtitle: essay.subtitle,
+      snippet: snippetFrom([essay.excerpt, markdownToPlainText(essay.content)], parsed),
+      imageUrl: essay.coverImageUrl,
+      imagePlaceholder: essay.coverImagePlaceholder,
+      category: essay.category,
+      tags: essay.tags,
+      date: essay.publishedAt ?? essay.createdAt,
+    });
+  }
+  for (const paper of paperResults) {
+    byKey.set(`paper:${paper.id}`, {
+      type: "paper",
+      id: paper.id,
+      path: `/academic/${paper.slug}`,
+      title: highlight(paper.title, parsed),
+      subtitle: [paper.authors, paper.journal, paper.year].filter(Boolean).join(" · "),
+      snippet: snippetFrom([paper.abstract], parsed),
+      imageUrl: null,
+      imagePlaceholder: null,
+      category: paper.category,
+      tags: paper.tags,
+      date: paper.publishedAt ?? paper.createdAt,
+    });
+  }
+
+  return page.flatMap(candidate => {
+    const hit = byKey.get(`${candidate.type}:${candidate.id}`);
+    return hit ? [{ ...hit, score: candidate.score }] : [];
+  });
+}
+
+/**
+ * Ranked full-text search over published content with facet counts for
+ * content type, category, tag and year. Each hit carries its title and a
+ * snippet split into highlighted runs, ready to render.
+ */
+export async function searchContent(query: string, options: SearchOptions = {}) {
+  const { limit = 20, offset = 0, ...filters } = options;
+  const db = await getDb();
+  const parsed = parseSearchQuery(query);
+
+  // Every type is searched so the type facet can count them all
+  const candidates = db && hasSearchTerms(parsed)
+    ? await findSearchCandidates(db, toBooleanQuery(parsed))
+    : [];
+  const matches = applySearchFilters(candidates, filters);
+  const facets = computeFacets(candidates, filters);
+
+  const categoryIds = facets.categories.map(facet => facet.id);
+  const categoryRows = db && categoryIds.length > 0
+    ? await db.select({ id: categories.id, name: categories.name, slug: categories.slug, section: categories.section })
+        .from(categories).where(inArray(categories.id, categoryIds))
+    : [];
+  const categoryById = new Map(categoryRows.map(category => [category.id, category]));
+
+  return {
+    hits: db ? await loadSearchHits(db, matches.slice(offset, offset + limit), parsed) : [],
+    total: matches.length,
+    facets: {
+      ...facets,
+      categories: facets.categories.flatMap((facet): SearchCategoryFacet[] => {
+        const category = categoryById.get(facet.id);
+        return category ? [{ ...category, count: facet.count }] : [];
+      }),
+    },
+  };
+}
+
+// Rows fetched per source before suggestions are ranked together
+const SUGGESTION_CANDIDATES = 20;
+
+/** Where a search for a place or person leads: an exact-phrase search of one content type. */
+function phraseSearchPath(phrase: string, type: SearchContentType) {
+  return `/search?${new URLSearchParams({ q: `"${phrase}"`, type })}`;
+}
+
+/**
+ * Titles, tags, photo locations and paper authors containing what has been
+ * typed so far, prefix matches first. Only published content is offered.
+ */
+export async function suggestContent(input: string, limit = 8): Promise<SearchSuggestion[]> {
+  const db = await getDb();
+  const text = input.trim();
+  if (!db || !text) return [];
+
+  const literal = escapeLikePattern(text);
+  const contains = `%${literal}%`;
+  const startsWith = `${literal}%`;
+  // Fetch prefix matches first so the per-source limit doesn't cut them off
+  const prefixFirst = (column: typeof photos.title | typeof essays.title | typeof papers.title | typeof tags.name) =>
+    [sql`${column} LIKE ${startsWith} DESC`, sql`CHAR_LENGTH(${column})`];
+
+  const [photoRows, essayRows, paperRows, tagRows, locationRows, authorRows] = await Promise.all([
+    db.select({ title: photos.title, slug: photos.slug }).from(photos)
+      .where(and(eq(photos.visibility, "published"), like(photos.title, contains)))
+      .orderBy(...prefixFirst(photos.title)).limit(SUGGESTION_CANDIDATES),
+    db.select({ title: essays.title, slug: essays.slug }).from(essays)
+      .where(and(eq(essays.published, true), like(essays.title, contains)))
+      .orderBy(...prefixFirst(essays.title)).limit(SUGGESTION_CANDIDATES),
+    db.select({ title: papers.title, slug: papers.slug }).from(papers)
+      .where(and(eq(papers.published, true), like(papers.title, contains)))
+      .orderBy(...prefixFirst(papers.title)).limit(SUGGESTION_CANDIDATES),
+    // Tags on published content only, so the tag page is never empty
+    db.select({ name: tags.name, slug: tags.slug }).from(tags)
+      .where(and(
+        like(tags.name, contains),
+        or(
+          sql`${tags.id} IN (SELECT ${photoTags.tagId} FROM ${photoTags} INNER JOIN ${photos} ON ${photos.id} = ${photoTags.photoId} WHERE ${photos.visibility} = 'published')`,
+          sql`${tags.id} IN (SELECT ${essayTags.tagId} FROM ${essayTags} INNER JOIN ${essays} ON ${essays.id} = ${essayTags.essayId} WHERE ${essays.published} = true)`,
+          sql`${tags.id} IN (SELECT ${paperTags.tagId} FROM ${paperTags} INNER JOIN ${papers} ON ${papers.id} = ${paperTags.paperId} WHERE ${papers.published} = true)`
+        )
+      ))
+      .orderBy(...prefixFirst(tags.name)).limit(SUGGESTION_CANDIDATES),
+    db.selectDistinct({ location: photos.location }).from(photos)
+      .where(and(eq(photos.visibility, "published"), like(photos.location, contains)))
+      .limit(SUGGESTION_CANDIDATES),
+    db.select({ authors: papers.authors }).from(papers)
+      .where(and(eq(papers.published, true), like(papers.authors, contains)))
+      .limit(SUGGESTION_CANDIDATES),
+  ]);
+
+  const authorNames = authorRows.flatMap(row => row.authors.split(",").map(author => author.trim()));
+  return rankSuggestions(text, [
+    ...photoRows.map((row): SearchSuggestion => ({ kind: "title", type: "photo", label: row.title, path: `/photography/${row.slug}` })),
+    ...essayRows.map((row): SearchSuggestion => ({ kind: "title", type: "essay", label: row.title, path: `/magazine/${row.slug}` })),
+    ...paperRows.map((row): SearchSuggestion => ({ kind: "title", type: "paper", label: row.title, path: `/academic/${row.slug}` })),
+    ...tagRows.map((row): SearchSuggestion => ({ kind: "tag", label: row.name, path: `/tags/${row.slug}` })),
+    ...locationRows.flatMap((row): SearchSuggestion[] =>
+      row.location ? [{ kind: "location", label: row.location, path: phraseSearchPath(row.location, "photo") }] : []
+    ),
+    ...authorNames.map((author): SearchSuggestion => ({ kind: "author", label: author, path: phraseSearchPath(author, "paper") })),
+  ], limit);
+}
+
+// ==================== Feeds ====================
+
+/**
+ * The most recently published photos, essays and papers, newest first by
+ * when each went public, with tags and categories attached.
+ */
+export async function getLatestPublished(limit: number) {
+  const db = await getDb();
+  if (!db) return { photos: [], essays: [], papers: [] };
+
+  const [photoRows, essayRows, paperRows] = await Promise.all([
+    db.select().from(photos)
+      .where(eq(photos.visibility, "published"))
+      .orderBy(desc(sql`COALESCE(${photos.publishedAt}, ${photos.createdAt})`), desc(photos.id))
+      .limit(limit),
+    db.select().from(essays)
+      .where(eq(essays.published, true))
+      .orderBy(desc(sql`COALESCE(${essays.publishedAt}, ${essays.createdAt})`), desc(essays.id))
+      .limit(limit),
+    db.select().from(papers)
+      .where(eq(papers.published, true))
+      .orderBy(desc(sql`COALESCE(${papers.publishedAt}, ${papers.createdAt})`), desc(papers.id))
+      .limit(limit),
+  ]);
+
+  const [photoResults, essayResults, paperResults] = await Promise.all([
+    withRelations(db, "photo", photoRows),
+    withRelations(db, "essay", essayRows),
+    withRelations(db, "paper", paperRows),
+  ]);
+  return { photos: photoResults, essays: essayResults, papers: paperResults };
+}
+
+// ==================== Sitemap ====================
+
+/**
+ * Every public page's slug and last change: published photos (with the
+ * image, for image sitemaps), essays and papers, and the tags they carry.
+ * A tag page changes whenever its newest tagged item does.
+ */
+export async function getSitemapEntries() {
+  const db = await getDb();
+  if (!db) return { photos: [], essays: [], papers: [], tags: [] };
+
+  const [photoRows, essayRows, paperRows, photoTagRows, essayTagRows, paperTagRows] = await Promise.all([
+    db.select({ slug: photos.slug, imageUrl: photos.imageUrl, updatedAt: photos.updatedAt }).from(photos)
+      .where(eq(photos.visibility, "published"))
+      .orderBy(desc(photos.updatedAt)),
+    db.select({ slug: essays.slug, updatedAt: essays.updatedAt }).from(essays)
+      .where(eq(essays.published, true))
+      .orderBy(desc(essays.updatedAt)),
+    db.select({ slug: papers.slug, updatedAt: papers.updatedAt }).from(papers)
+      .where(eq(papers.published, true))
+      .orderBy(desc(papers.updatedAt)),
+    db.select({ slug: tags.slug, updatedAt: max(photos.updatedAt) }).from(tags)
+      .innerJoin(photoTags, eq(photoTags.tagId, tags.id))
+      .innerJoin(photos, eq(photos.id, photoTags.photoId))
+      .where(eq(photos.visibility, "published"))
+      .groupBy(tags.id, tags.slug),
+    db.select({ slug: tags.slug, updatedAt: max(essays.updatedAt) }).from(tags)
+      .innerJoin(essayTags, eq(essayTags.tagId, tags.id))
+      .innerJoin(essays, eq(essays.id, essayTags.essayId))
+      .where(eq(essays.published, true))
+      .groupBy(tags.id, tags.slug),
+    db.select({ slug: tags.slug, updatedAt: max(papers.updatedAt) }).from(tags)
+      .innerJoin(paperTags, eq(paperTags.tagId, tags.id))
+      .innerJoin(papers, eq(papers.id, paperTags.paperId))
+      .where(eq(papers.published, true))
+      .groupBy(tags.id, tags.slug),
+  ]);
+
+  const tagUpdates = new Map<string, Date>();
+  for (const row of [...photoTagRows, ...essayTagRows, ...paperTagRows]) {
+    if (!row.updatedAt) continue;
+    const seen = tagUpdates.get(row.slug);
+    if (!seen || row.updatedAt > seen) tagUpdates.set(row.slug, row.updatedAt);
+  }
+
+  return {
+    photos: photoRows,
+    essays: essayRows,
+    papers: paperRows,
+    tags: Array.from(tagUpdates, ([slug, updatedAt]) => ({ slug, updatedAt })),
+  };
+}
+
+// ==================== Site Settings ====================
+
+export async function getSetting(key: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(siteSettings).where(eq(siteSettings.key, key)).limit(1);
+  return result.length > 0 ? result[0].value : undefined;
+}
+
+export async function setSetting(key: string, value: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.insert(siteSettings).values({ key, value }).onDuplicateKeyUpdate({
+    set: { value },
+  });
+  return { success: true };
+}
+
+// ==================== Backgrounds ====================
+
+export type BackgroundListOptions = {
+  active?: boolean;
+  limit?: number;
+};
+
+function backgroundListConditions(options?: BackgroundListOptions) {
+  const conditions: SQL[] = [];
+  if (options?.active !== undefined) {
+    conditions.push(eq(backgrounds.active, options.active));
+  }
+  return conditions;
+}
+
+export async function getAllBackgrounds(options?: BackgroundListOptions) {
+  const db = await getDb();
+  if (!db) return [];
+
+  let query = db.select().from(backgrounds);
+  
+  const conditions = backgroundListConditions(options);
+  if (conditions.length > 0) {
+    query = query.where(and(...conditions)) as typeof query;
+  }
+  
+  query = query.orderBy(desc(backgrounds.sortOrder), desc(backgrounds.createdAt)) as typeof query;
+  
+  if (options?.limit) {
+    query = query.limit(options.limit) as typeof query;
+  }
+  
+  return await attachImageVariants(db, await query, row => row.imageKey);
+}
+
+// getAllBackgrounds' order, with the id to break ties
+const BACKGROUNDS_ORDER = [backgrounds.sortOrder, backgrounds.createdAt, backgrounds.id];
+
+/** One page of backgrounds in getAllBackgrounds order, starting after `cursor`. */
+export async function getBackgroundPage(options: BackgroundListOptions & PageOptions = {}) {
+  const db = await getDb();
+  if (!db) return { items: [], nextCursor: null, total: 0 };
+
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const conditions = backgroundListConditions(options);
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db.select().from(backgrounds)
+      .where(and(where, cursorCondition(BACKGROUNDS_ORDER, options.cursor)))
+      .orderBy(...BACKGROUNDS_ORDER.map(column => desc(column)))
+      .limit(limit + 1),
+    db.select({ total: count() }).from(backgrounds).where(where),
+  ]);
+
+  const page = toPage(rows, limit, total, row => [row.sortOrder, row.createdAt, row.id]);
+  return { ...page, items: await attachImageVariants(db, page.items, row => row.imageKey) };
+}
+
+export async function getBackgroundById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(backgrounds).where(eq(backgrounds.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function createBackground(background: InsertBackground) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(backgrounds).values(background);
+  return { id: result[0].insertId };
+}
+
+export async function updateBackground(id: number, background: Partial<InsertBackground>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.transaction(async tx => {
+    if (background.imageKey !== undefined) {
+      const [previous] = await tx.select({ key: backgrounds.imageKey }).from(backgrounds).where(eq(backgrounds.id, id));
+      await queueStorageDeletions(tx, [replacedKey(previous?.key, background.imageKey)]);
+    }
+    await tx.update(backgrounds).set(background).where(eq(backgrounds.id, id));
+  });
+  return { success: true };
+}
+
+export async function deleteBackground(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.transaction(async tx => {
+    const [previous] = await tx.select({ key: backgrounds.imageKey }).from(backgrounds).where(eq(backgrounds.id, id));
+    await queueStorageDeletions(tx, [previous?.key]);
+    await tx.delete(backgrounds).where(eq(backgrounds.id, id));
+  });
+  return { success: true };
+}
+
+// ==================== Image Variants ====================
+
+/** Record the variants generated for an original, replacing any earlier set. */
+export async function saveImageVariants(sourceKey: string, variants: Omit<InsertImageVariant, "sourceKey">[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async tx => {
+    await tx.delete(imageVariants).where(eq(imageVariants.sourceKey, sourceKey));
+    if (variants.length > 0) {
+      await tx.insert(imageVariants).values(variants.map(variant => ({ ...variant, sourceKey })));
+    }
+  });
+}
+
+async function getImageVariantsByKey(executor: Db | Tx, sourceKeys: string[]) {
+  const byKey = new Map<string, ImageVariant[]>();
+  if (sourceKeys.length === 0) return byKey;
+
+  const rows = await executor
+    .select()
+    .from(imageVariants)
+    .where(inArray(imageVariants.sourceKey, Array.from(new Set(sourceKeys))))
+    .orderBy(asc(imageVariants.width));
+  for (const { sourceKey, format, width, height, url } of rows) {
+    const list = byKey.get(sourceKey) ?? [];
+    list.push({ format, width, height, url });
+    byKey.set(sourceKey, list);
+  }
+  return byKey;
+}
+
+/** Attach the responsive variants of each row's image; rows without variants get an empty list. */
+async function attachImageVariants<T>(
+  executor: Db | Tx,
+  rows: T[],
+  keyOf: (row: T) => string | null | undefined
+): Promise<(T & { imageVariants: ImageVariant[] })[]> {
+  const keys = rows.map(keyOf).filter((key): key is string => !!key);
+  const byKey = await getImageVariantsByKey(executor, keys);
+  return rows.map(row => {
+    const key = keyOf(row);
+    return { ...row, imageVariants: (key && byKey.get(key)) || [] };
+  });
+}
+
+/** Forget the variants recorded for these originals, or recorded under these variant keys. */
+export async function deleteImageVariantRecords(keys: string[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (keys.length === 0) return;
+
+  await db.delete(imageVariants).where(or(inArray(imageVariants.sourceKey, keys), inArray(imageVariants.key, keys)));
+}
+
+export async function getImageVariantKeys(sourceKey: string): Promise<string[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db.select({ key: imageVariants.key }).from(imageVariants).where(eq(imageVariants.sourceKey, sourceKey));
+  return rows.map(row => row.key);
+}
+
+// ==================== Storage Cleanup ====================
+
+/**
+ * Queue objects a row no longer points at. Called inside the transaction
+ * that changes the row, so the queue entry exists exactly when the change
+ * was committed; a key queued again is simply retried from scratch.
+ */
+async function queueStorageDeletions(tx: Tx, keys: (string | null | undefined)[]) {
+  const unique = Array.from(new Set(keys.filter((key): key is string => !!key)));
+  if (unique.length === 0) return;
+
+  await tx.insert(storageDeletions)
+    .values(unique.map(key => ({ key })))
+    .onDuplicateKeyUpdate({ set: { attempts: 0, nextAttemptAt: sql`now()`, lastError: null } });
+}
+
+/** The previous key when a write replaces it with a different one (or clears it). */
+function replacedKey(previous: string | null | undefined, next: string | null | undefined) {
+  return previous && previous !== next ? previous : null;
+}
+
+/** Queued deletions that are due and have not used up their attempts, oldest first. */
+export async function getDueStorageDeletions(maxAttempts: number, now: Date = new Date(), limit = 50) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(storageDeletions)
+    .where(and(lte(storageDeletions.nextAttemptAt, now), lt(storageDeletions.attempts, maxAttempts)))
+    .orderBy(asc(storageDeletions.nextAttemptAt))
+    .limit(limit);
+}
+
+/** When the next queued deletion becomes due, if any are still being retried. */
+export async function getNextStorageDeletionTime(maxAttempts: number): Promise<Date | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [next] = await db.select({ at: min(storageDeletions.nextAttemptAt) }).from(storageDeletions)
+    .where(lt(storageDeletions.attempts, maxAttempts));
+  return next?.at ?? undefined;
+}
+
+export async function completeStorageDeletion(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(storageDeletions).where(eq(storageDeletions.id, id));
+}
+
+export async function deferStorageDeletion(id: number, attempts: number, nextAttemptAt: Date, error: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(storageDeletions)
+    .set({ attempts, nextAttemptAt, lastError: error.slice(0, 1000) })
+    .where(eq(storageDeletions.id, id));
+}
+
+/**
+ * Every storage key something still points at: the image and PDF columns,
+ * keys kept in essay and paper revisions (a restore must find its file) and
+ * the variants of all of those. With `includeLibrary`, files pinned in the
+ * media library count too, as they do for the deletion queue and the orphan
+ * sweep: a pinned file stays until it is deleted from the library. Other
+ * library files go once nothing uses them.
+ */
+export async function getReferencedStorageKeys(options?: { includeLibrary?: boolean }): Promise<Set<string>> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const columns = await Promise.all([
+    db.select({ key: photos.imageKey }).from(photos),
+    db.select({ key: essays.coverImageKey }).from(essays),
+    db.select({ key: papers.pdfKey }).from(papers),
+    db.select({ key: backgrounds.imageKey }).from(backgrounds),
+    db.select({ key: categories.coverImageKey }).from(categories),
+    db.select({ key: series.coverImageKey }).from(series),
+  ]);
+  const referenced = new Set<string>();
+  for (const rows of columns) {
+    for (const { key } of rows) {
+      if (key) referenced.add(key);
+    }
+  }
+
+  const snapshots = await db.select({ snapshot: revisions.snapshot }).from(revisions);
+  for (const { snapshot } of snapshots) {
+    for (const [field, value] of Object.entries(parseSnapshot(snapshot))) {
+      if (field.endsWith("Key") && typeof value === "string" && value) referenced.add(value);
+    }
+  }
+
+  if (options?.includeLibrary) {
+    const library = await db.select({ key: assets.key }).from(assets).where(eq(assets.pinned, true));
+    for (const { key } of library) referenced.add(key);
+  }
+
+  const variants = await db.select({ sourceKey: imageVariants.sourceKey, key: imageVariants.key }).from(imageVariants);
+  for (const { sourceKey, key } of variants) {
+    if (referenced.has(sourceKey)) referenced.add(key);
+  }
+  return referenced;
+}
+
+// ==================== Media Library ====================
+
+export type AssetUsage = {
+  type: "photo" | "essay" | "paper" | "background" | "category" | "series";
+  id: number;
+  title: string | null;
+};
+
+export type AssetListOptions = {
+  query?: string;
+  kind?: Asset["kind"];
+  limit: number;
+  offset?: number;
+};
+
+/** Record a confirmed upload; confirming the same key again refreshes it. */
+export async function recordAsset(asset: InsertAsset) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Keep the original uploader, and a pin set earlier
+  const { key: _key, uploadedBy: _uploadedBy, pinned, ...details } = asset;
+  await db.insert(assets).values(asset).onDuplicateKeyUpdate({ set: pinned ? { ...details, pinned } : details });
+}
+
+/**
+ * Keep a file in the library after content stops using it, or let it go
+ * again. An unpinned file nothing uses is left for the orphan sweep.
+ */
+export async function setAssetPinned(id: number, pinned: boolean) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(assets).set({ pinned }).where(eq(assets.id, id));
+  return { success: true };
+}
+
+/** The content rows pointing at each of `keys`, keyed by storage key. */
+async function findAssetUsages(db: Db | Tx, keys: string[]): Promise<Map<string, AssetUsage[]>> {
+  const usages = new Map<string, AssetUsage[]>(keys.map(key => [key, []]));
+  if (keys.length === 0) return usages;
+
+  const groups = await Promise.all([
+    db.select({ id: photos.id, title: photos.title, key: photos.imageKey }).from(photos)
+      .where(inArray(photos.imageKey, keys)).then(rows => rows.map(row => ({ ...row, type: "photo" as const }))),
+    db.select({ id: essays.id, title: essays.title, key: essays.coverImageKey }).from(essays)
+      .where(inArray(essays.coverImageKey, keys)).then(rows => rows.map(row => ({ ...row, type: "essay" as const }))),
+    db.select({ id: papers.id, title: papers.title, key: papers.pdfKey }).from(papers)
+      .where(inArray(papers.pdfKey, keys)).then(rows => rows.map(row => ({ ...row, type: "paper" as const }))),
+    db.select({ id: backgrounds.id, title: backgrounds.title, key: backgrounds.imageKey }).from(backgrounds)
+      .where(inArray(backgrounds.imageKey, keys)).then(rows => rows.map(row => ({ ...row, type: "background" as const }))),
+    db.select({ id: categories.id, title: categories.name, key: categories.coverImageKey }).from(categories)
+      .where(inArray(categories.coverImageKey, keys)).then(rows => rows.map(row => ({ ...row, type: "category" as const }))),
+    db.select({ id: series.id, title: series.title, key: series.coverImageKey }).from(series)
+      .where(inArray(series.coverImageKey, keys)).then(rows => rows.map(row => ({ ...row, type: "series" as const }))),
+  ]);
+  for (const { key, ...usage } of groups.flat()) {
+    if (key) usages.get(key)?.push(usage);
+  }
+  return usages;
+}
+
+/** A page of the library, newest first, with where each asset is used. */
+export async function getAssets(options: AssetListOptions) {
+  const db = await getDb();
+  if (!db) return { items: [], total: 0 };
+
+  const conditions = [];
+  if (options.kind !== undefined) {
+    conditions.push(eq(assets.kind, options.kind));
+  }
+  if (options.query) {
+    const searchTerm = `%${options.query}%`;
+    conditions.push(or(like(assets.filename, searchTerm), like(assets.key, searchTerm)));
+  }
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db.select().from(assets).where(where)
+      .orderBy(desc(assets.createdAt), desc(assets.id))
+      .limit(options.limit)
+      .offset(options.offset ?? 0),
+    db.select({ total: count() }).from(assets).where(where),
+  ]);
+  const usages = await findAssetUsages(db, rows.map(row => row.key));
+  return {
+    items: rows.map(row => ({ ...row, usages: usages.get(row.key) ?? [] })),
+    total,
+  };
+}
+
+/**
+ * Remove an asset from the library and queue its file for deletion. An
+ * asset that content still uses cannot be deleted.
+ */
+export async function deleteAsset(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async (tx) => {
+    const [asset] = await tx.select().from(assets).where(eq(assets.id, id)).limit(1);
+    if (!asset) throw new Error("Asset not found");
+
+    const usages = (await findAssetUsages(tx, [asset.key])).get(asset.key) ?? [];
+    if (usages.length > 0) {
+      throw new Error(`Asset is used by ${usages.length} item(s)`);
+    }
+
+    await tx.delete(assets).where(eq(assets.id, id));
+    await queueStorageDeletions(tx, [asset.key]);
+    return { success: true };
+  });
+}
+
+/** Forget library rows whose files have been deleted from storage. */
+export async function deleteAssetRecords(keys: string[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (keys.length === 0) return;
+
+  await db.delete(assets).where(inArray(assets.key, keys));
+}
+
+/** Size and content type of library files by key, for feed enclosures. */
+export async function getAssetDetails(keys: (string | null | undefined)[]) {
+  const db = await getDb();
+  const wanted = Array.from(new Set(keys.filter((key): key is string => !!key)));
+  if (!db || wanted.length === 0) return new Map<string, { size: number; contentType: string }>();
+
+  const rows = await db.select({ key: assets.key, size: assets.size, contentType: assets.contentType })
+    .from(assets).where(inArray(assets.key, wanted));
+  return new Map(rows.map(row => [row.key, { size: row.size, contentType: row.contentType }]));
+}
@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { diskDriver, registerDiskStorageRoutes, resolveKeyPath, signUrl, verifySignature } from "./diskStorage";
+import { createUploadKey, readUpload } from "./uploads";
+
+// Read lazily by the driver, so the directory can be filled in once it exists
+const mockConfig = vi.hoisted(() => ({
+  auth: { jwtSecret: "test-secret" },
+  storage: { provider: "local", local: { directory: "", publicPath: "/uploads", baseUrl: "" } },
+}));
+vi.mock("./_core/config", () => ({ config: mockConfig }));
+
+let server: Server;
+let origin: string;
+
+beforeAll(async () => {
+  mockConfig.storage.local.directory = await fs.mkdtemp(path.join(os.tmpdir(), "disk-storage-"));
+  const app = express();
+  registerDiskStorageRoutes(app);
+  server = app.listen(0);
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.close();
+  await fs.rm(mockConfig.storage.local.directory, { recursive: true, force: true });
+});
+
+describe("resolveKeyPath", () => {
+  it("refuses keys that escape the storage directory", () => {
+    expect(resolveKeyPath("images/a.jpg")).toBe(path.join(mockConfig.storage.local.directory, "images/a.jpg"));
+    expect(() => resolveKeyPath("../secret")).toThrow(/Invalid storage key/);
+    expect(() => resolveKeyPath("images/../../secret")).toThrow(/Invalid storage key/);
+  });
+});
+
+describe("diskDriver", () => {
+  it("writes, reads back and deletes files", async () => {
+    await diskDriver.put("images/abc-photo.jpg", Buffer.from("jpeg"), "image/jpeg");
+    const { data, contentType } = await diskDriver.read("images/abc-photo.jpg");
+    expect(data.toString()).toBe("jpeg");
+    expect(contentType).toBe("image/jpeg");
+    expect(await diskDriver.head("images/abc-photo.jpg")).toEqual({ size: 4, contentType: "image/jpeg" });
+
+    await diskDriver.delete("images/abc-photo.jpg");
+    await expect(diskDriver.read("images/abc-photo.jpg")).rejects.toThrow();
+    // Deleting twice is not an error, as with S3
+    await expect(diskDriver.delete("images/abc-photo.jpg")).resolves.toBeUndefined();
+  });
+
+  it("builds public URLs under the configured path", () => {
+    expect(diskDriver.publicUrl("images/a b.jpg")).toBe("/uploads/images/a%20b.jpg");
+  });
+});
+
+describe("signatures", () => {
+  const request = { method: "PUT" as const, key: "pdfs/x.pdf", expires: 2_000_000_000, contentType: "application/pdf", contentLength: 4 };
+
+  it("verifies only the exact signed request before it expires", () => {
+    const signature = new URL(signUrl(request), origin).searchParams.get("signature")!;
+    expect(verifySignature(request, signature)).toBe(true);
+    expect(verifySignature({ ...request, contentLength: 5 }, signature)).toBe(false);
+    expect(verifySignature({ ...request, contentType: "text/html" }, signature)).toBe(false);
+    expect(verifySignature(request, signature, 2_000_000_001 * 1000)).toBe(false);
+    expect(verifySignature(request, "not-hex")).toBe(false);
+  });
+});
+
+describe("routes", () => {
+  it("accepts a presigned upload and serves the file", async () => {
+    const uploadUrl = await diskDriver.signedUploadUrl("pdfs/paper.pdf", "application/pdf", 60, 4);
+    const put = await fetch(origin + uploadUrl, {
+      method: "PUT",
+      headers: { "Content-Type": "application/pdf" },
+      body: "%PDF",
+    });
+    expect(put.status).toBe(200);
+
+    const get = await fetch(origin + diskDriver.publicUrl("pdfs/paper.pdf"));
+    expect(get.status).toBe(200);
+    expect(await get.text()).toBe("%PDF");
+  });
+
+  it("confirms uploads whose names have no URL-safe characters", async () => {
+    const key = createUploadKey("image", "照片.jpg");
+    const uploadUrl = await diskDriver.signedUploadUrl(key, "image/jpeg", 60, 4);
+    const put = await fetch(origin + uploadUrl, {
+      method: "PUT",
+      headers: { "Content-Type": "image/jpeg" },
+      body: "jpeg",
+    });
+    expect(put.status).toBe(200);
+
+    const upload = await readUpload("image", key);
+    expect(upload.contentType).toBe("image/jpeg");
+  });
+
+  it("rejects uploads that do not match the signature", async () => {
+    const uploadUrl = await diskDriver.signedUploadUrl("pdfs/other.pdf", "application/pdf", 60, 4);
+    const wrongType = await fetch(origin + uploadUrl, {
+      method: "PUT",
+      headers: { "Content-Type": "text/html" },
+      body: "%PDF",
+    });
+    expect(wrongType.status).toBe(403);
+
+    const wrongLength = await fetch(origin + uploadUrl, {
+      method: "PUT",
+      headers: { "Content-Type": "application/pdf" },
+      body: "%PDF-1.7",
+    });
+    expect(wrongLength.status).toBe(400);
+    await expect(fs.access(resolveKeyPath("pdfs/other.pdf"))).rejects.toThrow();
+  });
+
+  it("checks signatures on download URLs", async () => {
+    await diskDriver.put("images/signed.png", Buffer.from("png"), "image/png");
+    const signed = await diskDriver.signedDownloadUrl("images/signed.png", 60);
+    expect((await fetch(origin + signed)).status).toBe(200);
+    expect((await fetch(origin + signed.replace(/signature=\w+/, "signature=00"))).status).toBe(403);
+  });
+
+  it("sandboxes SVG files left from before they were refused", async () => {
+    await diskDriver.put("images/legacy.svg", Buffer.from("<svg><script>alert(1)</script></svg>"), "image/svg+xml");
+    const get = await fetch(origin + diskDriver.publicUrl("images/legacy.svg"));
+    expect(get.headers.get("content-security-policy")).toBe("sandbox");
+    expect(get.headers.get("x-content-type-options")).toBe("nosniff");
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Local Disk Storage Driver
+ *
+ * Keeps files under LOCAL_STORAGE_DIR and serves them from this server at
+ * LOCAL_STORAGE_PUBLIC_PATH, so development and small installs need no
+ * bucket. Presigned URLs are imitated with an HMAC over the method, key,
+ * expiry and (for uploads) content type and length, checked by the routes
+ * registered here.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { createWriteStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { pipeline } from "stream/promises";
+import express, { type Express, type Request, type Response } from "express";
+import { nanoid } from "nanoid";
+import { config } from "./_core/config";
+import type { StorageDriver, StoredObject } from "./storage";
+
+// Content types by extension, standing in for the metadata a bucket keeps
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".gif": "image/gif",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".pdf": "application/pdf",
+};
+
+// ============================================================================
+// Paths and URLs
+// ============================================================================
+
+function storageRoot(): string {
+  return path.resolve(config.storage.local.directory);
+}
+
+/** Absolute path for a key; keys that would escape the storage directory are refused. */
+export function resolveKeyPath(key: string): string {
+  const root = storageRoot();
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+}
+
+export function contentTypeForKey(key: string): string | undefined {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()];
+}
+
+function publicPath(): string {
+  return "/" + config.storage.local.publicPath.replace(/^\/+|\/+$/g, "");
+}
+
+function fileUrl(key: string): string {
+  const baseUrl = (config.storage.local.baseUrl ?? "").replace(/\/+$/, "");
+  const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+  return `${baseUrl}${publicPath()}/${encodedKey}`;
+}
+
+// ============================================================================
+// URL Signing
+// ============================================================================
+
+type SignedRequest = {
+  method: "GET" | "PUT";
+  key: string;
+  /** Unix time in seconds */
+  expires: number;
+  contentType?: string;
+  contentLength?: number;
+};
+
+function sign({ method, key, expires, contentType = "", contentLength }: SignedRequest): string {
+  return createHmac("sha256", config.auth.jwtSecret)
+    .update([method, key, expires, contentType, contentLength ?? ""].join("\n"))
+    .digest("hex");
+}
+
+export function signUrl(request: SignedRequest): string {
+  const params = new URLSearchParams({ expires: String(request.expires), signature: sign(request) });
+  if (request.contentLength !== undefined) params.set("length", String(request.contentLength));
+  return `${fileUrl(request.key)}?${params}`;
+}
+
+export function verifySignature(request: SignedRequest, signature: string, now = Date.now()): boolean {
+  if (request.expires * 1000 < now) return false;
+  const expected = Buffer.from(sign(request), "hex");
+  const given = Buffer.from(signature, "hex");
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+function expiresAt(expiresIn: number): number {
+  return Math.floor(Date.now() / 1000) + expiresIn;
+}
+
+// ============================================================================
+// Driver
+// ============================================================================
+
+export const diskDriver: StorageDriver = {
+  isConfigured() {
+    return Boolean(config.storage.local.directory);
+  },
+
+  async put(key, data) {
+    const filePath = resolveKeyPath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write beside the target and rename, so readers never see half a file;
+    // the leading dot keeps the temporary file out of static serving
+    const tempPath = path.join(path.dirname(filePath), `.${nanoid()}.tmp`);
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  },
+
+  async read(key) {
+    const data = await fs.readFile(resolveKeyPath(key));
+    return { data, contentType: contentTypeForKey(key) };
+  },
+
+  async head(key) {
+    const stats = await fs.stat(resolveKeyPath(key));
+    return { size: stats.size, contentType: contentTypeForKey(key) };
+  },
+
+  async delete(key) {
+    await fs.rm(resolveKeyPath(key), { force: true });
+  },
+
+  async list(prefix) {
+    const root = storageRoot();
+    const objects: StoredObject[] = [];
+    // Walk from the deepest directory the prefix names, then filter by the rest
+    const startDir = path.join(root, prefix.slice(0, prefix.lastIndexOf("/") + 1));
+    const walk = async (dir: string) => {
+      const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        // Temporary files from in-flight writes start with a dot
+        if (entry.name.startsWith(".")) continue;
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.isFile()) {
+          const key = path.relative(root, entryPath).split(path.sep).join("/");
+          if (!key.startsWith(prefix)) continue;
+          const { size, mtime } = await fs.stat(entryPath);
+          objects.push({ key, size, lastModified: mtime });
+        }
+      }
+    };
+    await walk(startDir);
+    return objects;
+  },
+
+  async signedDownloadUrl(key, expiresIn) {
+    return signUrl({ method: "GET", key, expires: expiresAt(expiresIn) });
+  },
+
+  async signedUploadUrl(key, contentType, expiresIn, contentLength) {
+    return signUrl({ method: "PUT", key, expires: expiresAt(expiresIn), contentType, contentLength });
+  },
+
+  publicUrl(key) {
+    return fileUrl(key);
+  },
+};
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+function queryString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+async function handleUpload(req: Request, res: Response) {
+  const key = req.params[0];
+  const expires = Number(queryString(req.query.expires));
+  const length = queryString(req.query.length);
+  const contentLength = length ? Number(length) : undefined;
+  const contentType = req.headers["content-type"] ?? "";
+
+  const signed: SignedRequest = { method: "PUT", key, expires, contentType, contentLength };
+  if (!verifySignature(signed, queryString(req.query.signature))) {
+    res.status(403).json({ error: "Invalid or expired upload URL" });
+    return;
+  }
+  if (contentLength !== undefined && Number(req.headers["content-length"]) !== contentLength) {
+    res.status(400).json({ error: "Body does not match the signed length" });
+    return;
+  }
+
+  let filePath: string;
+  try {
+    filePath = resolveKeyPath(key);
+  } catch {
+    res.status(400).json({ error: "Invalid storage key" });
+    return;
+  }
+
+  const tempPath = path.join(path.dirname(filePath), `.${nanoid()}.tmp`);
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await pipeline(req, createWriteStream(tempPath));
+    const { size } = await fs.stat(tempPath);
+    if (contentLength !== undefined && size !== contentLength) {
+      await fs.rm(tempPath, { force: true });
+      res.status(400).json({ error: "Body does not match the signed length" });
+      return;
+    }
+    await fs.rename(tempPath, filePath);
+    res.status(200).end();
+  } catch (error) {
+    console.error("[Storage] Local upload failed:", error);
+    await fs.rm(tempPath, { force: true }).catch(() => {});
+    res.status(500).json({ error: "Upload failed" });
+  }
+}
+
+/**
+ * Serve stored files and accept presigned uploads. Only registered when the
+ * local driver is in use. Files are public like a public bucket; a signature
+ * on a GET is still checked so signed download URLs expire as they would on S3.
+ */
+export function registerDiskStorageRoutes(app: Express) {
+  if (config.storage.provider !== "local") return;
+
+  const mountPath = publicPath();
+
+  app.put(`${mountPath}/*`, (req, res) => {
+    void handleUpload(req, res);
+  });
+
+  app.use(
+    mountPath,
+    (req, res, next) => {
+      const signature = queryString(req.query.signature);
+      if (!signature) return next();
+
+      const key = decodeURIComponent(req.path.replace(/^\/+/, ""));
+      const expires = Number(queryString(req.query.expires));
+      if (!verifySignature({ method: "GET", key, expires }, signature)) {
+        res.status(403).json({ error: "Invalid or expired download URL" });
+        return;
+      }
+      next();
+    },
+    express.static(storageRoot(), {
+      fallthrough: false,
+      maxAge: "1y",
+      immutable: true,
+      setHeaders: (res, filePath) => {
+        res.setHeader("X-Content-Type-Options", "nosniff");
+        // SVG is no longer accepted, but files stored before then must not run script as the site
+        if (path.extname(filePath).toLowerCase() === ".svg") {
+          res.setHeader("Content-Security-Policy", "sandbox");
+        }
+      },
+    })
+  );
+
+  console.log(`[Storage] Serving local files from ${storageRoot()} at ${mountPath}`);
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { extractPhotoMetadata, joinCameraName } from "./exif";
+
+type Field =
+  | { tag: number; ascii: string }
+  | { tag: number; short: number }
+  | { tag: number; long: number }
+  | { tag: number; rationals: [number, number][] };
+
+/** Little-endian TIFF with IFD0 plus optional Exif and GPS sub-IFDs. */
+function buildTiff(ifd0: Field[], exif: Field[] = [], gps: Field[] = []): Buffer {
+  const chunks: Buffer[] = [];
+  let size = 8;
+  const alloc = (buf: Buffer) => {
+    const offset = size;
+    chunks.push(buf);
+    size += buf.length;
+    return offset;
+  };
+
+  const writeIfd = (fields: Field[]) => {
+    const table = Buffer.alloc(2 + fields.length * 12 + 4);
+    const offset = alloc(table);
+    table.writeUInt16LE(fields.length, 0);
+    fields.forEach((field, i) => {
+      const at = 2 + i * 12;
+      table.writeUInt16LE(field.tag, at);
+      if ("ascii" in field) {
+        const data = Buffer.from(field.ascii + "\0", "latin1");
+        table.writeUInt16LE(2, at + 2);
+        table.writeUInt32LE(data.length, at + 4);
+        if (data.length <= 4) data.copy(table, at + 8);
+        else table.writeUInt32LE(alloc(data), at + 8);
+      } else if ("short" in field) {
+        table.writeUInt16LE(3, at + 2);
+        table.writeUInt32LE(1, at + 4);
+        table.writeUInt16LE(field.short, at + 8);
+      } else if ("long" in field) {
+        table.writeUInt16LE(4, at + 2);
+        table.writeUInt32LE(1, at + 4);
+        table.writeUInt32LE(field.long, at + 8);
+      } else {
+        const data = Buffer.alloc(field.rationals.length * 8);
+        field.rationals.forEach(([n, d], j) => {
+          data.writeUInt32LE(n, j * 8);
+          data.writeUInt32LE(d, j * 8 + 4);
+        });
+        table.writeUInt16LE(5, at + 2);
+        table.writeUInt32LE(field.rationals.length, at + 4);
+        table.writeUInt32LE(alloc(data), at + 8);
+      }
+    });
+    return offset;
+  };
+
+  // Sub-IFDs are written first so IFD0 can point at them
+  const exifOffset = exif.length ? writeIfd(exif) : 0;
+  const gpsOffset = gps.length ? writeIfd(gps) : 0;
+  const ifd0Offset = writeIfd([
+    ...ifd0,
+    ...(exifOffset ? [{ tag: 0x8769, long: exifOffset }] : []),
+    ...(gpsOffset ? [{ tag: 0x8825, long: gpsOffset }] : []),
+  ]);
+
+  const header = Buffer.alloc(8);
+  header.write("II", 0, "latin1");
+  header.writeUInt16LE(42, 2);
+  header.writeUInt32LE(ifd0Offset, 4);
+  return Buffer.concat([header, ...chunks]);
+}
+
+function app1(payload: Buffer): Buffer {
+  const marker = Buffer.from([0xff, 0xe1, 0, 0]);
+  marker.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([marker, payload]);
+}
+
+function buildJpeg(...segments: Buffer[]): Buffer {
+  const scan = Buffer.from([0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), ...segments, scan]);
+}
+
+const cameraTiff = buildTiff(
+  [
+    { tag: 0x010f, ascii: "FUJIFILM" },
+    { tag: 0x0110, ascii: "X-T4" },
+  ],
+  [
+    { tag: 0x829a, rationals: [[1, 250]] },
+    { tag: 0x829d, rationals: [[28, 10]] },
+    { tag: 0x8827, short: 400 },
+    { tag: 0x9003, ascii: "2024:05:01 18:30:00" },
+    { tag: 0x9011, ascii: "+02:00" },
+    { tag: 0x920a, rationals: [[23, 1]] },
+    { tag: 0xa434, ascii: "XF23mmF1.4 R" },
+  ],
+  [
+    { tag: 0x0001, ascii: "N" },
+    { tag: 0x0002, rationals: [[57, 1], [30, 1], [0, 1]] },
+    { tag: 0x0003, ascii: "W" },
+    { tag: 0x0004, rationals: [[4, 1], [15, 1], [36, 1]] },
+  ]
+);
+
+describe("extractPhotoMetadata", () => {
+  it("reads camera, exposure, capture time and GPS from JPEG EXIF", () => {
+    const jpeg = buildJpeg(app1(Buffer.concat([Buffer.from("Exif\0\0", "latin1"), cameraTiff])));
+    expect(extractPhotoMetadata(jpeg)).toEqual({
+      camera: "FUJIFILM X-T4",
+      lens: "XF23mmF1.4 R",
+      exposureTime: 0.004,
+      aperture: 2.8,
+      focalLength: 23,
+      iso: 400,
+      takenAt: "2024-05-01T18:30:00+02:00",
+      latitude: 57.5,
+      longitude: -4.26,
+    });
+  });
+
+  it("fills gaps from XMP when EXIF is missing fields", () => {
+    const xmp = `http://ns.adobe.com/xap/1.0/\0<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF><rdf:Description
+      tiff:Make="Canon" tiff:Model="Canon EOS R5" exif:FNumber="40/10" aux:Lens="RF24-70mm F2.8 L IS USM"
+      exif:DateTimeOriginal="2023-11-02T07:15:30Z" exif:GPSLatitude="35,39.5N">
+      <exif:ISOSpeedRatings><rdf:Seq><rdf:li>800</rdf:li></rdf:Seq></exif:ISOSpeedRatings>
+      </rdf:Description></rdf:RDF></x:xmpmeta>`;
+    const exifOnlyFocal = buildTiff([], [{ tag: 0x920a, rationals: [[50, 1]] }]);
+    const jpeg = buildJpeg(
+      app1(Buffer.concat([Buffer.from("Exif\0\0", "latin1"), exifOnlyFocal])),
+      app1(Buffer.from(xmp, "utf8"))
+    );
+    expect(extractPhotoMetadata(jpeg)).toEqual({
+      camera: "Canon EOS R5",
+      lens: "RF24-70mm F2.8 L IS USM",
+      aperture: 4,
+      focalLength: 50,
+      iso: 800,
+      takenAt: "2023-11-02T07:15:30+00:00",
+      latitude: 35.658333,
+    });
+  });
+
+  it("returns an empty object for images without metadata", () => {
+    expect(extractPhotoMetadata(buildJpeg())).toEqual({});
+    expect(extractPhotoMetadata(Buffer.from("\x89PNG\r\n\x1a\n", "latin1"))).toEqual({});
+  });
+
+  it("does not throw on a truncated EXIF block", () => {
+    const truncated = Buffer.concat([Buffer.from("Exif\0\0", "latin1"), cameraTiff]).subarray(0, cameraTiff.length - 30);
+    const jpeg = buildJpeg(app1(truncated));
+    expect(() => extractPhotoMetadata(jpeg)).not.toThrow();
+  });
+});
+
+describe("joinCameraName", () => {
+  it("avoids repeating the maker", () => {
+    expect(joinCameraName("NIKON CORPORATION", "NIKON Z 6")).toBe("NIKON Z 6");
+    expect(joinCameraName("SONY", "ILCE-7M3")).toBe("SONY ILCE-7M3");
+    expect(joinCameraName(undefined, "X100V")).toBe("X100V");
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * EXIF / XMP Extraction
+ *
+ * Reads the camera metadata the photo form cares about straight from an
+ * uploaded image buffer. EXIF comes from the JPEG APP1 segment (or a bare
+ * TIFF); an embedded XMP packet fills in anything EXIF leaves out, which
+ * also covers PNG and WebP exports from Lightroom and friends.
+ *
+ * Parsing is best effort: malformed or truncated metadata yields whatever
+ * was read before the problem, never an error.
+ */
+
+import type { PhotoMetadata } from "@shared/photoMetadata";
+
+// ============================================================================
+// TIFF / EXIF
+// ============================================================================
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  focalLength: 0x920a,
+  lensModel: 0xa434,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+} as const;
+
+// Byte size of each TIFF field type, indexed by type id
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type IfdEntry = { type: number; count: number; valueOffset: number };
+
+class TiffReader {
+  constructor(
+    private readonly buf: Buffer,
+    private readonly base: number,
+    private readonly little: boolean
+  ) {}
+
+  static open(buf: Buffer, base: number): TiffReader | null {
+    if (base + 8 > buf.length) return null;
+    const order = buf.toString("latin1", base, base + 2);
+    if (order !== "II" && order !== "MM") return null;
+    const reader = new TiffReader(buf, base, order === "II");
+    return reader.u16(2) === 42 ? reader : null;
+  }
+
+  private check(offset: number, size: number) {
+    if (offset < 0 || this.base + offset + size > this.buf.length) {
+      throw new RangeError("TIFF offset out of range");
+    }
+  }
+
+  u16(offset: number): number {
+    this.check(offset, 2);
+    const at = this.base + offset;
+    return this.little ? this.buf.readUInt16LE(at) : this.buf.readUInt16BE(at);
+  }
+
+  u32(offset: number): number {
+    this.check(offset, 4);
+    const at = this.base + offset;
+    return this.little ? this.buf.readUInt32LE(at) : this.buf.readUInt32BE(at);
+  }
+
+  i32(offset: number): number {
+    this.check(offset, 4);
+    const at = this.base + offset;
+    return this.little ? this.buf.readInt32LE(at) : this.buf.readInt32BE(at);
+  }
+
+  firstIfdOffset(): number {
+    return this.u32(4);
+  }
+
+  readIfd(offset: number): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>();
+    const count = this.u16(offset);
+    for (let i = 0; i < count; i++) {
+      const at = offset + 2 + i * 12;
+      const tag = this.u16(at);
+      const type = this.u16(at + 2);
+      const valueCount = this.u32(at + 4);
+      const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+      if (size === 0) continue;
+      // Values of four bytes or less are stored inline
+      const valueOffset = size <= 4 ? at + 8 : this.u32(at + 8);
+      entries.set(tag, { type, count: valueCount, valueOffset });
+    }
+    return entries;
+  }
+
+  ascii(entry: IfdEntry | undefined): string | undefined {
+    if (!entry || entry.type !== 2) return undefined;
+    this.check(entry.valueOffset, entry.count);
+    const start = this.base + entry.valueOffset;
+    const value = this.buf.toString("latin1", start, start + entry.count).replace(/\0[\s\S]*$/, "").trim();
+    return value || undefined;
+  }
+
+  numbers(entry: IfdEntry | undefined): number[] {
+    if (!entry) return [];
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      switch (entry.type) {
+        case 3:
+          values.push(this.u16(entry.valueOffset + i * 2));
+          break;
+        case 4:
+          values.push(this.u32(entry.valueOffset + i * 4));
+          break;
+        case 9:
+          values.push(this.i32(entry.valueOffset + i * 4));
+          break;
+        case 5:
+        case 10: {
+          const at = entry.valueOffset + i * 8;
+          const read = entry.type === 5 ? this.u32.bind(this) : this.i32.bind(this);
+          const denominator = read(at + 4);
+          if (denominator !== 0) values.push(read(at) / denominator);
+          break;
+        }
+        default:
+          return values;
+      }
+    }
+    return values;
+  }
+
+  number(entry: IfdEntry | undefined): number | undefined {
+    return this.numbers(entry)[0];
+  }
+}
+
+function positive(value: number | undefined): number | undefined {
+  return value !== undefined && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function round(value: number | undefined, digits: number): number | undefined {
+  return value === undefined ? undefined : Number(value.toFixed(digits));
+}
+
+/** Prefer the model alone when it already names the maker ("Canon EOS R5"). */
+export function joinCameraName(make?: string, model?: string): string | undefined {
+  if (!model) return make;
+  if (!make || model.toLowerCase().startsWith(make.split(/\s+/)[0].toLowerCase())) return model;
+  return `${make} ${model}`;
+}
+
+/** "2024:05:01 18:30:00" plus an optional "+02:00" offset → ISO-style local time. */
+function normalizeExifDate(value: string | undefined, offset?: string): string | undefined {
+  const match = value?.match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === "0000") return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : "";
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+}
+
+function toDecimalDegrees(parts: number[], ref: string | undefined): number | undefined {
+  if (parts.length === 0) return undefined;
+  const [degrees, minutes = 0, seconds = 0] = parts;
+  const value = degrees + minutes / 60 + seconds / 3600;
+  return round(ref === "S" || ref === "W" ? -value : value, 6);
+}
+
+/** Fills `metadata` as it goes so a bad offset late in the file keeps earlier fields. */
+function readTiffMetadata(tiff: TiffReader, metadata: PhotoMetadata) {
+  const ifd0 = tiff.readIfd(tiff.firstIfdOffset());
+  metadata.camera = joinCameraName(tiff.ascii(ifd0.get(TAG.make)), tiff.ascii(ifd0.get(TAG.model)));
+  metadata.takenAt = normalizeExifDate(tiff.ascii(ifd0.get(TAG.dateTime)));
+
+  const exifOffset = tiff.number(ifd0.get(TAG.exifIfd));
+  if (exifOffset) {
+    const exif = tiff.readIfd(exifOffset);
+    metadata.lens = tiff.ascii(exif.get(TAG.lensModel));
+    metadata.exposureTime = positive(tiff.number(exif.get(TAG.exposureTime)));
+    metadata.aperture = round(positive(tiff.number(exif.get(TAG.fNumber))), 1);
+    metadata.focalLength = round(positive(tiff.number(exif.get(TAG.focalLength))), 1);
+    metadata.iso = positive(tiff.number(exif.get(TAG.iso)));
+    metadata.takenAt =
+      normalizeExifDate(tiff.ascii(exif.get(TAG.dateTimeOriginal)), tiff.ascii(exif.get(TAG.offsetTimeOriginal))) ??
+      metadata.takenAt;
+  }
+
+  const gpsOffset = tiff.number(ifd0.get(TAG.gpsIfd));
+  if (gpsOffset) {
+    const gps = tiff.readIfd(gpsOffset);
+    metadata.latitude = toDecimalDegrees(tiff.numbers(gps.get(TAG.gpsLatitude)), tiff.ascii(gps.get(TAG.gpsLatitudeRef)));
+    metadata.longitude = toDecimalDegrees(tiff.numbers(gps.get(TAG.gpsLongitude)), tiff.ascii(gps.get(TAG.gpsLongitudeRef)));
+  }
+}
+
+// ============================================================================
+// XMP
+// ============================================================================
+
+const XMP_NAMESPACE = "http://ns.adobe.com/xap/1.0/\0";
+
+/** Attribute or element value of a qualified XMP property; the first rdf:li for arrays. */
+function xmpProperty(xmp: string, name: string): string | undefined {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const attribute = xmp.match(new RegExp(`\\b${escaped}="([^"]*)"`));
+  if (attribute) return attribute[1].trim() || undefined;
+  const element = xmp.match(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`));
+  if (!element) return undefined;
+  const item = element[1].match(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/);
+  const value = (item ? item[1] : element[1]).replace(/<[^>]+>/g, "").trim();
+  return value || undefined;
+}
+
+function parseRational(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const [numerator, denominator] = value.split("/").map(Number);
+  const result = denominator === undefined ? numerator : numerator / denominator;
+  return positive(result);
+}
+
+/** XMP GPS coordinates look like "51,30.1234N" or "51,30,7.4N". */
+function parseXmpCoordinate(value: string | undefined): number | undefined {
+  const match = value?.match(/^([\d.,]+)([NSEW])$/i);
+  if (!match) return undefined;
+  const parts = match[1].split(",").map(Number);
+  if (parts.some(part => !Number.isFinite(part))) return undefined;
+  return toDecimalDegrees(parts, match[2].toUpperCase());
+}
+
+function readXmpMetadata(xmp: string): PhotoMetadata {
+  const date = xmpProperty(xmp, "exif:DateTimeOriginal") ?? xmpProperty(xmp, "xmp:CreateDate");
+  const zone = date?.match(/(?:Z|[+-]\d{2}:\d{2})$/)?.[0];
+  return {
+    camera: joinCameraName(xmpProperty(xmp, "tiff:Make"), xmpProperty(xmp, "tiff:Model")),
+    lens: xmpProperty(xmp, "exifEX:LensModel") ?? xmpProperty(xmp, "aux:Lens"),
+    exposureTime: parseRational(xmpProperty(xmp, "exif:ExposureTime")),
+    aperture: round(parseRational(xmpProperty(xmp, "exif:FNumber")), 1),
+    focalLength: round(parseRational(xmpProperty(xmp, "exif:FocalLength")), 1),
+    iso: parseRational(xmpProperty(xmp, "exif:ISOSpeedRatings") ?? xmpProperty(xmp, "exifEX:PhotographicSensitivity")),
+    takenAt: normalizeExifDate(date, zone === "Z" ? "+00:00" : zone),
+    latitude: parseXmpCoordinate(xmpProperty(xmp, "exif:GPSLatitude")),
+    longitude: parseXmpCoordinate(xmpProperty(xmp, "exif:GPSLongitude")),
+  };
+}
+
+function findXmpPacket(buffer: Buffer): string | undefined {
+  const start = buffer.indexOf("<x:xmpmeta");
+  if (start === -1) return undefined;
+  const end = buffer.indexOf("</x:xmpmeta>", start);
+  if (end === -1) return undefined;
+  return buffer.toString("utf8", start, end + "</x:xmpmeta>".length);
+}
+
+// ============================================================================
+// Containers
+// ============================================================================
+
+type Segments = { tiff?: TiffReader; xmp?: string };
+
+function readJpegSegments(buffer: Buffer): Segments {
+  const segments: Segments = {};
+  let pos = 2;
+  while (pos + 4 <= buffer.length && buffer[pos] === 0xff) {
+    const marker = buffer[pos + 1];
+    // Start of scan / end of image: no more metadata segments follow
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = buffer.readUInt16BE(pos + 2);
+    const dataStart = pos + 4;
+    if (marker === 0xe1) {
+      if (buffer.toString("latin1", dataStart, dataStart + 6) === "Exif\0\0") {
+        segments.tiff ??= TiffReader.open(buffer, dataStart + 6) ?? undefined;
+      } else if (buffer.toString("latin1", dataStart, dataStart + XMP_NAMESPACE.length) === XMP_NAMESPACE) {
+        segments.xmp ??= buffer.toString("utf8", dataStart + XMP_NAMESPACE.length, pos + 2 + length);
+      }
+    }
+    pos += 2 + length;
+  }
+  return segments;
+}
+
+function mergeMetadata(primary: PhotoMetadata, fallback: PhotoMetadata): PhotoMetadata {
+  const merged: PhotoMetadata = {};
+  for (const key of Object.keys({ ...primary, ...fallback }) as (keyof PhotoMetadata)[]) {
+    const value = primary[key] ?? fallback[key];
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+  }
+  return merged;
+}
+
+/**
+ * Extract camera metadata from an image buffer. Returns an empty object for
+ * images without (readable) EXIF or XMP.
+ */
+export function extractPhotoMetadata(buffer: Buffer): PhotoMetadata {
+  let segments: Segments = {};
+  if (buffer.length > 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    try {
+      segments = readJpegSegments(buffer);
+    } catch {
+      // Truncated segment table; fall through with whatever was found
+    }
+  } else {
+    segments.tiff = TiffReader.open(buffer, 0) ?? undefined;
+  }
+
+  const exif: PhotoMetadata = {};
+  if (segments.tiff) {
+    try {
+      readTiffMetadata(segments.tiff, exif);
+    } catch {
+      // Keep the fields read before the bad offset
+    }
+  }
+
+  const xmp = segments.xmp ?? findXmpPacket(buffer);
+  return mergeMetadata(exif, xmp ? readXmpMetadata(xmp) : {});
+}
@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { absolutizeHtml, registerFeedRoutes, renderAtom, renderJsonFeed, renderRss, type Feed } from "./feeds";
+
+vi.mock("./_core/config", () => ({ config: { server: { siteUrl: "https://orpheus.test" } } }));
+vi.mock("./db", () => ({
+  getLatestPublished: vi.fn().mockResolvedValue({
+    essays: [{
+      slug: "winter",
+      title: "Winter",
+      subtitle: null,
+      excerpt: "Snow",
+      content: "## Heading\n\n![](/uploads/snow.jpg)",
+      coverImageUrl: null,
+      publishedAt: new Date("2024-01-02T00:00:00Z"),
+      createdAt: new Date("2024-01-01T00:00:00Z"),
+      updatedAt: new Date("2024-01-03T00:00:00Z"),
+      tags: [{ name: "Seasons", slug: "seasons" }],
+    }],
+    papers: [],
+    photos: [],
+  }),
+  getAssetDetails: vi.fn().mockResolvedValue(new Map()),
+}));
+
+let server: Server;
+let origin: string;
+
+beforeAll(() => {
+  const app = express();
+  registerFeedRoutes(app);
+  server = app.listen(0);
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const feed: Feed = {
+  title: "Orpheus · Academic",
+  description: "Papers",
+  homeUrl: "https://orpheus.test/academic",
+  updated: new Date("2024-05-02T08:00:00Z"),
+  items: [{
+    url: "https://orpheus.test/academic/signs-&-symbols",
+    title: "Signs & <Symbols>",
+    summary: "An abstract",
+    contentHtml: "<p>Body with ]]> inside</p>",
+    published: new Date("2024-05-01T08:00:00Z"),
+    updated: new Date("2024-05-02T08:00:00Z"),
+    authors: ["Orpheus D."],
+    tags: ["Semiotics"],
+    imageUrl: null,
+    enclosure: { url: "https://files.test/pdfs/a.pdf", type: "application/pdf", length: 1234 },
+  }],
+};
+
+describe("renderRss", () => {
+  it("escapes text and keeps the HTML body intact", () => {
+    const xml = renderRss(feed, "https://orpheus.test/feeds/papers.xml");
+    expect(xml).toContain("<title>Signs &amp; &lt;Symbols&gt;</title>");
+    expect(xml).toContain("<content:encoded><![CDATA[<p>Body with ]]]]><![CDATA[> inside</p>]]></content:encoded>");
+    expect(xml).toContain('<enclosure url="https://files.test/pdfs/a.pdf" length="1234" type="application/pdf"/>');
+    expect(xml).toContain("<pubDate>Wed, 01 May 2024 08:00:00 GMT</pubDate>");
+    expect(xml).toContain('<atom:link href="https://orpheus.test/feeds/papers.xml" rel="self" type="application/rss+xml"/>');
+  });
+});
+
+describe("renderAtom", () => {
+  it("uses ISO dates and attaches the enclosure as a link", () => {
+    const xml = renderAtom(feed, "https://orpheus.test/feeds/papers.atom");
+    expect(xml).toContain("<updated>2024-05-02T08:00:00.000Z</updated>");
+    expect(xml).toContain("<id>https://orpheus.test/academic/signs-&amp;-symbols</id>");
+    expect(xml).toContain('<link rel="enclosure" href="https://files.test/pdfs/a.pdf" type="application/pdf" length="1234"/>');
+    expect(xml).toContain('<content type="html">&lt;p&gt;Body with ]]&gt; inside&lt;/p&gt;</content>');
+  });
+});
+
+describe("renderJsonFeed", () => {
+  it("follows JSON Feed 1.1", () => {
+    const json = JSON.parse(renderJsonFeed(feed, "https://orpheus.test/feeds/papers.json"));
+    expect(json.version).toBe("https://jsonfeed.org/version/1.1");
+    expect(json.feed_url).toBe("https://orpheus.test/feeds/papers.json");
+    expect(json.items[0]).toMatchObject({
+      id: "https://orpheus.test/academic/signs-&-symbols",
+      authors: [{ name: "Orpheus D." }],
+      attachments: [{ url: "https://files.test/pdfs/a.pdf", mime_type: "application/pdf", size_in_bytes: 1234 }],
+    });
+    expect(json.items[0]).not.toHaveProperty("image");
+  });
+});
+
+describe("absolutizeHtml", () => {
+  it("resolves site-relative links and heading anchors", () => {
+    expect(absolutizeHtml(
+      '<a href="#intro">#</a><img src="/uploads/a.jpg"><a href="//cdn.test/x">x</a>',
+      "https://orpheus.test",
+      "https://orpheus.test/magazine/essay"
+    )).toBe('<a href="https://orpheus.test/magazine/essay#intro">#</a><img src="https://orpheus.test/uploads/a.jpg"><a href="//cdn.test/x">x</a>');
+  });
+});
+
+describe("routes", () => {
+  it("serves each format with caching headers and honours conditional requests", async () => {
+    const rss = await fetch(`${origin}/feeds/essays.xml`);
+    expect(rss.status).toBe(200);
+    expect(rss.headers.get("content-type")).toBe("application/rss+xml; charset=utf-8");
+    expect(rss.headers.get("cache-control")).toBe("public, max-age=900");
+    expect(rss.headers.get("last-modified")).toBe("Wed, 03 Jan 2024 00:00:00 GMT");
+    const body = await rss.text();
+    expect(body).toContain("<link>https://orpheus.test/magazine/winter</link>");
+    expect(body).toContain('src="https://orpheus.test/uploads/snow.jpg"');
+
+    // fetch() would otherwise add "Cache-Control: no-cache" to a conditional request
+    const again = await fetch(`${origin}/feeds/essays.xml`, {
+      headers: { "If-None-Match": rss.headers.get("etag")!, "Cache-Control": "max-age=0" },
+    });
+    expect(again.status).toBe(304);
+
+    const json = await fetch(`${origin}/feeds/all.json`);
+    expect(json.headers.get("content-type")).toBe("application/feed+json; charset=utf-8");
+    expect((await json.json()).items).toHaveLength(1);
+    expect((await (await fetch(`${origin}/feeds/photos.atom`)).text())).not.toContain("<entry>");
+  });
+
+  it("404s unknown feeds and formats", async () => {
+    expect((await fetch(`${origin}/feeds/drafts.xml`)).status).toBe(404);
+    expect((await fetch(`${origin}/feeds/all.txt`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Syndication Feeds
+ *
+ * RSS 2.0, Atom and JSON Feed 1.1 editions of four feeds: essays with their
+ * full rendered text, papers with the abstract and PDF attached, photos with
+ * the image attached, and all three combined. Served at
+ * /feeds/<all|essays|papers|photos>.<xml|atom|json>.
+ */
+
+import type { Express, Request, Response } from "express";
+import * as db from "./db";
+import { renderMarkdown } from "./markdown";
+import { SITE_NAME, SITE_TAGLINE, absoluteUrl, siteOrigin } from "./site";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const FEED_NAMES = ["all", "essays", "papers", "photos"] as const;
+
+export type FeedName = (typeof FEED_NAMES)[number];
+
+export type FeedEnclosure = {
+  url: string;
+  type: string;
+  /** Bytes; 0 when unknown, as RSS readers expect. */
+  length: number;
+};
+
+export type FeedItem = {
+  /** Absolute permalink, also used as the item's id. */
+  url: string;
+  title: string;
+  /** Plain-text summary. */
+  summary: string | null;
+  contentHtml: string;
+  published: Date;
+  updated: Date;
+  authors: string[];
+  tags: string[];
+  imageUrl: string | null;
+  enclosure: FeedEnclosure | null;
+};
+
+export type Feed = {
+  title: string;
+  description: string;
+  homeUrl: string;
+  updated: Date;
+  items: FeedItem[];
+};
+
+// Items per feed
+const FEED_SIZE = 20;
+
+// Feed readers poll often; a short shared cache spares the database
+const FEED_MAX_AGE_SECONDS = 15 * 60;
+
+const FEED_DETAILS: Record<FeedName, { title: string; path: string }> = {
+  all: { title: SITE_NAME, path: "/" },
+  essays: { title: `${SITE_NAME} · Magazine`, path: "/magazine" },
+  papers: { title: `${SITE_NAME} · Academic`, path: "/academic" },
+  photos: { title: `${SITE_NAME} · Photography`, path: "/photography" },
+};
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** HTML carried verbatim; a literal "]]>" is split across two sections. */
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+export function renderRss(feed: Feed, selfUrl: string): string {
+  const items = feed.items.map(item => [
+    "    <item>",
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+    `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+    ...item.authors.map(author => `      <dc:creator>${escapeXml(author)}</dc:creator>`),
+    ...(item.summary ? [`      <description>${escapeXml(item.summary)}</description>`] : []),
+    `      <content:encoded>${cdata(item.contentHtml)}</content:encoded>`,
+    ...item.tags.map(tag => `      <category>${escapeXml(tag)}</category>`),
+    ...(item.enclosure
+      ? [`      <enclosure url="${escapeXml(item.enclosure.url)}" length="${item.enclosure.length}" type="${escapeXml(item.enclosure.type)}"/>`]
+      : []),
+    "    </item>",
+  ].join("\n"));
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">`,
+    "  <channel>",
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+export function renderAtom(feed: Feed, selfUrl: string): string {
+  const entries = feed.items.map(item => [
+    "  <entry>",
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <id>${escapeXml(item.url)}</id>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+    `    <published>${item.published.toISOString()}</published>`,
+    `    <updated>${item.updated.toISOString()}</updated>`,
+    ...item.authors.map(author => `    <author><name>${escapeXml(author)}</name></author>`),
+    ...(item.summary ? [`    <summary>${escapeXml(item.summary)}</summary>`] : []),
+    `    <content type="html">${escapeXml(item.contentHtml)}</content>`,
+    ...item.tags.map(tag => `    <category term="${escapeXml(tag)}"/>`),
+    ...(item.enclosure
+      ? [`    <link rel="enclosure" href="${escapeXml(item.enclosure.url)}" type="${escapeXml(item.enclosure.type)}" length="${item.enclosure.length}"/>`]
+      : []),
+    "  </entry>",
+  ].join("\n"));
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <id>${escapeXml(feed.homeUrl)}</id>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(selfUrl)}"/>`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    // Entries without their own author inherit this one
+    `  <author><name>${escapeXml(SITE_NAME)}</name></author>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+export function renderJsonFeed(feed: Feed, selfUrl: string): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    home_page_url: feed.homeUrl,
+    feed_url: selfUrl,
+    description: feed.description,
+    authors: [{ name: SITE_NAME }],
+    items: feed.items.map(item => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      content_html: item.contentHtml,
+      summary: item.summary ?? undefined,
+      image: item.imageUrl ?? undefined,
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      authors: item.authors.length > 0 ? item.authors.map(name => ({ name })) : undefined,
+      tags: item.tags.length > 0 ? item.tags : undefined,
+      attachments: item.enclosure
+        ? [{
+            url: item.enclosure.url,
+            mime_type: item.enclosure.type,
+            size_in_bytes: item.enclosure.length || undefined,
+          }]
+        : undefined,
+    })),
+  }, null, 2);
+}
+
+const FEED_FORMATS = {
+  xml: { contentType: "application/rss+xml; charset=utf-8", render: renderRss },
+  atom: { contentType: "application/atom+xml; charset=utf-8", render: renderAtom },
+  json: { contentType: "application/feed+json; charset=utf-8", render: renderJsonFeed },
+};
+
+type FeedFormat = keyof typeof FEED_FORMATS;
+
+// ============================================================================
+// Items
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Plain text as HTML paragraphs, one per blank-line-separated block. */
+function paragraphs(text: string | null | undefined): string {
+  return (text ?? "")
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => `<p>${escapeHtml(block).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+/**
+ * Point site-relative links and images at the site, and heading anchors
+ * at the item's own page, since feed readers show the HTML elsewhere.
+ */
+export function absolutizeHtml(html: string, origin: string, itemUrl: string): string {
+  return html
+    .replace(/(\s(?:src|href)=")\/(?!\/)/g, `$1${origin}/`)
+    .replace(/(\shref=")#/g, `$1${itemUrl}#`);
+}
+
+/** Guess an image type from its URL when the media library has no record of it. */
+function imageType(url: string): string {
+  const extension = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "png": return "image/png";
+    case "gif": return "image/gif";
+    case "webp": return "image/webp";
+    case "avif": return "image/avif";
+    default: return "image/jpeg";
+  }
+}
+
+type Latest = Awaited<ReturnType<typeof db.getLatestPublished>>;
+type AssetDetails = Awaited<ReturnType<typeof db.getAssetDetails>>;
+
+async function essayItems(essays: Latest["essays"], origin: string): Promise<FeedItem[]> {
+  return await Promise.all(essays.map(async (essay): Promise<FeedItem> => {
+    const url = absoluteUrl(origin, `/magazine/${essay.slug}`);
+    const { html } = await renderMarkdown(essay.content);
+    const imageUrl = essay.coverImageUrl ? absoluteUrl(origin, essay.coverImageUrl) : null;
+    const cover = imageUrl ? `<p><img src="${escapeHtml(imageUrl)}" alt=""></p>\n` : "";
+    return {
+      url,
+      title: essay.title,
+      summary: essay.excerpt ?? essay.subtitle,
+      contentHtml: cover + absolutizeHtml(html, origin, url),
+      published: essay.publishedAt ?? essay.createdAt,
+      updated: essay.updatedAt,
+      authors: [],
+      tags: essay.tags.map(tag => tag.name),
+      imageUrl,
+      enclosure: null,
+    };
+  }));
+}
+
+function paperItems(papers: Latest["papers"], origin: string, files: AssetDetails): FeedItem[] {
+  return papers.map((paper): FeedItem => {
+    const url = absoluteUrl(origin, `/academic/${paper.slug}`);
+    const pdfUrl = paper.pdfUrl ? absoluteUrl(origin, paper.pdfUrl) : null;
+    const authors = paper.authors.split(",").map(author => author.trim()).filter(Boolean);
+    const citation = [paper.authors, paper.journal, paper.year].filter(Boolean).join(" · ");
+    return {
+      url,
+      title: paper.title,
+      summary: paper.abstract,
+      contentHtml: [
+        `<p><em>${escapeHtml(citation)}</em></p>`,
+        paragraphs(paper.abstract),
+        pdfUrl ? `<p><a href="${escapeHtml(pdfUrl)}">PDF</a></p>` : "",
+      ].filter(Boolean).join("\n"),
+      published: paper.publishedAt ?? paper.createdAt,
+      updated: paper.updatedAt,
+      authors,
+      tags: paper.tags.map(tag => tag.name),
+      imageUrl: null,
+      enclosure: pdfUrl
+        ? { url: pdfUrl, type: "application/pdf", length: (paper.pdfKey && files.get(paper.pdfKey)?.size) || 0 }
+        : null,
+    };
+  });
+}
+
+function photoItems(photos: Latest["photos"], origin: string, files: AssetDetails): FeedItem[] {
+  return photos.map((photo): FeedItem => {
+    const url = absoluteUrl(origin, `/photography/${photo.slug}`);
+    const imageUrl = absoluteUrl(origin, photo.imageUrl);
+    const file = photo.imageKey ? files.get(photo.imageKey) : undefined;
+    return {
+      url,
+      title: photo.title,
+      summary: photo.description,
+      contentHtml: [
+        `<p><img src="${escapeHtml(imageUrl)}" alt="${escapeHtml(photo.title)}"></p>`,
+        photo.location ? `<p><em>${escapeHtml(photo.location)}</em></p>` : "",
+        paragraphs(photo.description),
+      ].filter(Boolean).join("\n"),
+      published: photo.publishedAt ?? photo.createdAt,
+      updated: photo.updatedAt,
+      authors: [],
+      tags: photo.tags.map(tag => tag.name),
+      imageUrl,
+      enclosure: { url: imageUrl, type: file?.contentType ?? imageType(imageUrl), length: file?.size ?? 0 },
+    };
+  });
+}
+
+async function buildFeed(name: FeedName, origin: string): Promise<Feed> {
+  const latest = await db.getLatestPublished(FEED_SIZE);
+  const wanted = (feed: FeedName) => name === "all" || name === feed;
+
+  const files = await db.getAssetDetails([
+    ...(wanted("papers") ? latest.papers.map(paper => paper.pdfKey) : []),
+    ...(wanted("photos") ? latest.photos.map(photo => photo.imageKey) : []),
+  ]);
+  const items = [
+    ...(wanted("essays") ? await essayItems(latest.essays, origin) : []),
+    ...(wanted("papers") ? paperItems(latest.papers, origin, files) : []),
+    ...(wanted("photos") ? photoItems(latest.photos, origin, files) : []),
+  ]
+    .sort((a, b) => b.published.getTime() - a.published.getTime())
+    .slice(0, FEED_SIZE);
+
+  const { title, path } = FEED_DETAILS[name];
+  return {
+    title,
+    description: SITE_TAGLINE,
+    homeUrl: absoluteUrl(origin, path),
+    updated: items.reduce<Date | null>(
+      (latestUpdate, item) => (!latestUpdate || item.updated > latestUpdate ? item.updated : latestUpdate),
+      null
+    ) ?? new Date(),
+    items,
+  };
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+function isFeedName(value: string): value is FeedName {
+  return (FEED_NAMES as readonly string[]).includes(value);
+}
+
+function isFeedFormat(value: string): value is FeedFormat {
+  return Object.hasOwn(FEED_FORMATS, value);
+}
+
+async function serveFeed(req: Request, res: Response) {
+  const { name, format } = req.params;
+  if (!isFeedName(name) || !isFeedFormat(format)) {
+    res.status(404).json({ error: "Unknown feed" });
+    return;
+  }
+
+  try {
+    const origin = siteOrigin(req);
+    const feed = await buildFeed(name, origin);
+    const { contentType, render } = FEED_FORMATS[format];
+    res.set({
+      "Content-Type": contentType,
+      "Cache-Control": `public, max-age=${FEED_MAX_AGE_SECONDS}`,
+      "Last-Modified": feed.updated.toUTCString(),
+    });
+    // Express adds an ETag and answers conditional requests with 304
+    res.send(render(feed, absoluteUrl(origin, `/feeds/${name}.${format}`)));
+  } catch (error) {
+    console.error("[Feeds] Failed to build feed:", error);
+    res.status(500).json({ error: "Failed to build feed" });
+  }
+}
+
+export function registerFeedRoutes(app: Express) {
+  app.get("/feeds/:name.:format", (req, res) => {
+    void serveFeed(req, res);
+  });
+}
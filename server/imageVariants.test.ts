@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+import sharp from "sharp";
+import { describeImage, isVariantKeyOf, storeImageVariants, variantKey, variantWidths } from "./imageVariants";
+import { buildSrcSet, pickVariant, type ImageVariant } from "../shared/imageVariants";
+
+// Capture uploads instead of talking to S3
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://cdn.test/${key}` })),
+}));
+
+describe("variantWidths", () => {
+  it("never enlarges and keeps the original width when it is in range", () => {
+    expect(variantWidths(6000)).toEqual([480, 960, 1600, 2400]);
+    expect(variantWidths(1200)).toEqual([480, 960, 1200]);
+    expect(variantWidths(300)).toEqual([300]);
+  });
+});
+
+describe("variantKey", () => {
+  it("derives a sibling key from the original", () => {
+    expect(variantKey("images/abc-photo.jpg", 960, "avif")).toBe("images/abc-photo.w960.avif");
+    expect(variantKey("images/v1.2/scan", 480, "webp")).toBe("images/v1.2/scan.w480.webp");
+  });
+
+  it("recognises variants of an original at any width", () => {
+    expect(isVariantKeyOf("images/abc-photo.w1200.webp", "images/abc-photo.jpg")).toBe(true);
+    expect(isVariantKeyOf("images/abc-photo.w480.avif", "images/abc-photo.jpg")).toBe(true);
+    expect(isVariantKeyOf("images/abc-photo.w480.png", "images/abc-photo.jpg")).toBe(false);
+    expect(isVariantKeyOf("images/abc-photo.wide.webp", "images/abc-photo.jpg")).toBe(false);
+    expect(isVariantKeyOf("images/abc-photo2.w480.webp", "images/abc-photo.jpg")).toBe(false);
+  });
+});
+
+describe("storeImageVariants", () => {
+  it("stores every width in every format", async () => {
+    const source = await sharp({ create: { width: 1000, height: 500, channels: 3, background: "#336699" } })
+      .jpeg()
+      .toBuffer();
+    const variants = await storeImageVariants("images/abc-wide.jpg", source, "image/jpeg");
+    expect(variants.map(v => `${v.width}x${v.height}.${v.format}`)).toEqual([
+      "480x240.avif",
+      "480x240.webp",
+      "960x480.avif",
+      "960x480.webp",
+      "1000x500.avif",
+      "1000x500.webp",
+    ]);
+    expect(variants[0].url).toBe("https://cdn.test/images/abc-wide.w480.avif");
+  });
+
+  it("skips types that are served as uploaded", async () => {
+    expect(await storeImageVariants("images/logo.svg", Buffer.from("<svg/>"), "image/svg+xml")).toEqual([]);
+  });
+});
+
+describe("srcset helpers", () => {
+  const variants: ImageVariant[] = [
+    { format: "webp", width: 960, height: 640, url: "b.webp" },
+    { format: "avif", width: 480, height: 320, url: "a.avif" },
+    { format: "webp", width: 480, height: 320, url: "a.webp" },
+  ];
+
+  it("lists one format smallest first", () => {
+    expect(buildSrcSet(variants, "webp")).toBe("a.webp 480w, b.webp 960w");
+    expect(buildSrcSet([], "avif")).toBe("");
+  });
+
+  it("picks the smallest variant that covers the target width", () => {
+    expect(pickVariant(variants, 600)?.url).toBe("b.webp");
+    expect(pickVariant(variants, 4000)?.url).toBe("b.webp");
+  });
+});
+
+describe("describeImage", () => {
+  it("reports upright dimensions and a small data URI placeholder", async () => {
+    // EXIF orientation 6 means the stored 400x200 pixels display as 200x400
+    const source = await sharp({ create: { width: 400, height: 200, channels: 3, background: "#993366" } })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+    const info = await describeImage(source, "image/jpeg");
+    expect(info).toMatchObject({ width: 200, height: 400 });
+    expect(info?.placeholder).toMatch(/^data:image\/webp;base64,/);
+    expect(info!.placeholder.length).toBeLessThan(400);
+  });
+
+  it("returns null for types that are served as uploaded", async () => {
+    expect(await describeImage(Buffer.from("<svg/>"), "image/svg+xml")).toBeNull();
+  });
+});
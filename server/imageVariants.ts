@@ -0,0 +1,121 @@
+/**
+ * Image Variant Pipeline
+ *
+ * Re-encodes an uploaded image at the widths in IMAGE_VARIANT_WIDTHS, once
+ * per modern format, and stores each file under a key derived from the
+ * original ("images/abc-photo.jpg" → "images/abc-photo.w960.avif").
+ * Also measures the image and renders the blurred placeholder shown while
+ * it loads.
+ */
+
+import sharp, { type AvifOptions, type WebpOptions } from "sharp";
+import {
+  IMAGE_VARIANT_FORMATS,
+  IMAGE_VARIANT_MIME_TYPES,
+  IMAGE_VARIANT_WIDTHS,
+  type ImageInfo,
+  type ImageVariant,
+  type ImageVariantFormat,
+} from "@shared/imageVariants";
+import { storagePut } from "./storage";
+
+// Vector and animated images are served as uploaded
+const RESIZABLE_TYPES = new Set(["image/jpeg", "image/png", "image/webp", "image/avif", "image/tiff"]);
+
+const ENCODER_OPTIONS: Record<ImageVariantFormat, AvifOptions | WebpOptions> = {
+  avif: { quality: 55, effort: 3 },
+  webp: { quality: 78 },
+};
+
+export function canGenerateVariants(contentType: string): boolean {
+  return RESIZABLE_TYPES.has(contentType.toLowerCase());
+}
+
+/** Widths to generate for an image of the given width; the original width is kept when it is within range. */
+export function variantWidths(originalWidth: number): number[] {
+  const largest = IMAGE_VARIANT_WIDTHS[IMAGE_VARIANT_WIDTHS.length - 1];
+  const widths: number[] = IMAGE_VARIANT_WIDTHS.filter(width => width < originalWidth);
+  if (originalWidth <= largest) widths.push(originalWidth);
+  return widths;
+}
+
+function variantStem(sourceKey: string): string {
+  const slash = sourceKey.lastIndexOf("/");
+  const dot = sourceKey.lastIndexOf(".");
+  return dot > slash ? sourceKey.slice(0, dot) : sourceKey;
+}
+
+/** Sibling storage key for a variant of `sourceKey`. */
+export function variantKey(sourceKey: string, width: number, format: ImageVariantFormat): string {
+  return `${variantStem(sourceKey)}.w${width}.${format}`;
+}
+
+/** Whether `key` is a variant of `sourceKey`, at any width. */
+export function isVariantKeyOf(key: string, sourceKey: string): boolean {
+  const stem = variantStem(sourceKey);
+  if (key === sourceKey || !key.startsWith(`${stem}.w`)) return false;
+  const match = /^(\d+)\.(\w+)$/.exec(key.slice(stem.length + 2));
+  return !!match && (IMAGE_VARIANT_FORMATS as readonly string[]).includes(match[2]);
+}
+
+// Longest edge of the placeholder; the browser scales and blurs it up
+const PLACEHOLDER_SIZE = 16;
+
+/** Upright dimensions, accounting for EXIF quarter turns. */
+async function readUprightSize(buffer: Buffer) {
+  const { width, height, orientation } = await sharp(buffer).metadata();
+  if (!width || !height) return null;
+  return orientation && orientation >= 5 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Intrinsic size plus a blurred placeholder, or null for types that are
+ * served as uploaded.
+ */
+export async function describeImage(buffer: Buffer, contentType: string): Promise<ImageInfo | null> {
+  if (!canGenerateVariants(contentType)) return null;
+
+  const size = await readUprightSize(buffer);
+  if (!size) return null;
+
+  const preview = await sharp(buffer)
+    .rotate()
+    .resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: "inside" })
+    .webp({ quality: 40 })
+    .toBuffer();
+  return { ...size, placeholder: `data:image/webp;base64,${preview.toString("base64")}` };
+}
+
+export type StoredImageVariant = ImageVariant & { key: string };
+
+/**
+ * Generate and upload every variant of an image. Returns an empty list for
+ * types that are not resized; encoding errors propagate to the caller.
+ */
+export async function storeImageVariants(
+  sourceKey: string,
+  buffer: Buffer,
+  contentType: string
+): Promise<StoredImageVariant[]> {
+  if (!canGenerateVariants(contentType)) return [];
+
+  // Apply the EXIF orientation once so every variant is upright
+  const upright = sharp(buffer).rotate();
+  const size = await readUprightSize(buffer);
+  if (!size) return [];
+
+  const stored: StoredImageVariant[] = [];
+  for (const targetWidth of variantWidths(size.width)) {
+    const resized = upright.clone().resize({ width: targetWidth, withoutEnlargement: true });
+    for (const format of IMAGE_VARIANT_FORMATS) {
+      const { data, info } = await resized
+        .clone()
+        .toFormat(format, ENCODER_OPTIONS[format])
+        .toBuffer({ resolveWithObject: true });
+      const key = variantKey(sourceKey, targetWidth, format);
+      const { url } = await storagePut(key, data, IMAGE_VARIANT_MIME_TYPES[format]);
+      stored.push({ key, url, format, width: info.width, height: info.height });
+    }
+  }
+  return stored;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { renderMarkdown } from "./markdown";
+
+describe("renderMarkdown", () => {
+  it("renders GFM tables and fenced code with highlighting", async () => {
+    const { html } = await renderMarkdown(
+      "| a | b |\n|---|---|\n| 1 | 2 |\n\n```ts\nconst x = 1;\n```\n"
+    );
+
+    expect(html).toContain("<table>");
+    expect(html).toContain('class="hljs language-ts"');
+    expect(html).toContain('<span class="hljs-keyword">const</span>');
+  });
+
+  it("strips raw HTML", async () => {
+    const { html } = await renderMarkdown('Hello <script>alert(1)</script> <img src=x onerror="alert(1)">');
+
+    expect(html).not.toContain("<script");
+    expect(html).not.toContain("onerror");
+  });
+
+  it("links footnote references to their definitions", async () => {
+    const { html } = await renderMarkdown("Text[^1]\n\n[^1]: A note\n");
+
+    expect(html).toContain('href="#user-content-fn-1"');
+    expect(html).toContain('id="user-content-fn-1"');
+  });
+
+  it("anchors headings and builds a table of contents", async () => {
+    const { html, toc } = await renderMarkdown("# Title\n\n## 第一节 Intro\n\n### Details\n\n#### Too deep\n\nText[^1]\n\n[^1]: note\n");
+
+    expect(html).toContain('<h2 id="user-content-第一节-intro">');
+    expect(html).toContain('href="#user-content-第一节-intro"');
+    expect(toc).toEqual([
+      { id: "user-content-第一节-intro", text: "第一节 Intro", depth: 2 },
+      { id: "user-content-details", text: "Details", depth: 3 },
+    ]);
+  });
+
+  it("prefixes heading ids so they cannot clobber the app's own", async () => {
+    const { html } = await renderMarkdown("## Root\n");
+
+    expect(html).toContain('<h2 id="user-content-root">');
+    expect(html).not.toContain('id="root"');
+  });
+});
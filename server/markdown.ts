@@ -0,0 +1,104 @@
+/**
+ * Markdown Rendering Service
+ *
+ * Renders essay Markdown to sanitized HTML on the server using the unified
+ * pipeline (remark -> rehype). Supports GFM tables, task lists, footnotes,
+ * fenced code with syntax highlighting and anchored headings, and extracts
+ * a table of contents for the reader.
+ */
+
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkRehype from "remark-rehype";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import rehypeSlug from "rehype-slug";
+import rehypeAutolinkHeadings from "rehype-autolink-headings";
+import rehypeHighlight from "rehype-highlight";
+import rehypeStringify from "rehype-stringify";
+import { toString as hastToString } from "hast-util-to-string";
+import { visit } from "unist-util-visit";
+import type { Root } from "hast";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TocEntry = {
+  id: string;
+  text: string;
+  depth: number;
+};
+
+export type RenderedMarkdown = {
+  html: string;
+  toc: TocEntry[];
+};
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+/** Headings deeper than this are left out of the table of contents. */
+const MAX_TOC_DEPTH = 3;
+
+/**
+ * Every id from the author's text carries this prefix, so a heading such as
+ * "Root" cannot clobber an id the app relies on. remark-rehype applies it to
+ * footnotes and rehype-slug to headings; sanitizing runs in between and must
+ * not prefix them again.
+ */
+const USER_CONTENT_ID_PREFIX = "user-content-";
+
+const sanitizeSchema = { ...defaultSchema, clobberPrefix: "" };
+
+/**
+ * Collect h2/h3 headings into the table of contents.
+ * Runs after rehype-slug (so every heading carries its anchor id) and
+ * before the anchor links are appended to the heading text.
+ */
+function collectToc(toc: TocEntry[]) {
+  return () => (tree: Root) => {
+    visit(tree, "element", node => {
+      const match = /^h([1-6])$/.exec(node.tagName);
+      if (!match) return;
+
+      const depth = Number(match[1]);
+      const id = node.properties?.id;
+      if (depth < 2 || depth > MAX_TOC_DEPTH || typeof id !== "string") return;
+      // Skip the visually hidden "Footnotes" label generated by remark-rehype
+      const className = node.properties?.className;
+      if (Array.isArray(className) && className.includes("sr-only")) return;
+
+      toc.push({ id, text: hastToString(node), depth });
+    });
+  };
+}
+
+/**
+ * Render Markdown to sanitized HTML plus a table of contents.
+ *
+ * Raw HTML in the source is dropped and the tree is sanitized before
+ * anchors and highlighting are added, so only trusted markup reaches the output.
+ */
+export async function renderMarkdown(markdown: string): Promise<RenderedMarkdown> {
+  const toc: TocEntry[] = [];
+
+  const file = await unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkRehype, { clobberPrefix: USER_CONTENT_ID_PREFIX })
+    .use(rehypeSanitize, sanitizeSchema)
+    .use(rehypeSlug, { prefix: USER_CONTENT_ID_PREFIX })
+    .use(collectToc(toc))
+    .use(rehypeAutolinkHeadings, {
+      behavior: "append",
+      properties: { className: ["heading-anchor"], ariaHidden: "true", tabIndex: -1 },
+      content: { type: "text", value: "#" },
+    })
+    .use(rehypeHighlight, { detect: false })
+    .use(rehypeStringify)
+    .process(markdown);
+
+  return { html: String(file), toc };
+}
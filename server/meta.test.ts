@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import { canonicalPath, injectPageMeta, resolvePageMeta, summarize, type PageMeta } from "./meta";
+import * as db from "./db";
+
+vi.mock("./_core/config", () => ({ config: { server: { siteUrl: "https://orpheus.test" } } }));
+vi.mock("./db", () => ({
+  getEssayBySlug: vi.fn(),
+  getPaperBySlug: vi.fn(),
+  getPhotoBySlug: vi.fn(),
+  getTagBySlug: vi.fn(),
+  getCategoryBySlug: vi.fn(),
+  getAlbumBySlug: vi.fn(),
+  getAlbumPhotos: vi.fn(),
+  getSeriesBySlug: vi.fn(),
+  getSeriesParts: vi.fn(),
+}));
+
+const ORIGIN = "https://orpheus.test";
+
+const meta: PageMeta = {
+  title: "Signs & \"Symbols\" · Orpheus",
+  description: "Costs $5 <today>",
+  url: "https://orpheus.test/academic/signs",
+  image: { url: "https://files.test/cover.webp", width: 1600, height: 900, alt: "Cover" },
+  type: "article",
+  publishedTime: new Date("2024-05-01T08:00:00Z"),
+};
+
+describe("injectPageMeta", () => {
+  it("replaces the shell's title with escaped tags", () => {
+    const html = injectPageMeta("<head>\n    <title>Orpheus</title>\n  </head>", meta);
+    expect(html).not.toContain("<title>Orpheus</title>");
+    expect(html).toContain("<title>Signs &amp; &quot;Symbols&quot; · Orpheus</title>");
+    expect(html).toContain('<meta name="description" content="Costs $5 &lt;today&gt;" />');
+    expect(html).toContain('<link rel="canonical" href="https://orpheus.test/academic/signs" />');
+    expect(html).toContain('<meta property="og:type" content="article" />');
+    expect(html).toContain('<meta property="og:image:width" content="1600" />');
+    expect(html).toContain('<meta property="article:published_time" content="2024-05-01T08:00:00.000Z" />');
+    expect(html).toContain('<meta name="twitter:card" content="summary_large_image" />');
+    expect(html).toContain('<meta name="twitter:image" content="https://files.test/cover.webp" />');
+  });
+
+  it("falls back to a summary card and the end of the head without an image or title", () => {
+    const html = injectPageMeta("<head>\n  </head>", { ...meta, image: null });
+    expect(html).toContain('<meta name="twitter:card" content="summary" />');
+    expect(html).not.toContain("og:image");
+    expect(html).toMatch(/<title>.*<\/title>[\s\S]*<\/head>$/);
+  });
+});
+
+describe("summarize", () => {
+  it("collapses whitespace and cuts long text at a word", () => {
+    expect(summarize("  A short\n\nline ")).toBe("A short line");
+    expect(summarize("one two three four", 12)).toBe("one two…");
+    expect(summarize(null)).toBe("");
+  });
+});
+
+describe("canonicalPath", () => {
+  it("drops the query, fragment and trailing slash", () => {
+    expect(canonicalPath("/magazine/winter/?utm_source=x#top")).toBe("/magazine/winter");
+    expect(canonicalPath("/?q=1")).toBe("/");
+  });
+});
+
+describe("resolvePageMeta", () => {
+  it("describes a published essay with its cover variant", async () => {
+    vi.mocked(db.getEssayBySlug).mockResolvedValueOnce({
+      title: "Winter",
+      subtitle: null,
+      excerpt: null,
+      content: "## Snow\n\nThe **first** snow fell.",
+      published: true,
+      publishedAt: new Date("2024-01-02T00:00:00Z"),
+      coverImageUrl: "/uploads/images/winter.jpg",
+      coverImageWidth: 4000,
+      coverImageHeight: 3000,
+      imageVariants: [
+        { format: "webp", width: 960, height: 720, url: "/uploads/images/winter-960.webp" },
+        { format: "webp", width: 1600, height: 1200, url: "/uploads/images/winter-1600.webp" },
+      ],
+    } as Awaited<ReturnType<typeof db.getEssayBySlug>>);
+
+    const page = await resolvePageMeta("/magazine/winter?ref=chat", ORIGIN);
+    expect(page).toMatchObject({
+      title: "Winter · Orpheus",
+      description: "Snow The first snow fell.",
+      url: "https://orpheus.test/magazine/winter",
+      type: "article",
+      image: { url: "https://orpheus.test/uploads/images/winter-1600.webp", width: 1600, height: 1200 },
+    });
+  });
+
+  it("keeps drafts private and falls back to the site", async () => {
+    vi.mocked(db.getEssayBySlug).mockResolvedValueOnce({
+      title: "Secret",
+      published: false,
+    } as Awaited<ReturnType<typeof db.getEssayBySlug>>);
+
+    const page = await resolvePageMeta("/magazine/secret", ORIGIN);
+    expect(page.title).toBe("Orpheus");
+    expect(page.url).toBe("https://orpheus.test/magazine/secret");
+  });
+
+  it("keeps unlisted photos out of search results", async () => {
+    vi.mocked(db.getPhotoBySlug).mockResolvedValueOnce({
+      title: "Dunes",
+      description: null,
+      location: "Namib",
+      visibility: "unlisted",
+      imageUrl: "/uploads/images/dunes.jpg",
+      imageVariants: [],
+      publishedAt: null,
+    } as unknown as Awaited<ReturnType<typeof db.getPhotoBySlug>>);
+
+    const page = await resolvePageMeta("/photography/dunes", ORIGIN);
+    expect(page).toMatchObject({ title: "Dunes · Orpheus", noindex: true });
+  });
+
+  it("names sections and hides private pages from search", async () => {
+    expect((await resolvePageMeta("/academic/", ORIGIN)).title).toBe("Academic · Orpheus");
+    expect((await resolvePageMeta("/preview/abc", ORIGIN)).noindex).toBe(true);
+    expect(db.getPaperBySlug).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Page Metadata
+ *
+ * The app renders in the browser, but crawlers and the link previews of
+ * chat apps and social networks only read the HTML shell. Before the shell
+ * is sent, the route is resolved to its essay, paper, photo or section and
+ * the title, description, canonical URL and Open Graph / Twitter Card tags
+ * are written into its <head>.
+ *
+ * Only shells the backend serves get them. When a static host serves the
+ * client on its own (the Vercel and nginx setups), every page has the
+ * shell's default tags.
+ */
+
+import type { Request } from "express";
+import * as db from "./db";
+import { markdownToPlainText } from "./search";
+import { SITE_NAME, SITE_TAGLINE, absoluteUrl, siteOrigin } from "./site";
+import { pickVariant, type ImageVariant } from "@shared/imageVariants";
+import type { CategorySection } from "@shared/categories";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PageImage = {
+  /** Absolute URL. */
+  url: string;
+  width?: number | null;
+  height?: number | null;
+  alt?: string;
+};
+
+export type PageMeta = {
+  /** Full document title, site name included. */
+  title: string;
+  description: string;
+  /** Absolute canonical URL. */
+  url: string;
+  image: PageImage | null;
+  type: "website" | "article";
+  publishedTime?: Date | null;
+  /** Keep the page out of search results (admin, private previews). */
+  noindex?: boolean;
+};
+
+// Previews cut descriptions off around here anyway
+const DESCRIPTION_LENGTH = 200;
+
+// Open Graph recommends 1200px wide images; variants are smaller to download than originals
+const PREVIEW_IMAGE_WIDTH = 1200;
+
+const SECTIONS: Record<string, { title: string; description: string }> = {
+  "/": { title: SITE_NAME, description: SITE_TAGLINE },
+  "/photography": { title: "Photography", description: "Photographs, by category and by album." },
+  "/photography/albums": { title: "Albums", description: "Photographs collected into albums." },
+  "/magazine": { title: "Magazine", description: "Essays, on their own and in series." },
+  "/magazine/series": { title: "Series", description: "Essays written as series." },
+  "/academic": { title: "Academic", description: "Research papers and publications." },
+  "/search": { title: "Search", description: "Search photographs, essays and papers." },
+};
+
+const CATEGORY_SECTIONS: Record<string, { section: CategorySection; title: string }> = {
+  photography: { section: "photo", title: "Photography" },
+  magazine: { section: "essay", title: "Magazine" },
+  academic: { section: "paper", title: "Academic" },
+};
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Plain text cut at a word boundary to fit a preview. */
+export function summarize(text: string | null | undefined, length = DESCRIPTION_LENGTH): string {
+  const plain = (text ?? "").replace(/\s+/g, " ").trim();
+  if (plain.length <= length) return plain;
+  const cut = plain.slice(0, length - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:]+$/, "")}…`;
+}
+
+export function renderMetaTags(meta: PageMeta): string {
+  const property = (name: string, content: string) => `<meta property="${name}" content="${escapeHtml(content)}" />`;
+  const named = (name: string, content: string) => `<meta name="${name}" content="${escapeHtml(content)}" />`;
+  const { image } = meta;
+
+  return [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    named("description", meta.description),
+    ...(meta.noindex ? [named("robots", "noindex")] : []),
+    `<link rel="canonical" href="${escapeHtml(meta.url)}" />`,
+    property("og:site_name", SITE_NAME),
+    property("og:type", meta.type),
+    property("og:title", meta.title),
+    property("og:description", meta.description),
+    property("og:url", meta.url),
+    ...(image
+      ? [
+          property("og:image", image.url),
+          ...(image.width && image.height
+            ? [property("og:image:width", String(image.width)), property("og:image:height", String(image.height))]
+            : []),
+          ...(image.alt ? [property("og:image:alt", image.alt)] : []),
+        ]
+      : []),
+    ...(meta.publishedTime ? [property("article:published_time", meta.publishedTime.toISOString())] : []),
+    named("twitter:card", image ? "summary_large_image" : "summary"),
+    named("twitter:title", meta.title),
+    named("twitter:description", meta.description),
+    ...(image ? [named("twitter:image", image.url)] : []),
+    ...(image?.alt ? [named("twitter:image:alt", image.alt)] : []),
+  ].join("\n    ");
+}
+
+/** The shell with its <title> replaced by the page's title and tags. */
+export function injectPageMeta(html: string, meta: PageMeta): string {
+  const tags = renderMetaTags(meta);
+  if (/<title>[\s\S]*?<\/title>/i.test(html)) {
+    // A function replacement, so "$" in titles is not read as a pattern
+    return html.replace(/<title>[\s\S]*?<\/title>/i, () => tags);
+  }
+  return html.replace(/<\/head>/i, () => `  ${tags}\n  </head>`);
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+function pageTitle(title: string): string {
+  return title === SITE_NAME ? title : `${title} · ${SITE_NAME}`;
+}
+
+/**
+ * The image for a preview: a variant near the recommended width when the
+ * upload has them, else the stored image.
+ */
+function previewImage(
+  origin: string,
+  url: string | null | undefined,
+  options: { variants?: ImageVariant[]; width?: number | null; height?: number | null; alt?: string } = {}
+): PageImage | null {
+  if (!url) return null;
+  const variant = pickVariant(options.variants ?? [], PREVIEW_IMAGE_WIDTH);
+  return variant
+    ? { url: absoluteUrl(origin, variant.url), width: variant.width, height: variant.height, alt: options.alt }
+    : { url: absoluteUrl(origin, url), width: options.width, height: options.height, alt: options.alt };
+}
+
+/** The path alone: no query, fragment or trailing slash. */
+export function canonicalPath(url: string): string {
+  const path = url.split(/[?#]/)[0].replace(/\/+$/, "");
+  return path || "/";
+}
+
+/** Metadata for a content page, or undefined when the route is not one or the content is not public. */
+async function contentMeta(path: string, origin: string, url: string): Promise<PageMeta | undefined> {
+  const segments = path.split("/").slice(1).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+  const [section, first, second] = segments;
+  const article = (title: string, description: string, image: PageImage | null, publishedTime?: Date | null): PageMeta => ({
+    title: pageTitle(title),
+    description: description || SITE_TAGLINE,
+    url,
+    image,
+    type: "article",
+    publishedTime,
+  });
+  const listing = (title: string, description: string | null | undefined, image: PageImage | null): PageMeta => ({
+    title: pageTitle(title),
+    description: summarize(description) || SITE_TAGLINE,
+    url,
+    image,
+    type: "website",
+  });
+
+  if (segments.length === 3 && first === "category" && Object.hasOwn(CATEGORY_SECTIONS, section)) {
+    const { section: categorySection, title } = CATEGORY_SECTIONS[section];
+    const category = await db.getCategoryBySlug(categorySection, second);
+    if (!category) return undefined;
+    return listing(`${category.name} · ${title}`, category.description, previewImage(origin, category.coverImageUrl, { alt: category.name }));
+  }
+
+  if (segments.length === 3 && section === "photography" && first === "albums") {
+    const album = await db.getAlbumBySlug(second);
+    if (!album) return undefined;
+    const albumPhotos = await db.getAlbumPhotos(album.id, { published: true });
+    // Albums without a published photo are not public yet
+    if (albumPhotos.length === 0) return undefined;
+    const cover = albumPhotos.find(photo => photo.id === album.coverPhotoId) ?? albumPhotos[0];
+    return listing(album.title, album.description,
+      previewImage(origin, cover.imageUrl, { variants: cover.imageVariants, width: cover.imageWidth, height: cover.imageHeight, alt: album.title }));
+  }
+
+  if (segments.length === 3 && section === "magazine" && first === "series") {
+    const series = await db.getSeriesBySlug(second);
+    if (!series) return undefined;
+    const parts = await db.getSeriesParts(series.id, { published: true });
+    // Series without a published part are not public yet
+    if (parts.length === 0) return undefined;
+    const coverPart = parts.find(part => part.coverImageUrl);
+    return listing(series.title, series.description, series.coverImageUrl
+      ? previewImage(origin, series.coverImageUrl, { alt: series.title })
+      : previewImage(origin, coverPart?.coverImageUrl, {
+          variants: coverPart?.imageVariants,
+          width: coverPart?.coverImageWidth,
+          height: coverPart?.coverImageHeight,
+          alt: series.title,
+        }));
+  }
+
+  if (segments.length !== 2) return undefined;
+
+  switch (section) {
+    case "magazine": {
+      const essay = await db.getEssayBySlug(first);
+      if (!essay?.published) return undefined;
+      return article(
+        essay.title,
+        summarize(essay.excerpt || essay.subtitle || markdownToPlainText(essay.content)),
+        previewImage(origin, essay.coverImageUrl, {
+          variants: essay.imageVariants,
+          width: essay.coverImageWidth,
+          height: essay.coverImageHeight,
+          alt: essay.title,
+        }),
+        essay.publishedAt
+      );
+    }
+    case "academic": {
+      const paper = await db.getPaperBySlug(first);
+      if (!paper?.published) return undefined;
+      return article(
+        paper.title,
+        summarize(paper.abstract || [paper.authors, paper.journal, paper.year].filter(Boolean).join(" · ")),
+        null,
+        paper.publishedAt
+      );
+    }
+    case "photography": {
+      const photo = await db.getPhotoBySlug(first);
+      if (!photo || photo.visibility === "draft") return undefined;
+      const page = article(
+        photo.title,
+        summarize(photo.description || photo.location),
+        previewImage(origin, photo.imageUrl, {
+          variants: photo.imageVariants,
+          width: photo.imageWidth,
+          height: photo.imageHeight,
+          alt: photo.title,
+        }),
+        photo.publishedAt
+      );
+      // Unlisted photos preview for whoever has the link but stay out of search results
+      return photo.visibility === "unlisted" ? { ...page, noindex: true } : page;
+    }
+    case "tags": {
+      const tag = await db.getTagBySlug(first);
+      if (!tag) return undefined;
+      return listing(`#${tag.name}`, `Photographs, essays and papers tagged ${tag.name}.`, null);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** Metadata for the page at `requestUrl` (path and query). */
+export async function resolvePageMeta(requestUrl: string, origin: string): Promise<PageMeta> {
+  const path = canonicalPath(requestUrl);
+  const url = absoluteUrl(origin, path);
+  const site: PageMeta = { title: SITE_NAME, description: SITE_TAGLINE, url, image: null, type: "website" };
+
+  // Private pages: the site's own name only, and no indexing
+  if (path === "/admin" || path.startsWith("/admin/") || path.startsWith("/preview/")) {
+    return { ...site, noindex: true };
+  }
+
+  const section = SECTIONS[path];
+  if (section) {
+    return { ...site, title: pageTitle(section.title), description: section.description };
+  }
+
+  return (await contentMeta(path, origin, url)) ?? site;
+}
+
+/**
+ * The shell with the request's page metadata in it. Lookup failures only
+ * cost the preview, so they leave the shell as it is.
+ */
+export async function renderShell(req: Request, html: string): Promise<string> {
+  try {
+    return injectPageMeta(html, await resolvePageMeta(req.originalUrl, siteOrigin(req)));
+  } catch (error) {
+    console.error("[Meta] Failed to resolve page metadata:", error);
+    return html;
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { MySqlDialect } from "drizzle-orm/mysql-core";
+import { photos } from "../drizzle/schema";
+import { afterCursor, decodeCursor, encodeCursor, toPage } from "./pagination";
+
+const dialect = new MySqlDialect();
+
+describe("cursors", () => {
+  it("round-trips dates, numbers and nulls", () => {
+    const values = [null, new Date("2024-03-01T10:00:00Z"), 42];
+    expect(decodeCursor(encodeCursor(values), 3)).toEqual(values);
+  });
+
+  it("rejects tampered or mismatched cursors", () => {
+    expect(() => decodeCursor("not a cursor", 3)).toThrow("Invalid cursor");
+    expect(() => decodeCursor(encodeCursor([1, 2]), 3)).toThrow("Invalid cursor");
+    expect(() => decodeCursor(Buffer.from('[{"date":"soon"}]').toString("base64url"), 1)).toThrow("Invalid cursor");
+  });
+});
+
+describe("afterCursor", () => {
+  it("continues past NULL sort keys, which MySQL puts last", () => {
+    const query = dialect.sqlToQuery(afterCursor([photos.sortOrder, photos.id], [null, 7]));
+    expect(query.sql).toBe("(`photos`.`sortOrder` is null and `photos`.`id` < ?)");
+    expect(query.params).toEqual([7]);
+  });
+
+  it("treats NULLs as coming after every value", () => {
+    const query = dialect.sqlToQuery(afterCursor([photos.sortOrder, photos.id], [3, 7]));
+    expect(query.sql).toBe(
+      "((`photos`.`sortOrder` < ? or `photos`.`sortOrder` is null) or (`photos`.`sortOrder` = ? and `photos`.`id` < ?))"
+    );
+  });
+});
+
+describe("toPage", () => {
+  it("uses the extra row only to decide whether there is more", () => {
+    const rows = [{ id: 3 }, { id: 2 }, { id: 1 }];
+    const page = toPage(rows, 2, 3, row => [row.id]);
+    expect(page.items).toEqual([{ id: 3 }, { id: 2 }]);
+    expect(decodeCursor(page.nextCursor!, 1)).toEqual([2]);
+    expect(toPage(rows, 3, 3, row => [row.id]).nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Cursor Pagination
+ *
+ * Public lists are paged by keyset rather than offset: a cursor holds the
+ * sort key of the last row sent, and the next page starts strictly after
+ * it. Pages stay stable while content is published above them, and deep
+ * pages cost the same as the first. Cursors are opaque to clients.
+ */
+
+import { and, eq, isNull, lt, or, sql, type SQL } from "drizzle-orm";
+import type { AnyMySqlColumn } from "drizzle-orm/mysql-core";
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+export type CursorValue = string | number | Date | null;
+
+export type Page<T> = {
+  items: T[];
+  /** Pass back as `cursor` for the following page; null on the last page. */
+  nextCursor: string | null;
+  /** Rows matching the filters across all pages. */
+  total: number;
+};
+
+export type PageOptions = {
+  /** `nextCursor` from the previous page; absent for the first. */
+  cursor?: string | null;
+  limit?: number;
+};
+
+type EncodedValue = string | number | null | { date: string };
+
+export function encodeCursor(values: CursorValue[]): string {
+  const encoded: EncodedValue[] = values.map(value =>
+    value instanceof Date ? { date: value.toISOString() } : value
+  );
+  return Buffer.from(JSON.stringify(encoded)).toString("base64url");
+}
+
+/** The sort key in a cursor, checked against the number of sort columns. */
+export function decodeCursor(cursor: string, length: number): CursorValue[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (!Array.isArray(parsed) || parsed.length !== length) {
+    throw new Error("Invalid cursor");
+  }
+  return parsed.map((value: unknown): CursorValue => {
+    if (value === null || typeof value === "string" || typeof value === "number") return value;
+    if (typeof value === "object" && typeof (value as { date?: unknown }).date === "string") {
+      const date = new Date((value as { date: string }).date);
+      if (!Number.isNaN(date.getTime())) return date;
+    }
+    throw new Error("Invalid cursor");
+  });
+}
+
+/**
+ * Rows that come after `values` when ordered by `columns`, every column
+ * descending. MySQL sorts NULLs last in descending order, so a NULL key is
+ * followed only by other NULLs. The last column must be unique (the id) so
+ * no two rows share a position.
+ */
+export function afterCursor(columns: AnyMySqlColumn[], values: CursorValue[]): SQL {
+  let condition: SQL | undefined;
+  for (let i = columns.length - 1; i >= 0; i--) {
+    const column = columns[i];
+    const value = values[i];
+    const before = value === null
+      ? undefined
+      : column.notNull ? lt(column, value) : or(lt(column, value), isNull(column));
+    const same = value === null ? isNull(column) : eq(column, value);
+    condition = condition ? or(before, and(same, condition)) : before;
+  }
+  return condition ?? sql`false`;
+}
+
+/** The condition for rows after `cursor`, or none on the first page. */
+export function cursorCondition(columns: AnyMySqlColumn[], cursor: string | null | undefined): SQL | undefined {
+  return cursor ? afterCursor(columns, decodeCursor(cursor, columns.length)) : undefined;
+}
+
+/**
+ * A page from rows fetched with one extra beyond `limit`; the extra row
+ * only tells whether there is a next page.
+ */
+export function toPage<T>(rows: T[], limit: number, total: number, sortKey: (row: T) => CursorValue[]): Page<T> {
+  const items = rows.slice(0, limit);
+  const last = items.at(-1);
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? encodeCursor(sortKey(last)) : null,
+    total,
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  FOCAL_RANGES,
+  formatExposureSettings,
+  formatShutterSpeed,
+  isInFocalRange,
+  parseExposureSettings,
+} from "../shared/photoMetadata";
+
+describe("formatExposureSettings", () => {
+  it("formats known values and skips missing ones", () => {
+    expect(formatExposureSettings({ focalLength: 23, aperture: 2.8, exposureTime: 1 / 250, iso: 400 })).toBe(
+      "23mm, f/2.8, 1/250s, ISO 400"
+    );
+    expect(formatExposureSettings({ aperture: 8 })).toBe("f/8");
+    expect(formatShutterSpeed(2)).toBe("2s");
+  });
+});
+
+describe("parseExposureSettings", () => {
+  it("reads the settings line the form produces", () => {
+    expect(parseExposureSettings("23mm, f/2.8, 1/250s, ISO 400")).toEqual({
+      aperture: 2.8,
+      exposureTime: 1 / 250,
+      iso: 400,
+      focalLength: 23,
+    });
+  });
+
+  it("accepts looser hand-typed variants", () => {
+    expect(parseExposureSettings("f8 2s iso100")).toEqual({
+      aperture: 8,
+      exposureTime: 2,
+      iso: 100,
+      focalLength: null,
+    });
+    expect(parseExposureSettings("F1.4 · 1/60 · 50 mm")).toMatchObject({ aperture: 1.4, exposureTime: 1 / 60, focalLength: 50 });
+  });
+
+  it("round-trips formatted metadata", () => {
+    const values = { focalLength: 85, aperture: 1.8, exposureTime: 0.5, iso: 3200 };
+    expect(parseExposureSettings(formatExposureSettings(values))).toEqual(values);
+  });
+
+  it("returns nulls for empty or unrelated text", () => {
+    expect(parseExposureSettings(null)).toEqual({ aperture: null, exposureTime: null, iso: null, focalLength: null });
+    expect(parseExposureSettings("handheld at dusk")).toEqual({ aperture: null, exposureTime: null, iso: null, focalLength: null });
+  });
+});
+
+describe("FOCAL_RANGES", () => {
+  it("places every focal length in exactly one range", () => {
+    for (const focalLength of [10, 23.5, 24, 35, 50, 70, 70.5, 135, 200, 600]) {
+      expect(FOCAL_RANGES.filter(range => isInFocalRange(focalLength, range))).toHaveLength(1);
+    }
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, it, vi } from "vitest";
 import { appRouter } from "./routers";
+import * as db from "./db";
 import type { TrpcContext } from "./_core/context";
 
 // Mock the database module with all required functions
@@ -11,6 +12,18 @@ vi.mock("./db", () => ({
   getAllPhotos: vi.fn().mockResolvedValue([]),
   getAllEssays: vi.fn().mockResolvedValue([]),
   getAllPapers: vi.fn().mockResolvedValue([]),
+  getPhotoPage: vi.fn().mockResolvedValue({ items: [], nextCursor: null, total: 0 }),
+  getPhotoBySlug: vi.fn().mockResolvedValue(undefined),
+  getAlbumBySlug: vi.fn().mockResolvedValue(undefined),
+  getAlbumPhotos: vi.fn().mockResolvedValue([]),
+  createPhoto: vi.fn().mockResolvedValue({ id: 1, slug: "dunes" }),
+  getCategoryById: vi.fn().mockResolvedValue(undefined),
+  getCategories: vi.fn().mockResolvedValue([]),
+  getEssayById: vi.fn().mockResolvedValue(undefined),
+  updateEssay: vi.fn().mockResolvedValue({ success: true }),
+  getPaperById: vi.fn().mockResolvedValue(undefined),
+  getEssayPage: vi.fn().mockResolvedValue({ items: [], nextCursor: null, total: 0 }),
+  getPaperPage: vi.fn().mockResolvedValue({ items: [], nextCursor: null, total: 0 }),
   upsertUser: vi.fn().mockResolvedValue(undefined),
   getUserByOpenId: vi.fn().mockResolvedValue(undefined),
 }));
@@ -52,35 +65,116 @@ function createAuthContext(): TrpcContext {
 }
 
 describe("photos router", () => {
-  it("photos.list returns an array", async () => {
+  it("photos.list returns a page", async () => {
     const ctx = createPublicContext();
     const caller = appRouter.createCaller(ctx);
     
     const result = await caller.photos.list();
     
-    expect(Array.isArray(result)).toBe(true);
+    expect(Array.isArray(result.items)).toBe(true);
+    expect(result.nextCursor).toBeNull();
+  });
+});
+
+describe("photo coordinates", () => {
+  it("are left out of public photo reads", async () => {
+    const caller = appRouter.createCaller(createPublicContext());
+    const photo = { id: 1, slug: "dunes", visibility: "published", latitude: 35.01, longitude: 135.77 };
+    vi.mocked(db.getPhotoPage).mockResolvedValueOnce({ items: [photo], nextCursor: null, total: 1 } as unknown as Awaited<ReturnType<typeof db.getPhotoPage>>);
+    vi.mocked(db.getPhotoBySlug).mockResolvedValueOnce(photo as unknown as Awaited<ReturnType<typeof db.getPhotoBySlug>>);
+
+    const page = await caller.photos.list();
+    expect(page.items[0]).toEqual({ id: 1, slug: "dunes", visibility: "published" });
+    expect(await caller.photos.getBySlug({ slug: "dunes" })).not.toHaveProperty("latitude");
+  });
+});
+
+describe("albums router", () => {
+  it("albums.getBySlug hides albums without a published photo", async () => {
+    const caller = appRouter.createCaller(createPublicContext());
+    vi.mocked(db.getAlbumBySlug).mockResolvedValueOnce({ id: 2, slug: "drafts" } as Awaited<ReturnType<typeof db.getAlbumBySlug>>);
+    expect(await caller.albums.getBySlug({ slug: "drafts" })).toBeUndefined();
+    expect(db.getAlbumPhotos).toHaveBeenLastCalledWith(2, { published: true });
+  });
+});
+
+describe("photo categories", () => {
+  it("rejects a category from another section", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const category = { id: 3, name: "Essays", section: "essay" };
+    vi.mocked(db.getCategoryById).mockResolvedValueOnce(category as Awaited<ReturnType<typeof db.getCategoryById>>);
+
+    await expect(caller.photos.create({ title: "Dunes", imageUrl: "/a.jpg", categoryId: 3 })).rejects.toThrow(/essay section/);
+    expect(db.createPhoto).not.toHaveBeenCalled();
+  });
+
+  it("counts only published items in the public category list", async () => {
+    const caller = appRouter.createCaller(createPublicContext());
+    await caller.categories.list({ section: "photo" });
+    expect(db.getCategories).toHaveBeenLastCalledWith("photo", { published: true });
+  });
+});
+
+describe("photos.list paging", () => {
+  it("passes the cursor through and rejects oversized pages", async () => {
+    const caller = appRouter.createCaller(createPublicContext());
+
+    await caller.photos.list({ cursor: "abc", limit: 10 });
+    expect(vi.mocked(db.getPhotoPage)).toHaveBeenLastCalledWith(
+      expect.objectContaining({ cursor: "abc", limit: 10, visibility: "published" })
+    );
+    await expect(caller.photos.list({ limit: 1000 })).rejects.toThrow();
   });
 });
 
 describe("essays router", () => {
-  it("essays.list returns an array", async () => {
+  it("essays.list returns a page", async () => {
     const ctx = createPublicContext();
     const caller = appRouter.createCaller(ctx);
     
     const result = await caller.essays.list();
     
-    expect(Array.isArray(result)).toBe(true);
+    expect(Array.isArray(result.items)).toBe(true);
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it("essays.update clears the date when unpublishing, but keeps a future schedule", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    await caller.essays.update({ id: 7, published: false });
+    expect(db.updateEssay).toHaveBeenLastCalledWith(7, { published: false, publishedAt: null }, 1);
+
+    await caller.essays.update({ id: 7, published: false, publishedAt: new Date("2020-01-01T00:00:00Z") });
+    expect(db.updateEssay).toHaveBeenLastCalledWith(7, { published: false, publishedAt: null }, 1);
+
+    const later = new Date(Date.now() + 60 * 60 * 1000);
+    await caller.essays.update({ id: 7, published: false, publishedAt: later });
+    expect(db.updateEssay).toHaveBeenLastCalledWith(7, { published: false, publishedAt: later }, 1);
+  });
+
+  it("essays.get hides drafts", async () => {
+    const caller = appRouter.createCaller(createPublicContext());
+    vi.mocked(db.getEssayById).mockResolvedValueOnce({ id: 7, published: false } as Awaited<ReturnType<typeof db.getEssayById>>);
+    expect(await caller.essays.get({ id: 7 })).toBeUndefined();
+    vi.mocked(db.getEssayById).mockResolvedValueOnce({ id: 8, published: true } as Awaited<ReturnType<typeof db.getEssayById>>);
+    expect(await caller.essays.get({ id: 8 })).toMatchObject({ id: 8 });
   });
 });
 
 describe("papers router", () => {
-  it("papers.list returns an array", async () => {
+  it("papers.list returns a page", async () => {
     const ctx = createPublicContext();
     const caller = appRouter.createCaller(ctx);
     
     const result = await caller.papers.list();
     
-    expect(Array.isArray(result)).toBe(true);
+    expect(Array.isArray(result.items)).toBe(true);
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it("papers.get hides drafts", async () => {
+    const caller = appRouter.createCaller(createPublicContext());
+    vi.mocked(db.getPaperById).mockResolvedValueOnce({ id: 3, published: false } as Awaited<ReturnType<typeof db.getPaperById>>);
+    expect(await caller.papers.get({ id: 3 })).toBeUndefined();
   });
 });
 
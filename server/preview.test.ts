@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from "vitest";
+import { createPreviewToken, createSessionToken, verifyPreviewToken } from "./_core/auth";
+
+vi.mock("./_core/config", () => ({ config: { auth: { jwtSecret: "test-secret", sessionMaxAge: 60_000 } } }));
+
+const payload = { tokenId: "abc123", contentType: "essay" as const, contentId: 7 };
+
+describe("preview tokens", () => {
+  it("round-trips the draft it was issued for", async () => {
+    const token = await createPreviewToken(payload, new Date(Date.now() + 60_000));
+
+    expect(await verifyPreviewToken(token)).toEqual(payload);
+  });
+
+  it("signs the same link to the same token", async () => {
+    const expiresAt = new Date(Date.now() + 60_000);
+
+    expect(await createPreviewToken(payload, expiresAt)).toBe(await createPreviewToken(payload, expiresAt));
+  });
+
+  it("rejects expired tokens and session tokens", async () => {
+    const expired = await createPreviewToken(payload, new Date(Date.now() - 60_000));
+    const session = await createSessionToken({ userId: 1, email: "a@b.c", role: "admin" });
+
+    expect(await verifyPreviewToken(expired)).toBeNull();
+    expect(await verifyPreviewToken(session)).toBeNull();
+  });
+});
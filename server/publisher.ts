@@ -0,0 +1,89 @@
+/**
+ * Scheduled Publisher
+ *
+ * Publishes drafts whose publishedAt has arrived. Pending items live in the
+ * database, so nothing is lost across restarts: on startup the publisher
+ * catches up on anything overdue and then sleeps until the next scheduled
+ * time. Admin edits call `reschedulePublisher()` so a newly scheduled item
+ * is picked up without waiting for the next poll.
+ */
+
+import * as db from "./db";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Upper bound on how long the publisher sleeps. Also covers schedules
+ * changed outside this process (another instance, manual SQL).
+ */
+const MAX_SLEEP_MS = 5 * 60 * 1000;
+
+/** Back-off after a failed run (e.g. database temporarily unreachable). */
+const RETRY_DELAY_MS = 30 * 1000;
+
+// ============================================================================
+// State
+// ============================================================================
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+// Set when a reschedule arrives mid-run, so the fresh schedule isn't missed
+let rerunRequested = false;
+let started = false;
+
+function schedule(delayMs: number) {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(run, Math.max(0, Math.min(delayMs, MAX_SLEEP_MS)));
+  // Never keep the process alive just for the publisher
+  timer.unref();
+}
+
+async function run() {
+  timer = null;
+  if (running) {
+    rerunRequested = true;
+    return;
+  }
+  running = true;
+
+  try {
+    const published = await db.publishDueContent();
+    if (published.essays > 0 || published.papers > 0) {
+      console.log(
+        `[Publisher] Published ${published.essays} essay(s) and ${published.papers} paper(s)`
+      );
+    }
+
+    const next = await db.getNextScheduledPublishTime();
+    schedule(next ? next.getTime() - Date.now() : MAX_SLEEP_MS);
+  } catch (error) {
+    console.error("[Publisher] Run failed:", error);
+    schedule(RETRY_DELAY_MS);
+  } finally {
+    running = false;
+    if (rerunRequested) {
+      rerunRequested = false;
+      schedule(0);
+    }
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/** Start the publisher. Runs immediately to catch up on overdue items. */
+export function startPublisher() {
+  if (started) return;
+  started = true;
+  console.log("[Publisher] Started");
+  schedule(0);
+}
+
+/** Re-check pending items now, after a publish time was added or changed. */
+export function reschedulePublisher() {
+  if (!started) return;
+  schedule(0);
+}
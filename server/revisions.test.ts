@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { diffSnapshots, snapshotTagNames, snapshotsEqual } from "./revisions";
+
+describe("revision snapshots", () => {
+  it("ignores fields that are not versioned", () => {
+    const a = { title: "Hello", content: "Body", published: 0 };
+    const b = { title: "Hello", content: "Body", published: 1 };
+
+    expect(snapshotsEqual("essay", a, b)).toBe(true);
+    expect(snapshotsEqual("essay", a, { ...a, content: "Changed" })).toBe(false);
+  });
+
+  it("diffs changed text fields word by word", () => {
+    const diff = diffSnapshots(
+      "essay",
+      { title: "Hello", content: "The quick fox" },
+      { title: "Hello", content: "The slow fox" }
+    );
+
+    const title = diff.find(d => d.field === "title");
+    const content = diff.find(d => d.field === "content");
+    expect(title?.changed).toBe(false);
+    expect(content?.changed).toBe(true);
+    expect(content?.words?.filter(w => w.removed).map(w => w.value)).toEqual(["quick"]);
+    expect(content?.words?.filter(w => w.added).map(w => w.value)).toEqual(["slow"]);
+  });
+
+  it("reports non-text changes without a word diff", () => {
+    const diff = diffSnapshots("paper", { year: 2020 }, { year: 2021 });
+    const year = diff.find(d => d.field === "year");
+
+    expect(year).toMatchObject({ changed: true, from: 2020, to: 2021 });
+    expect(year?.words).toBeUndefined();
+  });
+});
+
+describe("snapshotTagNames", () => {
+  it("reads current and pre-tag-table snapshots alike", () => {
+    expect(snapshotTagNames("Travel, Kyoto")).toEqual(["Travel", "Kyoto"]);
+    expect(snapshotTagNames("风景，城市")).toEqual(["风景", "城市"]);
+    expect(snapshotTagNames('["a", "b"]')).toEqual(["a", "b"]);
+    expect(snapshotTagNames('["a"')).toEqual([]);
+    expect(snapshotTagNames(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Revision Snapshots & Diffing
+ *
+ * Pure helpers for essay/paper revision history: which fields are versioned,
+ * how a row is snapshotted, and how two snapshots are compared field by field
+ * with a word-level diff for text.
+ */
+
+import { diffWords } from "diff";
+import type { Essay, Paper } from "../drizzle/schema";
+import { normalizeTagNames, parseTagInput, type TagRef } from "@shared/tags";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RevisionContentType = "essay" | "paper";
+
+export type RevisionSnapshot = Record<string, string | number | null>;
+
+type TaggedEssay = Essay & { tags: TagRef[] };
+type TaggedPaper = Paper & { tags: TagRef[] };
+
+export type WordChange = {
+  value: string;
+  added: boolean;
+  removed: boolean;
+};
+
+export type FieldDiff = {
+  field: string;
+  changed: boolean;
+  from: string | number | null;
+  to: string | number | null;
+  /** Word-level changes, only present for changed text fields */
+  words?: WordChange[];
+};
+
+// ============================================================================
+// Versioned Fields
+// ============================================================================
+
+/**
+ * Content fields captured in each revision. Publish state and the slug are
+ * deliberately excluded so restoring old content never unpublishes an item
+ * or moves its permalink.
+ */
+export const REVISIONED_FIELDS = {
+  essay: [
+    "title",
+    "subtitle",
+    "excerpt",
+    "content",
+    "coverImageUrl",
+    "coverImageKey",
+    "categoryId",
+    "tags",
+    "readTime",
+  ],
+  paper: [
+    "title",
+    "authors",
+    "abstract",
+    "journal",
+    "year",
+    "volume",
+    "issue",
+    "pages",
+    "doi",
+    "pdfUrl",
+    "pdfKey",
+    "categoryId",
+    "tags",
+  ],
+} as const satisfies {
+  essay: readonly (keyof TaggedEssay)[];
+  paper: readonly (keyof TaggedPaper)[];
+};
+
+// Segment by words so Chinese text (which has no spaces) diffs sensibly
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: "word" });
+
+// ============================================================================
+// Snapshot Helpers
+// ============================================================================
+
+export function buildSnapshot(type: "essay", row: TaggedEssay): RevisionSnapshot;
+export function buildSnapshot(type: "paper", row: TaggedPaper): RevisionSnapshot;
+export function buildSnapshot(type: RevisionContentType, row: TaggedEssay | TaggedPaper): RevisionSnapshot {
+  const source = row as unknown as Record<string, string | number | null | undefined>;
+  const snapshot: RevisionSnapshot = {};
+  for (const field of REVISIONED_FIELDS[type]) {
+    snapshot[field] = source[field] ?? null;
+  }
+  // Tags are kept as a comma-separated list of names so they diff like text
+  snapshot.tags = row.tags.map(tag => tag.name).join(", ");
+  return snapshot;
+}
+
+/**
+ * Tag names from a snapshot. Snapshots taken before tags had their own
+ * table hold the old column verbatim, a JSON array or a comma-separated
+ * list, so they are read the way the 0007 migration read that column.
+ */
+export function snapshotTagNames(value: RevisionSnapshot[string] | undefined): string[] {
+  if (typeof value !== "string") return [];
+  if (!value.trim().startsWith("[")) return parseTagInput(value);
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? normalizeTagNames(parsed.filter((name): name is string => typeof name === "string")) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function parseSnapshot(json: string): RevisionSnapshot {
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === "object" ? (parsed as RevisionSnapshot) : {};
+  } catch {
+    console.warn("[Revisions] Ignoring malformed snapshot");
+    return {};
+  }
+}
+
+export function snapshotsEqual(
+  type: RevisionContentType,
+  a: RevisionSnapshot,
+  b: RevisionSnapshot
+): boolean {
+  return REVISIONED_FIELDS[type].every(field => (a[field] ?? null) === (b[field] ?? null));
+}
+
+/**
+ * Compare two snapshots field by field, adding a word-level diff for
+ * changed text fields.
+ */
+export function diffSnapshots(
+  type: RevisionContentType,
+  from: RevisionSnapshot,
+  to: RevisionSnapshot
+): FieldDiff[] {
+  return REVISIONED_FIELDS[type].map(field => {
+    const before = from[field] ?? null;
+    const after = to[field] ?? null;
+    const changed = before !== after;
+    const diff: FieldDiff = { field, changed, from: before, to: after };
+
+    if (changed && (typeof before === "string" || typeof after === "string")) {
+      diff.words = diffWords(String(before ?? ""), String(after ?? ""), {
+        intlSegmenter: wordSegmenter,
+      }).map(({ value, added, removed }) => ({ value, added, removed }));
+    }
+
+    return diff;
+  });
+}
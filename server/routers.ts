@@ -4,9 +4,55 @@ import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, adminProcedure, router } from "./_core/trpc";
 import { z } from "zod";
 import * as db from "./db";
-import { storagePut, isStorageConfigured } from "./storage";
+import { getPublicUrl, isStorageConfigured } from "./storage";
+import { createUploadUrl, readUpload, statUpload, uploadFilename } from "./uploads";
+import { renderMarkdown } from "./markdown";
+import { extractPhotoMetadata } from "./exif";
+import { describeImage, storeImageVariants } from "./imageVariants";
+import { FOCAL_RANGE_IDS } from "@shared/photoMetadata";
+import { UPLOAD_KINDS } from "@shared/uploads";
+import { SITE_SETTING_DEFAULTS, SITE_SETTING_KEYS } from "@shared/settings";
+import type { ImageInfo, ImageVariant } from "@shared/imageVariants";
+import type { CategorySection } from "@shared/categories";
+import { diffSnapshots, parseSnapshot } from "./revisions";
+import { SEARCH_CONTENT_TYPES } from "./search";
+import { MAX_PAGE_SIZE } from "./pagination";
+import { reschedulePublisher } from "./publisher";
+import { findOrphans, purgeOrphans, scheduleStorageCleanup } from "./storageCleanup";
+import { createPreviewToken, verifyPreviewToken } from "./_core/auth";
 import { nanoid } from "nanoid";
 
+// Cursor paging for the public lists; `cursor` is the previous page's nextCursor
+const pageInput = {
+  cursor: z.string().nullish(),
+  limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+};
+
+// GPS coordinates from EXIF pinpoint where a photo was taken (often home);
+// they stay in the admin and are dropped from every public photo
+function publicPhoto<T extends { latitude: number | null; longitude: number | null }>(photo: T): Omit<T, "latitude" | "longitude"> {
+  const { latitude: _latitude, longitude: _longitude, ...rest } = photo;
+  return rest;
+}
+
+// Categories are per section; a photo cannot be filed under an essay category
+async function assertCategorySection(categoryId: number | null | undefined, section: CategorySection) {
+  if (categoryId == null) return;
+  const category = await db.getCategoryById(categoryId);
+  if (!category) throw new Error("Category not found");
+  if (category.section !== section) {
+    throw new Error(`Category "${category.name}" belongs to the ${category.section} section`);
+  }
+}
+
+// On a draft, publishedAt is the schedule and the publisher publishes it once
+// the time has passed; unpublishing without a future date clears it, or the
+// item would be republished on the next run
+function draftSchedule<T extends { published?: boolean; publishedAt?: Date | null }>(data: T, now = new Date()): T {
+  if (data.published !== false) return data;
+  return { ...data, publishedAt: data.publishedAt && data.publishedAt > now ? data.publishedAt : null };
+}
+
 export const appRouter = router({
   system: systemRouter,
   auth: router({
@@ -25,36 +71,80 @@ export const appRouter = router({
     list: publicProcedure
       .input(z.object({
         featured: z.boolean().optional(),
-        category: z.string().optional(),
+        categoryId: z.number().optional(),
+        camera: z.string().optional(),
+        lens: z.string().optional(),
+        focalRange: z.enum(FOCAL_RANGE_IDS).optional(),
+        ...pageInput,
+      }).optional())
+      .query(async ({ input }) => {
+        // For public access, only show published photos
+        const page = await db.getPhotoPage({ ...input, visibility: "published" });
+        return { ...page, items: page.items.map(publicPhoto) };
+      }),
+
+    filterOptions: publicProcedure.query(async () => {
+      return await db.getPhotoFilterOptions();
+    }),
+
+    listAll: adminProcedure
+      .input(z.object({
+        visibility: z.enum(["draft", "published", "unlisted"]).optional(),
+        featured: z.boolean().optional(),
+        categoryId: z.number().optional(),
+        camera: z.string().optional(),
+        lens: z.string().optional(),
+        focalRange: z.enum(FOCAL_RANGE_IDS).optional(),
         limit: z.number().optional(),
       }).optional())
       .query(async ({ input }) => {
+        // Admin can see all photos including drafts
         return await db.getAllPhotos(input);
       }),
 
     get: publicProcedure
       .input(z.object({ id: z.number() }))
       .query(async ({ input }) => {
-        return await db.getPhotoById(input.id);
+        // Unlisted photos resolve for anyone with the link; drafts do not
+        const photo = await db.getPhotoById(input.id);
+        if (!photo || photo.visibility === "draft") return undefined;
+        return publicPhoto(photo);
+      }),
+
+    getBySlug: publicProcedure
+      .input(z.object({ slug: z.string() }))
+      .query(async ({ input }) => {
+        const photo = await db.getPhotoBySlug(input.slug);
+        if (!photo || photo.visibility === "draft") return undefined;
+        return publicPhoto(photo);
       }),
 
     create: adminProcedure
       .input(z.object({
         title: z.string(),
+        slug: z.string().optional(),
         description: z.string().optional(),
         location: z.string().optional(),
         camera: z.string().optional(),
         lens: z.string().optional(),
         settings: z.string().optional(),
+        takenAt: z.date().nullable().optional(),
+        latitude: z.number().min(-90).max(90).nullable().optional(),
+        longitude: z.number().min(-180).max(180).nullable().optional(),
         imageUrl: z.string(),
         imageKey: z.string().optional(),
-        category: z.string().optional(),
-        tags: z.string().optional(),
+        imageWidth: z.number().int().positive().nullable().optional(),
+        imageHeight: z.number().int().positive().nullable().optional(),
+        imagePlaceholder: z.string().nullable().optional(),
+        categoryId: z.number().nullable().optional(),
+        tags: z.array(z.string()).optional(),
         featured: z.boolean().optional(),
         sortOrder: z.number().optional(),
+        visibility: z.enum(["draft", "published", "unlisted"]).optional(),
         publishedAt: z.date().optional(),
       }))
       .mutation(async ({ input }) => {
+        await assertCategorySection(input.categoryId, "photo");
         return await db.createPhoto(input);
       }),
 
@@ -62,28 +152,103 @@ export const appRouter = router({
       .input(z.object({
         id: z.number(),
         title: z.string().optional(),
+        slug: z.string().optional(),
         description: z.string().optional(),
         location: z.string().optional(),
         camera: z.string().optional(),
         lens: z.string().optional(),
         settings: z.string().optional(),
+        takenAt: z.date().nullable().optional(),
+        latitude: z.number().min(-90).max(90).nullable().optional(),
+        longitude: z.number().min(-180).max(180).nullable().optional(),
         imageUrl: z.string().optional(),
         imageKey: z.string().optional(),
-        category: z.string().optional(),
-        tags: z.string().optional(),
+        imageWidth: z.number().int().positive().nullable().optional(),
+        imageHeight: z.number().int().positive().nullable().optional(),
+        imagePlaceholder: z.string().nullable().optional(),
+        categoryId: z.number().nullable().optional(),
+        tags: z.array(z.string()).optional(),
         featured: z.boolean().optional(),
         sortOrder: z.number().optional(),
+        visibility: z.enum(["draft", "published", "unlisted"]).optional(),
         publishedAt: z.date().optional(),
       }))
       .mutation(async ({ input }) => {
         const { id, ...data } = input;
-        return await db.updatePhoto(id, data);
+        await assertCategorySection(data.categoryId, "photo");
+        const result = await db.updatePhoto(id, data);
+        scheduleStorageCleanup();
+        return result;
       }),
 
     delete: adminProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
-        return await db.deletePhoto(input.id);
+        const result = await db.deletePhoto(input.id);
+        scheduleStorageCleanup();
+        return result;
+      }),
+  }),
+
+  // ==================== Albums API ====================
+  albums: router({
+    list: publicProcedure.query(async () => {
+      return await db.getAllAlbums({ published: true });
+    }),
+
+    listAll: adminProcedure.query(async () => {
+      return await db.getAllAlbums();
+    }),
+
+    get: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        const album = await db.getAlbumById(input.id);
+        if (!album) return undefined;
+        return { ...album, photos: await db.getAlbumPhotos(album.id) };
+      }),
+
+    getBySlug: publicProcedure
+      .input(z.object({ slug: z.string() }))
+      .query(async ({ input }) => {
+        const album = await db.getAlbumBySlug(input.slug);
+        if (!album) return undefined;
+        const photos = await db.getAlbumPhotos(album.id, { published: true });
+        // As in the list, an album without a published photo is not public yet
+        if (photos.length === 0) return undefined;
+        return { ...album, photos: photos.map(publicPhoto) };
+      }),
+
+    create: adminProcedure
+      .input(z.object({
+        title: z.string().min(1),
+        slug: z.string().optional(),
+        description: z.string().optional(),
+        coverPhotoId: z.number().nullable().optional(),
+        photoIds: z.array(z.number()).optional(),
+      }))
+      .mutation(async ({ input }) => {
+        return await db.createAlbum(input);
+      }),
+
+    update: adminProcedure
+      .input(z.object({
+        id: z.number(),
+        title: z.string().min(1).optional(),
+        slug: z.string().optional(),
+        description: z.string().optional(),
+        coverPhotoId: z.number().nullable().optional(),
+        photoIds: z.array(z.number()).optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const { id, ...data } = input;
+        return await db.updateAlbum(id, data);
+      }),
+
+    delete: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        return await db.deleteAlbum(input.id);
       }),
   }),
 
@@ -93,19 +258,19 @@ export const appRouter = router({
       .input(z.object({
         published: z.boolean().optional(),
         featured: z.boolean().optional(),
-        category: z.string().optional(),
-        limit: z.number().optional(),
+        categoryId: z.number().optional(),
+        ...pageInput,
       }).optional())
       .query(async ({ input }) => {
         // For public access, only show published essays
-        return await db.getAllEssays({ ...input, published: true });
+        return await db.getEssayPage({ ...input, published: true });
       }),
 
     listAll: adminProcedure
       .input(z.object({
         published: z.boolean().optional(),
         featured: z.boolean().optional(),
-        category: z.string().optional(),
+        categoryId: z.number().optional(),
         limit: z.number().optional(),
       }).optional())
       .query(async ({ input }) => {
@@ -116,53 +281,153 @@ export const appRouter = router({
     get: publicProcedure
       .input(z.object({ id: z.number() }))
       .query(async ({ input }) => {
-        return await db.getEssayById(input.id);
+        // Ids are sequential, so drafts resolve as not found; previews go through signed links
+        const essay = await db.getEssayById(input.id);
+        return essay?.published ? essay : undefined;
+      }),
+
+    getBySlug: publicProcedure
+      .input(z.object({ slug: z.string() }))
+      .query(async ({ input }) => {
+        // Permalinks are public, so drafts resolve as not found
+        const essay = await db.getEssayBySlug(input.slug);
+        if (!essay?.published) return undefined;
+
+        const { html: contentHtml, toc } = await renderMarkdown(essay.content);
+        const series = await db.getSeriesNavigation(essay);
+        return { ...essay, contentHtml, toc, series };
       }),
 
     create: adminProcedure
       .input(z.object({
         title: z.string(),
+        slug: z.string().optional(),
         subtitle: z.string().optional(),
         excerpt: z.string().optional(),
         content: z.string(),
         coverImageUrl: z.string().optional(),
         coverImageKey: z.string().optional(),
-        category: z.string().optional(),
-        tags: z.string().optional(),
+        coverImageWidth: z.number().int().positive().nullable().optional(),
+        coverImageHeight: z.number().int().positive().nullable().optional(),
+        coverImagePlaceholder: z.string().nullable().optional(),
+        categoryId: z.number().nullable().optional(),
+        seriesId: z.number().nullable().optional(),
+        seriesPosition: z.number().int().positive().nullable().optional(),
+        tags: z.array(z.string()).optional(),
         readTime: z.number().optional(),
         featured: z.boolean().optional(),
         published: z.boolean().optional(),
-        publishedAt: z.date().optional(),
+        publishedAt: z.date().nullable().optional(),
       }))
-      .mutation(async ({ input }) => {
-        return await db.createEssay(input);
+      .mutation(async ({ input, ctx }) => {
+        await assertCategorySection(input.categoryId, "essay");
+        const result = await db.createEssay(draftSchedule(input), ctx.user.id);
+        reschedulePublisher();
+        return result;
       }),
 
     update: adminProcedure
       .input(z.object({
         id: z.number(),
         title: z.string().optional(),
+        slug: z.string().optional(),
         subtitle: z.string().optional(),
         excerpt: z.string().optional(),
         content: z.string().optional(),
         coverImageUrl: z.string().optional(),
         coverImageKey: z.string().optional(),
-        category: z.string().optional(),
-        tags: z.string().optional(),
+        coverImageWidth: z.number().int().positive().nullable().optional(),
+        coverImageHeight: z.number().int().positive().nullable().optional(),
+        coverImagePlaceholder: z.string().nullable().optional(),
+        categoryId: z.number().nullable().optional(),
+        seriesId: z.number().nullable().optional(),
+        seriesPosition: z.number().int().positive().nullable().optional(),
+        tags: z.array(z.string()).optional(),
         readTime: z.number().optional(),
         featured: z.boolean().optional(),
         published: z.boolean().optional(),
-        publishedAt: z.date().optional(),
+        publishedAt: z.date().nullable().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { id, ...data } = input;
+        await assertCategorySection(data.categoryId, "essay");
+        const result = await db.updateEssay(id, draftSchedule(data), ctx.user.id);
+        reschedulePublisher();
+        scheduleStorageCleanup();
+        return result;
+      }),
+
+    delete: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        const result = await db.deleteEssay(input.id);
+        scheduleStorageCleanup();
+        return result;
+      }),
+  }),
+
+  // ==================== Series API ====================
+  series: router({
+    list: publicProcedure.query(async () => {
+      return await db.getAllSeries({ published: true });
+    }),
+
+    listAll: adminProcedure.query(async () => {
+      return await db.getAllSeries();
+    }),
+
+    getBySlug: publicProcedure
+      .input(z.object({ slug: z.string() }))
+      .query(async ({ input }) => {
+        const series = await db.getSeriesBySlug(input.slug);
+        if (!series) return undefined;
+
+        const parts = await db.getSeriesParts(series.id, { published: true });
+        // Series without a published part are not public yet
+        if (parts.length === 0) return undefined;
+        return { ...series, parts };
+      }),
+
+    parts: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return await db.getSeriesParts(input.id);
+      }),
+
+    create: adminProcedure
+      .input(z.object({
+        title: z.string().min(1),
+        slug: z.string().optional(),
+        description: z.string().optional(),
+        coverImageUrl: z.string().optional(),
+        coverImageKey: z.string().optional(),
+      }))
+      .mutation(async ({ input }) => {
+        return await db.createSeries(input);
+      }),
+
+    update: adminProcedure
+      .input(z.object({
+        id: z.number(),
+        title: z.string().min(1).optional(),
+        slug: z.string().optional(),
+        description: z.string().optional(),
+        coverImageUrl: z.string().optional(),
+        coverImageKey: z.string().optional(),
       }))
       .mutation(async ({ input }) => {
         const { id, ...data } = input;
-        return await db.updateEssay(id, data);
+        const result = await db.updateSeries(id, data);
+        scheduleStorageCleanup();
+        return result;
       }),
 
     delete: adminProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
-        return await db.deleteEssay(input.id);
+        const result = await db.deleteSeries(input.id);
+        scheduleStorageCleanup();
+        return result;
       }),
   }),
 
@@ -172,19 +437,19 @@ export const appRouter = router({
       .input(z.object({
         published: z.boolean().optional(),
         featured: z.boolean().optional(),
-        category: z.string().optional(),
-        limit: z.number().optional(),
+        categoryId: z.number().optional(),
+        ...pageInput,
       }).optional())
       .query(async ({ input }) => {
         // For public access, only show published papers
-        return await db.getAllPapers({ ...input, published: true });
+        return await db.getPaperPage({ ...input, published: true });
       }),
 
     listAll: adminProcedure
       .input(z.object({
         published: z.boolean().optional(),
         featured: z.boolean().optional(),
-        category: z.string().optional(),
+        categoryId: z.number().optional(),
         limit: z.number().optional(),
       }).optional())
       .query(async ({ input }) => {
@@ -195,12 +460,23 @@ export const appRouter = router({
     get: publicProcedure
       .input(z.object({ id: z.number() }))
       .query(async ({ input }) => {
-        return await db.getPaperById(input.id);
+        // Ids are sequential, so drafts resolve as not found; previews go through signed links
+        const paper = await db.getPaperById(input.id);
+        return paper?.published ? paper : undefined;
+      }),
+
+    getBySlug: publicProcedure
+      .input(z.object({ slug: z.string() }))
+      .query(async ({ input }) => {
+        // Permalinks are public, so drafts resolve as not found
+        const paper = await db.getPaperBySlug(input.slug);
+        return paper?.published ? paper : undefined;
       }),
 
     create: adminProcedure
       .input(z.object({
         title: z.string(),
+        slug: z.string().optional(),
         authors: z.string(),
         abstract: z.string().optional(),
         journal: z.string().optional(),
@@ -211,21 +487,25 @@ export const appRouter = router({
         doi: z.string().optional(),
         pdfUrl: z.string().optional(),
         pdfKey: z.string().optional(),
-        category: z.string().optional(),
-        tags: z.string().optional(),
+        categoryId: z.number().nullable().optional(),
+        tags: z.array(z.string()).optional(),
         citations: z.number().optional(),
         featured: z.boolean().optional(),
         published: z.boolean().optional(),
-        publishedAt: z.date().optional(),
+        publishedAt: z.date().nullable().optional(),
       }))
-      .mutation(async ({ input }) => {
-        return await db.createPaper(input);
+      .mutation(async ({ input, ctx }) => {
+        await assertCategorySection(input.categoryId, "paper");
+        const result = await db.createPaper(draftSchedule(input), ctx.user.id);
+        reschedulePublisher();
+        return result;
       }),
 
     update: adminProcedure
       .input(z.object({
         id: z.number(),
         title: z.string().optional(),
+        slug: z.string().optional(),
         authors: z.string().optional(),
         abstract: z.string().optional(),
         journal: z.string().optional(),
@@ -236,22 +516,28 @@ export const appRouter = router({
         doi: z.string().optional(),
         pdfUrl: z.string().optional(),
         pdfKey: z.string().optional(),
-        category: z.string().optional(),
-        tags: z.string().optional(),
+        categoryId: z.number().nullable().optional(),
+        tags: z.array(z.string()).optional(),
         citations: z.number().optional(),
         featured: z.boolean().optional(),
         published: z.boolean().optional(),
-        publishedAt: z.date().optional(),
+        publishedAt: z.date().nullable().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
         const { id, ...data } = input;
-        return await db.updatePaper(id, data);
+        await assertCategorySection(data.categoryId, "paper");
+        const result = await db.updatePaper(id, draftSchedule(data), ctx.user.id);
+        reschedulePublisher();
+        scheduleStorageCleanup();
+        return result;
       }),
 
     delete: adminProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
-        return await db.deletePaper(input.id);
+        const result = await db.deletePaper(input.id);
+        scheduleStorageCleanup();
+        return result;
       }),
   }),
 
@@ -259,11 +545,241 @@ export const appRouter = router({
   search: router({
     query: publicProcedure
       .input(z.object({
-        q: z.string(),
-        type: z.enum(['photos', 'essays', 'papers']).optional(),
+        q: z.string().max(200),
+        type: z.enum(SEARCH_CONTENT_TYPES).optional(),
+        categoryId: z.number().int().optional(),
+        tag: z.string().optional(),
+        year: z.number().int().optional(),
+        page: z.number().int().min(1).default(1),
+        pageSize: z.number().int().min(1).max(50).default(12),
+      }))
+      .query(async ({ input }) => {
+        const { q, page, pageSize, ...filters } = input;
+        return await db.searchContent(q, { ...filters, limit: pageSize, offset: (page - 1) * pageSize });
+      }),
+
+    // Search-as-you-type: a handful of titles, tags, places and authors to jump to
+    suggest: publicProcedure
+      .input(z.object({
+        q: z.string().max(100),
+        limit: z.number().int().min(1).max(10).default(8),
+      }))
+      .query(async ({ input }) => {
+        return await db.suggestContent(input.q, input.limit);
+      }),
+  }),
+
+  // ==================== Categories API ====================
+  categories: router({
+    // Item counts cover public content only, so they never hint at drafts
+    list: publicProcedure
+      .input(z.object({
+        section: z.enum(["photo", "essay", "paper"]).optional(),
+      }).optional())
+      .query(async ({ input }) => {
+        return await db.getCategories(input?.section, { published: true });
+      }),
+
+    listAll: adminProcedure
+      .input(z.object({
+        section: z.enum(["photo", "essay", "paper"]).optional(),
+      }).optional())
+      .query(async ({ input }) => {
+        return await db.getCategories(input?.section);
+      }),
+
+    getBySlug: publicProcedure
+      .input(z.object({
+        section: z.enum(["photo", "essay", "paper"]),
+        slug: z.string(),
       }))
       .query(async ({ input }) => {
-        return await db.searchContent(input.q, input.type);
+        return await db.getCategoryBySlug(input.section, input.slug);
+      }),
+
+    create: adminProcedure
+      .input(z.object({
+        section: z.enum(["photo", "essay", "paper"]),
+        name: z.string().min(1),
+        slug: z.string().optional(),
+        description: z.string().optional(),
+        coverImageUrl: z.string().optional(),
+        coverImageKey: z.string().optional(),
+      }))
+      .mutation(async ({ input }) => {
+        return await db.createCategory(input);
+      }),
+
+    update: adminProcedure
+      .input(z.object({
+        id: z.number(),
+        name: z.string().min(1).optional(),
+        slug: z.string().optional(),
+        description: z.string().optional(),
+        coverImageUrl: z.string().optional(),
+        coverImageKey: z.string().optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const { id, ...data } = input;
+        const result = await db.updateCategory(id, data);
+        scheduleStorageCleanup();
+        return result;
+      }),
+
+    delete: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        const result = await db.deleteCategory(input.id);
+        scheduleStorageCleanup();
+        return result;
+      }),
+
+    reorder: adminProcedure
+      .input(z.object({
+        section: z.enum(["photo", "essay", "paper"]),
+        ids: z.array(z.number()),
+      }))
+      .mutation(async ({ input }) => {
+        return await db.reorderCategories(input.section, input.ids);
+      }),
+  }),
+
+  // ==================== Tags API ====================
+  tags: router({
+    list: publicProcedure.query(async () => {
+      return await db.getAllTags();
+    }),
+
+    // Tag archive: the tag plus everything public that carries it
+    getBySlug: publicProcedure
+      .input(z.object({ slug: z.string() }))
+      .query(async ({ input }) => {
+        const tag = await db.getTagBySlug(input.slug);
+        if (!tag) return undefined;
+        const { photos, essays, papers } = await db.getContentByTag(tag.id);
+        return { tag, photos: photos.map(publicPhoto), essays, papers };
+      }),
+  }),
+
+  // ==================== Revisions API ====================
+  revisions: router({
+    list: adminProcedure
+      .input(z.object({
+        contentType: z.enum(["essay", "paper"]),
+        contentId: z.number(),
+      }))
+      .query(async ({ input }) => {
+        return await db.getRevisions(input.contentType, input.contentId);
+      }),
+
+    diff: adminProcedure
+      .input(z.object({
+        fromId: z.number(),
+        toId: z.number(),
+      }))
+      .query(async ({ input }) => {
+        const [from, to] = await Promise.all([
+          db.getRevisionById(input.fromId),
+          db.getRevisionById(input.toId),
+        ]);
+        if (!from || !to) {
+          throw new Error("Revision not found");
+        }
+        if (from.contentType !== to.contentType || from.contentId !== to.contentId) {
+          throw new Error("Revisions belong to different items");
+        }
+        return diffSnapshots(from.contentType, parseSnapshot(from.snapshot), parseSnapshot(to.snapshot));
+      }),
+
+    restore: adminProcedure
+      .input(z.object({ revisionId: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        const result = await db.restoreRevision(input.revisionId, ctx.user.id);
+        scheduleStorageCleanup();
+        return result;
+      }),
+  }),
+
+  // ==================== Preview Links API ====================
+  previews: router({
+    create: adminProcedure
+      .input(z.object({
+        contentType: z.enum(["essay", "paper"]),
+        contentId: z.number(),
+        expiresInHours: z.number().int().min(1).max(24 * 30).default(72),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const item = input.contentType === "essay"
+          ? await db.getEssayById(input.contentId)
+          : await db.getPaperById(input.contentId);
+        if (!item) {
+          throw new Error("Content not found");
+        }
+
+        const tokenId = nanoid();
+        const expiresAt = new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000);
+        const { id } = await db.createPreviewLink({
+          tokenId,
+          contentType: input.contentType,
+          contentId: input.contentId,
+          createdBy: ctx.user.id,
+          expiresAt,
+        });
+        const token = await createPreviewToken(
+          { tokenId, contentType: input.contentType, contentId: input.contentId },
+          expiresAt
+        );
+        return { id, token, expiresAt };
+      }),
+
+    // Links issued by the current admin, re-signed so they can be copied again
+    list: adminProcedure
+      .input(z.object({
+        contentType: z.enum(["essay", "paper"]).optional(),
+        contentId: z.number().optional(),
+      }).optional())
+      .query(async ({ input, ctx }) => {
+        const links = await db.getPreviewLinks(ctx.user.id, input);
+        return await Promise.all(links.map(async link => ({
+          ...link,
+          token: await createPreviewToken(link, link.expiresAt),
+        })));
+      }),
+
+    revoke: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        return await db.revokePreviewLink(input.id, ctx.user.id);
+      }),
+
+    // Public: resolves a preview token to its draft, or null if invalid, expired or revoked
+    get: publicProcedure
+      .input(z.object({ token: z.string() }))
+      .query(async ({ input }) => {
+        const payload = await verifyPreviewToken(input.token);
+        if (!payload) return null;
+
+        const link = await db.getPreviewLinkByTokenId(payload.tokenId);
+        if (!link || link.revokedAt) return null;
+
+        if (payload.contentType === "essay") {
+          const essay = await db.getEssayById(payload.contentId);
+          if (!essay) return null;
+          const { html, toc } = await renderMarkdown(essay.content);
+          return {
+            contentType: "essay" as const,
+            essay: { ...essay, contentHtml: html, toc },
+            expiresAt: link.expiresAt,
+          };
+        }
+
+        const paper = await db.getPaperById(payload.contentId);
+        if (!paper) return null;
+        return {
+          contentType: "paper" as const,
+          paper,
+          expiresAt: link.expiresAt,
+        };
       }),
   }),
 
@@ -272,11 +788,11 @@ export const appRouter = router({
     list: publicProcedure
       .input(z.object({
         active: z.boolean().optional(),
-        limit: z.number().optional(),
+        ...pageInput,
       }).optional())
       .query(async ({ input }) => {
         // For public access, only show active backgrounds
-        return await db.getAllBackgrounds({ ...input, active: true });
+        return await db.getBackgroundPage({ ...input, active: true });
       }),
 
     listAll: adminProcedure
@@ -300,6 +816,9 @@ export const appRouter = router({
         title: z.string().optional(),
         imageUrl: z.string(),
         imageKey: z.string().optional(),
+        imageWidth: z.number().int().positive().nullable().optional(),
+        imageHeight: z.number().int().positive().nullable().optional(),
+        imagePlaceholder: z.string().nullable().optional(),
         active: z.boolean().optional(),
         sortOrder: z.number().optional(),
       }))
@@ -313,56 +832,186 @@ export const appRouter = router({
         title: z.string().optional(),
         imageUrl: z.string().optional(),
         imageKey: z.string().optional(),
+        imageWidth: z.number().int().positive().nullable().optional(),
+        imageHeight: z.number().int().positive().nullable().optional(),
+        imagePlaceholder: z.string().nullable().optional(),
         active: z.boolean().optional(),
         sortOrder: z.number().optional(),
       }))
       .mutation(async ({ input }) => {
         const { id, ...data } = input;
-        return await db.updateBackground(id, data);
+        const result = await db.updateBackground(id, data);
+        scheduleStorageCleanup();
+        return result;
       }),
 
     delete: adminProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
-        return await db.deleteBackground(input.id);
+        const result = await db.deleteBackground(input.id);
+        scheduleStorageCleanup();
+        return result;
+      }),
+  }),
+
+  // ==================== Site Settings API ====================
+  settings: router({
+    // The saved value, or the default while it has never been saved
+    get: adminProcedure
+      .input(z.object({ key: z.enum(SITE_SETTING_KEYS) }))
+      .query(async ({ input }) => {
+        const value = await db.getSetting(input.key);
+        return { value: value ?? SITE_SETTING_DEFAULTS[input.key], isDefault: value == null };
+      }),
+
+    set: adminProcedure
+      .input(z.object({
+        key: z.enum(SITE_SETTING_KEYS),
+        value: z.string().max(10000),
+      }))
+      .mutation(async ({ input }) => {
+        return await db.setSetting(input.key, input.value);
       }),
   }),
 
   // ==================== Upload API ====================
   upload: router({
-    image: adminProcedure
+    // Step one of a direct upload: the browser PUTs the file to `uploadUrl`
+    presign: adminProcedure
       .input(z.object({
+        kind: z.enum(UPLOAD_KINDS),
         filename: z.string(),
         contentType: z.string(),
-        base64Data: z.string(),
+        size: z.number().int(),
       }))
       .mutation(async ({ input }) => {
         if (!isStorageConfigured()) {
           throw new Error("Storage service is not configured");
         }
-        const { filename, contentType, base64Data } = input;
-        const buffer = Buffer.from(base64Data, 'base64');
-        const fileKey = `images/${nanoid()}-${filename}`;
-        const { url } = await storagePut(fileKey, buffer, contentType);
-        return { url, key: fileKey };
+        const { kind, filename, contentType, size } = input;
+        return await createUploadUrl(kind, filename, contentType, size);
       }),
 
-    pdf: adminProcedure
+    // Step two: the file is in the bucket, derive what the forms need from it
+    confirmImage: adminProcedure
       .input(z.object({
-        filename: z.string(),
-        base64Data: z.string(),
+        key: z.string(),
+        // Uploaded from the media library itself, to be kept there
+        library: z.boolean().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        if (!isStorageConfigured()) {
+          throw new Error("Storage service is not configured");
+        }
+        const { key: fileKey, data: buffer, contentType } = await readUpload("image", input.key);
+        const url = getPublicUrl(fileKey);
+
+        // Renditions, dimensions and the placeholder are optimisations: the
+        // original is already stored, so a failure here only means pages
+        // fall back to it
+        let variants: ImageVariant[] = [];
+        let image: ImageInfo | null = null;
+        try {
+          image = await describeImage(buffer, contentType);
+          const stored = await storeImageVariants(fileKey, buffer, contentType);
+          await db.saveImageVariants(fileKey, stored);
+          variants = stored.map(({ key: _key, ...variant }) => variant);
+        } catch (error) {
+          console.error("[Upload] Failed to process image:", error);
+        }
+
+        await db.recordAsset({
+          key: fileKey,
+          url,
+          kind: "image",
+          filename: uploadFilename(fileKey),
+          contentType,
+          size: buffer.length,
+          width: image?.width ?? null,
+          height: image?.height ?? null,
+          placeholder: image?.placeholder ?? null,
+          uploadedBy: ctx.user.id,
+          pinned: input.library ?? false,
+        });
+
+        // Camera metadata for the photo form to pre-fill; other callers ignore it
+        return { url, key: fileKey, image, variants, metadata: extractPhotoMetadata(buffer) };
+      }),
+
+    confirmPdf: adminProcedure
+      .input(z.object({
+        key: z.string(),
+        library: z.boolean().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
         if (!isStorageConfigured()) {
           throw new Error("Storage service is not configured");
         }
-        const { filename, base64Data } = input;
-        const buffer = Buffer.from(base64Data, 'base64');
-        const fileKey = `pdfs/${nanoid()}-${filename}`;
-        const { url } = await storagePut(fileKey, buffer, 'application/pdf');
+        // Nothing is derived from a PDF's bytes, so it is never downloaded here
+        const { key: fileKey, size, contentType } = await statUpload("pdf", input.key);
+        const url = getPublicUrl(fileKey);
+        await db.recordAsset({
+          key: fileKey,
+          url,
+          kind: "pdf",
+          filename: uploadFilename(fileKey),
+          contentType,
+          size,
+          uploadedBy: ctx.user.id,
+          pinned: input.library ?? false,
+        });
         return { url, key: fileKey };
       }),
   }),
+
+  // ==================== Storage API ====================
+  storage: router({
+    // Stored files no content, revision or variant points at
+    orphans: adminProcedure.query(async () => {
+      if (!isStorageConfigured()) {
+        throw new Error("Storage service is not configured");
+      }
+      return await findOrphans();
+    }),
+
+    purgeOrphans: adminProcedure
+      .input(z.object({ keys: z.array(z.string()).min(1) }))
+      .mutation(async ({ input }) => {
+        if (!isStorageConfigured()) {
+          throw new Error("Storage service is not configured");
+        }
+        return await purgeOrphans(input.keys);
+      }),
+  }),
+
+  // ==================== Media Library API ====================
+  assets: router({
+    list: adminProcedure
+      .input(z.object({
+        query: z.string().max(200).optional(),
+        kind: z.enum(UPLOAD_KINDS).optional(),
+        limit: z.number().int().min(1).max(100).default(48),
+        offset: z.number().int().min(0).default(0),
+      }))
+      .query(async ({ input }) => {
+        return await db.getAssets({ ...input, query: input.query?.trim() });
+      }),
+
+    // Keep a file after content stops using it, or let it be cleaned up again
+    pin: adminProcedure
+      .input(z.object({ id: z.number(), pinned: z.boolean() }))
+      .mutation(async ({ input }) => {
+        return await db.setAssetPinned(input.id, input.pinned);
+      }),
+
+    delete: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        const result = await db.deleteAsset(input.id);
+        scheduleStorageCleanup();
+        return result;
+      }),
+  }),
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,188 @@
+/**
+ * S3 Storage Driver
+ *
+ * File storage on AWS S3 or S3-compatible services (Cloudflare R2, MinIO).
+ * Replaces Manus storage proxy with direct S3 SDK calls.
+ */
+
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { config } from "./_core/config";
+import type { StorageDriver, StoredObject } from "./storage";
+
+// ============================================================================
+// S3 Client Singleton
+// ============================================================================
+
+let _s3Client: S3Client | null = null;
+
+function getS3Client(): S3Client {
+  if (_s3Client) {
+    return _s3Client;
+  }
+
+  const { s3 } = config.storage;
+
+  if (!s3.accessKeyId || !s3.secretAccessKey || !s3.bucket) {
+    throw new Error(
+      "S3 storage not configured. Set AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, and S3_BUCKET environment variables."
+    );
+  }
+
+  const clientConfig: ConstructorParameters<typeof S3Client>[0] = {
+    region: s3.region,
+    credentials: {
+      accessKeyId: s3.accessKeyId,
+      secretAccessKey: s3.secretAccessKey,
+    },
+  };
+
+  // Support S3-compatible services (Cloudflare R2, MinIO)
+  if (s3.endpoint) {
+    clientConfig.endpoint = s3.endpoint;
+    clientConfig.forcePathStyle = true; // Required for MinIO
+  }
+
+  _s3Client = new S3Client(clientConfig);
+  return _s3Client;
+}
+
+// ============================================================================
+// URL Construction Helper
+// ============================================================================
+
+/**
+ * Construct the public URL for an uploaded file
+ *
+ * For Cloudflare R2: Uses S3_PUBLIC_URL (e.g., https://pub-xxx.r2.dev)
+ * For standard S3: Uses bucket.s3.region.amazonaws.com format
+ */
+function constructPublicUrl(key: string): string {
+  const { bucket, region, endpoint, publicUrl } = config.storage.s3;
+
+  // If a public URL is configured (e.g., R2 public dev URL), use it
+  if (publicUrl) {
+    // Remove trailing slash from publicUrl if present
+    const baseUrl = publicUrl.replace(/\/+$/, "");
+    return `${baseUrl}/${key}`;
+  }
+
+  // For S3-compatible services without public URL configured
+  if (endpoint) {
+    // This won't work for R2 without public URL, but kept for other S3-compatible services
+    console.warn("[Storage] S3_PUBLIC_URL not configured. Files may not be publicly accessible.");
+    return `${endpoint}/${bucket}/${key}`;
+  }
+
+  // Standard S3 URL
+  return `https://${bucket}.s3.${region}.amazonaws.com/${key}`;
+}
+
+// ============================================================================
+// Driver
+// ============================================================================
+
+/** Keys arrive normalized (no leading slashes) from the storage facade. */
+export const s3Driver: StorageDriver = {
+  isConfigured() {
+    const { s3 } = config.storage;
+    return Boolean(s3.accessKeyId && s3.secretAccessKey && s3.bucket);
+  },
+
+  async put(key, data, contentType) {
+    const command = new PutObjectCommand({
+      Bucket: config.storage.s3.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+      // Note: ACL may not work with all S3-compatible services
+      // For R2, public access is configured at bucket level
+    });
+
+    await getS3Client().send(command);
+  },
+
+  async read(key) {
+    const command = new GetObjectCommand({
+      Bucket: config.storage.s3.bucket,
+      Key: key,
+    });
+
+    const response = await getS3Client().send(command);
+    if (!response.Body) {
+      throw new Error(`Storage object has no body: ${key}`);
+    }
+    const data = Buffer.from(await response.Body.transformToByteArray());
+
+    return { data, contentType: response.ContentType };
+  },
+
+  async head(key) {
+    const command = new HeadObjectCommand({
+      Bucket: config.storage.s3.bucket,
+      Key: key,
+    });
+
+    const response = await getS3Client().send(command);
+    return { size: response.ContentLength ?? 0, contentType: response.ContentType };
+  },
+
+  async delete(key) {
+    const command = new DeleteObjectCommand({
+      Bucket: config.storage.s3.bucket,
+      Key: key,
+    });
+
+    await getS3Client().send(command);
+  },
+
+  async list(prefix) {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await getS3Client().send(new ListObjectsV2Command({
+        Bucket: config.storage.s3.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of response.Contents ?? []) {
+        if (!object.Key) continue;
+        objects.push({ key: object.Key, size: object.Size ?? 0, lastModified: object.LastModified ?? new Date(0) });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return objects;
+  },
+
+  async signedDownloadUrl(key, expiresIn) {
+    const command = new GetObjectCommand({
+      Bucket: config.storage.s3.bucket,
+      Key: key,
+    });
+
+    return await getSignedUrl(getS3Client(), command, { expiresIn });
+  },
+
+  async signedUploadUrl(key, contentType, expiresIn, contentLength) {
+    const command = new PutObjectCommand({
+      Bucket: config.storage.s3.bucket,
+      Key: key,
+      ContentType: contentType,
+      // Signed along with the type, so the bucket rejects a different body
+      ContentLength: contentLength,
+    });
+
+    return await getSignedUrl(getS3Client(), command, { expiresIn });
+  },
+
+  publicUrl(key) {
+    return constructPublicUrl(key);
+  },
+};
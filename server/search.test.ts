@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import {
+  applySearchFilters,
+  buildSnippet,
+  computeFacets,
+  escapeLikePattern,
+  hasSearchTerms,
+  highlight,
+  markdownToPlainText,
+  parseSearchQuery,
+  rankSuggestions,
+  snippetFrom,
+  toBooleanQuery,
+  type SearchCandidate,
+  type SearchSuggestion,
+} from "./search";
+
+describe("parseSearchQuery", () => {
+  it("separates words, quoted phrases and exclusions", () => {
+    expect(parseSearchQuery(`winter "isle of skye" -summer winter`)).toEqual({
+      terms: ["winter"],
+      phrases: ["isle of skye"],
+      excluded: ["summer"],
+    });
+  });
+
+  it("strips boolean operators so input cannot change the query", () => {
+    const parsed = parseSearchQuery(`light* (shadow) @3 +"a~b"`);
+    expect(parsed.terms).toEqual(["light", "shadow", "3"]);
+    expect(parsed.phrases).toEqual(["a b"]);
+    expect(hasSearchTerms(parseSearchQuery("-only -exclusions"))).toBe(false);
+  });
+});
+
+describe("toBooleanQuery", () => {
+  it("requires every term and phrase", () => {
+    expect(toBooleanQuery(parseSearchQuery(`摄影 "visual rhetoric" -draft`))).toBe(
+      `+摄影 +"visual rhetoric" -draft`
+    );
+  });
+
+  it("keeps short English words, which only match with stopwords off in the index", () => {
+    expect(toBooleanQuery(parseSearchQuery(`a history of "the decisive moment" in photography`))).toBe(
+      `+a* +history +of +in +photography +"the decisive moment"`
+    );
+  });
+
+  it("matches terms shorter than an ngram token as a prefix", () => {
+    expect(toBooleanQuery(parseSearchQuery("光 a"))).toBe("+光* +a*");
+  });
+});
+
+describe("highlight", () => {
+  it("marks every match case-insensitively, longest needle first", () => {
+    const parsed = parseSearchQuery(`snow "snow day"`);
+    expect(highlight("Snow day, more snow", parsed)).toEqual([
+      { text: "Snow day", match: true },
+      { text: ", more ", match: false },
+      { text: "snow", match: true },
+    ]);
+  });
+
+  it("finds Chinese terms inside unspaced text", () => {
+    expect(highlight("苏格兰高地的冬季摄影", parseSearchQuery("冬季"))).toEqual([
+      { text: "苏格兰高地的", match: false },
+      { text: "冬季", match: true },
+      { text: "摄影", match: false },
+    ]);
+  });
+});
+
+describe("snippets", () => {
+  it("centres a long text on the first match", () => {
+    const text = `${"filler ".repeat(60)}the profound stillness of highland winter ${"tail ".repeat(60)}`;
+    const segments = buildSnippet(text, parseSearchQuery("stillness"), 120);
+    expect(segments[0]).toEqual({ text: "…", match: false });
+    expect(segments.at(-1)).toEqual({ text: "…", match: false });
+    expect(segments.some(segment => segment.match && segment.text === "stillness")).toBe(true);
+    expect(segments.map(segment => segment.text).join("").length).toBeLessThanOrEqual(122);
+  });
+
+  it("prefers the field that contains the match", () => {
+    const parsed = parseSearchQuery("semiotics");
+    expect(snippetFrom(["An excerpt", "A study in semiotics"], parsed)).toEqual([
+      { text: "A study in ", match: false },
+      { text: "semiotics", match: true },
+    ]);
+    expect(snippetFrom([null, "Only text"], parsed)).toEqual([{ text: "Only text", match: false }]);
+  });
+
+  it("reads Markdown as plain text", () => {
+    expect(markdownToPlainText("## Title\n\nSome *bold* [link](https://x.test) ![alt](a.png)\n\n```\ncode\n```"))
+      .toBe("Title Some bold link alt");
+  });
+});
+
+describe("facets", () => {
+  const winter = { slug: "winter", name: "Winter" };
+  const skye = { slug: "skye", name: "Skye" };
+  const candidates: SearchCandidate[] = [
+    { type: "photo", id: 1, score: 2, categoryId: 10, year: 2024, tags: [winter, skye] },
+    { type: "photo", id: 2, score: 5, categoryId: 11, year: 2023, tags: [winter] },
+    { type: "essay", id: 1, score: 3, categoryId: 20, year: 2024, tags: [skye] },
+    { type: "paper", id: 1, score: 1, categoryId: null, year: null, tags: [] },
+  ];
+
+  it("filters on every choice and ranks by score", () => {
+    expect(applySearchFilters(candidates, {}).map(c => `${c.type}${c.id}`)).toEqual([
+      "photo2", "essay1", "photo1", "paper1",
+    ]);
+    expect(applySearchFilters(candidates, { tag: "skye", year: 2024 }).map(c => `${c.type}${c.id}`)).toEqual([
+      "essay1", "photo1",
+    ]);
+  });
+
+  it("counts each facet without its own filter", () => {
+    const facets = computeFacets(candidates, { type: "photo", tag: "winter" });
+    expect(facets.types).toEqual([
+      { value: "photo", count: 2 },
+      { value: "essay", count: 0 },
+      { value: "paper", count: 0 },
+    ]);
+    expect(facets.tags).toEqual([
+      { slug: "winter", name: "Winter", count: 2 },
+      { slug: "skye", name: "Skye", count: 1 },
+    ]);
+    expect(facets.categories).toEqual([{ id: 10, count: 1 }, { id: 11, count: 1 }]);
+    expect(facets.years).toEqual([{ year: 2024, count: 1 }, { year: 2023, count: 1 }]);
+  });
+});
+
+describe("escapeLikePattern", () => {
+  it("escapes wildcards and the escape character", () => {
+    expect(escapeLikePattern("100%")).toBe("100\\%");
+    expect(escapeLikePattern("snake_case")).toBe("snake\\_case");
+    expect(escapeLikePattern("C:\\photos")).toBe("C:\\\\photos");
+    expect(escapeLikePattern("winter")).toBe("winter");
+  });
+});
+
+describe("rankSuggestions", () => {
+  const suggestion = (kind: SearchSuggestion["kind"], label: string): SearchSuggestion =>
+    ({ kind, label, path: `/${kind}/${label}` });
+
+  it("puts prefix matches before word starts and inner matches", () => {
+    const ranked = rankSuggestions("sky", [
+      suggestion("title", "Under a grey sky"),
+      suggestion("title", "Brisky mornings"),
+      suggestion("location", "Skye"),
+      suggestion("tag", "sky"),
+      suggestion("title", "Skyline at dusk"),
+      suggestion("author", "Smith"),
+    ], 10);
+    expect(ranked.map(s => s.label)).toEqual(["sky", "Skyline at dusk", "Skye", "Under a grey sky", "Brisky mornings"]);
+  });
+
+  it("keeps one suggestion per destination and respects the limit", () => {
+    const ranked = rankSuggestions("a", [
+      suggestion("author", "Ann"),
+      suggestion("author", "Ann"),
+      suggestion("author", "Abe"),
+    ], 1);
+    expect(ranked).toEqual([suggestion("author", "Abe")]);
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Full-text Search Helpers
+ *
+ * Turns what a visitor typed into a MySQL boolean-mode query for the ngram
+ * FULLTEXT indexes (see 0018_fulltext_search.sql), and cuts highlighted
+ * snippets out of the matched text. The ngram parser splits text into
+ * two-character tokens, so Chinese and English are matched the same way:
+ * a word or phrase matches when its tokens appear consecutively.
+ */
+
+// Characters with a meaning in boolean mode; stripped from plain words
+const BOOLEAN_OPERATORS = /[+\-<>()~*"@]/g;
+
+// Shorter terms produce no ngram tokens and are matched as a prefix instead
+const NGRAM_TOKEN_SIZE = 2;
+
+export type ParsedSearchQuery = {
+  /** Words that must all appear. */
+  terms: string[];
+  /** Quoted phrases that must appear as written. */
+  phrases: string[];
+  /** Words prefixed with "-" that must not appear. */
+  excluded: string[];
+};
+
+export type HighlightSegment = {
+  text: string;
+  match: boolean;
+};
+
+export const SEARCH_CONTENT_TYPES = ["photo", "essay", "paper"] as const;
+
+export type SearchContentType = (typeof SEARCH_CONTENT_TYPES)[number];
+
+/** Narrowing choices; each is optional and they combine with AND. */
+export type SearchFilters = {
+  type?: SearchContentType;
+  categoryId?: number;
+  tag?: string; // slug
+  year?: number;
+};
+
+/** What facets and filters need to know about one match. */
+export type SearchCandidate = {
+  type: SearchContentType;
+  id: number;
+  score: number;
+  categoryId: number | null;
+  year: number | null;
+  tags: { slug: string; name: string }[];
+};
+
+export type SearchFacets = {
+  types: { value: SearchContentType; count: number }[];
+  categories: { id: number; count: number }[];
+  tags: { slug: string; name: string; count: number }[];
+  years: { year: number; count: number }[];
+};
+
+// Only the most common tags are offered as a facet
+const MAX_TAG_FACETS = 20;
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const phrases: string[] = [];
+  const rest = input.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const cleaned = phrase.replace(BOOLEAN_OPERATORS, " ").replace(/\s+/g, " ").trim();
+    if (cleaned) phrases.push(cleaned);
+    return " ";
+  });
+
+  const terms: string[] = [];
+  const excluded: string[] = [];
+  for (const word of rest.split(/\s+/)) {
+    const cleaned = word.replace(BOOLEAN_OPERATORS, "");
+    if (!cleaned) continue;
+    if (word.startsWith("-") && word.length > 1) excluded.push(cleaned);
+    else terms.push(cleaned);
+  }
+
+  return {
+    terms: Array.from(new Set(terms)),
+    phrases: Array.from(new Set(phrases)),
+    excluded: Array.from(new Set(excluded)),
+  };
+}
+
+/** Whether the query has anything that can match (exclusions alone cannot). */
+export function hasSearchTerms(parsed: ParsedSearchQuery): boolean {
+  return parsed.terms.length > 0 || parsed.phrases.length > 0;
+}
+
+/** Every term and phrase required, exclusions ruled out. */
+export function toBooleanQuery(parsed: ParsedSearchQuery): string {
+  const required = parsed.terms.map(term =>
+    Array.from(term).length < NGRAM_TOKEN_SIZE ? `+${term}*` : `+${term}`
+  );
+  const phrases = parsed.phrases.map(phrase => `+"${phrase}"`);
+  const excluded = parsed.excluded.map(term => `-${term}`);
+  return [...required, ...phrases, ...excluded].join(" ");
+}
+
+/** Reduce Markdown to the text a reader sees, for snippets. */
+export function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/[*_~`]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** A case-insensitive pattern matching any of the words and phrases searched for. */
+function highlightPattern(parsed: ParsedSearchQuery): RegExp | null {
+  const needles = [...parsed.phrases, ...parsed.terms]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  return needles.length > 0 ? new RegExp(needles.join("|"), "giu") : null;
+}
+
+/** Split `text` into matched and unmatched runs. */
+export function highlight(text: string, parsed: ParsedSearchQuery): HighlightSegment[] {
+  const pattern = highlightPattern(parsed);
+  if (!pattern || !text) return text ? [{ text, match: false }] : [];
+
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const found of Array.from(text.matchAll(pattern))) {
+    const start = found.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: found[0], match: true });
+    last = start + found[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
+
+/**
+ * A window of `text` around the first match, highlighted. Falls back to the
+ * opening of the text when the match was in another field (e.g. a tag).
+ */
+export function buildSnippet(text: string, parsed: ParsedSearchQuery, maxLength = 200): HighlightSegment[] {
+  if (text.length <= maxLength) return highlight(text, parsed);
+
+  const pattern = highlightPattern(parsed);
+  const first = pattern ? text.search(pattern) : -1;
+
+  let start = first <= 0 ? 0 : Math.max(0, first - Math.floor(maxLength / 3));
+  let end = Math.min(text.length, start + maxLength);
+  start = Math.max(0, end - maxLength);
+
+  // Avoid cutting Latin words in half; CJK text has no spaces to snap to
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < start + 20 && space < first) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > end - 20 && space > start) end = space;
+  }
+
+  const segments = highlight(text.slice(start, end), parsed);
+  if (start > 0) segments.unshift({ text: "…", match: false });
+  if (end < text.length) segments.push({ text: "…", match: false });
+  return segments;
+}
+
+/** Snippet from the first candidate text that contains a match, else the first non-empty one. */
+export function snippetFrom(
+  candidates: (string | null | undefined)[],
+  parsed: ParsedSearchQuery,
+  maxLength = 200
+): HighlightSegment[] {
+  const texts = candidates.filter((text): text is string => !!text && text.trim().length > 0);
+  const matching = texts.find(text => highlight(text, parsed).some(segment => segment.match));
+  const source = matching ?? texts[0];
+  return source ? buildSnippet(source, parsed, maxLength) : [];
+}
+
+function matchesFilters(candidate: SearchCandidate, filters: SearchFilters, ignore?: keyof SearchFilters) {
+  if (ignore !== "type" && filters.type && candidate.type !== filters.type) return false;
+  if (ignore !== "categoryId" && filters.categoryId !== undefined && candidate.categoryId !== filters.categoryId) return false;
+  if (ignore !== "tag" && filters.tag && !candidate.tags.some(tag => tag.slug === filters.tag)) return false;
+  if (ignore !== "year" && filters.year !== undefined && candidate.year !== filters.year) return false;
+  return true;
+}
+
+/** Matches that pass every filter, best first. */
+export function applySearchFilters(candidates: SearchCandidate[], filters: SearchFilters): SearchCandidate[] {
+  return candidates
+    .filter(candidate => matchesFilters(candidate, filters))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Result counts for each facet value. A facet's counts apply every other
+ * active filter but not its own, so they show what choosing a different
+ * value would return.
+ */
+export function computeFacets(candidates: SearchCandidate[], filters: SearchFilters): SearchFacets {
+  const typeCounts = new Map<SearchContentType, number>();
+  const categoryCounts = new Map<number, number>();
+  const tagCounts = new Map<string, { slug: string; name: string; count: number }>();
+  const yearCounts = new Map<number, number>();
+
+  for (const candidate of candidates) {
+    if (matchesFilters(candidate, filters, "type")) {
+      typeCounts.set(candidate.type, (typeCounts.get(candidate.type) ?? 0) + 1);
+    }
+    if (candidate.categoryId !== null && matchesFilters(candidate, filters, "categoryId")) {
+      categoryCounts.set(candidate.categoryId, (categoryCounts.get(candidate.categoryId) ?? 0) + 1);
+    }
+    if (matchesFilters(candidate, filters, "tag")) {
+      for (const tag of candidate.tags) {
+        const entry = tagCounts.get(tag.slug) ?? { ...tag, count: 0 };
+        entry.count++;
+        tagCounts.set(tag.slug, entry);
+      }
+    }
+    if (candidate.year !== null && matchesFilters(candidate, filters, "year")) {
+      yearCounts.set(candidate.year, (yearCounts.get(candidate.year) ?? 0) + 1);
+    }
+  }
+
+  const tagFacets = Array.from(tagCounts.values())
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  // Keep the selected tag visible even when it is not among the most common
+  const topTags = tagFacets.slice(0, MAX_TAG_FACETS);
+  const selectedTag = tagFacets.find(tag => tag.slug === filters.tag);
+  if (selectedTag && !topTags.includes(selectedTag)) topTags.push(selectedTag);
+
+  return {
+    types: SEARCH_CONTENT_TYPES.map(value => ({ value, count: typeCounts.get(value) ?? 0 })),
+    categories: Array.from(categoryCounts, ([id, count]) => ({ id, count }))
+      .sort((a, b) => b.count - a.count),
+    tags: topTags,
+    years: Array.from(yearCounts, ([year, count]) => ({ year, count }))
+      .sort((a, b) => b.year - a.year),
+  };
+}
+
+export const SUGGESTION_KINDS = ["title", "tag", "location", "author"] as const;
+
+export type SuggestionKind = (typeof SUGGESTION_KINDS)[number];
+
+/** Something to jump to while typing: an item's title, or a tag, place or author to search by. */
+export type SearchSuggestion = {
+  kind: SuggestionKind;
+  label: string;
+  path: string;
+  /** Content type, for titles. */
+  type?: SearchContentType;
+};
+
+/** Typed text as a literal inside a LIKE pattern: `%` and `_` match themselves. */
+export function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, character => `\\${character}`);
+}
+
+/**
+ * How well `label` matches what was typed, lower being better: the whole
+ * label, then a prefix, then the start of a later word, then anywhere.
+ * Null when it does not match at all.
+ */
+export function suggestionRank(label: string, input: string): number | null {
+  const text = label.toLocaleLowerCase();
+  const needle = input.trim().toLocaleLowerCase();
+  if (!needle) return null;
+  if (text === needle) return 0;
+  if (text.startsWith(needle)) return 1;
+  const index = text.indexOf(needle);
+  if (index === -1) return null;
+  return /[\s\-–—:·,/(]/.test(text[index - 1]) ? 2 : 3;
+}
+
+/** Best suggestions first, one per destination. Ties go to the kind order, then the shorter label. */
+export function rankSuggestions(input: string, suggestions: SearchSuggestion[], limit: number): SearchSuggestion[] {
+  const seen = new Set<string>();
+  return suggestions
+    .flatMap(suggestion => {
+      const rank = suggestionRank(suggestion.label, input);
+      const key = suggestion.path.toLocaleLowerCase();
+      if (rank === null || seen.has(key)) return [];
+      seen.add(key);
+      return [{ suggestion, rank }];
+    })
+    .sort((a, b) =>
+      a.rank - b.rank ||
+      SUGGESTION_KINDS.indexOf(a.suggestion.kind) - SUGGESTION_KINDS.indexOf(b.suggestion.kind) ||
+      a.suggestion.label.length - b.suggestion.label.length ||
+      a.suggestion.label.localeCompare(b.suggestion.label)
+    )
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion);
+}
@@ -5,10 +5,12 @@
  * Run with: npx tsx server/seed.ts
  */
 
-import { drizzle } from "drizzle-orm/mysql2";
+import { drizzle, type MySql2Database } from "drizzle-orm/mysql2";
 import mysql from "mysql2/promise";
-import { photos, essays, papers } from "../drizzle/schema";
-import { sql } from "drizzle-orm";
+import { photos, essays, papers, tags, photoTags, essayTags, paperTags, categories } from "../drizzle/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { slugify } from "../shared/slug";
+import { parseTagInput } from "../shared/tags";
 
 const seedPhotos = [
   {
@@ -215,6 +217,40 @@ const seedPapers = [
   },
 ];
 
+type SeedDb = MySql2Database;
+
+// Seed entries list their tags as a comma-separated string
+async function getOrCreateTagIds(db: SeedDb, tagList: string) {
+  const ids: number[] = [];
+  for (const name of parseTagInput(tagList)) {
+    const existing = await db.select({ id: tags.id }).from(tags).where(eq(tags.name, name)).limit(1);
+    if (existing.length > 0) {
+      ids.push(existing[0].id);
+    } else {
+      const result = await db.insert(tags).values({ name, slug: slugify(name) });
+      ids.push(result[0].insertId);
+    }
+  }
+  return ids;
+}
+
+// Seed entries name their category; categories are created on first use
+async function getOrCreateCategoryId(db: SeedDb, section: "photo" | "essay" | "paper", name: string) {
+  const existing = await db
+    .select({ id: categories.id })
+    .from(categories)
+    .where(and(eq(categories.section, section), eq(categories.name, name)))
+    .limit(1);
+  if (existing.length > 0) return existing[0].id;
+
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(categories)
+    .where(eq(categories.section, section));
+  const result = await db.insert(categories).values({ section, name, slug: slugify(name), sortOrder: Number(count) });
+  return result[0].insertId;
+}
+
 async function seed() {
   if (!process.env.DATABASE_URL) {
     console.error("DATABASE_URL environment variable is not set");
@@ -231,8 +267,17 @@ async function seed() {
     const existingPhotos = await db.select({ count: sql<number>`count(*)` }).from(photos);
     if (existingPhotos[0].count === 0) {
       console.log("📷 Seeding photos...");
-      for (const photo of seedPhotos) {
-        await db.insert(photos).values(photo);
+      for (const { tags: tagList, category, ...photo } of seedPhotos) {
+        const categoryId = await getOrCreateCategoryId(db, "photo", category);
+        const result = await db.insert(photos).values({
+          ...photo,
+          categoryId,
+          slug: slugify(photo.title),
+          visibility: "published",
+        });
+        for (const tagId of await getOrCreateTagIds(db, tagList)) {
+          await db.insert(photoTags).values({ photoId: result[0].insertId, tagId });
+        }
       }
       console.log(`   ✓ Added ${seedPhotos.length} photos`);
     } else {
@@ -243,8 +288,12 @@ async function seed() {
     const existingEssays = await db.select({ count: sql<number>`count(*)` }).from(essays);
     if (existingEssays[0].count === 0) {
       console.log("📝 Seeding essays...");
-      for (const essay of seedEssays) {
-        await db.insert(essays).values(essay);
+      for (const { tags: tagList, category, ...essay } of seedEssays) {
+        const categoryId = await getOrCreateCategoryId(db, "essay", category);
+        const result = await db.insert(essays).values({ ...essay, categoryId, slug: slugify(essay.title) });
+        for (const tagId of await getOrCreateTagIds(db, tagList)) {
+          await db.insert(essayTags).values({ essayId: result[0].insertId, tagId });
+        }
       }
       console.log(`   ✓ Added ${seedEssays.length} essays`);
     } else {
@@ -255,8 +304,12 @@ async function seed() {
     const existingPapers = await db.select({ count: sql<number>`count(*)` }).from(papers);
     if (existingPapers[0].count === 0) {
       console.log("🎓 Seeding papers...");
-      for (const paper of seedPapers) {
-        await db.insert(papers).values(paper);
+      for (const { tags: tagList, category, ...paper } of seedPapers) {
+        const categoryId = await getOrCreateCategoryId(db, "paper", category);
+        const result = await db.insert(papers).values({ ...paper, categoryId, slug: slugify(paper.title) });
+        for (const tagId of await getOrCreateTagIds(db, tagList)) {
+          await db.insert(paperTags).values({ paperId: result[0].insertId, tagId });
+        }
       }
       console.log(`   ✓ Added ${seedPapers.length} papers`);
     } else {
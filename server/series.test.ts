@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { buildSeriesNavigation, sortSeriesParts, type SeriesPart } from "./series";
+
+function part(id: number, seriesPosition: number | null, publishedAt = "2024-01-01"): SeriesPart {
+  return {
+    id,
+    slug: `part-${id}`,
+    title: `Part ${id}`,
+    seriesPosition,
+    publishedAt: new Date(publishedAt),
+    createdAt: new Date("2023-01-01"),
+  };
+}
+
+describe("sortSeriesParts", () => {
+  it("orders by position, then unpositioned parts by publication date", () => {
+    const parts = [part(1, null, "2024-03-01"), part(2, 2), part(3, null, "2024-02-01"), part(4, 1)];
+    expect(sortSeriesParts(parts).map(p => p.id)).toEqual([4, 2, 3, 1]);
+  });
+});
+
+describe("buildSeriesNavigation", () => {
+  it("numbers parts by reading order even when positions have gaps", () => {
+    const parts = [part(1, 10), part(2, 20), part(3, 30)];
+    expect(buildSeriesNavigation(parts, 2)).toEqual({
+      part: 2,
+      total: 3,
+      previous: { slug: "part-1", title: "Part 1" },
+      next: { slug: "part-3", title: "Part 3" },
+    });
+  });
+
+  it("has no previous link on the first part and no next link on the last", () => {
+    const parts = [part(1, 1), part(2, 2)];
+    expect(buildSeriesNavigation(parts, 1)).toMatchObject({ previous: null, next: { slug: "part-2" } });
+    expect(buildSeriesNavigation(parts, 2)).toMatchObject({ previous: { slug: "part-1" }, next: null });
+  });
+
+  it("returns null for an essay outside the given parts", () => {
+    expect(buildSeriesNavigation([part(1, 1)], 99)).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Essay Series
+ *
+ * Ordering and reader navigation for multi-part essays. Positions are set
+ * by hand in the admin and may have gaps or repeats, so part numbers shown
+ * to readers are always counted from the sorted list of readable parts.
+ */
+
+export type SeriesPart = {
+  id: number;
+  slug: string;
+  title: string;
+  seriesPosition: number | null;
+  publishedAt: Date | null;
+  createdAt: Date;
+};
+
+export type SeriesPartLink = Pick<SeriesPart, "slug" | "title">;
+
+export type SeriesNavigation = {
+  part: number;
+  total: number;
+  previous: SeriesPartLink | null;
+  next: SeriesPartLink | null;
+};
+
+/** Parts by position; unpositioned parts follow in publication order. */
+export function compareSeriesParts(a: SeriesPart, b: SeriesPart) {
+  if (a.seriesPosition !== b.seriesPosition) {
+    if (a.seriesPosition === null) return 1;
+    if (b.seriesPosition === null) return -1;
+    return a.seriesPosition - b.seriesPosition;
+  }
+  const aTime = (a.publishedAt ?? a.createdAt).getTime();
+  const bTime = (b.publishedAt ?? b.createdAt).getTime();
+  return aTime - bTime || a.id - b.id;
+}
+
+export function sortSeriesParts<T extends SeriesPart>(parts: T[]): T[] {
+  return [...parts].sort(compareSeriesParts);
+}
+
+/**
+ * "Part N of M" plus previous/next links for one essay, or null when the
+ * essay is not among the given parts.
+ */
+export function buildSeriesNavigation(parts: SeriesPart[], essayId: number): SeriesNavigation | null {
+  const sorted = sortSeriesParts(parts);
+  const index = sorted.findIndex(part => part.id === essayId);
+  if (index === -1) return null;
+
+  const toLink = (part: SeriesPart | undefined) => (part ? { slug: part.slug, title: part.title } : null);
+  return {
+    part: index + 1,
+    total: sorted.length,
+    previous: toLink(sorted[index - 1]),
+    next: toLink(sorted[index + 1]),
+  };
+}
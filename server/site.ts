@@ -0,0 +1,25 @@
+/**
+ * Site Identity
+ *
+ * The name and public address of the site, for documents the server builds
+ * outside the React app, where every link has to be absolute.
+ */
+
+import type { Request } from "express";
+import { config } from "./_core/config";
+
+export const SITE_NAME = "Orpheus";
+export const SITE_TAGLINE = "An Aesthetic and Intellectual Exploration";
+
+/**
+ * The public origin: SITE_URL, which production requires, else (in
+ * development) the host the request came in on.
+ */
+export function siteOrigin(req: Request): string {
+  return config.server.siteUrl || `${req.protocol}://${req.get("host")}`;
+}
+
+/** `pathOrUrl` resolved against the origin; absolute URLs (e.g. bucket files) pass through. */
+export function absoluteUrl(origin: string, pathOrUrl: string): string {
+  return new URL(pathOrUrl, `${origin}/`).toString();
+}
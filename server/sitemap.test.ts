@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { registerSitemapRoutes, renderRobots, renderSitemap } from "./sitemap";
+import * as db from "./db";
+
+vi.mock("./_core/config", () => ({ config: { server: { siteUrl: "https://orpheus.test" } } }));
+vi.mock("./db", () => ({
+  getSitemapEntries: vi.fn().mockResolvedValue({
+    photos: [{ slug: "dunes", imageUrl: "/uploads/images/dunes.jpg", updatedAt: new Date("2024-03-01T00:00:00Z") }],
+    essays: [{ slug: "winter", updatedAt: new Date("2024-01-03T00:00:00Z") }],
+    papers: [],
+    tags: [{ slug: "seasons", updatedAt: new Date("2024-01-03T00:00:00Z") }],
+  }),
+  getSetting: vi.fn().mockResolvedValue(undefined),
+}));
+
+let server: Server;
+let origin: string;
+
+beforeAll(() => {
+  const app = express();
+  registerSitemapRoutes(app);
+  server = app.listen(0);
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe("renderSitemap", () => {
+  it("escapes URLs and leaves out lastmod for undated pages", () => {
+    const xml = renderSitemap([
+      { url: "https://orpheus.test/academic", images: [] },
+      {
+        url: "https://orpheus.test/photography/a&b",
+        lastModified: new Date("2024-05-01T08:00:00Z"),
+        images: ["https://files.test/a&b.jpg"],
+      },
+    ]);
+    expect(xml).toContain("<url>\n    <loc>https://orpheus.test/academic</loc>\n  </url>");
+    expect(xml).toContain("<loc>https://orpheus.test/photography/a&amp;b</loc>");
+    expect(xml).toContain("<lastmod>2024-05-01T08:00:00.000Z</lastmod>");
+    expect(xml).toContain("<image:image><image:loc>https://files.test/a&amp;b.jpg</image:loc></image:image>");
+  });
+});
+
+describe("renderRobots", () => {
+  it("appends the sitemap unless the rules already name one", () => {
+    expect(renderRobots("User-agent: *\r\nDisallow: /admin\n\n", "https://orpheus.test/sitemap.xml"))
+      .toBe("User-agent: *\nDisallow: /admin\n\nSitemap: https://orpheus.test/sitemap.xml\n");
+    expect(renderRobots("", "https://orpheus.test/sitemap.xml")).toBe("Sitemap: https://orpheus.test/sitemap.xml\n");
+    expect(renderRobots("User-agent: *\nsitemap: https://cdn.test/map.xml", "https://orpheus.test/sitemap.xml"))
+      .toBe("User-agent: *\nsitemap: https://cdn.test/map.xml\n");
+  });
+});
+
+describe("sitemap routes", () => {
+  it("lists sections, content and tags with absolute links", async () => {
+    const response = await fetch(`${origin}/sitemap.xml`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("application/xml");
+    expect(response.headers.get("last-modified")).toBe("Fri, 01 Mar 2024 00:00:00 GMT");
+
+    const xml = await response.text();
+    expect(xml).toContain("<loc>https://orpheus.test/</loc>\n    <lastmod>2024-03-01T00:00:00.000Z</lastmod>");
+    expect(xml).toContain("<loc>https://orpheus.test/magazine</loc>\n    <lastmod>2024-01-03T00:00:00.000Z</lastmod>");
+    expect(xml).toContain("<loc>https://orpheus.test/academic</loc>\n  </url>");
+    expect(xml).toContain("<loc>https://orpheus.test/magazine/winter</loc>");
+    expect(xml).toContain("<loc>https://orpheus.test/tags/seasons</loc>");
+    expect(xml).toContain(
+      "<loc>https://orpheus.test/photography/dunes</loc>\n    <lastmod>2024-03-01T00:00:00.000Z</lastmod>\n" +
+      "    <image:image><image:loc>https://orpheus.test/uploads/images/dunes.jpg</image:loc></image:image>"
+    );
+  });
+
+  it("serves the saved robots rules, falling back to the defaults", async () => {
+    const defaults = await fetch(`${origin}/robots.txt`);
+    expect(defaults.headers.get("content-type")).toContain("text/plain");
+    expect(await defaults.text()).toBe(
+      "User-agent: *\nDisallow: /admin\nDisallow: /preview/\n\nSitemap: https://orpheus.test/sitemap.xml\n"
+    );
+
+    vi.mocked(db.getSetting).mockResolvedValueOnce("User-agent: *\nDisallow: /");
+    const saved = await fetch(`${origin}/robots.txt`);
+    expect(await saved.text()).toBe("User-agent: *\nDisallow: /\n\nSitemap: https://orpheus.test/sitemap.xml\n");
+  });
+});
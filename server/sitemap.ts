@@ -0,0 +1,145 @@
+/**
+ * Sitemap and Robots
+ *
+ * /sitemap.xml lists every public page for crawlers: the section indexes,
+ * each published essay, paper and photo, and the tag archives, dated by
+ * their last update, with image entries for photos. /robots.txt serves the
+ * rules saved in site settings and points crawlers at the sitemap.
+ */
+
+import type { Express, Request, Response } from "express";
+import * as db from "./db";
+import { escapeXml } from "./feeds";
+import { absoluteUrl, siteOrigin } from "./site";
+import { SITE_SETTING_DEFAULTS } from "@shared/settings";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SitemapEntry = {
+  /** Absolute page URL. */
+  url: string;
+  /** Absent when the page has nothing dated in it yet. */
+  lastModified?: Date;
+  /** Absolute image URLs shown on the page. */
+  images: string[];
+};
+
+// Crawlers fetch these rarely but in bursts; an hour of shared cache is plenty
+const SITEMAP_MAX_AGE_SECONDS = 60 * 60;
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+export function renderSitemap(entries: SitemapEntry[]): string {
+  const urls = entries.map(entry => [
+    "  <url>",
+    `    <loc>${escapeXml(entry.url)}</loc>`,
+    ...(entry.lastModified ? [`    <lastmod>${entry.lastModified.toISOString()}</lastmod>`] : []),
+    ...entry.images.map(image => `    <image:image><image:loc>${escapeXml(image)}</image:loc></image:image>`),
+    "  </url>",
+  ].join("\n"));
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">`,
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * The saved rules with a Sitemap line added, unless the rules already name
+ * one.
+ */
+export function renderRobots(rules: string, sitemapUrl: string): string {
+  const lines = rules.replace(/\r\n?/g, "\n").trimEnd();
+  if (/^\s*sitemap\s*:/im.test(lines)) return `${lines}\n`;
+  return `${lines ? `${lines}\n\n` : ""}Sitemap: ${sitemapUrl}\n`;
+}
+
+// ============================================================================
+// Entries
+// ============================================================================
+
+function newest(dates: Date[]): Date | undefined {
+  return dates.reduce<Date | undefined>((latest, date) => (!latest || date > latest ? date : latest), undefined);
+}
+
+async function buildEntries(origin: string): Promise<SitemapEntry[]> {
+  const { photos, essays, papers, tags } = await db.getSitemapEntries();
+  const page = (path: string, lastModified: Date | undefined, images: string[] = []): SitemapEntry => ({
+    url: absoluteUrl(origin, path),
+    lastModified,
+    images,
+  });
+
+  // Each index changes when the newest thing in it does
+  const photosUpdated = newest(photos.map(photo => photo.updatedAt));
+  const essaysUpdated = newest(essays.map(essay => essay.updatedAt));
+  const papersUpdated = newest(papers.map(paper => paper.updatedAt));
+  const sections = [
+    page("/", newest([photosUpdated, essaysUpdated, papersUpdated].filter((date): date is Date => !!date))),
+    page("/photography", photosUpdated),
+    page("/photography/albums", photosUpdated),
+    page("/magazine", essaysUpdated),
+    page("/magazine/series", essaysUpdated),
+    page("/academic", papersUpdated),
+  ];
+
+  return [
+    ...sections,
+    ...essays.map(essay => page(`/magazine/${essay.slug}`, essay.updatedAt)),
+    ...papers.map(paper => page(`/academic/${paper.slug}`, paper.updatedAt)),
+    ...photos.map(photo => page(`/photography/${photo.slug}`, photo.updatedAt, [absoluteUrl(origin, photo.imageUrl)])),
+    ...tags.map(tag => page(`/tags/${tag.slug}`, tag.updatedAt)),
+  ];
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+async function serveSitemap(req: Request, res: Response) {
+  try {
+    const entries = await buildEntries(siteOrigin(req));
+    const updated = newest(entries.flatMap(entry => (entry.lastModified ? [entry.lastModified] : [])));
+    res.set({
+      "Content-Type": "application/xml; charset=utf-8",
+      "Cache-Control": `public, max-age=${SITEMAP_MAX_AGE_SECONDS}`,
+      ...(updated ? { "Last-Modified": updated.toUTCString() } : {}),
+    });
+    // Express adds an ETag and answers conditional requests with 304
+    res.send(renderSitemap(entries));
+  } catch (error) {
+    console.error("[Sitemap] Failed to build sitemap:", error);
+    res.status(500).json({ error: "Failed to build sitemap" });
+  }
+}
+
+async function serveRobots(req: Request, res: Response) {
+  try {
+    const rules = (await db.getSetting("robots_txt")) ?? SITE_SETTING_DEFAULTS.robots_txt;
+    res.set({
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": `public, max-age=${SITEMAP_MAX_AGE_SECONDS}`,
+    });
+    res.send(renderRobots(rules, absoluteUrl(siteOrigin(req), "/sitemap.xml")));
+  } catch (error) {
+    console.error("[Sitemap] Failed to build robots.txt:", error);
+    res.status(500).json({ error: "Failed to build robots.txt" });
+  }
+}
+
+export function registerSitemapRoutes(app: Express) {
+  app.get("/sitemap.xml", (req, res) => {
+    void serveSitemap(req, res);
+  });
+
+  app.get("/robots.txt", (req, res) => {
+    void serveRobots(req, res);
+  });
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { slugify, MAX_SLUG_LENGTH } from "../shared/slug";
+
+describe("slugify", () => {
+  it("lowercases and hyphenates titles", () => {
+    expect(slugify("The Art of Seeing: On Photography")).toBe("the-art-of-seeing-on-photography");
+  });
+
+  it("strips diacritics and trims separators", () => {
+    expect(slugify("  Étretat, France!  ")).toBe("etretat-france");
+  });
+
+  it("keeps CJK characters", () => {
+    expect(slugify("雪的寂静 Part 1")).toBe("雪的寂静-part-1");
+  });
+
+  it("falls back when nothing usable remains", () => {
+    expect(slugify("!!!")).toBe("untitled");
+  });
+
+  it("caps the slug length", () => {
+    expect(slugify("a ".repeat(300)).length).toBeLessThanOrEqual(MAX_SLUG_LENGTH);
+    // Hangul decomposes into jamo, so the cap applies after normalizing
+    expect(slugify("한".repeat(100), 120).length).toBe(120);
+  });
+});
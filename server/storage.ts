@@ -1,86 +1,47 @@
 /**
  * Storage Service
- * 
- * Provides file storage using AWS S3 or S3-compatible services (Cloudflare R2, MinIO).
- * Replaces Manus storage proxy with direct S3 SDK calls.
+ *
+ * Provides file storage through a driver chosen by STORAGE_PROVIDER: AWS S3
+ * or an S3-compatible service (Cloudflare R2, MinIO), or the local disk for
+ * development and small self-hosted installs.
  */
 
-import {
-  S3Client,
-  PutObjectCommand,
-  GetObjectCommand,
-  DeleteObjectCommand,
-} from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { config } from "./_core/config";
+import { s3Driver } from "./s3Storage";
+import { diskDriver } from "./diskStorage";
 
 // ============================================================================
-// S3 Client Singleton
+// Driver Interface
 // ============================================================================
 
-let _s3Client: S3Client | null = null;
+export type StoredObject = {
+  key: string;
+  size: number;
+  lastModified: Date;
+};
 
-function getS3Client(): S3Client {
-  if (_s3Client) {
-    return _s3Client;
-  }
-
-  const { s3 } = config.storage;
-
-  if (!s3.accessKeyId || !s3.secretAccessKey || !s3.bucket) {
-    throw new Error(
-      "S3 storage not configured. Set AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, and S3_BUCKET environment variables."
-    );
-  }
-
-  const clientConfig: ConstructorParameters<typeof S3Client>[0] = {
-    region: s3.region,
-    credentials: {
-      accessKeyId: s3.accessKeyId,
-      secretAccessKey: s3.secretAccessKey,
-    },
-  };
-
-  // Support S3-compatible services (Cloudflare R2, MinIO)
-  if (s3.endpoint) {
-    clientConfig.endpoint = s3.endpoint;
-    clientConfig.forcePathStyle = true; // Required for MinIO
-  }
-
-  _s3Client = new S3Client(clientConfig);
-  return _s3Client;
+/**
+ * What a storage backend must provide. Keys are already normalized (no
+ * leading slashes) when they reach a driver.
+ */
+export interface StorageDriver {
+  isConfigured(): boolean;
+  put(key: string, data: Buffer | Uint8Array, contentType: string): Promise<void>;
+  read(key: string): Promise<{ data: Buffer; contentType: string | undefined }>;
+  head(key: string): Promise<{ size: number; contentType: string | undefined }>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<StoredObject[]>;
+  signedDownloadUrl(key: string, expiresIn: number): Promise<string>;
+  signedUploadUrl(key: string, contentType: string, expiresIn: number, contentLength?: number): Promise<string>;
+  publicUrl(key: string): string;
 }
 
-// ============================================================================
-// URL Construction Helper
-// ============================================================================
+function getDriver(): StorageDriver {
+  return config.storage.provider === "local" ? diskDriver : s3Driver;
+}
 
-/**
- * Construct the public URL for an uploaded file
- * 
- * For Cloudflare R2: Uses S3_PUBLIC_URL (e.g., https://pub-xxx.r2.dev)
- * For standard S3: Uses bucket.s3.region.amazonaws.com format
- */
-function constructPublicUrl(key: string): string {
-  const { bucket, region, endpoint, publicUrl } = config.storage.s3;
-  const normalizedKey = key.replace(/^\/+/, "");
-
-  // If a public URL is configured (e.g., R2 public dev URL), use it
-  if (publicUrl) {
-    // Remove trailing slash from publicUrl if present
-    const baseUrl = publicUrl.replace(/\/+$/, "");
-    return `${baseUrl}/${normalizedKey}`;
-  }
-
-  // For S3-compatible services without public URL configured
-  if (endpoint) {
-    // This won't work for R2 without public URL, but kept for other S3-compatible services
-    console.warn("[Storage] S3_PUBLIC_URL not configured. Files may not be publicly accessible.");
-    return `${endpoint}/${bucket}/${normalizedKey}`;
-  }
-
-  // Standard S3 URL
-  return `https://${bucket}.s3.${region}.amazonaws.com/${normalizedKey}`;
+function normalizeKey(key: string): string {
+  return key.replace(/^\/+/, "");
 }
 
 // ============================================================================
@@ -88,9 +49,9 @@ function constructPublicUrl(key: string): string {
 // ============================================================================
 
 /**
- * Upload a file to S3
- * 
- * @param key - The S3 object key (path)
+ * Upload a file
+ *
+ * @param key - The object key (path)
  * @param data - File content as Buffer, Uint8Array, or string
  * @param contentType - MIME type of the file
  * @returns Object containing the key and public URL
@@ -100,33 +61,18 @@ export async function storagePut(
   data: Buffer | Uint8Array | string,
   contentType: string = "application/octet-stream"
 ): Promise<{ key: string; url: string }> {
-  const s3 = getS3Client();
-  const { bucket } = config.storage.s3;
-  
-  // Normalize key (remove leading slashes)
-  const normalizedKey = key.replace(/^\/+/, "");
-
-  const command = new PutObjectCommand({
-    Bucket: bucket,
-    Key: normalizedKey,
-    Body: typeof data === "string" ? Buffer.from(data) : data,
-    ContentType: contentType,
-    // Note: ACL may not work with all S3-compatible services
-    // For R2, public access is configured at bucket level
-  });
-
-  await s3.send(command);
-
-  // Construct public URL
-  const url = constructPublicUrl(normalizedKey);
+  const driver = getDriver();
+  const normalizedKey = normalizeKey(key);
 
-  return { key: normalizedKey, url };
+  await driver.put(normalizedKey, typeof data === "string" ? Buffer.from(data) : data, contentType);
+
+  return { key: normalizedKey, url: driver.publicUrl(normalizedKey) };
 }
 
 /**
  * Get a signed URL for downloading a file
- * 
- * @param key - The S3 object key
+ *
+ * @param key - The object key
  * @param expiresIn - URL expiration time in seconds (default: 1 hour)
  * @returns Signed download URL
  */
@@ -134,80 +80,92 @@ export async function storageGet(
   key: string,
   expiresIn: number = 3600
 ): Promise<{ key: string; url: string }> {
-  const s3 = getS3Client();
-  const { bucket } = config.storage.s3;
-  
-  const normalizedKey = key.replace(/^\/+/, "");
+  const normalizedKey = normalizeKey(key);
+  const url = await getDriver().signedDownloadUrl(normalizedKey, expiresIn);
 
-  const command = new GetObjectCommand({
-    Bucket: bucket,
-    Key: normalizedKey,
-  });
+  return { key: normalizedKey, url };
+}
 
-  const url = await getSignedUrl(s3, command, { expiresIn });
+/**
+ * Read a file back, e.g. to process an object the browser uploaded directly
+ *
+ * @param key - The object key
+ * @returns File content with the stored content type
+ */
+export async function storageRead(
+  key: string
+): Promise<{ key: string; data: Buffer; contentType: string | undefined }> {
+  const normalizedKey = normalizeKey(key);
+  const { data, contentType } = await getDriver().read(normalizedKey);
 
-  return { key: normalizedKey, url };
+  return { key: normalizedKey, data, contentType };
 }
 
 /**
- * Delete a file from S3
- * 
- * @param key - The S3 object key
+ * Look up a file's size and type without downloading it
+ *
+ * @param key - The object key
+ * @returns Size in bytes with the stored content type
  */
-export async function storageDelete(key: string): Promise<void> {
-  const s3 = getS3Client();
-  const { bucket } = config.storage.s3;
-  
-  const normalizedKey = key.replace(/^\/+/, "");
+export async function storageHead(
+  key: string
+): Promise<{ key: string; size: number; contentType: string | undefined }> {
+  const normalizedKey = normalizeKey(key);
+  const { size, contentType } = await getDriver().head(normalizedKey);
 
-  const command = new DeleteObjectCommand({
-    Bucket: bucket,
-    Key: normalizedKey,
-  });
+  return { key: normalizedKey, size, contentType };
+}
+
+/**
+ * Delete a file
+ *
+ * @param key - The object key
+ */
+export async function storageDelete(key: string): Promise<void> {
+  await getDriver().delete(normalizeKey(key));
+}
 
-  await s3.send(command);
+/**
+ * List every stored object whose key starts with a prefix
+ *
+ * @param prefix - Key prefix, e.g. "images/"
+ * @returns Objects with their size and last modification time
+ */
+export async function storageList(prefix: string): Promise<StoredObject[]> {
+  return await getDriver().list(normalizeKey(prefix));
 }
 
 /**
  * Generate a presigned URL for direct upload from client
- * 
- * @param key - The S3 object key
+ *
+ * @param key - The object key
  * @param contentType - MIME type of the file
  * @param expiresIn - URL expiration time in seconds (default: 15 minutes)
+ * @param contentLength - Exact size in bytes the upload must have, when known
  * @returns Presigned upload URL
  */
 export async function getPresignedUploadUrl(
   key: string,
   contentType: string,
-  expiresIn: number = 900
+  expiresIn: number = 900,
+  contentLength?: number
 ): Promise<{ key: string; uploadUrl: string; publicUrl: string }> {
-  const s3 = getS3Client();
-  const { bucket } = config.storage.s3;
-  
-  const normalizedKey = key.replace(/^\/+/, "");
+  const driver = getDriver();
+  const normalizedKey = normalizeKey(key);
 
-  const command = new PutObjectCommand({
-    Bucket: bucket,
-    Key: normalizedKey,
-    ContentType: contentType,
-  });
+  const uploadUrl = await driver.signedUploadUrl(normalizedKey, contentType, expiresIn, contentLength);
 
-  const uploadUrl = await getSignedUrl(s3, command, { expiresIn });
-
-  // Construct public URL
-  const publicUrl = constructPublicUrl(normalizedKey);
-
-  return { key: normalizedKey, uploadUrl, publicUrl };
+  return { key: normalizedKey, uploadUrl, publicUrl: driver.publicUrl(normalizedKey) };
 }
 
 /**
  * Get the public URL for an existing file
- * 
- * @param key - The S3 object key
+ *
+ * @param key - The object key
  * @returns Public URL for the file
  */
 export function getPublicUrl(key: string): string {
-  return constructPublicUrl(key);
+  return getDriver().publicUrl(normalizeKey(key));
 }
 
 // ============================================================================
@@ -218,8 +176,7 @@ export function getPublicUrl(key: string): string {
  * Check if storage is properly configured
  */
 export function isStorageConfigured(): boolean {
-  const { s3 } = config.storage;
-  return Boolean(s3.accessKeyId && s3.secretAccessKey && s3.bucket);
+  return getDriver().isConfigured();
 }
 
 /**
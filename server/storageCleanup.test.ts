@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  MAX_DELETE_ATTEMPTS,
+  ORPHAN_GRACE_MS,
+  processStorageDeletions,
+  purgeOrphans,
+  retryDelayMs,
+  selectOrphans,
+} from "./storageCleanup";
+import * as db from "./db";
+import * as storage from "./storage";
+
+vi.mock("./db", () => ({
+  getDueStorageDeletions: vi.fn(),
+  getReferencedStorageKeys: vi.fn(),
+  getImageVariantKeys: vi.fn(async () => []),
+  deleteImageVariantRecords: vi.fn(async () => {}),
+  deleteAssetRecords: vi.fn(async () => {}),
+  completeStorageDeletion: vi.fn(async () => {}),
+  deferStorageDeletion: vi.fn(async () => {}),
+  getNextStorageDeletionTime: vi.fn(async () => undefined),
+}));
+
+vi.mock("./storage", () => ({
+  isStorageConfigured: vi.fn(() => true),
+  storageDelete: vi.fn(async () => {}),
+  storageList: vi.fn(async () => []),
+  getPublicUrl: vi.fn((key: string) => `https://cdn.test/${key}`),
+}));
+
+const now = new Date("2026-03-01T12:00:00Z");
+const old = new Date(now.getTime() - ORPHAN_GRACE_MS - 1000);
+
+function queued(id: number, key: string, attempts = 0) {
+  return { id, key, attempts, nextAttemptAt: now, lastError: null, createdAt: now };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("retryDelayMs", () => {
+  it("doubles from one minute and caps at six hours", () => {
+    expect(retryDelayMs(1)).toBe(60_000);
+    expect(retryDelayMs(2)).toBe(120_000);
+    expect(retryDelayMs(4)).toBe(480_000);
+    expect(retryDelayMs(MAX_DELETE_ATTEMPTS + 10)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe("processStorageDeletions", () => {
+  it("deletes unreferenced files with their variants and keeps referenced ones", async () => {
+    vi.mocked(db.getDueStorageDeletions).mockResolvedValueOnce([
+      queued(1, "images/old.jpg"),
+      queued(2, "pdfs/in-revision.pdf"),
+    ]);
+    vi.mocked(db.getReferencedStorageKeys).mockResolvedValueOnce(new Set(["pdfs/in-revision.pdf"]));
+    vi.mocked(db.getImageVariantKeys).mockResolvedValueOnce(["images/old.w480.webp"]);
+
+    const result = await processStorageDeletions(now);
+
+    expect(result).toEqual({ deleted: 1, kept: 1, failed: 0 });
+    expect(vi.mocked(storage.storageDelete).mock.calls.map(([key]) => key)).toEqual([
+      "images/old.w480.webp",
+      "images/old.jpg",
+    ]);
+    expect(db.deleteImageVariantRecords).toHaveBeenCalledWith(["images/old.jpg"]);
+    expect(db.deleteAssetRecords).toHaveBeenCalledWith(["images/old.jpg"]);
+    expect(db.completeStorageDeletion).toHaveBeenCalledWith(1);
+    expect(db.completeStorageDeletion).toHaveBeenCalledWith(2);
+    // A replaced cover pinned in the media library stays in the library
+    expect(db.getReferencedStorageKeys).toHaveBeenCalledWith({ includeLibrary: true });
+  });
+
+  it("deletes a replaced image the library recorded but nobody pinned", async () => {
+    // The photo now points at images/new.jpg; images/old.jpg was queued by the update
+    vi.mocked(db.getDueStorageDeletions).mockResolvedValueOnce([queued(4, "images/old.jpg")]);
+    vi.mocked(db.getReferencedStorageKeys).mockResolvedValueOnce(new Set(["images/new.jpg", "images/pinned.jpg"]));
+
+    const result = await processStorageDeletions(now);
+
+    expect(result).toEqual({ deleted: 1, kept: 0, failed: 0 });
+    expect(storage.storageDelete).toHaveBeenCalledWith("images/old.jpg");
+    expect(db.deleteAssetRecords).toHaveBeenCalledWith(["images/old.jpg"]);
+  });
+
+  it("defers a failed delete with back-off instead of dropping it", async () => {
+    vi.mocked(db.getDueStorageDeletions).mockResolvedValueOnce([queued(3, "images/flaky.jpg", 2)]);
+    vi.mocked(db.getReferencedStorageKeys).mockResolvedValueOnce(new Set());
+    vi.mocked(storage.storageDelete).mockRejectedValueOnce(new Error("Service Unavailable"));
+
+    const result = await processStorageDeletions(now);
+
+    expect(result.failed).toBe(1);
+    expect(db.completeStorageDeletion).not.toHaveBeenCalled();
+    expect(db.deferStorageDeletion).toHaveBeenCalledWith(
+      3,
+      3,
+      new Date(now.getTime() + retryDelayMs(3)),
+      "Service Unavailable"
+    );
+  });
+
+  it("leaves the queue alone while storage is not configured", async () => {
+    vi.mocked(storage.isStorageConfigured).mockReturnValueOnce(false);
+    await processStorageDeletions(now);
+    expect(db.getDueStorageDeletions).not.toHaveBeenCalled();
+  });
+});
+
+describe("orphan sweep", () => {
+  it("ignores referenced and recently uploaded files", () => {
+    const objects = [
+      { key: "images/kept.jpg", size: 10, lastModified: old },
+      { key: "images/orphan.jpg", size: 20, lastModified: old },
+      { key: "images/just-uploaded.jpg", size: 30, lastModified: now },
+    ];
+    expect(selectOrphans(objects, new Set(["images/kept.jpg"]), now).map(o => o.key)).toEqual(["images/orphan.jpg"]);
+  });
+
+  it("only purges keys that are still orphans", async () => {
+    vi.mocked(db.getReferencedStorageKeys).mockResolvedValueOnce(new Set(["images/now-used.jpg"]));
+    vi.mocked(storage.storageList).mockImplementation(async prefix =>
+      prefix === "images/"
+        ? [
+            { key: "images/orphan.jpg", size: 20, lastModified: old },
+            { key: "images/now-used.jpg", size: 20, lastModified: old },
+          ]
+        : []
+    );
+
+    const result = await purgeOrphans(["images/orphan.jpg", "images/now-used.jpg"]);
+
+    expect(result).toEqual({ purged: 1, failed: 0, skipped: 1 });
+    expect(storage.storageDelete).toHaveBeenCalledTimes(1);
+    expect(storage.storageDelete).toHaveBeenCalledWith("images/orphan.jpg");
+    expect(db.deleteImageVariantRecords).toHaveBeenCalledWith(["images/orphan.jpg"]);
+    expect(db.deleteAssetRecords).toHaveBeenCalledWith(["images/orphan.jpg"]);
+    // Pinned library files are kept even when no content uses them
+    expect(db.getReferencedStorageKeys).toHaveBeenCalledWith({ includeLibrary: true });
+  });
+
+  it("takes an orphan's variants along with it", async () => {
+    vi.mocked(db.getReferencedStorageKeys).mockResolvedValueOnce(new Set());
+    vi.mocked(storage.storageList).mockImplementation(async prefix =>
+      prefix === "images/"
+        ? [
+            { key: "images/orphan.jpg", size: 20, lastModified: old },
+            { key: "images/orphan.w480.webp", size: 5, lastModified: old },
+            { key: "images/orphan.w1200.avif", size: 5, lastModified: old },
+            { key: "images/orphan-2.jpg", size: 20, lastModified: old },
+          ]
+        : []
+    );
+
+    const result = await purgeOrphans(["images/orphan.jpg"]);
+
+    expect(result).toEqual({ purged: 1, failed: 0, skipped: 0 });
+    expect(vi.mocked(storage.storageDelete).mock.calls.map(([key]) => key)).toEqual([
+      "images/orphan.w480.webp",
+      "images/orphan.w1200.avif",
+      "images/orphan.jpg",
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Storage Cleanup
+ *
+ * Deletes stored files that content no longer points at. Deleting or
+ * replacing an image or PDF queues its old key in the same transaction (see
+ * storage_deletions); this worker removes the object and its variants after
+ * the commit, retrying with back-off while storage is unreachable. Keys that
+ * are still referenced elsewhere, e.g. by a revision that may be restored or
+ * by a file pinned in the media library, are dropped from the queue without
+ * deleting anything. Every upload is recorded in the library, but only the
+ * pinned ones outlive the content that used them.
+ *
+ * The orphan sweep covers what the queue cannot: files uploaded but never
+ * confirmed or never saved, and anything left over from before the queue
+ * existed. Pinned library files are not orphans; they are deleted from the
+ * library.
+ */
+
+import * as db from "./db";
+import { isVariantKeyOf } from "./imageVariants";
+import { getPublicUrl, isStorageConfigured, storageDelete, storageList, type StoredObject } from "./storage";
+import { UPLOAD_KINDS, UPLOAD_RULES } from "@shared/uploads";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** After this many failures a key is left for the orphan sweep. */
+export const MAX_DELETE_ATTEMPTS = 8;
+
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+/** Upper bound on how long the worker sleeps between checks of the queue. */
+const MAX_SLEEP_MS = 15 * 60 * 1000;
+
+/**
+ * Files younger than this are never treated as orphans: they may belong to
+ * an admin form that has not been saved yet.
+ */
+export const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/** Delay before the next attempt after `attempts` failures: 1, 2, 4… minutes, capped. */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+// ============================================================================
+// Deleting
+// ============================================================================
+
+/** Delete an object together with its variants, their records and its library entry. */
+async function deleteStoredFile(key: string) {
+  const variantKeys = await db.getImageVariantKeys(key);
+  for (const variantKey of variantKeys) {
+    await storageDelete(variantKey);
+  }
+  await storageDelete(key);
+  await db.deleteImageVariantRecords([key]);
+  await db.deleteAssetRecords([key]);
+}
+
+/** Work through every due queue entry once. */
+export async function processStorageDeletions(now: Date = new Date()) {
+  // Without storage there is nothing to delete from; keep the queue for later
+  if (!isStorageConfigured()) return { deleted: 0, kept: 0, failed: 0 };
+
+  const due = await db.getDueStorageDeletions(MAX_DELETE_ATTEMPTS, now);
+  if (due.length === 0) return { deleted: 0, kept: 0, failed: 0 };
+
+  // Pinned library files outlive the content that used them; only the library's delete removes them
+  const referenced = await db.getReferencedStorageKeys({ includeLibrary: true });
+  let deleted = 0;
+  let kept = 0;
+  let failed = 0;
+  for (const entry of due) {
+    try {
+      if (referenced.has(entry.key)) {
+        kept++;
+      } else {
+        await deleteStoredFile(entry.key);
+        deleted++;
+      }
+      await db.completeStorageDeletion(entry.id);
+    } catch (error) {
+      failed++;
+      const attempts = entry.attempts + 1;
+      console.error(`[StorageCleanup] Failed to delete ${entry.key} (attempt ${attempts}):`, error);
+      await db.deferStorageDeletion(
+        entry.id,
+        attempts,
+        new Date(now.getTime() + retryDelayMs(attempts)),
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+  return { deleted, kept, failed };
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+// Set when new work is queued mid-run, so it isn't left for the next poll
+let rerunRequested = false;
+let started = false;
+
+function schedule(delayMs: number) {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(run, Math.max(0, Math.min(delayMs, MAX_SLEEP_MS)));
+  // Never keep the process alive just for cleanup
+  timer.unref();
+}
+
+async function run() {
+  timer = null;
+  if (running) {
+    rerunRequested = true;
+    return;
+  }
+  running = true;
+
+  try {
+    const result = await processStorageDeletions();
+    if (result.deleted > 0 || result.failed > 0) {
+      console.log(`[StorageCleanup] Deleted ${result.deleted} file(s), ${result.failed} failed`);
+    }
+
+    // Due entries stay due while storage is unconfigured; just poll
+    const next = isStorageConfigured() ? await db.getNextStorageDeletionTime(MAX_DELETE_ATTEMPTS) : undefined;
+    schedule(next ? next.getTime() - Date.now() : MAX_SLEEP_MS);
+  } catch (error) {
+    console.error("[StorageCleanup] Run failed:", error);
+    schedule(RETRY_BASE_MS);
+  } finally {
+    running = false;
+    if (rerunRequested) {
+      rerunRequested = false;
+      schedule(0);
+    }
+  }
+}
+
+/** Start the worker. Runs immediately to pick up anything queued before a restart. */
+export function startStorageCleanup() {
+  if (started) return;
+  started = true;
+  console.log("[StorageCleanup] Started");
+  schedule(0);
+}
+
+/** Process the queue now, after a mutation committed new deletions. */
+export function scheduleStorageCleanup() {
+  if (!started) return;
+  schedule(0);
+}
+
+// ============================================================================
+// Orphan Sweep
+// ============================================================================
+
+export type OrphanedFile = StoredObject & { url: string };
+
+/** Objects nothing references that are old enough not to be pending uploads. */
+export function selectOrphans(objects: StoredObject[], referenced: Set<string>, now: Date = new Date()) {
+  return objects.filter(
+    object => !referenced.has(object.key) && now.getTime() - object.lastModified.getTime() >= ORPHAN_GRACE_MS
+  );
+}
+
+/** List orphaned uploads under the upload prefixes, largest first. */
+export async function findOrphans(): Promise<OrphanedFile[]> {
+  const referenced = await db.getReferencedStorageKeys({ includeLibrary: true });
+  const objects = (
+    await Promise.all(UPLOAD_KINDS.map(kind => storageList(`${UPLOAD_RULES[kind].prefix}/`)))
+  ).flat();
+
+  return selectOrphans(objects, referenced)
+    .sort((a, b) => b.size - a.size)
+    .map(object => ({ ...object, url: getPublicUrl(object.key) }));
+}
+
+/**
+ * Delete the given orphans and their variants. The sweep is re-run first so
+ * a key that gained a reference since the list was shown is left alone.
+ */
+export async function purgeOrphans(keys: string[]) {
+  const orphans = await findOrphans();
+  const orphanKeys = new Set(orphans.map(orphan => orphan.key));
+  const purged: string[] = [];
+  const failed: string[] = [];
+  for (const key of keys) {
+    if (!orphanKeys.has(key)) continue;
+    try {
+      // Variants are unreferenced once their original is, so they are in the sweep too
+      for (const variant of orphans.filter(orphan => isVariantKeyOf(orphan.key, key))) {
+        await storageDelete(variant.key);
+        orphanKeys.delete(variant.key);
+      }
+      await storageDelete(key);
+      orphanKeys.delete(key);
+      purged.push(key);
+    } catch (error) {
+      console.error(`[StorageCleanup] Failed to purge ${key}:`, error);
+      failed.push(key);
+    }
+  }
+  await db.deleteImageVariantRecords(purged);
+  await db.deleteAssetRecords(purged);
+  return { purged: purged.length, failed: failed.length, skipped: keys.length - purged.length - failed.length };
+}
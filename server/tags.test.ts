@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { normalizeTagNames, parseTagInput } from "../shared/tags";
+
+describe("normalizeTagNames", () => {
+  it("trims, collapses whitespace and drops empty names", () => {
+    expect(normalizeTagNames(["  street   photography ", "", "   "])).toEqual(["street photography"]);
+  });
+
+  it("removes case-insensitive duplicates, keeping the first spelling", () => {
+    expect(normalizeTagNames(["Travel", "travel", "TRAVEL", "Italy"])).toEqual(["Travel", "Italy"]);
+  });
+});
+
+describe("parseTagInput", () => {
+  it("splits on ASCII and full-width commas", () => {
+    expect(parseTagInput("art, 建筑，history,")).toEqual(["art", "建筑", "history"]);
+  });
+});
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createUploadKey, createUploadUrl, isUploadKey, readUpload, sanitizeFilename, statUpload, uploadFilename } from "./uploads";
+import { checkUpload } from "../shared/uploads";
+import * as storage from "./storage";
+
+// Stand in for the bucket: one stored object per test
+vi.mock("./storage", () => ({
+  getPresignedUploadUrl: vi.fn(async (key: string) => ({
+    key,
+    uploadUrl: `https://bucket.test/${key}?signed`,
+    publicUrl: `https://cdn.test/${key}`,
+  })),
+  storageRead: vi.fn(),
+  storageHead: vi.fn(),
+  storageDelete: vi.fn(async () => {}),
+}));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("checkUpload", () => {
+  it("accepts allowed types within the size limit", () => {
+    expect(checkUpload("image", "image/jpeg", 1024)).toBeNull();
+    expect(checkUpload("image", "IMAGE/PNG", 1024)).toBeNull();
+    expect(checkUpload("pdf", "application/pdf", 20 * 1024 * 1024)).toBeNull();
+  });
+
+  it("rejects other types, empty files and oversized files", () => {
+    expect(checkUpload("image", "application/pdf", 1024)).toMatch(/Unsupported image type/);
+    expect(checkUpload("image", "image/svg+xml", 1024)).toMatch(/Unsupported image type/);
+    expect(checkUpload("pdf", "", 1024)).toMatch(/unknown/);
+    expect(checkUpload("image", "image/jpeg", 0)).toBe("File is empty");
+    expect(checkUpload("image", "image/jpeg", 11 * 1024 * 1024)).toBe("File is larger than 10MB");
+  });
+});
+
+describe("upload keys", () => {
+  it("keeps a readable, URL-safe file name", () => {
+    expect(sanitizeFilename("Summer in Kyoto (1).JPG")).toBe("Summer-in-Kyoto-1-.JPG");
+    expect(sanitizeFilename("../../etc/passwd")).toBe("passwd");
+    expect(sanitizeFilename("照片.jpg")).toBe("file.jpg");
+    expect(sanitizeFilename("东京 夜景.JPEG")).toBe("file.JPEG");
+    expect(sanitizeFilename("照片")).toBe("file");
+    expect(sanitizeFilename(`${"a".repeat(120)}.pdf`)).toBe(`${"a".repeat(96)}.pdf`);
+    expect(sanitizeFilename("")).toBe("file");
+  });
+
+  it("only recognises keys issued for the same kind", () => {
+    const key = createUploadKey("image", "photo.jpg");
+    expect(key).toMatch(/^images\/[\w-]+-photo\.jpg$/);
+    expect(isUploadKey("image", key)).toBe(true);
+    expect(isUploadKey("pdf", key)).toBe(false);
+    expect(isUploadKey("image", "images/abc-photo.w960.avif")).toBe(true);
+    expect(isUploadKey("image", "images/nested/photo.jpg")).toBe(false);
+    expect(isUploadKey("image", "backups/db.sql")).toBe(false);
+  });
+
+  it("recovers the file name from a key", () => {
+    expect(uploadFilename(createUploadKey("pdf", "Thesis draft.pdf"))).toBe("Thesis-draft.pdf");
+    expect(uploadFilename("images/legacy.jpg")).toBe("legacy.jpg");
+  });
+});
+
+describe("createUploadUrl", () => {
+  it("signs the declared type and size", async () => {
+    const { key, uploadUrl } = await createUploadUrl("pdf", "paper.pdf", "application/pdf", 2048);
+    expect(key).toMatch(/^pdfs\//);
+    expect(uploadUrl).toContain(key);
+    expect(storage.getPresignedUploadUrl).toHaveBeenCalledWith(key, "application/pdf", 900, 2048);
+  });
+
+  it("refuses files that break the rules before signing", async () => {
+    await expect(createUploadUrl("image", "notes.txt", "text/plain", 10)).rejects.toThrow(/Unsupported/);
+    expect(storage.getPresignedUploadUrl).not.toHaveBeenCalled();
+  });
+});
+
+describe("readUpload", () => {
+  it("returns the stored bytes and type", async () => {
+    vi.mocked(storage.storageRead).mockResolvedValueOnce({
+      key: "images/abc-photo.jpg",
+      data: Buffer.from("jpeg"),
+      contentType: "image/jpeg",
+    });
+    const upload = await readUpload("image", "images/abc-photo.jpg");
+    expect(upload.contentType).toBe("image/jpeg");
+    expect(upload.data.toString()).toBe("jpeg");
+  });
+
+  it("deletes an object whose stored type does not match", async () => {
+    vi.mocked(storage.storageRead).mockResolvedValueOnce({
+      key: "images/abc-photo.jpg",
+      data: Buffer.from("<html>"),
+      contentType: "text/html",
+    });
+    await expect(readUpload("image", "images/abc-photo.jpg")).rejects.toThrow(/Unsupported/);
+    expect(storage.storageDelete).toHaveBeenCalledWith("images/abc-photo.jpg");
+  });
+
+  it("refuses keys outside the kind's prefix without touching storage", async () => {
+    await expect(readUpload("pdf", "images/abc-photo.jpg")).rejects.toThrow(/Not a pdf upload key/);
+    expect(storage.storageRead).not.toHaveBeenCalled();
+  });
+});
+
+describe("statUpload", () => {
+  it("checks a PDF from its stored size and type without reading it", async () => {
+    vi.mocked(storage.storageHead).mockResolvedValueOnce({
+      key: "pdfs/abc-paper.pdf",
+      size: 40 * 1024 * 1024,
+      contentType: "application/pdf",
+    });
+    expect(await statUpload("pdf", "pdfs/abc-paper.pdf")).toEqual({
+      key: "pdfs/abc-paper.pdf",
+      size: 40 * 1024 * 1024,
+      contentType: "application/pdf",
+    });
+    expect(storage.storageRead).not.toHaveBeenCalled();
+  });
+
+  it("deletes an object that is too large", async () => {
+    vi.mocked(storage.storageHead).mockResolvedValueOnce({
+      key: "pdfs/abc-paper.pdf",
+      size: 80 * 1024 * 1024,
+      contentType: "application/pdf",
+    });
+    await expect(statUpload("pdf", "pdfs/abc-paper.pdf")).rejects.toThrow(/larger than/);
+    expect(storage.storageDelete).toHaveBeenCalledWith("pdfs/abc-paper.pdf");
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Direct Uploads
+ *
+ * Server half of the presigned upload flow: issue a key and PUT URL for a
+ * file the browser is about to send, then read the stored object back when
+ * the browser confirms, checking it against the same rules before anything
+ * is derived from it. Only images are downloaded for that; other files are
+ * checked from their stored size and type.
+ */
+
+import { nanoid } from "nanoid";
+import { UPLOAD_RULES, checkUpload, type UploadKind } from "@shared/uploads";
+import { getPresignedUploadUrl, storageDelete, storageHead, storageRead } from "./storage";
+
+// Presigned URLs only need to outlive one upload
+const UPLOAD_URL_EXPIRY_SECONDS = 15 * 60;
+
+/**
+ * Keep the original name readable in the key while making it safe in a URL
+ * path. The extension always survives, since the disk driver reads the
+ * content type from it; a name with nothing URL-safe left becomes "file".
+ */
+export function sanitizeFilename(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() ?? "";
+  const extension = /\.\w{1,10}$/.exec(base)?.[0] ?? "";
+  const stem = base
+    .slice(0, base.length - extension.length)
+    .replace(/[^\w.-]+/g, "-")
+    .replace(/^[-.]+/, "")
+    .slice(-(100 - extension.length));
+  return `${stem || "file"}${extension}`;
+}
+
+export function createUploadKey(kind: UploadKind, filename: string): string {
+  return `${UPLOAD_RULES[kind].prefix}/${nanoid()}-${sanitizeFilename(filename)}`;
+}
+
+/** The sanitized original filename a key was created with. */
+export function uploadFilename(key: string): string {
+  const name = key.split("/").pop() ?? key;
+  return name.replace(/^[\w-]{21}-/, "") || name;
+}
+
+/** Whether `key` is one createUploadKey could have issued for `kind`. */
+export function isUploadKey(kind: UploadKind, key: string): boolean {
+  const prefix = `${UPLOAD_RULES[kind].prefix}/`;
+  return key.startsWith(prefix) && !key.slice(prefix.length).includes("/");
+}
+
+export async function createUploadUrl(kind: UploadKind, filename: string, contentType: string, size: number) {
+  const problem = checkUpload(kind, contentType, size);
+  if (problem) throw new Error(problem);
+
+  return await getPresignedUploadUrl(
+    createUploadKey(kind, filename),
+    contentType,
+    UPLOAD_URL_EXPIRY_SECONDS,
+    size
+  );
+}
+
+function assertUploadKey(kind: UploadKind, key: string) {
+  if (!isUploadKey(kind, key)) {
+    throw new Error(`Not a ${kind} upload key: ${key}`);
+  }
+}
+
+/**
+ * Throw if a stored object breaks the rules, deleting it first so it cannot
+ * be referenced later.
+ */
+async function rejectBrokenUpload(kind: UploadKind, key: string, contentType: string, size: number) {
+  const problem = checkUpload(kind, contentType, size);
+  if (problem) {
+    await storageDelete(key).catch(error => {
+      console.error("[Upload] Failed to delete rejected upload:", error);
+    });
+    throw new Error(problem);
+  }
+}
+
+/** Fetch an uploaded object for processing, e.g. an image to resize. */
+export async function readUpload(kind: UploadKind, key: string) {
+  assertUploadKey(kind, key);
+  const { data, contentType = "" } = await storageRead(key);
+  await rejectBrokenUpload(kind, key, contentType, data.length);
+  return { key, data, contentType };
+}
+
+/** Check an uploaded object from its size and type alone, without downloading it. */
+export async function statUpload(kind: UploadKind, key: string) {
+  assertUploadKey(kind, key);
+  const { size, contentType = "" } = await storageHead(key);
+  await rejectBrokenUpload(kind, key, contentType, size);
+  return { key, size, contentType };
+}
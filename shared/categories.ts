@@ -0,0 +1,15 @@
+/**
+ * Category Types
+ *
+ * Shared by the server (attaching categories to content rows) and the
+ * public pages that link to category landing pages.
+ */
+
+export type CategorySection = "photo" | "essay" | "paper";
+
+/** A category as attached to photos, essays and papers. */
+export type CategoryRef = {
+  id: number;
+  name: string;
+  slug: string;
+};
@@ -0,0 +1,63 @@
+/**
+ * Responsive Image Variants
+ *
+ * Uploaded images are re-encoded at a few widths in modern formats and
+ * stored next to the original. The server records them per source key; the
+ * public pages turn them into `srcset` lists so small screens download
+ * small files.
+ */
+
+/** Target widths in pixels; images are never enlarged past their original width. */
+export const IMAGE_VARIANT_WIDTHS = [480, 960, 1600, 2400] as const;
+
+/** Listed in order of preference: browsers pick the first `<source>` they support. */
+export const IMAGE_VARIANT_FORMATS = ["avif", "webp"] as const;
+
+export type ImageVariantFormat = (typeof IMAGE_VARIANT_FORMATS)[number];
+
+export type ImageVariant = {
+  format: ImageVariantFormat;
+  width: number;
+  height: number;
+  url: string;
+};
+
+export const IMAGE_VARIANT_MIME_TYPES: Record<ImageVariantFormat, string> = {
+  avif: "image/avif",
+  webp: "image/webp",
+};
+
+/** `srcset` value for one format, smallest first; empty when there are none. */
+export function buildSrcSet(variants: ImageVariant[], format: ImageVariantFormat): string {
+  return variants
+    .filter(variant => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map(variant => `${variant.url} ${variant.width}w`)
+    .join(", ");
+}
+
+/**
+ * The smallest variant at least `minWidth` wide (or the largest available),
+ * for places that cannot use `srcset` such as CSS backgrounds.
+ */
+export function pickVariant(
+  variants: ImageVariant[],
+  minWidth: number,
+  format: ImageVariantFormat = "webp"
+): ImageVariant | undefined {
+  const candidates = variants.filter(variant => variant.format === format).sort((a, b) => a.width - b.width);
+  return candidates.find(variant => variant.width >= minWidth) ?? candidates[candidates.length - 1];
+}
+
+/** What upload.image reports about an image for the content row to store. */
+export type ImageInfo = {
+  width: number;
+  height: number;
+  /** Tiny blurred WebP preview as a data URI */
+  placeholder: string;
+};
+
+/** CSS `aspect-ratio` value, or undefined when the dimensions are unknown. */
+export function aspectRatio(width: number | null | undefined, height: number | null | undefined): string | undefined {
+  return width && height ? `${width} / ${height}` : undefined;
+}
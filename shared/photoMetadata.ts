@@ -0,0 +1,113 @@
+/**
+ * Photo Metadata
+ *
+ * Shape of the camera metadata the server reads from uploaded images, the
+ * free-text "Camera Settings" line it is formatted into on the photo form,
+ * the parser that turns that line back into structured exposure columns,
+ * and the focal-length buckets the public photo filters use.
+ */
+
+export interface PhotoMetadata {
+  camera?: string;
+  lens?: string;
+  /** Millimetres, as recorded (not 35mm-equivalent) */
+  focalLength?: number;
+  /** f-number */
+  aperture?: number;
+  /** Seconds */
+  exposureTime?: number;
+  iso?: number;
+  /** Local capture time as "YYYY-MM-DDTHH:mm:ss", with the UTC offset when the camera recorded one */
+  takenAt?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+function trimNumber(value: number): string {
+  return String(Number(value.toFixed(1)));
+}
+
+/** 1/250s for fast shutters, 2s / 0.5s style for long exposures. */
+export function formatShutterSpeed(seconds: number): string {
+  if (seconds >= 0.3) return `${trimNumber(seconds)}s`;
+  return `1/${Math.round(1 / seconds)}s`;
+}
+
+/** "23mm, f/2.8, 1/250s, ISO 400", skipping whatever is unknown. */
+export function formatExposureSettings(metadata: PhotoMetadata): string {
+  const parts: string[] = [];
+  if (metadata.focalLength) parts.push(`${trimNumber(metadata.focalLength)}mm`);
+  if (metadata.aperture) parts.push(`f/${trimNumber(metadata.aperture)}`);
+  if (metadata.exposureTime) parts.push(formatShutterSpeed(metadata.exposureTime));
+  if (metadata.iso) parts.push(`ISO ${metadata.iso}`);
+  return parts.join(", ");
+}
+
+// ============================================================================
+// Structured Exposure
+// ============================================================================
+
+/** The exposure columns stored alongside the free-text settings line. */
+export type ExposureValues = {
+  aperture: number | null;
+  exposureTime: number | null;
+  iso: number | null;
+  focalLength: number | null;
+};
+
+function matchNumber(input: string, pattern: RegExp): number | null {
+  const match = input.match(pattern);
+  if (!match) return null;
+  const value = Number(match[1]);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Parse a settings line such as "23mm, f/2.8, 1/250s, ISO 400" or
+ * "f8 2s ISO 100" into structured values. Anything not recognised is null.
+ */
+export function parseExposureSettings(settings: string | null | undefined): ExposureValues {
+  const input = settings ?? "";
+  const fraction = matchNumber(input, /\b1\/(\d+(?:\.\d+)?)/);
+  return {
+    aperture: matchNumber(input, /\bf\/?(\d+(?:\.\d+)?)/i),
+    exposureTime: fraction
+      ? 1 / fraction
+      : matchNumber(input, /(?<![\/\d.])(\d+(?:\.\d+)?)\s*(?:s|sec|")(?![a-z])/i),
+    iso: matchNumber(input, /\bISO\s*(\d+)/i),
+    focalLength: matchNumber(input, /(\d+(?:\.\d+)?)\s*mm\b/i),
+  };
+}
+
+// ============================================================================
+// Focal Ranges
+// ============================================================================
+
+export const FOCAL_RANGE_IDS = ["ultra-wide", "wide", "standard", "telephoto", "super-telephoto"] as const;
+
+export type FocalRangeId = (typeof FOCAL_RANGE_IDS)[number];
+
+export type FocalRange = {
+  id: FocalRangeId;
+  label: string;
+  /** Inclusive, in millimetres */
+  min: number;
+  /** Exclusive; open-ended when absent */
+  max?: number;
+};
+
+export const FOCAL_RANGES: FocalRange[] = [
+  { id: "ultra-wide", label: "Ultra-wide (<24mm)", min: 0, max: 24 },
+  { id: "wide", label: "Wide (24–35mm)", min: 24, max: 36 },
+  { id: "standard", label: "Standard (36–70mm)", min: 36, max: 71 },
+  { id: "telephoto", label: "Telephoto (71–200mm)", min: 71, max: 201 },
+  { id: "super-telephoto", label: "Super telephoto (>200mm)", min: 201 },
+];
+
+export function getFocalRange(id: FocalRangeId): FocalRange {
+  return FOCAL_RANGES.find(range => range.id === id)!;
+}
+
+export function isInFocalRange(focalLength: number, range: FocalRange): boolean {
+  return focalLength >= range.min && (range.max === undefined || focalLength < range.max);
+}
@@ -0,0 +1,15 @@
+/**
+ * Site Settings
+ *
+ * Keys of the site_settings table that the admin edits, and the value each
+ * falls back to until it has been saved once.
+ */
+
+export const SITE_SETTING_KEYS = ["robots_txt"] as const;
+
+export type SiteSettingKey = (typeof SITE_SETTING_KEYS)[number];
+
+export const SITE_SETTING_DEFAULTS: Record<SiteSettingKey, string> = {
+  // Crawl everything public; the admin and private previews stay out of search results
+  robots_txt: ["User-agent: *", "Disallow: /admin", "Disallow: /preview/"].join("\n"),
+};
@@ -0,0 +1,29 @@
+/**
+ * Slug Utilities
+ *
+ * Shared by the server (slug generation on save) and the admin forms
+ * (live slug preview), so both sides normalize permalinks identically.
+ */
+
+export const MAX_SLUG_LENGTH = 200;
+
+/**
+ * Turn an arbitrary title into a URL-safe slug.
+ *
+ * Unicode letters and digits are kept so Chinese titles still produce a
+ * readable permalink; everything else collapses into single hyphens.
+ * Decomposition can make the slug longer than the title (Hangul becomes
+ * jamo), so the cap applies after it.
+ */
+export function slugify(input: string, maxLength = MAX_SLUG_LENGTH): string {
+  const slug = input
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, maxLength)
+    .replace(/-+$/, "");
+
+  return slug || "untitled";
+}
@@ -0,0 +1,39 @@
+/**
+ * Tag Utilities
+ *
+ * Shared by the server (saving tags) and the admin tag input, so both
+ * sides agree on when two tag names are the same tag.
+ */
+
+export const MAX_TAG_LENGTH = 100;
+
+/** A tag as attached to photos, essays and papers. */
+export type TagRef = {
+  name: string;
+  slug: string;
+};
+
+/**
+ * Trim and collapse whitespace, drop empty names and remove duplicates.
+ * Names compare case-insensitively (like the database collation); the
+ * first spelling wins.
+ */
+export function normalizeTagNames(names: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const raw of names) {
+    const name = raw.replace(/\s+/g, " ").trim().slice(0, MAX_TAG_LENGTH).trim();
+    const key = name.toLowerCase();
+    if (!name || seen.has(key)) continue;
+    seen.add(key);
+    result.push(name);
+  }
+
+  return result;
+}
+
+/** Split text typed or pasted into a tag field on commas (ASCII or full-width). */
+export function parseTagInput(input: string): string[] {
+  return normalizeTagNames(input.split(/[,，]/));
+}
@@ -0,0 +1,60 @@
+/**
+ * Direct Upload Rules
+ *
+ * Files go straight from the browser to the bucket through a presigned PUT
+ * URL. The client checks these rules before asking for a URL, the server
+ * checks them again when signing and once more against the stored object
+ * when the upload is confirmed.
+ */
+
+export const UPLOAD_KINDS = ["image", "pdf"] as const;
+
+export type UploadKind = (typeof UPLOAD_KINDS)[number];
+
+export type UploadRule = {
+  /** Storage key prefix, without slashes */
+  prefix: string;
+  maxBytes: number;
+  contentTypes: readonly string[];
+};
+
+export const UPLOAD_RULES: Record<UploadKind, UploadRule> = {
+  image: {
+    prefix: "images",
+    maxBytes: 10 * 1024 * 1024,
+    contentTypes: [
+      "image/jpeg",
+      "image/png",
+      "image/webp",
+      "image/avif",
+      "image/gif",
+      "image/tiff",
+      // Not SVG: it can carry script, which would run as the site wherever the file is served from its origin
+    ],
+  },
+  pdf: {
+    prefix: "pdfs",
+    maxBytes: 50 * 1024 * 1024,
+    contentTypes: ["application/pdf"],
+  },
+};
+
+/** Size limit in whole megabytes, for messages. */
+export function maxUploadMegabytes(kind: UploadKind): number {
+  return Math.round(UPLOAD_RULES[kind].maxBytes / 1024 / 1024);
+}
+
+/** Why a file may not be uploaded as `kind`, or null when it may. */
+export function checkUpload(kind: UploadKind, contentType: string, size: number): string | null {
+  const rule = UPLOAD_RULES[kind];
+  if (!rule.contentTypes.includes(contentType.toLowerCase())) {
+    return `Unsupported ${kind} type: ${contentType || "unknown"}`;
+  }
+  if (size <= 0) {
+    return "File is empty";
+  }
+  if (size > rule.maxBytes) {
+    return `File is larger than ${maxUploadMegabytes(kind)}MB`;
+  }
+  return null;
+}